@@ -1,43 +1,147 @@
 /**
  * AudioHub - Multi-client audio distribution
- * Receives PCM from USB capture, broadcasts to WebSocket clients + optional file recording
+ * Receives PCM from USB capture, broadcasts to WebSocket clients + optional WAV/FLAC recording
+ * Clients get raw PCM unless they asked for Opus when joining, optionally with capture timestamps;
+ * PCM clients may ask for another sample rate, channel count or sample format (converted once per format)
+ * PCM clients can start from a prebuffer of recent audio; buffer reports drive their jitter target
+ * Levels are metered on the way through and sent as control messages (~20 Hz) to clients that asked;
+ * clipping is logged and announced to every client
  * SOLID: Single responsibility - distribution only
  */
 
 import type { WebSocket } from "ws";
 import { RingBuffer } from "./ring-buffer";
-import { createWriteStream, type WriteStream } from "fs";
+import { createRecordingWriter, type PcmFormat, type RecordingFormat, type RecordingSummary, type RecordingWriter } from "./recordings";
+import { OpusEncoderPool, OPUS_SAMPLE_RATE, OPUS_CHANNELS, type OpusSettings } from "./opus";
+import { PcmConverter, PcmConverterPool, isNativeAudioFormat, type AudioFormat } from "./pcm-convert";
+import { nowMicros, clockSync, DEFAULT_PLAYOUT_DELAY_MS } from "../server/clock";
+import { JitterController, MAX_BUFFER_MS, DEFAULT_LATENCY_MS, type JitterStats } from "./jitter";
+import { LevelMeter, LEVELS_INTERVAL_MS, type AudioLevels } from "./levels";
+import { AUDIO_CONSTANTS } from "./native-capture";
 
 // Message type prefixes for WebSocket framing
 const MSG_AUDIO = 0x00;
 const MSG_CONTROL = 0x01;
+const MSG_OPUS = 0x02; // One Opus packet per message
+const MSG_TIMESTAMPED = 0x80; // Type flag: u64 BE capture time (µs, media clock) follows the type byte
+
+const BYTES_PER_FRAME = (AUDIO_CONSTANTS.BITS_PER_SAMPLE / 8) * AUDIO_CONSTANTS.CHANNELS;
+const PREBUFFER_MAX_AGE_MS = 500; // Older buffered audio means capture stopped: no prebuffer
+const CLIP_EVENT_INTERVAL_MS = 1000; // At most one clip event (log + control message) per second
+
+/**
+ * Layout of the PCM the hub receives (and records)
+ */
+export const CAPTURE_FORMAT: PcmFormat = {
+  sampleRate: AUDIO_CONSTANTS.SAMPLE_RATE,
+  channels: AUDIO_CONSTANTS.CHANNELS,
+  bitsPerSample: AUDIO_CONSTANTS.BITS_PER_SAMPLE,
+};
+
+/**
+ * What a client asked for when joining
+ */
+export interface AudioClientOptions {
+  opus?: OpusSettings;  // Stream Opus with these settings instead of raw PCM
+  format?: AudioFormat; // PCM in this format instead of the capture format (ignored with opus)
+  timestamps?: boolean; // Prefix audio messages with their capture time
+  prebufferMs?: number; // Chosen latency: PCM clients start with this much recent audio
+  levels?: boolean;     // Receive level meter readings (control {type:"levels"}, ~20 Hz)
+}
+
+/**
+ * Latest meter reading (/api/audio/levels)
+ */
+export interface AudioLevelsStatus extends AudioLevels {
+  active: boolean;           // Audio is flowing (otherwise the levels are the last ones seen)
+  clipEvents: number;        // Clip events since start (at most one per second)
+  lastClipAt: number | null; // Unix ms
+}
+
+/**
+ * Per-client buffering, as reported by the client
+ */
+export interface AudioClientBuffer extends JitterStats {
+  codec: "pcm" | "opus";
+}
 
 export class AudioHub {
   private clients: Set<WebSocket> = new Set();
+  private opusClients: Map<WebSocket, string> = new Map(); // Client -> encoder key
+  private timestampClients: Set<WebSocket> = new Set();
+  private levelClients: Set<WebSocket> = new Set();
+  private opusPool = new OpusEncoderPool();
+  private formatClients: Map<WebSocket, string> = new Map(); // Client -> converter key
+  private converters = new PcmConverterPool();
+  private jitter: Map<WebSocket, JitterController> = new Map();
+  private playoutDelayMs: number;
   private ringBuffer: RingBuffer;
-  private fileStream: WriteStream | null = null;
-  private recording = false;
+  private recorder: RecordingWriter | null = null;
+  private recordingSkip = 0; // Bytes to drop so the recording starts on a frame boundary
   private audioPacketCount = 0;
   private lastLogTime = 0;
   private totalPackets = 0;
   private lastChunk: Buffer | null = null;
-
-  constructor(bufferSize = 256 * 1024) {
+  private lastAudioAt = 0;  // Date.now() of the last chunk
+  private lastAudioEnd = 0; // Capture time just past the last chunk (µs)
+  private streamBytes = 0;  // Bytes received so far, to keep the prebuffer frame aligned
+  private meter = new LevelMeter(AUDIO_CONSTANTS.SAMPLE_RATE, AUDIO_CONSTANTS.CHANNELS);
+  private levels: AudioLevels = this.meter.read();
+  private lastLevelsAt = 0;
+  private clipEvents = 0;
+  private lastClipAt: number | null = null;
+
+  constructor(bufferSize = 256 * 1024, playoutDelayMs = DEFAULT_PLAYOUT_DELAY_MS) {
     this.ringBuffer = new RingBuffer(bufferSize, { allowOverwrite: true });
+    this.playoutDelayMs = playoutDelayMs;
   }
 
   /**
    * Add WebSocket client
    */
-  addClient(ws: WebSocket): void {
+  addClient(ws: WebSocket, options: AudioClientOptions = {}): void {
+    const { opus, format, timestamps, prebufferMs, levels } = options;
     this.clients.add(ws);
+    if (timestamps) this.timestampClients.add(ws);
+    if (levels) this.levelClients.add(ws);
+    this.jitter.set(ws, new JitterController(prebufferMs ?? DEFAULT_LATENCY_MS));
+
+    if (opus) {
+      this.opusClients.set(ws, this.opusPool.acquire(opus));
+      // Tell the client what it is getting before the first packet
+      this.sendControl(ws, {
+        format: { codec: "opus", sampleRate: OPUS_SAMPLE_RATE, channels: OPUS_CHANNELS, ...opus },
+      });
+    } else {
+      if (format) {
+        if (!isNativeAudioFormat(format)) this.formatClients.set(ws, this.converters.acquire(format));
+        this.sendControl(ws, { format: { codec: "pcm", ...format } });
+      }
+      if (prebufferMs) this.sendPrebuffer(ws, prebufferMs, !!timestamps, format);
+    }
+
+    // Clock sync: {"type":"clock","t0":<client time>} → control {type:"clock", t0, serverTime, playoutDelayMs}
+    // Buffer report: {"type":"report","bufferMs","underruns","latencyMs"} → control {type:"buffer", targetMs} on change
+    ws.on("message", (raw) => {
+      try {
+        const msg = JSON.parse(raw.toString());
+        if (msg.type === "clock" && typeof msg.t0 === "number") {
+          this.sendControl(ws, clockSync(msg.t0, this.playoutDelayMs));
+        } else if (msg.type === "report") {
+          const targetMs = this.jitter.get(ws)?.report(msg) ?? null;
+          if (targetMs !== null) this.sendControl(ws, { type: "buffer", targetMs });
+        }
+      } catch {
+        // Ignore malformed messages
+      }
+    });
 
     ws.on("close", () => {
-      this.clients.delete(ws);
+      this.removeClient(ws);
     });
 
     ws.on("error", () => {
-      this.clients.delete(ws);
+      this.removeClient(ws);
     });
   }
 
@@ -46,6 +150,19 @@ export class AudioHub {
    */
   removeClient(ws: WebSocket): void {
     this.clients.delete(ws);
+    this.timestampClients.delete(ws);
+    this.levelClients.delete(ws);
+    this.jitter.delete(ws);
+    const key = this.opusClients.get(ws);
+    if (key !== undefined) {
+      this.opusClients.delete(ws);
+      this.opusPool.release(key);
+    }
+    const formatKey = this.formatClients.get(ws);
+    if (formatKey !== undefined) {
+      this.formatClients.delete(ws);
+      this.converters.release(formatKey);
+    }
   }
 
   /**
@@ -59,23 +176,31 @@ export class AudioHub {
    * Is currently recording to file
    */
   get isRecording(): boolean {
-    return this.recording;
+    return this.recorder !== null;
   }
 
   /**
    * Handle incoming audio data from USB capture
    * Broadcasts to all clients + writes to file if recording
+   * @param timestamp Capture time of the first sample (µs, media clock)
    */
-  onAudioData(data: Buffer): void {
-    // Store in ring buffer (for potential late joiners/catchup)
+  onAudioData(data: Buffer, timestamp = nowMicros()): void {
+    // Store in ring buffer (prebuffer for joining clients, instant replay)
     this.ringBuffer.push(new Uint8Array(data));
 
     // Store last chunk for debug analysis
     this.lastChunk = data;
     this.totalPackets++;
+    this.lastAudioAt = Date.now();
+    this.lastAudioEnd = timestamp + bytesToMicros(data.length);
+    this.streamBytes += data.length;
 
     // Frame: [0x00] + PCM data
     const framed = Buffer.concat([Buffer.from([MSG_AUDIO]), data]);
+    // Opus: [0x02] + packet, for each encoder in use
+    const opusPackets = this.opusPool.size > 0 ? this.opusPool.encode(data, timestamp) : null;
+    // Other PCM formats: [0x00] + converted PCM, for each converter in use
+    const converted = this.converters.size > 0 ? this.converters.convert(data, timestamp) : null;
 
     // Log audio broadcast stats every 5 seconds
     this.audioPacketCount++;
@@ -94,7 +219,25 @@ export class AudioHub {
         continue;
       }
       try {
-        client.send(framed);
+        const key = this.opusClients.get(client);
+        const stamped = this.timestampClients.has(client);
+        const formatKey = this.formatClients.get(client);
+        if (formatKey !== undefined) {
+          const chunk = converted?.get(formatKey);
+          if (chunk && chunk.data.length > 0) {
+            client.send(stamped
+              ? timestamped(MSG_AUDIO, chunk.timestamp, chunk.data)
+              : Buffer.concat([Buffer.from([MSG_AUDIO]), chunk.data]));
+          }
+        } else if (key === undefined) {
+          client.send(stamped ? timestamped(MSG_AUDIO, timestamp, data) : framed);
+        } else {
+          for (const packet of opusPackets?.get(key) ?? []) {
+            client.send(stamped
+              ? timestamped(MSG_OPUS, packet.timestamp, packet.data)
+              : Buffer.concat([Buffer.from([MSG_OPUS]), packet.data]));
+          }
+        }
       } catch {
         dead.push(client);
       }
@@ -102,15 +245,53 @@ export class AudioHub {
 
     // Remove dead clients
     for (const client of dead) {
-      this.clients.delete(client);
+      this.removeClient(client);
     }
 
     // Write to file if recording
-    if (this.recording && this.fileStream) {
-      this.fileStream.write(data);
+    if (this.recorder) {
+      const skip = Math.min(this.recordingSkip, data.length);
+      this.recordingSkip -= skip;
+      if (skip < data.length) this.recorder.write(skip > 0 ? data.subarray(skip) : data);
+    }
+
+    // Meters (after the audio, so a level update never delays it)
+    this.meter.process(data);
+    if (now - this.lastLevelsAt >= LEVELS_INTERVAL_MS) this.publishLevels(now);
+  }
+
+  /**
+   * Take a meter reading: control {type:"levels"} to metering clients, and on clipping a log
+   * line plus control {type:"clip", clips, at} to everyone
+   */
+  private publishLevels(now: number): void {
+    this.levels = this.meter.read();
+    this.lastLevelsAt = now;
+    for (const client of this.levelClients) {
+      if (client.readyState === client.OPEN) this.sendControl(client, { type: "levels", ...this.levels });
+    }
+
+    if (this.levels.clipping && (this.lastClipAt === null || now - this.lastClipAt >= CLIP_EVENT_INTERVAL_MS)) {
+      const clips = this.levels.channels.map((channel) => channel.clips);
+      this.clipEvents++;
+      this.lastClipAt = now;
+      console.warn(`[Audio] M8 output clipping (clipped samples per channel: ${clips.join("/")})`);
+      this.broadcastControl({ type: "clip", clips, at: now });
     }
   }
 
+  /**
+   * Latest levels (refreshed ~20 Hz while audio flows)
+   */
+  getLevels(): AudioLevelsStatus {
+    return {
+      ...this.levels,
+      active: Date.now() - this.lastAudioAt <= PREBUFFER_MAX_AGE_MS,
+      clipEvents: this.clipEvents,
+      lastClipAt: this.lastClipAt,
+    };
+  }
+
   /**
    * Broadcast error/control message to all clients
    */
@@ -129,6 +310,73 @@ export class AudioHub {
     }
   }
 
+  /**
+   * Start a PCM client with the newest buffered audio, so it plays at once
+   * instead of waiting to fill its latency from live chunks
+   */
+  private sendPrebuffer(ws: WebSocket, prebufferMs: number, stamped: boolean, format?: AudioFormat): void {
+    if (Date.now() - this.lastAudioAt > PREBUFFER_MAX_AGE_MS) return;
+
+    const latest = this.latestAudio((AUDIO_CONSTANTS.SAMPLE_RATE * Math.min(prebufferMs, MAX_BUFFER_MS)) / 1000);
+    if (!latest) return;
+    const start = this.lastAudioEnd - bytesToMicros(latest.length);
+    // Own converter: the shared one is mid-stream for the other clients
+    const data = format && !isNativeAudioFormat(format) ? new PcmConverter(format).convert(latest).data : latest;
+    try {
+      ws.send(stamped
+        ? timestamped(MSG_AUDIO, start, data)
+        : Buffer.concat([Buffer.from([MSG_AUDIO]), data]));
+    } catch {
+      // Ignore send errors
+    }
+  }
+
+  /**
+   * Newest buffered audio, up to `frames` sample frames, beginning on a frame boundary
+   * of the stream (chunks need not hold whole frames, so a partial one may end it)
+   */
+  private latestAudio(frames: number): Buffer | null {
+    const partial = this.streamBytes % BYTES_PER_FRAME;
+    const available = Math.floor((this.ringBuffer.length - partial) / BYTES_PER_FRAME);
+    const size = Math.min(Math.floor(frames), available) * BYTES_PER_FRAME + partial;
+    if (size < BYTES_PER_FRAME) return null;
+
+    const data = Buffer.alloc(size);
+    this.ringBuffer.peekLatest(data);
+    return data;
+  }
+
+  /**
+   * Longest instant replay the ring buffer holds (seconds)
+   */
+  get replaySeconds(): number {
+    return this.ringBuffer.capacity / BYTES_PER_FRAME / AUDIO_CONSTANTS.SAMPLE_RATE;
+  }
+
+  /**
+   * The last `seconds` of audio (instant replay) in whole sample frames
+   * @returns PCM and the wall time (Unix ms) of its first sample, null before any audio
+   */
+  getReplay(seconds: number): { pcm: Buffer; startedAt: number } | null {
+    const data = this.latestAudio(seconds * AUDIO_CONSTANTS.SAMPLE_RATE);
+    if (!data) return null;
+    return {
+      pcm: data.subarray(0, data.length - (this.streamBytes % BYTES_PER_FRAME)),
+      startedAt: this.lastAudioAt - Math.round(bytesToMicros(data.length) / 1000),
+    };
+  }
+
+  /**
+   * Send a control message to one client
+   */
+  private sendControl(ws: WebSocket, data: object): void {
+    try {
+      ws.send(Buffer.concat([Buffer.from([MSG_CONTROL]), Buffer.from(JSON.stringify(data))]));
+    } catch {
+      // Ignore send errors
+    }
+  }
+
   /**
    * Broadcast control message
    */
@@ -148,34 +396,27 @@ export class AudioHub {
   }
 
   /**
-   * Start recording to file
+   * Start recording to file (WAV or FLAC, headers finalized on stop)
    */
-  async startRecording(filePath: string): Promise<void> {
-    if (this.recording) {
+  async startRecording(filePath: string, format: RecordingFormat = "wav"): Promise<void> {
+    if (this.recorder) {
       await this.stopRecording();
     }
 
-    this.fileStream = createWriteStream(filePath);
-    this.recording = true;
+    this.recorder = createRecordingWriter(filePath, format, CAPTURE_FORMAT);
+    this.recordingSkip = (BYTES_PER_FRAME - (this.streamBytes % BYTES_PER_FRAME)) % BYTES_PER_FRAME;
   }
 
   /**
    * Stop recording
+   * @returns What was written, null if not recording
    */
-  async stopRecording(): Promise<void> {
-    if (!this.recording) return;
+  async stopRecording(): Promise<RecordingSummary | null> {
+    if (!this.recorder) return null;
 
-    this.recording = false;
-
-    if (this.fileStream) {
-      await new Promise<void>((resolve, reject) => {
-        this.fileStream!.end((err: Error | null) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-      this.fileStream = null;
-    }
+    const recorder = this.recorder;
+    this.recorder = null;
+    return recorder.close();
   }
 
   /**
@@ -196,6 +437,16 @@ export class AudioHub {
     };
   }
 
+  /**
+   * Buffering of each client, from its latest report
+   */
+  getClientBuffers(): AudioClientBuffer[] {
+    return Array.from(this.jitter, ([ws, controller]) => ({
+      codec: this.opusClients.has(ws) ? "opus" as const : "pcm" as const,
+      ...controller.getStats(),
+    }));
+  }
+
   /**
    * Get audio debug stats - analyze last chunk for signal presence
    */
@@ -207,6 +458,9 @@ export class AudioHub {
     maxValue: number;
     rms: number;
     clients: number;
+    opusClients: number;
+    formatClients: number;
+    buffers: AudioClientBuffer[];
     sampleValues: number[];
   } {
     if (!this.lastChunk || this.lastChunk.length === 0) {
@@ -218,6 +472,9 @@ export class AudioHub {
         maxValue: 0,
         rms: 0,
         clients: this.clients.size,
+        opusClients: this.opusClients.size,
+        formatClients: this.formatClients.size,
+        buffers: this.getClientBuffers(),
         sampleValues: [],
       };
     }
@@ -258,7 +515,27 @@ export class AudioHub {
       maxValue: max,
       rms: Math.round(rms * 100) / 100,
       clients: this.clients.size,
+      opusClients: this.opusClients.size,
+      formatClients: this.formatClients.size,
+      buffers: this.getClientBuffers(),
       sampleValues: samples.slice(0, 20), // First 20 samples for inspection
     };
   }
 }
+
+/**
+ * Duration of S16 stereo PCM in µs
+ */
+function bytesToMicros(bytes: number): number {
+  return Math.round((bytes / BYTES_PER_FRAME / AUDIO_CONSTANTS.SAMPLE_RATE) * 1e6);
+}
+
+/**
+ * Frame: [type | 0x80] + u64 BE capture time + payload
+ */
+function timestamped(type: number, timestamp: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(9);
+  header[0] = type | MSG_TIMESTAMPED;
+  header.writeBigUInt64BE(BigInt(Math.max(0, timestamp)), 1);
+  return Buffer.concat([header, payload]);
+}
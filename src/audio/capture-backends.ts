@@ -0,0 +1,293 @@
+/**
+ * Audio Capture Backends - backend selection with failover
+ * Single Responsibility: run the first working backend of a priority chain and move on when
+ * it errors, stalls (no data) or, if enabled, delivers nothing but digital silence
+ *
+ * Backends:
+ * - native:   m8-audio-capture (libusb, bypasses ALSA/PipeWire, may need root)
+ * - alsa:     arecord on the M8's snd-usb-audio device
+ * - pipewire: pw-record, arecord if PipeWire has no M8 node
+ * - file:     .raw files on a loop (tests/fixtures/audio), no hardware needed
+ */
+
+import { NativeLibusbCapture, type IAudioCapture, type AudioCaptureOptions } from "./native-capture";
+import { AlsaCapture } from "./alsa-capture";
+import { UsbAudioCapture } from "./usb-audio";
+import { FileLoopCapture } from "./file-capture";
+
+export type AudioBackendName = "native" | "alsa" | "pipewire" | "file";
+
+export const AUDIO_BACKEND_NAMES: AudioBackendName[] = ["native", "alsa", "pipewire", "file"];
+export const DEFAULT_AUDIO_BACKENDS: AudioBackendName[] = ["alsa", "native", "pipewire"];
+
+const DEFAULT_STALL_MS = 3000;     // No data this long: the backend is dead
+const WATCHDOG_INTERVAL_MS = 500;
+const RETRY_INTERVAL_MS = 5000;    // Retry the chain while no backend runs
+
+/**
+ * A named way to create a capture
+ */
+export interface AudioBackend {
+  name: string;
+  create(options: AudioCaptureOptions): IAudioCapture;
+}
+
+export interface AudioCaptureSettings {
+  backends?: AudioBackendName[]; // Priority order (default: alsa, native, pipewire)
+  filePath?: string;             // For the file backend (default: tests/fixtures/audio)
+  stallMs?: number;              // Fail over after this long without data (default: 3000)
+  silenceMs?: number;            // Fail over after this long of digital silence (default: 0, off)
+}
+
+export interface AudioBackendStatus {
+  name: string;
+  state: "active" | "standby" | "failed";
+  error: string | null;          // Why it last failed
+}
+
+export interface AudioCaptureStatus {
+  active: string | null;
+  backends: AudioBackendStatus[];
+  failovers: number;
+  lastFailover: { from: string; to: string | null; reason: string; at: number } | null;
+}
+
+/**
+ * Parse a comma separated backend list (unknown names are an error)
+ */
+export function parseAudioBackends(list: string): AudioBackendName[] {
+  const names = list.split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+  for (const name of names) {
+    if (!AUDIO_BACKEND_NAMES.includes(name as AudioBackendName)) {
+      throw new Error(`Unknown audio backend: ${name} (use ${AUDIO_BACKEND_NAMES.join(", ")})`);
+    }
+  }
+  return names.length > 0 ? (names as AudioBackendName[]) : DEFAULT_AUDIO_BACKENDS;
+}
+
+/**
+ * Backend by name
+ */
+export function audioBackend(name: AudioBackendName, settings: AudioCaptureSettings = {}): AudioBackend {
+  const create = {
+    native: (options: AudioCaptureOptions) => new NativeLibusbCapture(options),
+    alsa: (options: AudioCaptureOptions) => new AlsaCapture(options),
+    pipewire: (options: AudioCaptureOptions) => new UsbAudioCapture(options),
+    file: (options: AudioCaptureOptions) => new FileLoopCapture({ ...options, path: settings.filePath }),
+  }[name];
+  return { name, create };
+}
+
+/**
+ * Capture for the configured chain
+ * DRY: Single place to choose capture backends
+ */
+export function createAudioCapture(options: AudioCaptureOptions, settings: AudioCaptureSettings = {}): FailoverCapture {
+  const backends = (settings.backends ?? DEFAULT_AUDIO_BACKENDS).map((name) => audioBackend(name, settings));
+  return new FailoverCapture(backends, { ...options, stallMs: settings.stallMs, silenceMs: settings.silenceMs });
+}
+
+interface ActiveBackend {
+  index: number;
+  capture: IAudioCapture;
+}
+
+export class FailoverCapture implements IAudioCapture {
+  private readonly onData: (data: Buffer) => void;
+  private readonly onError: (error: Error) => void;
+  private readonly stallMs: number;
+  private readonly silenceMs: number;
+  private current: ActiveBackend | null = null;
+  private wanted = false;               // Between start() and stop()
+  private generation = 0;               // Callbacks of replaced backends are ignored
+  private switching: Promise<void> | null = null;
+  private watchdog: ReturnType<typeof setInterval> | null = null;
+  private errors = new Map<string, string>();
+  private silent = new Set<number>();   // Left for silence since the last real signal
+  private lastDataAt = 0;
+  private lastSignalAt = 0;
+  private lastAttemptAt = 0;
+  private failovers = 0;
+  private lastFailover: AudioCaptureStatus["lastFailover"] = null;
+
+  constructor(
+    private readonly backends: AudioBackend[],
+    options: AudioCaptureOptions & { stallMs?: number; silenceMs?: number }
+  ) {
+    if (backends.length === 0) throw new Error("No audio capture backends configured");
+    this.onData = options.onData;
+    this.onError = options.onError ?? ((err) => console.error("[AudioCapture]", err.message));
+    this.stallMs = options.stallMs ?? DEFAULT_STALL_MS;
+    this.silenceMs = options.silenceMs ?? 0;
+  }
+
+  get isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Name of the backend delivering audio
+   */
+  get activeBackend(): string | null {
+    return this.current ? this.backends[this.current.index]!.name : null;
+  }
+
+  /**
+   * Start the first backend of the chain that starts (or wait for a failover in progress)
+   * @throws Error listing why each backend failed
+   */
+  async start(): Promise<void> {
+    if (this.current) return;
+    if (this.switching) {
+      await this.switching;
+      if (this.current) return;
+      throw new Error(`No audio capture backend could start (${this.describeErrors()})`);
+    }
+
+    this.wanted = true;
+    if (!(await this.startFrom(0))) {
+      this.wanted = false;
+      throw new Error(`No audio capture backend could start (${this.describeErrors()})`);
+    }
+    if (!this.watchdog) {
+      this.watchdog = setInterval(() => this.check(), WATCHDOG_INTERVAL_MS);
+      this.watchdog.unref?.();
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.wanted = false;
+    this.generation++;
+    if (this.watchdog) clearInterval(this.watchdog);
+    this.watchdog = null;
+    await this.switching;
+
+    const current = this.current;
+    this.current = null;
+    await current?.capture.stop();
+  }
+
+  getStatus(): AudioCaptureStatus {
+    return {
+      active: this.activeBackend,
+      backends: this.backends.map(({ name }, index) => ({
+        name,
+        state: this.current?.index === index ? "active" : this.errors.has(name) ? "failed" : "standby",
+        error: this.errors.get(name) ?? null,
+      })),
+      failovers: this.failovers,
+      lastFailover: this.lastFailover,
+    };
+  }
+
+  /**
+   * Try the backends in chain order from `first` (wrapping around), skipping `skip`
+   * @returns Whether one started
+   */
+  private async startFrom(first: number, skip: Set<number> = new Set()): Promise<boolean> {
+    this.lastAttemptAt = Date.now();
+    for (let i = 0; i < this.backends.length; i++) {
+      const index = (first + i) % this.backends.length;
+      if (!this.wanted) return false;
+      if (skip.has(index)) continue;
+      const backend = this.backends[index]!;
+      const generation = ++this.generation;
+
+      try {
+        const capture = backend.create({
+          onData: (data) => {
+            if (generation === this.generation) this.receive(data);
+          },
+          onError: (err) => {
+            if (generation === this.generation) void this.failover(err.message);
+          },
+        });
+        await capture.start();
+        if (generation !== this.generation || !this.wanted) {
+          // Stopped while starting
+          await capture.stop();
+          return false;
+        }
+
+        this.current = { index, capture };
+        this.errors.delete(backend.name);
+        this.lastDataAt = this.lastSignalAt = Date.now();
+        console.log(`[AudioCapture] Using ${backend.name} backend`);
+        return true;
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        // Retries repeat the same failure: log it once
+        if (this.errors.get(backend.name) !== msg) console.warn(`[AudioCapture] ${backend.name} backend unavailable: ${msg}`);
+        this.errors.set(backend.name, msg);
+      }
+    }
+    return false;
+  }
+
+  private receive(data: Buffer): void {
+    const now = Date.now();
+    this.lastDataAt = now;
+    if (this.silenceMs > 0 && data.some((byte) => byte !== 0)) {
+      this.lastSignalAt = now;
+      this.silent.clear();
+    }
+    this.onData(data);
+  }
+
+  // Watchdog: stalls and silence on the active backend, retries while none runs
+  private check(): void {
+    if (this.switching || !this.wanted) return;
+    const now = Date.now();
+
+    if (!this.current) {
+      if (now - this.lastAttemptAt >= RETRY_INTERVAL_MS) {
+        this.switching = this.startFrom(0).then(() => {}).finally(() => { this.switching = null; });
+      }
+      return;
+    }
+
+    if (now - this.lastDataAt >= this.stallMs) {
+      void this.failover(`no audio for ${this.stallMs} ms`);
+    } else if (this.silenceMs > 0 && now - this.lastSignalAt >= this.silenceMs) {
+      this.silent.add(this.current.index);
+      if (this.silent.size < this.backends.length) {
+        void this.failover(`silent for ${this.silenceMs} ms`, this.silent);
+      } else {
+        // Every backend is silent: the M8 is, so stay put
+        this.lastSignalAt = now;
+      }
+    }
+  }
+
+  /**
+   * Stop the active backend and start the next one in the chain (the failed one last)
+   * @param skip Backends not to switch to (silence), tried only if nothing else starts
+   */
+  private failover(reason: string, skip?: Set<number>): Promise<void> {
+    if (!this.current || this.switching) return this.switching ?? Promise.resolve();
+    const from = this.current;
+    const fromName = this.backends[from.index]!.name;
+    this.current = null;
+    this.generation++;
+    this.errors.set(fromName, reason);
+
+    this.switching = (async () => {
+      await from.capture.stop().catch(() => {});
+      if (!this.wanted) return;
+      const started = (await this.startFrom(from.index + 1, skip)) || (!!skip && (await this.startFrom(from.index)));
+
+      const to = this.activeBackend;
+      this.failovers++;
+      this.lastFailover = { from: fromName, to, reason, at: Date.now() };
+      console.warn(`[AudioCapture] ${fromName} backend failed (${reason}), ${to ? `switched to ${to}` : "no backend left"}`);
+      if (!started) this.onError(new Error(`Audio capture lost: ${this.describeErrors()}`));
+    })().finally(() => {
+      this.switching = null;
+    });
+    return this.switching;
+  }
+
+  private describeErrors(): string {
+    return this.backends.map(({ name }) => `${name}: ${this.errors.get(name) ?? "not tried"}`).join("; ");
+  }
+}
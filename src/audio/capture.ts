@@ -1,25 +1,10 @@
 /**
- * M8 Audio Capture
- * Records audio from M8 USB audio device
+ * M8 Audio Devices
+ * Finds the M8 among ALSA capture devices
+ * (recording is done from the live capture feed, see recordings.ts)
  */
 
-import { spawn, type ChildProcess } from "child_process";
-import { writeFile, unlink, readFile, mkdir } from "fs/promises";
-import { join } from "path";
-import { tmpdir } from "os";
-
-export interface AudioCaptureOptions {
-  device?: string; // ALSA device (default: hw:M8)
-  sampleRate?: number; // Sample rate (default: 44100)
-  channels?: number; // Channels (default: 2)
-  format?: string; // Format (default: S16_LE)
-}
-
-export interface RecordingResult {
-  path: string;
-  duration: number;
-  size: number;
-}
+import { spawn } from "child_process";
 
 /**
  * Find M8 audio device (with 5s timeout)
@@ -74,121 +59,6 @@ export async function findM8AudioDevice(): Promise<string | null> {
   });
 }
 
-/**
- * Audio Recorder class
- */
-export class AudioRecorder {
-  private options: Required<AudioCaptureOptions>;
-  private process: ChildProcess | null = null;
-  private outputPath: string | null = null;
-  private startTime: number = 0;
-
-  constructor(options: AudioCaptureOptions = {}) {
-    this.options = {
-      device: options.device ?? "hw:M8",
-      sampleRate: options.sampleRate ?? 44100,
-      channels: options.channels ?? 2,
-      format: options.format ?? "S16_LE",
-    };
-  }
-
-  /**
-   * Check if recording
-   */
-  isRecording(): boolean {
-    return this.process !== null;
-  }
-
-  /**
-   * Start recording
-   */
-  async start(): Promise<string> {
-    if (this.process) {
-      throw new Error("Already recording");
-    }
-
-    // Create temp file
-    const tempDir = join(tmpdir(), "m8-display");
-    await mkdir(tempDir, { recursive: true });
-    this.outputPath = join(tempDir, `recording_${Date.now()}.wav`);
-
-    // Start arecord
-    this.process = spawn("arecord", [
-      "-D", this.options.device,
-      "-f", this.options.format,
-      "-r", String(this.options.sampleRate),
-      "-c", String(this.options.channels),
-      "-t", "wav",
-      this.outputPath,
-    ]);
-
-    this.startTime = Date.now();
-
-    this.process.on("error", (err) => {
-      console.error("Audio recording error:", err);
-      this.process = null;
-    });
-
-    return this.outputPath;
-  }
-
-  /**
-   * Stop recording and return result
-   */
-  async stop(): Promise<RecordingResult> {
-    if (!this.process || !this.outputPath) {
-      throw new Error("Not recording");
-    }
-
-    const duration = (Date.now() - this.startTime) / 1000;
-
-    return new Promise((resolve, reject) => {
-      const proc = this.process!;
-      const path = this.outputPath!;
-
-      proc.on("close", async () => {
-        this.process = null;
-
-        try {
-          const stats = await readFile(path);
-          resolve({
-            path,
-            duration,
-            size: stats.length,
-          });
-        } catch (err) {
-          reject(err);
-        }
-      });
-
-      // Send SIGINT to stop recording gracefully
-      proc.kill("SIGINT");
-    });
-  }
-
-  /**
-   * Record for specified duration
-   */
-  async record(durationSeconds: number): Promise<RecordingResult> {
-    await this.start();
-
-    await new Promise((resolve) => setTimeout(resolve, durationSeconds * 1000));
-
-    return this.stop();
-  }
-}
-
-/**
- * Quick record function
- */
-export async function recordAudio(
-  durationSeconds: number,
-  options?: AudioCaptureOptions
-): Promise<RecordingResult> {
-  const recorder = new AudioRecorder(options);
-  return recorder.record(durationSeconds);
-}
-
 /**
  * Get audio device info
  */
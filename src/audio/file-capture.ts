@@ -0,0 +1,127 @@
+/**
+ * FileLoopCapture - Audio "capture" from raw PCM files
+ * Single Responsibility: play .raw files (S16_LE stereo 44.1kHz, like the M8) in real time
+ *
+ * Lets the whole audio path (hub, Opus, recordings, meters, TCP) run without hardware:
+ * M8_AUDIO_BACKENDS=file streams tests/fixtures/audio/*.raw on a loop.
+ */
+
+import { readdir, readFile, stat } from "fs/promises";
+import { existsSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { fileURLToPath } from "url";
+import { AUDIO_CONSTANTS, type IAudioCapture, type AudioCaptureOptions } from "./native-capture";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const BYTES_PER_FRAME = (AUDIO_CONSTANTS.BITS_PER_SAMPLE / 8) * AUDIO_CONSTANTS.CHANNELS;
+const RAW_EXTENSION = ".raw";
+const MAX_PREAMBLE = 1024;
+
+export interface FileCaptureOptions extends AudioCaptureOptions {
+  /** .raw file, or a directory whose .raw files play in name order (default: tests/fixtures/audio) */
+  path?: string;
+  /** Start over at the end (default: true) */
+  loop?: boolean;
+  /** Chunk interval in ms (default: 20) */
+  chunkMs?: number;
+}
+
+/**
+ * Default fixture directory, next to the sources or below the working directory
+ */
+export function defaultAudioFixtures(): string {
+  const candidates = [resolve(__dirname, "../../tests/fixtures/audio"), resolve(process.cwd(), "tests/fixtures/audio")];
+  return candidates.find((path) => existsSync(path)) ?? candidates[0]!;
+}
+
+/**
+ * Skip text lines in front of the PCM (m8-audio-capture status output, when a fixture was
+ * recorded with stderr mixed in)
+ */
+export function stripTextPreamble(data: Buffer): Buffer {
+  let end = 0;
+  for (let i = 0; i < Math.min(data.length, MAX_PREAMBLE); i++) {
+    const byte = data[i]!;
+    if (byte === 0x0a) end = i + 1;
+    else if (byte < 0x20 || byte > 0x7e) break;
+  }
+  return data.subarray(end);
+}
+
+export class FileLoopCapture implements IAudioCapture {
+  private readonly onData: (data: Buffer) => void;
+  private readonly path: string;
+  private readonly loop: boolean;
+  private readonly chunkMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pcm = Buffer.alloc(0);
+  private position = 0;  // Next byte of pcm to deliver
+  private startedAt = 0;
+  private framesSent = 0;
+
+  constructor(options: FileCaptureOptions) {
+    this.onData = options.onData;
+    this.path = options.path ?? defaultAudioFixtures();
+    this.loop = options.loop ?? true;
+    this.chunkMs = options.chunkMs ?? 20;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Load the files and start delivering chunks in real time
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    const files = (await stat(this.path)).isDirectory()
+      ? (await readdir(this.path)).filter((file) => file.endsWith(RAW_EXTENSION)).sort().map((file) => join(this.path, file))
+      : [this.path];
+    // Whole frames of each file, so the next one starts aligned
+    this.pcm = Buffer.concat(await Promise.all(files.map(async (file) => {
+      const pcm = stripTextPreamble(await readFile(file));
+      return pcm.subarray(0, pcm.length - (pcm.length % BYTES_PER_FRAME));
+    })));
+    if (this.pcm.length === 0) {
+      throw new Error(`No ${RAW_EXTENSION} audio in ${this.path}`);
+    }
+
+    console.log(`[FileCapture] Playing ${files.length} file(s) from ${this.path}${this.loop ? " (loop)" : ""}`);
+    this.position = 0;
+    this.startedAt = Date.now();
+    this.framesSent = 0;
+    this.timer = setInterval(() => this.tick(), this.chunkMs);
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Deliver the frames due since start (the wall clock paces playback, not the timer)
+  private tick(): void {
+    const due = Math.floor(((Date.now() - this.startedAt) * AUDIO_CONSTANTS.SAMPLE_RATE) / 1000);
+    let bytes = (due - this.framesSent) * BYTES_PER_FRAME;
+    if (bytes <= 0) return;
+    this.framesSent = due;
+
+    const chunks: Buffer[] = [];
+    while (bytes > 0) {
+      const size = Math.min(bytes, this.pcm.length - this.position);
+      chunks.push(this.pcm.subarray(this.position, this.position + size));
+      bytes -= size;
+      this.position += size;
+      if (this.position === this.pcm.length) {
+        if (!this.loop) {
+          void this.stop();
+          break;
+        }
+        this.position = 0;
+      }
+    }
+    this.onData(chunks.length === 1 ? chunks[0]! : Buffer.concat(chunks));
+  }
+}
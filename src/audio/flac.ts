@@ -0,0 +1,428 @@
+/**
+ * FLAC Encoder
+ * Single Responsibility: lossless compression of S16_LE PCM into a FLAC stream
+ *
+ * Pure TypeScript, no native codec: fixed-blocksize frames, each channel coded as
+ * a constant, verbatim or fixed-predictor (order 0-4) subframe with partitioned
+ * Rice residuals, and the best stereo decorrelation (L/R, L/S, S/R, M/S) per frame.
+ * STREAMINFO (sample count, frame sizes, MD5) is only final once the stream ends,
+ * so writers patch it in place on close.
+ */
+
+import { createHash, type Hash } from "crypto";
+import { createWriteStream, type WriteStream } from "fs";
+import { open } from "fs/promises";
+import type { PcmFormat, RecordingWriter, RecordingSummary } from "./recordings";
+
+export const FLAC_BLOCK_SIZE = 4096;
+export const FLAC_HEADER_SIZE = 42; // "fLaC" + STREAMINFO block
+
+const MAX_PARTITION_ORDER = 4;
+const MAX_FIXED_ORDER = 4;
+
+// Frame header codes
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7,
+  32000: 8, 44100: 9, 48000: 10, 96000: 11,
+};
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_SIDE_RIGHT = 9;
+const CHANNELS_MID_SIDE = 10;
+
+const CRC8_TABLE = crcTable(0x07, 8);
+const CRC16_TABLE = crcTable(0x8005, 16);
+
+function crcTable(poly: number, width: number): Uint16Array {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    }
+    table[i] = crc;
+  }
+  return table;
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) crc = CRC8_TABLE[crc ^ byte]!;
+  return crc;
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ byte]!;
+  return crc;
+}
+
+/**
+ * MSB-first bit packer
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private current = 0;
+  private used = 0; // Bits used in current
+
+  /** Write the low `bits` bits of an unsigned value (bits <= 32) */
+  writeBits(value: number, bits: number): void {
+    while (bits > 0) {
+      const take = Math.min(8 - this.used, bits);
+      const chunk = (value >>> (bits - take)) & ((1 << take) - 1);
+      this.current |= chunk << (8 - this.used - take);
+      this.used += take;
+      bits -= take;
+      if (this.used === 8) this.flushByte();
+    }
+  }
+
+  /** Two's complement value in `bits` bits */
+  writeSigned(value: number, bits: number): void {
+    this.writeBits(bits === 32 ? value >>> 0 : value & ((1 << bits) - 1), bits);
+  }
+
+  /** Rice code: quotient in unary (zeros, then a one), then k low bits */
+  writeRice(value: number, k: number): void {
+    let quotient = value >>> k;
+    while (quotient >= 24) {
+      this.writeBits(0, 24);
+      quotient -= 24;
+    }
+    this.writeBits(1, quotient + 1);
+    if (k > 0) this.writeBits(value & ((1 << k) - 1), k);
+  }
+
+  /** Pad with zeros to a byte boundary */
+  align(): void {
+    if (this.used > 0) this.flushByte();
+  }
+
+  finish(): Uint8Array {
+    this.align();
+    return this.bytes.slice(0, this.length);
+  }
+
+  private flushByte(): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = this.current;
+    this.current = 0;
+    this.used = 0;
+  }
+}
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+/**
+ * Coding decided for one subframe, with its size in bits
+ */
+interface SubframePlan {
+  bits: number;
+  write(writer: BitWriter): void;
+}
+
+function fixedResiduals(samples: Int32Array, order: number): Int32Array {
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    let prediction = 0;
+    switch (order) {
+      case 1: prediction = s[i - 1]!; break;
+      case 2: prediction = 2 * s[i - 1]! - s[i - 2]!; break;
+      case 3: prediction = 3 * s[i - 1]! - 3 * s[i - 2]! + s[i - 3]!; break;
+      case 4: prediction = 4 * s[i - 1]! - 6 * s[i - 2]! + 4 * s[i - 3]! - s[i - 4]!; break;
+    }
+    residuals[i - order] = s[i]! - prediction;
+  }
+  return residuals;
+}
+
+/**
+ * Rice parameter for a partition, with its estimated size in bits
+ */
+function riceParameter(count: number, sum: number): { k: number; bits: number } {
+  let best = { k: 0, bits: Infinity };
+  for (let k = 0; k <= 30; k++) {
+    const bits = count * (k + 1) + sum / 2 ** k;
+    if (bits < best.bits) best = { k, bits };
+  }
+  return best;
+}
+
+/**
+ * Partitioned Rice coding of the residuals of a fixed predictor
+ */
+function planFixed(samples: Int32Array, order: number, bps: number): SubframePlan {
+  const n = samples.length;
+  const residuals = fixedResiduals(samples, order);
+
+  let best: { bits: number; partitionOrder: number; params: number[] } | null = null;
+  for (let p = 0; p <= MAX_PARTITION_ORDER; p++) {
+    if (n % (1 << p) !== 0 || n >> p <= order) break;
+    const size = n >> p;
+    const params: number[] = [];
+    let bits = 0;
+    for (let part = 0, start = 0; part < 1 << p; part++) {
+      const end = (part + 1) * size - order;
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += zigzag(residuals[i]!);
+      const rice = riceParameter(end - start, sum);
+      params.push(rice.k);
+      bits += rice.bits;
+      start = end;
+    }
+    const paramBits = params.some((k) => k > 14) ? 5 : 4;
+    bits += params.length * paramBits;
+    if (!best || bits < best.bits) best = { bits, partitionOrder: p, params };
+  }
+
+  const { partitionOrder, params } = best!;
+  const wide = params.some((k) => k > 14);
+  return {
+    bits: 8 + order * bps + 6 + best!.bits,
+    write(writer) {
+      writer.writeBits((0x08 | order) << 1, 8);   // Zero bit + FIXED (001xxx) + no wasted bits
+      for (let i = 0; i < order; i++) writer.writeSigned(samples[i]!, bps);
+      writer.writeBits(wide ? 1 : 0, 2);          // Rice (4-bit) or Rice2 (5-bit) parameters
+      writer.writeBits(partitionOrder, 4);
+      const size = n >> partitionOrder;
+      for (let part = 0, start = 0; part < params.length; part++) {
+        const end = (part + 1) * size - order;
+        const k = params[part]!;
+        writer.writeBits(k, wide ? 5 : 4);
+        for (let i = start; i < end; i++) writer.writeRice(zigzag(residuals[i]!), k);
+        start = end;
+      }
+    },
+  };
+}
+
+/**
+ * Smallest subframe coding for one channel
+ */
+function planSubframe(samples: Int32Array, bps: number): SubframePlan {
+  const first = samples[0]!;
+  if (samples.every((s) => s === first)) {
+    return {
+      bits: 8 + bps,
+      write(writer) {
+        writer.writeBits(0, 8);                   // Zero bit + CONSTANT + no wasted bits
+        writer.writeSigned(first, bps);
+      },
+    };
+  }
+
+  let best: SubframePlan = {
+    bits: 8 + samples.length * bps,
+    write(writer) {
+      writer.writeBits(0x02, 8);                  // Zero bit + VERBATIM + no wasted bits
+      for (const s of samples) writer.writeSigned(s, bps);
+    },
+  };
+  for (let order = 0; order <= MAX_FIXED_ORDER && order < samples.length; order++) {
+    const plan = planFixed(samples, order, bps);
+    if (plan.bits < best.bits) best = plan;
+  }
+  return best;
+}
+
+/**
+ * Frame number as FLAC's extended UTF-8
+ */
+function utf8Number(value: number): number[] {
+  if (value < 0x80) return [value];
+  const length = value < 0x800 ? 2 : value < 0x10000 ? 3 : value < 0x200000 ? 4 : value < 0x4000000 ? 5 : 6;
+  const bytes = new Array<number>(length);
+  for (let i = length - 1; i > 0; i--) {
+    bytes[i] = 0x80 | (value & 0x3f);
+    value = Math.floor(value / 64);
+  }
+  bytes[0] = ((0xff00 >> length) & 0xff) | value;
+  return bytes;
+}
+
+export class FlacEncoder {
+  private readonly frameBytes: number;
+  private block: Int32Array[];
+  private filled = 0;
+  private partial = Buffer.alloc(0);
+  private frameNumber = 0;
+  private samples = 0;
+  private minFrameSize = 0;
+  private maxFrameSize = 0;
+  private md5: Hash = createHash("md5");
+  private md5Digest: Buffer | null = null;
+
+  constructor(private readonly format: PcmFormat, private readonly blockSize = FLAC_BLOCK_SIZE) {
+    if (format.bitsPerSample !== 16) throw new Error("FLAC encoder takes 16-bit PCM");
+    if (format.channels < 1 || format.channels > 8) throw new Error(`Unsupported channel count: ${format.channels}`);
+    this.frameBytes = format.channels * 2;
+    this.block = Array.from({ length: format.channels }, () => new Int32Array(blockSize));
+  }
+
+  /**
+   * Samples per channel encoded so far
+   */
+  get totalSamples(): number {
+    return this.samples;
+  }
+
+  /**
+   * "fLaC" + STREAMINFO for what has been encoded so far
+   */
+  header(): Buffer {
+    const { sampleRate, channels, bitsPerSample } = this.format;
+    const writer = new BitWriter();
+    writer.writeBits(0x664c6143, 32);             // "fLaC"
+    writer.writeBits(1, 1);                       // Last metadata block
+    writer.writeBits(0, 7);                       // STREAMINFO
+    writer.writeBits(34, 24);
+    // Fixed blocksize (the last block may be shorter and does not count), unless there is only one block
+    const blockSize = this.frameNumber > 1 || this.samples === 0 ? this.blockSize : this.samples;
+    writer.writeBits(blockSize, 16);              // Min
+    writer.writeBits(blockSize, 16);              // Max
+    writer.writeBits(this.minFrameSize, 24);
+    writer.writeBits(this.maxFrameSize, 24);
+    writer.writeBits(sampleRate, 20);
+    writer.writeBits(channels - 1, 3);
+    writer.writeBits(bitsPerSample - 1, 5);
+    writer.writeBits(Math.floor(this.samples / 2 ** 32), 4);
+    writer.writeBits(this.samples >>> 0, 32);
+    const md5 = this.md5Digest ?? Buffer.alloc(16); // Zero = not computed (stream still open)
+    for (const byte of md5) writer.writeBits(byte, 8);
+    return Buffer.from(writer.finish());
+  }
+
+  /**
+   * Feed interleaved S16_LE PCM (any length)
+   * @returns Frames for the blocks completed by this data
+   */
+  encode(pcm: Buffer): Buffer[] {
+    const data = this.partial.length > 0 ? Buffer.concat([this.partial, pcm]) : pcm;
+    const usable = data.length - (data.length % this.frameBytes);
+    this.partial = Buffer.from(data.subarray(usable));
+    this.md5.update(data.subarray(0, usable));
+
+    const { channels } = this.format;
+    const frames: Buffer[] = [];
+    for (let offset = 0; offset < usable; offset += this.frameBytes) {
+      for (let ch = 0; ch < channels; ch++) {
+        this.block[ch]![this.filled] = data.readInt16LE(offset + ch * 2);
+      }
+      if (++this.filled === this.blockSize) frames.push(this.encodeBlock());
+    }
+    return frames;
+  }
+
+  /**
+   * Encode the last, partial block and finalize the MD5 (a trailing partial sample frame is dropped)
+   */
+  flush(): Buffer | null {
+    const frame = this.filled > 0 ? this.encodeBlock() : null;
+    this.md5Digest = this.md5.digest();
+    return frame;
+  }
+
+  private encodeBlock(): Buffer {
+    const n = this.filled;
+    const channels = this.block.map((samples) => samples.slice(0, n));
+    const bps = this.format.bitsPerSample;
+
+    // Channel coding: independent, or one of the stereo decorrelations
+    let assignment = channels.length - 1;
+    let plans = channels.map((samples) => planSubframe(samples, bps));
+    if (channels.length === 2) {
+      const [left, right] = channels as [Int32Array, Int32Array];
+      const mid = new Int32Array(n);
+      const side = new Int32Array(n);
+      for (let i = 0; i < n; i++) {
+        mid[i] = (left[i]! + right[i]!) >> 1;
+        side[i] = left[i]! - right[i]!;
+      }
+      const [l, r] = plans as [SubframePlan, SubframePlan];
+      const m = planSubframe(mid, bps);
+      const s = planSubframe(side, bps + 1);
+      const options: [number, SubframePlan[]][] = [
+        [assignment, [l, r]],
+        [CHANNELS_LEFT_SIDE, [l, s]],
+        [CHANNELS_SIDE_RIGHT, [s, r]],
+        [CHANNELS_MID_SIDE, [m, s]],
+      ];
+      const total = (p: SubframePlan[]) => p.reduce((sum, plan) => sum + plan.bits, 0);
+      [assignment, plans] = options.reduce((best, option) => (total(option[1]) < total(best[1]) ? option : best));
+    }
+
+    const writer = new BitWriter();
+    writer.writeBits(0xfff8, 16);                 // Sync, fixed blocksize
+    const sizeCode = n === 4096 ? 12 : 7;         // 4096, or 16-bit size after the frame number
+    writer.writeBits(sizeCode, 4);
+    writer.writeBits(SAMPLE_RATE_CODES[this.format.sampleRate] ?? 0, 4);
+    writer.writeBits(assignment, 4);
+    writer.writeBits(4, 3);                       // 16 bits per sample
+    writer.writeBits(0, 1);
+    for (const byte of utf8Number(this.frameNumber)) writer.writeBits(byte, 8);
+    if (sizeCode === 7) writer.writeBits(n - 1, 16);
+    const header = writer.finish();
+
+    const body = new BitWriter();
+    for (const byte of header) body.writeBits(byte, 8);
+    body.writeBits(crc8(header), 8);
+    for (const plan of plans) plan.write(body);
+    const frame = body.finish();
+
+    const out = Buffer.alloc(frame.length + 2);
+    out.set(frame);
+    out.writeUInt16BE(crc16(frame), frame.length);
+
+    this.frameNumber++;
+    this.samples += n;
+    this.filled = 0;
+    this.minFrameSize = this.minFrameSize === 0 ? out.length : Math.min(this.minFrameSize, out.length);
+    this.maxFrameSize = Math.max(this.maxFrameSize, out.length);
+    return out;
+  }
+}
+
+export class FlacWriter implements RecordingWriter {
+  private stream: WriteStream;
+  private encoder: FlacEncoder;
+  private size = FLAC_HEADER_SIZE;
+
+  constructor(private readonly path: string, format: PcmFormat) {
+    this.encoder = new FlacEncoder(format);
+    this.stream = createWriteStream(path);
+    this.stream.write(this.encoder.header());
+  }
+
+  write(pcm: Buffer): void {
+    for (const frame of this.encoder.encode(pcm)) {
+      this.stream.write(frame);
+      this.size += frame.length;
+    }
+  }
+
+  async close(): Promise<RecordingSummary> {
+    const last = this.encoder.flush();
+    if (last) {
+      this.stream.write(last);
+      this.size += last.length;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.stream.end((err?: Error | null) => (err ? reject(err) : resolve()));
+    });
+
+    const file = await open(this.path, "r+");
+    try {
+      await file.write(this.encoder.header(), 0, FLAC_HEADER_SIZE, 0);
+    } finally {
+      await file.close();
+    }
+    return { frames: this.encoder.totalSamples, size: this.size };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * JitterController - Server side of adaptive client buffering
+ * Single Responsibility: turn a client's buffer reports into a target buffer size
+ *
+ * The client picks a latency (UI slider) and reports its buffer level and underrun
+ * count about once a second. Underruns raise the target above the chosen latency,
+ * a quiet stretch walks it back down, so a bad link trades latency for robustness
+ * only while it is bad.
+ */
+
+export const MIN_BUFFER_MS = 20;
+export const MAX_BUFFER_MS = 1000;
+export const DEFAULT_LATENCY_MS = 100;
+
+const UNDERRUN_STEP_MS = 40; // Added per new underrun
+const RELAX_AFTER_MS = 10000; // Quiet time before the target comes back down
+const RELAX_STEP_MS = 10;     // Removed per report once quiet
+
+/**
+ * Client report ({"type":"report", ...} on /audio)
+ */
+export interface JitterReport {
+  bufferMs?: number;  // Audio scheduled ahead of the playhead
+  underruns?: number; // Cumulative underrun count
+  latencyMs?: number; // Chosen latency (slider)
+}
+
+export interface JitterStats {
+  latencyMs: number;  // Client's chosen latency
+  targetMs: number;   // Current target (latency + adaptive headroom)
+  bufferMs: number | null;
+  underruns: number;
+  reports: number;
+}
+
+const clamp = (ms: number) => Math.min(MAX_BUFFER_MS, Math.max(MIN_BUFFER_MS, Math.round(ms)));
+
+export class JitterController {
+  private latencyMs: number;
+  private headroomMs = 0;
+  private bufferMs: number | null = null;
+  private underruns = 0;
+  private lastUnderruns = 0;
+  private lastUnderrunAt = 0;
+  private reports = 0;
+
+  constructor(latencyMs = DEFAULT_LATENCY_MS) {
+    this.latencyMs = clamp(latencyMs);
+  }
+
+  get targetMs(): number {
+    return clamp(this.latencyMs + this.headroomMs);
+  }
+
+  /**
+   * Apply a client report
+   * @returns The new target when it changed, null otherwise
+   */
+  report(report: JitterReport, now = Date.now()): number | null {
+    const before = this.targetMs;
+    this.reports++;
+
+    if (typeof report.latencyMs === "number" && Number.isFinite(report.latencyMs)) {
+      this.latencyMs = clamp(report.latencyMs);
+    }
+    if (typeof report.bufferMs === "number" && Number.isFinite(report.bufferMs)) {
+      this.bufferMs = Math.round(report.bufferMs);
+    }
+
+    if (typeof report.underruns === "number" && report.underruns >= 0) {
+      // Counter restarted (client restarted playback): count from the new value
+      const fresh = report.underruns >= this.lastUnderruns ? report.underruns - this.lastUnderruns : report.underruns;
+      this.lastUnderruns = report.underruns;
+      if (fresh > 0) {
+        this.underruns += fresh;
+        this.lastUnderrunAt = now;
+        this.headroomMs = Math.min(MAX_BUFFER_MS - this.latencyMs, this.headroomMs + UNDERRUN_STEP_MS * fresh);
+      } else if (this.headroomMs > 0 && now - this.lastUnderrunAt >= RELAX_AFTER_MS) {
+        this.headroomMs = Math.max(0, this.headroomMs - RELAX_STEP_MS);
+      }
+    }
+
+    const after = this.targetMs;
+    return after !== before ? after : null;
+  }
+
+  getStats(): JitterStats {
+    return {
+      latencyMs: this.latencyMs,
+      targetMs: this.targetMs,
+      bufferMs: this.bufferMs,
+      underruns: this.underruns,
+      reports: this.reports,
+    };
+  }
+}
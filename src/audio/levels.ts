@@ -0,0 +1,162 @@
+/**
+ * LevelMeter - Audio level metering
+ * Single Responsibility: peak/RMS per channel, short-term loudness and clipping from S16 PCM
+ *
+ * Peak and RMS cover the samples since the previous read() (one meter refresh, ~20 Hz).
+ * Loudness is the short-term (3 s) K-weighted loudness of ITU-R BS.1770 / EBU R128, in LUFS.
+ * A sample at full scale counts as clipped.
+ */
+
+export const LEVELS_INTERVAL_MS = 50; // Meter refresh (20 Hz)
+export const MIN_DB = -96;            // Floor reported for silence (16-bit dynamic range)
+
+const BLOCK_MS = 100;         // Loudness is summed in 100 ms blocks
+const SHORT_TERM_BLOCKS = 30; // 3 s
+const FULL_SCALE = 32768;
+
+export interface ChannelLevels {
+  peak: number;   // dBFS since the previous read
+  rms: number;    // dBFS since the previous read
+  clips: number;  // Clipped samples since the meter started
+}
+
+export interface AudioLevels {
+  channels: ChannelLevels[];
+  loudness: number;   // Short-term loudness (LUFS), MIN_DB while silent
+  clipping: boolean;  // A sample clipped since the previous read
+}
+
+const toDb = (linear: number) => (linear > 0 ? Math.max(MIN_DB, Math.round(20 * Math.log10(linear) * 10) / 10) : MIN_DB);
+
+/**
+ * Second-order IIR section (transposed direct form II)
+ */
+class Biquad {
+  private z1 = 0;
+  private z2 = 0;
+
+  constructor(
+    private readonly b0: number,
+    private readonly b1: number,
+    private readonly b2: number,
+    private readonly a1: number,
+    private readonly a2: number
+  ) {}
+
+  process(x: number): number {
+    const y = this.b0 * x + this.z1;
+    this.z1 = this.b1 * x - this.a1 * y + this.z2;
+    this.z2 = this.b2 * x - this.a2 * y;
+    return y;
+  }
+}
+
+/**
+ * BS.1770 K-weighting (high shelf + high pass) for any sample rate, as derived in libebur128
+ */
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = new Biquad(
+    (Vh + (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - Vh)) / a0,
+    (Vh - (Vb * K) / Q + K * K) / a0,
+    (2 * (K * K - 1)) / a0,
+    (1 - K / Q + K * K) / a0
+  );
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = new Biquad(1, -2, 1, (2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0);
+  return [shelf, highPass];
+}
+
+export class LevelMeter {
+  private filters: [Biquad, Biquad][];
+  private peak: number[];
+  private sumSquares: number[];
+  private clips: number[];
+  private frames = 0;           // Frames since the previous read
+  private clipped = false;
+  private blockEnergy = 0;      // K-weighted energy of the current block (summed over channels)
+  private blockFrames = 0;
+  private blocks: number[] = []; // Mean square per finished block, newest last
+  private readonly framesPerBlock: number;
+  private partial = Buffer.alloc(0); // Bytes of a frame split across chunks
+
+  constructor(sampleRate: number, private readonly channels: number) {
+    this.framesPerBlock = Math.round((sampleRate * BLOCK_MS) / 1000);
+    this.filters = Array.from({ length: channels }, () => kWeighting(sampleRate));
+    this.peak = new Array(channels).fill(0);
+    this.sumSquares = new Array(channels).fill(0);
+    this.clips = new Array(channels).fill(0);
+  }
+
+  /**
+   * Meter interleaved S16_LE PCM (any length: a partial frame waits for the next chunk)
+   */
+  process(pcm: Buffer): void {
+    const data = this.partial.length > 0 ? Buffer.concat([this.partial, pcm]) : pcm;
+    const frameBytes = this.channels * 2;
+    const end = data.length - (data.length % frameBytes);
+    this.partial = Buffer.from(data.subarray(end));
+
+    for (let offset = 0; offset < end; offset += frameBytes) {
+      for (let ch = 0; ch < this.channels; ch++) {
+        const raw = data.readInt16LE(offset + ch * 2);
+        if (raw >= FULL_SCALE - 1 || raw === -FULL_SCALE) {
+          this.clips[ch]!++;
+          this.clipped = true;
+        }
+        const sample = raw / FULL_SCALE;
+        const magnitude = Math.abs(sample);
+        if (magnitude > this.peak[ch]!) this.peak[ch] = magnitude;
+        this.sumSquares[ch]! += sample * sample;
+
+        const [shelf, highPass] = this.filters[ch]!;
+        const weighted = highPass.process(shelf.process(sample));
+        this.blockEnergy += weighted * weighted;
+      }
+      this.frames++;
+
+      if (++this.blockFrames === this.framesPerBlock) {
+        this.blocks.push(this.blockEnergy / this.blockFrames);
+        if (this.blocks.length > SHORT_TERM_BLOCKS) this.blocks.shift();
+        this.blockEnergy = 0;
+        this.blockFrames = 0;
+      }
+    }
+  }
+
+  /**
+   * Levels since the previous read (starts the next metering interval)
+   */
+  read(): AudioLevels {
+    const channels = this.peak.map((peak, ch) => ({
+      peak: toDb(peak),
+      rms: toDb(this.frames > 0 ? Math.sqrt(this.sumSquares[ch]! / this.frames) : 0),
+      clips: this.clips[ch]!,
+    }));
+    const levels = { channels, loudness: this.loudness(), clipping: this.clipped };
+
+    this.peak.fill(0);
+    this.sumSquares.fill(0);
+    this.frames = 0;
+    this.clipped = false;
+    return levels;
+  }
+
+  /**
+   * Short-term loudness over the last 3 s of finished blocks (LUFS)
+   */
+  private loudness(): number {
+    if (this.blocks.length === 0) return MIN_DB;
+    const meanSquare = this.blocks.reduce((sum, block) => sum + block, 0) / this.blocks.length;
+    if (meanSquare <= 0) return MIN_DB;
+    return Math.max(MIN_DB, Math.round((-0.691 + 10 * Math.log10(meanSquare)) * 10) / 10);
+  }
+}
@@ -53,6 +53,7 @@ export const AUDIO_CONSTANTS = {
 
 /**
  * Audio capture interface (SOLID: Interface Segregation)
+ * Implemented by every backend; see capture-backends.ts for selection and failover
  */
 export interface IAudioCapture {
   /** Start capturing audio */
@@ -219,13 +220,3 @@ export class NativeLibusbCapture implements IAudioCapture {
     this.process = null;
   }
 }
-
-/**
- * Factory function to create audio capture instance
- * DRY: Single place to choose capture backend
- */
-export function createAudioCapture(options: AudioCaptureOptions): IAudioCapture {
-  // For now, always use native capture
-  // Future: could add PipeWire fallback here
-  return new NativeLibusbCapture(options);
-}
@@ -0,0 +1,171 @@
+/**
+ * Opus encoding for compressed audio streams
+ * Single Responsibility: turn the M8 PCM feed (S16_LE 44.1kHz stereo) into Opus packets
+ *
+ * Uses opusscript (libopus compiled to WASM), so no native build is needed.
+ * Opus only runs at 48 kHz, so the feed is resampled first.
+ */
+
+import OpusScript from "opusscript";
+import { AUDIO_CONSTANTS } from "./native-capture";
+import { Resampler } from "./resampler";
+
+export const OPUS_SAMPLE_RATE = 48000;
+export const OPUS_CHANNELS = 2;
+export const OPUS_FRAME_DURATIONS = [5, 10, 20, 40, 60]; // ms (libopus frame sizes, 2.5ms left out)
+export const OPUS_MIN_BITRATE = 6;   // kbit/s
+export const OPUS_MAX_BITRATE = 510; // kbit/s
+
+/**
+ * Encoder settings a client can ask for
+ */
+export interface OpusSettings {
+  bitrate: number; // kbit/s
+  frameMs: number; // One of OPUS_FRAME_DURATIONS
+}
+
+export const DEFAULT_OPUS_SETTINGS: OpusSettings = { bitrate: 64, frameMs: 20 };
+
+export interface OpusPacket {
+  data: Buffer;
+  timestamp: number; // Capture time of the packet's first sample (µs, media clock)
+}
+
+/**
+ * Fill in / correct requested settings: bitrate is clamped, unknown frame sizes fall back to the default
+ */
+export function resolveOpusSettings(
+  requested: Partial<OpusSettings>,
+  defaults: OpusSettings = DEFAULT_OPUS_SETTINGS
+): OpusSettings {
+  const bitrate = requested.bitrate
+    ? Math.min(OPUS_MAX_BITRATE, Math.max(OPUS_MIN_BITRATE, Math.round(requested.bitrate)))
+    : defaults.bitrate;
+  const frameMs = requested.frameMs !== undefined && OPUS_FRAME_DURATIONS.includes(requested.frameMs)
+    ? requested.frameMs
+    : defaults.frameMs;
+  return { bitrate, frameMs };
+}
+
+export function opusSettingsKey(settings: OpusSettings): string {
+  return `${settings.bitrate}k/${settings.frameMs}ms`;
+}
+
+/**
+ * One Opus stream: PCM chunks of any size in, whole Opus packets out
+ */
+export class OpusStreamEncoder {
+  readonly settings: OpusSettings;
+  readonly frameSize: number; // Samples per channel per packet
+
+  private encoder: OpusScript;
+  private resampler = new Resampler(AUDIO_CONSTANTS.SAMPLE_RATE, OPUS_SAMPLE_RATE, OPUS_CHANNELS);
+  private partial: Buffer = Buffer.alloc(0); // Bytes of an incomplete input frame
+  private pending: Int16Array;                // Resampled samples waiting for a full packet
+  private pendingLength = 0;
+
+  constructor(settings: OpusSettings) {
+    this.settings = settings;
+    this.frameSize = (OPUS_SAMPLE_RATE / 1000) * settings.frameMs;
+    this.pending = new Int16Array(this.frameSize * OPUS_CHANNELS * 2);
+    this.encoder = new OpusScript(OPUS_SAMPLE_RATE, OPUS_CHANNELS, OpusScript.Application.AUDIO);
+    this.encoder.setBitrate(settings.bitrate * 1000);
+  }
+
+  /**
+   * @param timestamp Capture time of the chunk's first sample (µs)
+   */
+  encode(pcm: Buffer, timestamp = 0): OpusPacket[] {
+    const bytesPerFrame = OPUS_CHANNELS * 2;
+    // Resampled frames still pending from earlier chunks were captured before this one
+    const pendingFrames = this.pendingLength / OPUS_CHANNELS;
+    const data = this.partial.length ? Buffer.concat([this.partial, pcm]) : pcm;
+    const usable = data.length - (data.length % bytesPerFrame);
+    this.partial = Buffer.from(data.subarray(usable));
+
+    // Copy: the capture buffer is not necessarily 2-byte aligned
+    const samples = new Int16Array(data.buffer.slice(data.byteOffset, data.byteOffset + usable));
+    this.append(this.resampler.process(samples));
+
+    const packetSamples = this.frameSize * OPUS_CHANNELS;
+    const packets: OpusPacket[] = [];
+    let offset = 0;
+    while (this.pendingLength - offset >= packetSamples) {
+      const frame = this.pending.subarray(offset, offset + packetSamples);
+      packets.push({
+        data: this.encoder.encode(Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength), this.frameSize),
+        timestamp: Math.round(timestamp + ((offset / OPUS_CHANNELS - pendingFrames) * 1e6) / OPUS_SAMPLE_RATE),
+      });
+      offset += packetSamples;
+    }
+    this.pending.copyWithin(0, offset, this.pendingLength);
+    this.pendingLength -= offset;
+    return packets;
+  }
+
+  close(): void {
+    this.encoder.delete();
+  }
+
+  private append(samples: Int16Array): void {
+    if (this.pendingLength + samples.length > this.pending.length) {
+      const grown = new Int16Array((this.pendingLength + samples.length) * 2);
+      grown.set(this.pending.subarray(0, this.pendingLength));
+      this.pending = grown;
+    }
+    this.pending.set(samples, this.pendingLength);
+    this.pendingLength += samples.length;
+  }
+}
+
+/**
+ * Encoders shared by settings: clients asking for the same bitrate and frame size
+ * get the same packets, so the CPU cost grows with distinct settings, not clients
+ */
+export class OpusEncoderPool {
+  private encoders = new Map<string, { encoder: OpusStreamEncoder; users: number }>();
+
+  /**
+   * @returns Key identifying the client's stream in encode() results
+   */
+  acquire(settings: OpusSettings): string {
+    const key = opusSettingsKey(settings);
+    const entry = this.encoders.get(key);
+    if (entry) {
+      entry.users++;
+    } else {
+      this.encoders.set(key, { encoder: new OpusStreamEncoder(settings), users: 1 });
+    }
+    return key;
+  }
+
+  release(key: string): void {
+    const entry = this.encoders.get(key);
+    if (!entry) return;
+    if (--entry.users === 0) {
+      entry.encoder.close();
+      this.encoders.delete(key);
+    }
+  }
+
+  /**
+   * Feed a PCM chunk to every active encoder
+   * @param timestamp Capture time of the chunk's first sample (µs)
+   */
+  encode(pcm: Buffer, timestamp = 0): Map<string, OpusPacket[]> {
+    const packets = new Map<string, OpusPacket[]>();
+    for (const [key, { encoder }] of this.encoders) {
+      packets.set(key, encoder.encode(pcm, timestamp));
+    }
+    return packets;
+  }
+
+  get size(): number {
+    return this.encoders.size;
+  }
+
+  clear(): void {
+    for (const { encoder } of this.encoders.values()) encoder.close();
+    this.encoders.clear();
+  }
+}
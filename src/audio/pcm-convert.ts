@@ -0,0 +1,215 @@
+/**
+ * PCM format conversion for clients that do not want the M8's native format
+ * Single Responsibility: turn the M8 PCM feed (S16_LE 44.1kHz stereo) into the sample rate,
+ * channel count and sample format a client asked for
+ *
+ * Sample formats:
+ * - s16:  signed 16-bit little-endian (native)
+ * - f32:  32-bit float little-endian, -1..1
+ * - ulaw: 8-bit G.711 µ-law (half the bandwidth of s16)
+ */
+
+import { AUDIO_CONSTANTS } from "./native-capture";
+import { Resampler } from "./resampler";
+
+export type SampleFormat = "s16" | "f32" | "ulaw";
+
+export const SAMPLE_FORMATS: SampleFormat[] = ["s16", "f32", "ulaw"];
+export const MIN_SAMPLE_RATE = 8000;
+export const MAX_SAMPLE_RATE = 96000;
+
+const BYTES_PER_SAMPLE: Record<SampleFormat, number> = { s16: 2, f32: 4, ulaw: 1 };
+const SOURCE_FRAME_BYTES = AUDIO_CONSTANTS.CHANNELS * 2;
+
+/**
+ * Stream format a client can ask for
+ */
+export interface AudioFormat {
+  sampleRate: number;
+  channels: number;           // 1 (mono downmix) or 2
+  sampleFormat: SampleFormat;
+}
+
+export const NATIVE_AUDIO_FORMAT: AudioFormat = {
+  sampleRate: AUDIO_CONSTANTS.SAMPLE_RATE,
+  channels: AUDIO_CONSTANTS.CHANNELS,
+  sampleFormat: "s16",
+};
+
+export interface AudioFormatChunk {
+  data: Buffer;
+  timestamp: number; // Capture time of the chunk's first sample (µs, media clock)
+}
+
+/**
+ * Fill in / correct a requested format: the rate is clamped, other channel counts become stereo,
+ * unknown sample formats fall back to the default
+ */
+export function resolveAudioFormat(
+  requested: Partial<AudioFormat>,
+  defaults: AudioFormat = NATIVE_AUDIO_FORMAT
+): AudioFormat {
+  const sampleRate = requested.sampleRate
+    ? Math.min(MAX_SAMPLE_RATE, Math.max(MIN_SAMPLE_RATE, Math.round(requested.sampleRate)))
+    : defaults.sampleRate;
+  const channels = requested.channels === undefined ? defaults.channels : requested.channels === 1 ? 1 : 2;
+  const sampleFormat = isSampleFormat(requested.sampleFormat) ? requested.sampleFormat : defaults.sampleFormat;
+  return { sampleRate, channels, sampleFormat };
+}
+
+export function isSampleFormat(format: unknown): format is SampleFormat {
+  return SAMPLE_FORMATS.includes(format as SampleFormat);
+}
+
+export function audioFormatKey(format: AudioFormat): string {
+  return `${format.sampleRate}/${format.channels}/${format.sampleFormat}`;
+}
+
+/**
+ * Whether a format is the capture format, so chunks pass through unchanged
+ */
+export function isNativeAudioFormat(format: AudioFormat): boolean {
+  return audioFormatKey(format) === audioFormatKey(NATIVE_AUDIO_FORMAT);
+}
+
+export function bytesPerFrame(format: AudioFormat): number {
+  return BYTES_PER_SAMPLE[format.sampleFormat] * format.channels;
+}
+
+// G.711 µ-law, indexed by the S16 sample + 32768
+const ULAW_TABLE = (() => {
+  const table = new Uint8Array(65536);
+  for (let i = 0; i < table.length; i++) {
+    let sample = i - 32768;
+    const sign = sample < 0 ? 0x80 : 0;
+    if (sign) sample = -sample;
+    sample = Math.min(sample, 32635) + 0x84;
+    let exponent = 7;
+    for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+    const mantissa = (sample >> (exponent + 3)) & 0x0f;
+    table[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
+  return table;
+})();
+
+export function linearToUlaw(sample: number): number {
+  return ULAW_TABLE[sample + 32768]!;
+}
+
+export function ulawToLinear(value: number): number {
+  const byte = ~value & 0xff;
+  const exponent = (byte >> 4) & 0x07;
+  const magnitude = ((((byte & 0x0f) << 3) + 0x84) << exponent) - 0x84;
+  return byte & 0x80 ? -magnitude : magnitude;
+}
+
+/**
+ * One converted stream: native PCM chunks of any size in, whole frames of the target format out
+ */
+export class PcmConverter {
+  readonly format: AudioFormat;
+
+  private resampler: Resampler | null;
+  private partial: Buffer = Buffer.alloc(0); // Bytes of an incomplete input frame
+
+  constructor(format: AudioFormat) {
+    this.format = format;
+    this.resampler = format.sampleRate !== AUDIO_CONSTANTS.SAMPLE_RATE
+      ? new Resampler(AUDIO_CONSTANTS.SAMPLE_RATE, format.sampleRate, format.channels)
+      : null;
+  }
+
+  /**
+   * @param timestamp Capture time of the chunk's first sample (µs)
+   */
+  convert(pcm: Buffer, timestamp = 0): AudioFormatChunk {
+    // A partial frame from the previous chunk was captured just before this one
+    const carried = this.partial.length;
+    const data = carried ? Buffer.concat([this.partial, pcm]) : pcm;
+    const usable = data.length - (data.length % SOURCE_FRAME_BYTES);
+    this.partial = Buffer.from(data.subarray(usable));
+
+    // Copy: the capture buffer is not necessarily 2-byte aligned
+    let samples = new Int16Array(data.buffer.slice(data.byteOffset, data.byteOffset + usable));
+    if (this.format.channels === 1) samples = downmix(samples);
+    if (this.resampler) samples = this.resampler.process(samples);
+
+    return {
+      data: encode(samples, this.format.sampleFormat),
+      timestamp: carried ? Math.round(timestamp - (carried / SOURCE_FRAME_BYTES) * (1e6 / AUDIO_CONSTANTS.SAMPLE_RATE)) : timestamp,
+    };
+  }
+}
+
+function downmix(stereo: Int16Array): Int16Array {
+  const mono = new Int16Array(stereo.length / 2);
+  for (let i = 0; i < mono.length; i++) {
+    mono[i] = (stereo[i * 2]! + stereo[i * 2 + 1]!) >> 1;
+  }
+  return mono;
+}
+
+function encode(samples: Int16Array, sampleFormat: SampleFormat): Buffer {
+  switch (sampleFormat) {
+    case "s16":
+      return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+    case "f32": {
+      const floats = new Float32Array(samples.length);
+      for (let i = 0; i < samples.length; i++) floats[i] = samples[i]! / 32768;
+      return Buffer.from(floats.buffer);
+    }
+    case "ulaw": {
+      const bytes = Buffer.alloc(samples.length);
+      for (let i = 0; i < samples.length; i++) bytes[i] = ULAW_TABLE[samples[i]! + 32768]!;
+      return bytes;
+    }
+  }
+}
+
+/**
+ * Converters shared by format: clients asking for the same format get the same chunks,
+ * so the CPU cost grows with distinct formats, not clients
+ */
+export class PcmConverterPool {
+  private converters = new Map<string, { converter: PcmConverter; users: number }>();
+
+  /**
+   * @returns Key identifying the client's stream in convert() results
+   */
+  acquire(format: AudioFormat): string {
+    const key = audioFormatKey(format);
+    const entry = this.converters.get(key);
+    if (entry) {
+      entry.users++;
+    } else {
+      this.converters.set(key, { converter: new PcmConverter(format), users: 1 });
+    }
+    return key;
+  }
+
+  release(key: string): void {
+    const entry = this.converters.get(key);
+    if (!entry) return;
+    if (--entry.users === 0) this.converters.delete(key);
+  }
+
+  /**
+   * Feed a PCM chunk to every active converter
+   * @param timestamp Capture time of the chunk's first sample (µs)
+   */
+  convert(pcm: Buffer, timestamp = 0): Map<string, AudioFormatChunk> {
+    const chunks = new Map<string, AudioFormatChunk>();
+    for (const [key, { converter }] of this.converters) {
+      chunks.set(key, converter.convert(pcm, timestamp));
+    }
+    return chunks;
+  }
+
+  get size(): number {
+    return this.converters.size;
+  }
+
+  clear(): void {
+    this.converters.clear();
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Recordings
+ * Audio recorded from the live capture feed, stored as one audio file plus a JSON
+ * metadata file per recording, so the directory can be browsed and synced as is.
+ * Instant replays may come with the matching screen as an .m8cap.
+ */
+
+import { mkdir, readFile, readdir, rename, stat, unlink, writeFile } from "fs/promises";
+import { extname, join } from "path";
+import { WavWriter } from "./wav";
+import { FlacWriter } from "./flac";
+
+export type RecordingFormat = "wav" | "flac";
+
+export const RECORDING_FORMATS: RecordingFormat[] = ["wav", "flac"];
+export const RECORDING_META_EXTENSION = ".json";
+
+const CONTENT_TYPES: Record<RecordingFormat, string> = { wav: "audio/wav", flac: "audio/flac" };
+
+// Names double as file names
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Interleaved little-endian PCM layout
+ */
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface RecordingSummary {
+  frames: number; // Sample frames written
+  size: number;   // File size in bytes
+}
+
+/**
+ * Streams PCM chunks (any length) into an audio file; close() finalizes headers
+ */
+export interface RecordingWriter {
+  write(pcm: Buffer): void;
+  close(): Promise<RecordingSummary>;
+}
+
+export interface Recording {
+  name: string;
+  format: RecordingFormat;
+  file: string;              // File name inside the recordings directory
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  duration: number;          // Seconds
+  size: number;              // Bytes
+  startedAt: string;         // ISO timestamp
+  stoppedAt: string;         // ISO timestamp
+  display?: string;          // Matching serial capture (.m8cap) inside the recordings directory
+}
+
+/**
+ * Check a recording name (letters, digits, "-" and "_", up to 64 chars)
+ */
+export function isValidRecordingName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+export function isRecordingFormat(format: unknown): format is RecordingFormat {
+  return RECORDING_FORMATS.includes(format as RecordingFormat);
+}
+
+export function recordingContentType(format: RecordingFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+/**
+ * Writer for a format
+ */
+export function createRecordingWriter(path: string, format: RecordingFormat, pcm: PcmFormat): RecordingWriter {
+  return format === "flac" ? new FlacWriter(path, pcm) : new WavWriter(path, pcm);
+}
+
+/**
+ * Default name for a recording started at `date`, e.g. recording-2026-03-01T12-30-05
+ */
+export function defaultRecordingName(date = new Date(), prefix = "recording"): string {
+  return `${prefix}-${date.toISOString().slice(0, 19).replace(/:/g, "-")}`;
+}
+
+export class RecordingStore {
+  constructor(private readonly dir: string) {}
+
+  get directory(): string {
+    return this.dir;
+  }
+
+  private metaPath(name: string): string {
+    if (!isValidRecordingName(name)) throw new Error(`Invalid recording name: ${name}`);
+    return join(this.dir, `${name}${RECORDING_META_EXTENSION}`);
+  }
+
+  /**
+   * Path of the audio file for a new recording (creates the directory)
+   */
+  async prepare(name: string, format: RecordingFormat): Promise<string> {
+    if (!isValidRecordingName(name)) throw new Error(`Invalid recording name: ${name}`);
+    await mkdir(this.dir, { recursive: true });
+    return join(this.dir, `${name}.${format}`);
+  }
+
+  /**
+   * Whether a name is taken (by metadata or an audio file)
+   */
+  async exists(name: string): Promise<boolean> {
+    const files = await this.files();
+    return files.some((file) => file === `${name}${RECORDING_META_EXTENSION}`
+      || RECORDING_FORMATS.some((format) => file === `${name}.${format}`));
+  }
+
+  /**
+   * Write the metadata of a finished recording
+   */
+  async save(recording: Recording): Promise<void> {
+    await writeFile(this.metaPath(recording.name), JSON.stringify(recording, null, 2) + "\n");
+  }
+
+  /**
+   * All recordings, newest first (metadata without its audio file is skipped)
+   */
+  async list(): Promise<Recording[]> {
+    const names = (await this.files())
+      .filter((file) => file.endsWith(RECORDING_META_EXTENSION))
+      .map((file) => file.slice(0, -RECORDING_META_EXTENSION.length))
+      .filter(isValidRecordingName);
+
+    const recordings: Recording[] = [];
+    for (const name of names) {
+      const recording = await this.get(name);
+      if (recording) recordings.push(recording);
+    }
+    return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Load a recording's metadata (null if missing, unreadable or its audio file is gone)
+   */
+  async get(name: string): Promise<Recording | null> {
+    if (!isValidRecordingName(name)) return null;
+    try {
+      const data = JSON.parse(await readFile(this.metaPath(name), "utf8"));
+      if (!isRecordingFormat(data.format)) return null;
+      const file = `${name}.${data.format}`;
+      const { size } = await stat(join(this.dir, file));
+      return { ...data, name, file, size };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Absolute path of a recording's audio file
+   */
+  audioPath(recording: Recording): string {
+    return join(this.dir, recording.file);
+  }
+
+  /**
+   * Absolute path of a recording's screen capture (null without one)
+   */
+  displayPath(recording: Recording): string | null {
+    return recording.display ? join(this.dir, recording.display) : null;
+  }
+
+  /**
+   * Delete a recording (audio, screen capture and metadata)
+   * @returns false if it did not exist
+   */
+  async delete(name: string): Promise<boolean> {
+    const recording = await this.get(name);
+    if (!recording) return false;
+    await unlink(this.audioPath(recording));
+    const display = this.displayPath(recording);
+    if (display) await unlink(display).catch(() => {});
+    await unlink(this.metaPath(name));
+    return true;
+  }
+
+  /**
+   * Rename a recording
+   * @returns The renamed recording, null if it did not exist
+   * @throws Error if the new name is invalid or taken
+   */
+  async rename(name: string, newName: string): Promise<Recording | null> {
+    const recording = await this.get(name);
+    if (!recording) return null;
+    if (!isValidRecordingName(newName)) throw new Error(`Invalid recording name: ${newName}`);
+    if (newName !== name && (await this.exists(newName))) throw new Error(`Recording already exists: ${newName}`);
+
+    const renamed: Recording = { ...recording, name: newName, file: `${newName}.${recording.format}` };
+    await rename(this.audioPath(recording), this.audioPath(renamed));
+    if (recording.display) {
+      renamed.display = `${newName}${extname(recording.display)}`;
+      await rename(this.displayPath(recording)!, this.displayPath(renamed)!).catch(() => {});
+    }
+    await this.save(renamed);
+    if (newName !== name) await unlink(this.metaPath(name));
+    return renamed;
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return await readdir(this.dir);
+    } catch {
+      return [];
+    }
+  }
+}
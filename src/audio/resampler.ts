@@ -0,0 +1,104 @@
+/**
+ * Sample rate conversion for streamed audio
+ * Single Responsibility: change the sample rate of interleaved S16 PCM arriving in chunks of any size
+ * (44.1 → 48 kHz for Opus, any rate for converted PCM streams)
+ */
+
+// Low-pass taps used before downsampling (odd: the filter delays by a whole number of frames)
+const ANTI_ALIAS_TAPS = 63;
+// Cutoff as a fraction of the target Nyquist frequency, leaving room for the transition band
+const ANTI_ALIAS_CUTOFF = 0.9;
+
+/**
+ * Streaming windowed-sinc (Blackman) low-pass FIR for interleaved S16 audio
+ */
+class LowPassFilter {
+  private readonly taps: Float64Array;
+  private readonly channels: number;
+  private history: Int16Array; // Last taps - 1 input frames of the previous chunks
+
+  /**
+   * @param cutoff Cutoff frequency as a fraction of the sample rate (0..0.5)
+   */
+  constructor(cutoff: number, channels: number, length = ANTI_ALIAS_TAPS) {
+    this.channels = channels;
+    this.history = new Int16Array((length - 1) * channels);
+    this.taps = new Float64Array(length);
+    const middle = (length - 1) / 2;
+    let sum = 0;
+    for (let k = 0; k < length; k++) {
+      const x = k - middle;
+      const sinc = x === 0 ? 2 * cutoff : Math.sin(2 * Math.PI * cutoff * x) / (Math.PI * x);
+      const window = 0.42 - 0.5 * Math.cos((2 * Math.PI * k) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * k) / (length - 1));
+      sum += this.taps[k] = sinc * window;
+    }
+    for (let k = 0; k < length; k++) this.taps[k]! /= sum; // Unity gain at DC
+  }
+
+  process(input: Int16Array): Int16Array {
+    const ch = this.channels;
+    const buffer = new Int16Array(this.history.length + input.length);
+    buffer.set(this.history);
+    buffer.set(input, this.history.length);
+
+    const output = new Int16Array(input.length);
+    for (let i = 0; i < output.length; i++) {
+      let acc = 0;
+      for (let k = 0, j = i; k < this.taps.length; k++, j += ch) acc += this.taps[k]! * buffer[j]!;
+      output[i] = Math.max(-32768, Math.min(32767, Math.round(acc)));
+    }
+
+    this.history = buffer.slice(buffer.length - this.history.length);
+    return output;
+  }
+}
+
+/**
+ * Streaming linear-interpolation resampler for interleaved S16 audio
+ * Downsampling low-pass filters the input first, so content above the target Nyquist frequency
+ * is removed instead of aliasing into the audible band
+ */
+export class Resampler {
+  private readonly fromRate: number;
+  private readonly toRate: number;
+  private readonly channels: number;
+  private readonly filter: LowPassFilter | null;
+  // Next output frame position in input frames × toRate (integer: no drift, same output for any chunking),
+  // relative to the current chunk (-toRate = last frame of the previous one)
+  private position = 0;
+  private last: Int16Array;       // Last input frame of the previous chunk
+
+  constructor(fromRate: number, toRate: number, channels: number) {
+    this.fromRate = fromRate;
+    this.toRate = toRate;
+    this.channels = channels;
+    this.last = new Int16Array(channels);
+    this.filter = toRate < fromRate ? new LowPassFilter((ANTI_ALIAS_CUTOFF * toRate) / (2 * fromRate), channels) : null;
+  }
+
+  process(input: Int16Array): Int16Array {
+    const ch = this.channels;
+    const frames = Math.floor(input.length / ch);
+    if (frames === 0) return new Int16Array(0);
+    if (this.filter) input = this.filter.process(input.subarray(0, frames * ch));
+
+    const end = (frames - 1) * this.toRate;
+    const output = new Int16Array(Math.max(0, Math.ceil((end - this.position) / this.fromRate)) * ch);
+    let written = 0;
+
+    while (this.position < end) {
+      const index = Math.floor(this.position / this.toRate);
+      const frac = (this.position - index * this.toRate) / this.toRate;
+      for (let c = 0; c < ch; c++) {
+        const a = index < 0 ? this.last[c]! : input[index * ch + c]!;
+        const b = input[(index + 1) * ch + c]!;
+        output[written++] = Math.round(a + (b - a) * frac);
+      }
+      this.position += this.fromRate;
+    }
+
+    this.last = input.slice((frames - 1) * ch, frames * ch);
+    this.position -= frames * this.toRate;
+    return output;
+  }
+}
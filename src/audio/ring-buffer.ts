@@ -129,6 +129,25 @@ export class RingBuffer {
     return toRead;
   }
 
+  /**
+   * Peek the newest data without consuming (the last output.length bytes pushed)
+   * @returns bytes read
+   */
+  peekLatest(output: Uint8Array): number {
+    const toRead = Math.min(output.length, this.count);
+    if (toRead === 0) return 0;
+
+    const start = (this.writePos - toRead + this.size) % this.size;
+    const firstChunk = Math.min(toRead, this.size - start);
+    output.set(this.buffer.subarray(start, start + firstChunk));
+
+    if (firstChunk < toRead) {
+      output.set(this.buffer.subarray(0, toRead - firstChunk), firstChunk);
+    }
+
+    return toRead;
+  }
+
   /**
    * Clear all data
    */
@@ -5,6 +5,7 @@
  */
 
 import { spawn, type ChildProcess } from "child_process";
+import type { IAudioCapture, AudioCaptureOptions } from "./native-capture";
 
 /**
  * Audio constants for M8
@@ -32,15 +33,12 @@ export const USB_AUDIO_CONSTANTS = {
   PREBUFFER_SIZE: 8 * 1024,
 } as const;
 
-export interface UsbAudioCaptureOptions {
-  onData: (data: Buffer) => void;
-  onError?: (error: Error) => void;
-}
+export type UsbAudioCaptureOptions = AudioCaptureOptions;
 
 /**
  * Audio capture using PipeWire or ALSA
  */
-export class UsbAudioCapture {
+export class UsbAudioCapture implements IAudioCapture {
   private process: ChildProcess | null = null;
   private running = false;
   private readonly onData: (data: Buffer) => void;
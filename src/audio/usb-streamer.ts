@@ -1,35 +1,41 @@
 /**
  * UsbAudioStreamer - Complete USB audio streaming solution
- * Combines UsbAudioCapture + AudioHub for multi-client streaming
+ * Combines the capture backend chain + AudioHub for multi-client streaming
  * Replaces the old arecord-based AudioStreamer
  */
 
 import type { WebSocket } from "ws";
-import {
-  AUDIO_CONSTANTS,
-  type IAudioCapture,
-} from "./native-capture";
-import { AlsaCapture } from "./alsa-capture";
-import { AudioHub } from "./audio-hub";
+import { AUDIO_CONSTANTS } from "./native-capture";
+import { createAudioCapture, type AudioCaptureSettings, type AudioCaptureStatus, type FailoverCapture } from "./capture-backends";
+import { AudioHub, type AudioClientOptions } from "./audio-hub";
+import { audioFormatKey } from "./pcm-convert";
+import type { RecordingFormat, RecordingSummary } from "./recordings";
+import { nowMicros } from "../server/clock";
+
+// Bytes per sample frame (S16_LE stereo)
+const BYTES_PER_FRAME = (AUDIO_CONSTANTS.BITS_PER_SAMPLE / 8) * AUDIO_CONSTANTS.CHANNELS;
 
 export interface UsbAudioStreamerOptions {
   autoStart?: boolean;
-  onAudioData?: (data: Buffer) => void; // External callback (e.g., TCP streaming)
+  onAudioData?: (data: Buffer, timestamp: number) => void; // External callback (e.g., TCP streaming)
+  playoutDelayMs?: number; // Announced to clients in clock-sync replies
+  replaySeconds?: number; // Audio kept for instant replay (default: what the 256 KiB ring buffer holds)
+  capture?: AudioCaptureSettings; // Backend chain (default: alsa, native, pipewire)
 }
 
 /**
  * USB Audio Streamer
- * - Captures audio directly from M8 USB (bypasses ALSA/PipeWire)
+ * - Captures audio from the first working backend, failing over between them
  * - Distributes to multiple WebSocket clients
- * - Supports file recording simultaneously
+ * - Records WAV/FLAC from the same feed while streaming
  */
 export class UsbAudioStreamer {
-  private capture: IAudioCapture;
+  private capture: FailoverCapture;
   public hub: AudioHub;
   private running = false;
   private startPromise: Promise<void> | null = null;
   private autoStart: boolean;
-  private externalCallback: ((data: Buffer) => void) | null;
+  private externalCallback: ((data: Buffer, timestamp: number) => void) | null;
 
   constructor(options: UsbAudioStreamerOptions = {}) {
     this.autoStart = options.autoStart ?? false;
@@ -37,22 +43,25 @@ export class UsbAudioStreamer {
 
     console.log(`[UsbStreamer] External callback: ${options.onAudioData ? "SET" : "NOT SET"}`);
 
-    this.hub = new AudioHub(AUDIO_CONSTANTS.RING_BUFFER_SIZE);
+    const replayBytes = Math.ceil((options.replaySeconds ?? 0) * AUDIO_CONSTANTS.SAMPLE_RATE) * BYTES_PER_FRAME;
+    this.hub = new AudioHub(Math.max(AUDIO_CONSTANTS.RING_BUFFER_SIZE, replayBytes), options.playoutDelayMs);
 
-    // Use ALSA capture via arecord (doesn't need root)
-    this.capture = new AlsaCapture({
+    // First working backend of the chain (ALSA via arecord by default: doesn't need root)
+    this.capture = createAudioCapture({
       onData: (data) => {
-        this.hub.onAudioData(data);
+        // Capture time of the first sample: the chunk arrives once its last sample was recorded
+        const timestamp = nowMicros() - Math.round((data.length / BYTES_PER_FRAME / AUDIO_CONSTANTS.SAMPLE_RATE) * 1e6);
+        this.hub.onAudioData(data, timestamp);
         // Also send to external callback (TCP)
         if (this.externalCallback) {
-          this.externalCallback(data);
+          this.externalCallback(data, timestamp);
         }
       },
       onError: (err) => {
         console.error("USB Audio capture error:", err.message);
         this.hub.broadcastError(err.message);
       },
-    });
+    }, options.capture);
 
     // Auto-start if requested
     if (this.autoStart) {
@@ -64,10 +73,13 @@ export class UsbAudioStreamer {
 
   /**
    * Add WebSocket client for audio streaming
+   * @param options Opus settings for a compressed stream or a PCM format (default: raw capture PCM), capture timestamps
    */
-  addClient(ws: WebSocket): void {
-    this.hub.addClient(ws);
-    console.log(`Audio client added, total: ${this.hub.clientCount}`);
+  addClient(ws: WebSocket, options: AudioClientOptions = {}): void {
+    this.hub.addClient(ws, options);
+    const { opus, format } = options;
+    const codec = opus ? `opus ${opus.bitrate}kbit/s ${opus.frameMs}ms` : format ? `pcm ${audioFormatKey(format)}` : "pcm";
+    console.log(`Audio client added (${codec}), total: ${this.hub.clientCount}`);
 
     // Start capture on first client
     if (this.hub.clientCount === 1 && !this.running) {
@@ -117,7 +129,6 @@ export class UsbAudioStreamer {
 
     console.log("Stopping USB audio capture...");
     await this.capture.stop();
-    await this.hub.stopRecording();
     this.running = false;
     console.log("USB audio capture stopped");
   }
@@ -132,25 +143,37 @@ export class UsbAudioStreamer {
     // Wait for device to re-enumerate
     await new Promise((r) => setTimeout(r, 1500));
 
-    if (this.hub.clientCount > 0) {
+    if (this.hub.clientCount > 0 || this.autoStart) {
       await this.start();
     }
   }
 
   /**
-   * Start recording to file
+   * Start recording to file, starting capture if no client did yet
+   * A recording outlives capture restarts (USB reconnect); the gap is simply missing
    */
-  async startRecording(filePath: string): Promise<void> {
-    await this.hub.startRecording(filePath);
+  async startRecording(filePath: string, format: RecordingFormat = "wav"): Promise<void> {
+    await this.start();
+    await this.hub.startRecording(filePath, format);
     console.log(`Recording started: ${filePath}`);
   }
 
   /**
    * Stop recording
+   * @returns What was written, null if not recording
    */
-  async stopRecording(): Promise<void> {
-    await this.hub.stopRecording();
+  async stopRecording(): Promise<RecordingSummary | null> {
+    const summary = await this.hub.stopRecording();
     console.log("Recording stopped");
+    return summary;
+  }
+
+  /**
+   * The last `seconds` of audio (instant replay)
+   * @returns PCM and the wall time (Unix ms) of its first sample, null before any audio
+   */
+  getReplay(seconds: number): { pcm: Buffer; startedAt: number } | null {
+    return this.hub.getReplay(seconds);
   }
 
   /**
@@ -167,6 +190,13 @@ export class UsbAudioStreamer {
     return this.hub.isRecording;
   }
 
+  /**
+   * Active capture backend, the chain and failovers
+   */
+  getCaptureStatus(): AudioCaptureStatus {
+    return this.capture.getStatus();
+  }
+
   /**
    * Get client count
    */
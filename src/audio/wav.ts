@@ -0,0 +1,67 @@
+/**
+ * WAV Writer
+ * Single Responsibility: stream PCM into a RIFF/WAVE file
+ *
+ * The header is written up front with zero sizes and patched on close, so a
+ * recording is playable once stopped (and mostly playable if the process died).
+ */
+
+import { createWriteStream, type WriteStream } from "fs";
+import { open } from "fs/promises";
+import type { PcmFormat, RecordingWriter, RecordingSummary } from "./recordings";
+
+const HEADER_SIZE = 44;
+
+/**
+ * Canonical 44-byte PCM WAV header
+ */
+export function wavHeader(format: PcmFormat, dataBytes: number): Buffer {
+  const { sampleRate, channels, bitsPerSample } = format;
+  const blockAlign = channels * (bitsPerSample / 8);
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(Math.min(0xffffffff, 36 + dataBytes), 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16);            // fmt chunk size
+  header.writeUInt16LE(1, 20);             // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(Math.min(0xffffffff, dataBytes), 40);
+  return header;
+}
+
+export class WavWriter implements RecordingWriter {
+  private stream: WriteStream;
+  private dataBytes = 0;
+
+  constructor(private readonly path: string, private readonly format: PcmFormat) {
+    this.stream = createWriteStream(path);
+    this.stream.write(wavHeader(format, 0));
+  }
+
+  write(pcm: Buffer): void {
+    this.stream.write(pcm);
+    this.dataBytes += pcm.length;
+  }
+
+  async close(): Promise<RecordingSummary> {
+    await new Promise<void>((resolve, reject) => {
+      this.stream.end((err?: Error | null) => (err ? reject(err) : resolve()));
+    });
+
+    const file = await open(this.path, "r+");
+    try {
+      await file.write(wavHeader(this.format, this.dataBytes), 0, HEADER_SIZE, 0);
+    } finally {
+      await file.close();
+    }
+
+    const frameBytes = this.format.channels * (this.format.bitsPerSample / 8);
+    return { frames: Math.floor(this.dataBytes / frameBytes), size: HEADER_SIZE + this.dataBytes };
+  }
+}
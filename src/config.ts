@@ -57,6 +57,51 @@ export const config = {
    */
   AUDIO_ENABLED: getEnvBoolean("M8_AUDIO_ENABLED", true),
 
+  /**
+   * Audio capture backends in priority order (native, alsa, pipewire, file), comma separated
+   * The next one takes over when the active one errors or stops delivering audio
+   * @env M8_AUDIO_BACKENDS
+   * @default "alsa,native,pipewire"
+   */
+  AUDIO_BACKENDS: getEnvString("M8_AUDIO_BACKENDS", "alsa,native,pipewire"),
+
+  /**
+   * .raw file or directory played by the file backend (empty: tests/fixtures/audio)
+   * @env M8_AUDIO_FILE
+   * @default ""
+   */
+  AUDIO_FILE: getEnvString("M8_AUDIO_FILE", ""),
+
+  /**
+   * Fail over to the next backend after this much digital silence (0 = only on errors/stalls;
+   * an idle M8 is silent too)
+   * @env M8_AUDIO_SILENCE_MS
+   * @default 0
+   */
+  AUDIO_SILENCE_MS: getEnvNumber("M8_AUDIO_SILENCE_MS", 0),
+
+  /**
+   * Default Opus bitrate in kbit/s (clients that ask for Opus can pick their own)
+   * @env M8_OPUS_BITRATE
+   * @default 64
+   */
+  OPUS_BITRATE: getEnvNumber("M8_OPUS_BITRATE", 64),
+
+  /**
+   * Default Opus frame size in ms: 5, 10, 20, 40 or 60 (shorter = lower latency, more overhead)
+   * @env M8_OPUS_FRAME_MS
+   * @default 20
+   */
+  OPUS_FRAME_MS: getEnvNumber("M8_OPUS_FRAME_MS", 20),
+
+  /**
+   * Playout delay (ms) clients add to capture timestamps, sent with clock-sync replies
+   * so audio and display line up the same way on every client
+   * @env M8_PLAYOUT_DELAY_MS
+   * @default 150
+   */
+  PLAYOUT_DELAY_MS: getEnvNumber("M8_PLAYOUT_DELAY_MS", 150),
+
   /**
    * Auto-reconnect on disconnect
    * @env M8_AUTO_RECONNECT
@@ -77,6 +122,93 @@ export const config = {
    * @default "info"
    */
   LOG_LEVEL: getEnvString("M8_LOG_LEVEL", "info"),
+
+  /**
+   * Directory for serial session captures (.m8cap)
+   * @env M8_CAPTURE_DIR
+   * @default "captures"
+   */
+  CAPTURE_DIR: getEnvString("M8_CAPTURE_DIR", "captures"),
+
+  /**
+   * Size limit of a serial capture in MiB; capturing stops taking traffic when reached (0 = no limit)
+   * @env M8_CAPTURE_MAX_MB
+   * @default 64
+   */
+  CAPTURE_MAX_MB: getEnvNumber("M8_CAPTURE_MAX_MB", 64),
+
+  /**
+   * Duration limit of a serial capture in minutes (0 = no limit)
+   * @env M8_CAPTURE_MAX_MINUTES
+   * @default 30
+   */
+  CAPTURE_MAX_MINUTES: getEnvNumber("M8_CAPTURE_MAX_MINUTES", 30),
+
+  /**
+   * Directory for saved key macros (.macro.json)
+   * @env M8_MACRO_DIR
+   * @default "macros"
+   */
+  MACRO_DIR: getEnvString("M8_MACRO_DIR", "macros"),
+
+  /**
+   * Directory for audio recordings (.wav/.flac + .json metadata)
+   * @env M8_RECORDINGS_DIR
+   * @default "recordings"
+   */
+  RECORDINGS_DIR: getEnvString("M8_RECORDINGS_DIR", "recordings"),
+
+  /**
+   * Instant-replay window: seconds of audio (and screen) always kept for POST /api/audio/replay
+   * Opt-in: while non-zero, audio is captured from startup even with no audio clients; 0 disables
+   * @env M8_REPLAY_SECONDS
+   * @default 0
+   */
+  REPLAY_SECONDS: getEnvNumber("M8_REPLAY_SECONDS", 0),
+
+  /**
+   * API tokens with roles: "token:role" or "name:token:role", comma separated
+   * Roles: viewer, player, admin. Empty = auth disabled (everyone is admin)
+   * @env M8_AUTH_TOKENS
+   * @default ""
+   */
+  AUTH_TOKENS: getEnvString("M8_AUTH_TOKENS", ""),
+
+  /**
+   * Origins allowed for cross-origin requests (comma separated, "*" for any)
+   * @env M8_CORS_ORIGINS
+   * @default "" (same origin only)
+   */
+  CORS_ORIGINS: getEnvString("M8_CORS_ORIGINS", ""),
+
+  /**
+   * TLS certificate (PEM) - enables https:// and wss:// on the HTTP port
+   * @env M8_TLS_CERT
+   * @default "" (plain HTTP)
+   */
+  TLS_CERT: getEnvString("M8_TLS_CERT", ""),
+
+  /**
+   * TLS private key (PEM)
+   * @env M8_TLS_KEY
+   * @default ""
+   */
+  TLS_KEY: getEnvString("M8_TLS_KEY", ""),
+
+  /**
+   * Generate a self-signed certificate if the cert/key files don't exist
+   * (default paths: certs/m8-display.crt, certs/m8-display.key)
+   * @env M8_TLS_SELF_SIGNED
+   * @default false
+   */
+  TLS_SELF_SIGNED: getEnvBoolean("M8_TLS_SELF_SIGNED", false),
+
+  /**
+   * TLS-wrapped TCP proxy port (only with TLS configured, 0 to disable)
+   * @env M8_TCP_TLS_PORT
+   * @default 3334
+   */
+  TCP_TLS_PORT: getEnvNumber("M8_TCP_TLS_PORT", 3334),
 };
 
 /**
@@ -89,6 +221,16 @@ export function printConfig(): void {
   console.log(`  Serial Port:    ${config.SERIAL_PORT || "(auto-detect)"}`);
   console.log(`  Baud Rate:      ${config.BAUD_RATE}`);
   console.log(`  Audio Enabled:  ${config.AUDIO_ENABLED}`);
+  console.log(`  Audio Backends: ${config.AUDIO_BACKENDS}`);
+  console.log(`  Opus Default:   ${config.OPUS_BITRATE} kbit/s, ${config.OPUS_FRAME_MS} ms`);
+  console.log(`  Playout Delay:  ${config.PLAYOUT_DELAY_MS} ms`);
   console.log(`  Auto Reconnect: ${config.AUTO_RECONNECT}`);
   console.log(`  Log Level:      ${config.LOG_LEVEL}`);
+  console.log(`  Capture Dir:    ${config.CAPTURE_DIR}`);
+  console.log(`  Recordings Dir: ${config.RECORDINGS_DIR}`);
+  console.log(`  Replay Window:  ${config.REPLAY_SECONDS > 0 ? `${config.REPLAY_SECONDS} s` : "(disabled)"}`);
+  console.log(`  Auth:           ${config.AUTH_TOKENS ? "enabled" : "(disabled)"}`);
+  console.log(`  CORS Origins:   ${config.CORS_ORIGINS || "(same origin)"}`);
+  console.log(`  TLS:            ${config.TLS_CERT || (config.TLS_SELF_SIGNED ? "(self-signed)" : "(disabled)")}`);
+  console.log(`  TCP TLS Port:   ${config.TCP_TLS_PORT || "(disabled)"}`);
 }
@@ -1,17 +1,19 @@
 /**
  * M8 Text Buffer
- * 53×24 character grid with colors, built from TEXT commands
+ * 40×24 character grid with colors, built from TEXT commands
+ * Cell size follows the hardware model (see geometry.ts)
  */
 
-import type { Color, TextCell, TextCommand, RectCommand } from "../state/types";
+import type { Color, TextCell, TextCommand, RectCommand, SystemCommand } from "../state/types";
+import { MODEL_01_GEOMETRY, geometryFor, sameGeometry, type ScreenGeometry } from "./geometry";
 
-// M8 screen dimensions
-export const SCREEN_WIDTH = 320;
-export const SCREEN_HEIGHT = 240;
-export const CHAR_WIDTH = 8;
-export const CHAR_HEIGHT = 10;
-export const COLS = 40; // 320 / 8
-export const ROWS = 24; // 240 / 10
+// Model:01 screen dimensions (defaults until a SYSTEM command arrives)
+export const SCREEN_WIDTH = MODEL_01_GEOMETRY.width;
+export const SCREEN_HEIGHT = MODEL_01_GEOMETRY.height;
+export const CHAR_WIDTH = MODEL_01_GEOMETRY.cellWidth;
+export const CHAR_HEIGHT = MODEL_01_GEOMETRY.cellHeight;
+export const COLS = MODEL_01_GEOMETRY.cols; // 320 / 8
+export const ROWS = MODEL_01_GEOMETRY.rows; // 240 / 10
 
 // Default colors
 const BLACK: Color = { r: 0, g: 0, b: 0 };
@@ -46,25 +48,50 @@ export class TextBuffer {
   private cursorRow: number = 0;
   private cursorCol: number = 0;
   private lastUpdate: number = 0;
+  private geometry: ScreenGeometry = MODEL_01_GEOMETRY;
 
   constructor() {
     this.cells = this.createEmptyGrid();
   }
 
   private createEmptyGrid(): TextCell[][] {
-    return Array.from({ length: ROWS }, () =>
-      Array.from({ length: COLS }, () => emptyCell())
+    return Array.from({ length: this.geometry.rows }, () =>
+      Array.from({ length: this.geometry.cols }, () => emptyCell())
     );
   }
 
+  /**
+   * Apply SYSTEM command (hardware model selects geometry)
+   */
+  applySystem(cmd: SystemCommand): void {
+    this.setGeometry(geometryFor(cmd.hardwareType));
+  }
+
+  /**
+   * Change geometry (clears the grid if it differs)
+   */
+  setGeometry(geometry: ScreenGeometry): void {
+    if (sameGeometry(geometry, this.geometry)) return;
+    this.geometry = geometry;
+    this.clear();
+  }
+
+  /**
+   * Current geometry
+   */
+  getGeometry(): ScreenGeometry {
+    return this.geometry;
+  }
+
   /**
    * Apply TEXT command to buffer
    */
   applyText(cmd: TextCommand): void {
-    const col = Math.floor(cmd.x / CHAR_WIDTH);
-    const row = Math.floor(cmd.y / CHAR_HEIGHT);
+    const { cellWidth, cellHeight, rows, cols } = this.geometry;
+    const col = Math.floor(cmd.x / cellWidth);
+    const row = Math.floor(cmd.y / cellHeight);
 
-    if (row >= 0 && row < ROWS && col >= 0 && col < COLS) {
+    if (row >= 0 && row < rows && col >= 0 && col < cols) {
       this.cells[row][col] = {
         char: cmd.char,
         fg: cmd.fg,
@@ -85,19 +112,21 @@ export class TextBuffer {
    * Apply RECT command (for screen clears)
    */
   applyRect(cmd: RectCommand): void {
+    const { width, height, cellWidth, cellHeight, rows, cols } = this.geometry;
+
     // Full screen clear
-    if (cmd.x === 0 && cmd.y === 0 && cmd.width >= SCREEN_WIDTH && cmd.height >= SCREEN_HEIGHT) {
+    if (cmd.x === 0 && cmd.y === 0 && cmd.width >= width && cmd.height >= height) {
       this.clear();
     }
     // Partial clear - fill with spaces
     else {
-      const startCol = Math.floor(cmd.x / CHAR_WIDTH);
-      const startRow = Math.floor(cmd.y / CHAR_HEIGHT);
-      const endCol = Math.ceil((cmd.x + cmd.width) / CHAR_WIDTH);
-      const endRow = Math.ceil((cmd.y + cmd.height) / CHAR_HEIGHT);
+      const startCol = Math.floor(cmd.x / cellWidth);
+      const startRow = Math.floor(cmd.y / cellHeight);
+      const endCol = Math.ceil((cmd.x + cmd.width) / cellWidth);
+      const endRow = Math.ceil((cmd.y + cmd.height) / cellHeight);
 
-      for (let row = startRow; row < endRow && row < ROWS; row++) {
-        for (let col = startCol; col < endCol && col < COLS; col++) {
+      for (let row = startRow; row < endRow && row < rows; row++) {
+        for (let col = startCol; col < endCol && col < cols; col++) {
           if (row >= 0 && col >= 0) {
             this.cells[row][col] = {
               char: " ",
@@ -125,7 +154,7 @@ export class TextBuffer {
    * Get cell at position
    */
   getCell(row: number, col: number): TextCell | null {
-    if (row >= 0 && row < ROWS && col >= 0 && col < COLS) {
+    if (row >= 0 && row < this.geometry.rows && col >= 0 && col < this.geometry.cols) {
       return this.cells[row][col];
     }
     return null;
@@ -179,7 +208,7 @@ export class TextBuffer {
    * Get specific row as text
    */
   getRow(row: number): string {
-    if (row >= 0 && row < ROWS) {
+    if (row >= 0 && row < this.geometry.rows) {
       return this.cells[row].map((cell) => cell.char).join("").trimEnd();
     }
     return "";
@@ -208,7 +237,14 @@ export class TextBuffer {
   }
 
   /**
-   * Get dimensions
+   * Get current grid dimensions
+   */
+  getDimensions(): { rows: number; cols: number } {
+    return { rows: this.geometry.rows, cols: this.geometry.cols };
+  }
+
+  /**
+   * Get default (Model:01) dimensions
    */
   static get dimensions(): { rows: number; cols: number } {
     return { rows: ROWS, cols: COLS };
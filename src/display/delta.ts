@@ -4,12 +4,65 @@
  *
  * For 4G optimization: skip unchanged TEXT/RECT commands
  * WAVE commands always sent (constantly changing)
+ *
+ * The cache also describes the whole screen: the latest draw per position, in drawing order,
+ * replayed after the last screen clear reproduces it (snapshot() for late-joining clients)
+ */
+
+import type { ParsedCommand, TextCommand, RectCommand, WaveCommand, SystemCommand, Color } from "../state/types";
+import { MODEL_01_GEOMETRY, geometryFor, sameGeometry, type ScreenGeometry } from "./geometry";
+
+/**
+ * Screen clear threshold: a rect covering 5/6 of the screen
+ * (320 * 200 = ~64000 pixels on Model:01)
+ */
+function clearThresholdFor(geometry: ScreenGeometry): number {
+  return (geometry.width * geometry.height * 5) / 6;
+}
+
+/**
+ * Cache bound for sessions that never clear the screen (oldest draws are the likeliest covered)
+ */
+const MAX_CACHE_ENTRIES = 8192;
+
+/**
+ * Display stream a client receives: the M8's raw SLIP bytes, or the delta-filtered commands
+ * re-encoded as SLIP (duplicates dropped, less traffic for m8c clients on slow links)
  */
+export type DisplayStreamMode = "raw" | "delta";
+
+/**
+ * Display bytes per client, to compare delta with the raw stream
+ */
+export interface DisplayClientStats {
+  mode: DisplayStreamMode;
+  bytes: number;     // Display bytes sent to the client
+  rawBytes: number;  // Raw M8 bytes produced while it was connected
+}
 
-import type { ParsedCommand, TextCommand, RectCommand, Color } from "../state/types";
+/**
+ * Totals for one consumer (TCP proxy, /display), savings over its delta clients
+ */
+export interface DeltaConsumerStats {
+  clients: number;
+  deltaClients: number;
+  bytes: number;
+  rawBytes: number;
+  savings: string;
+}
 
-// Screen clear threshold (width * height)
-const SCREEN_CLEAR_THRESHOLD = 320 * 200; // ~64000 pixels
+export function summarizeDisplayClients(clients: DisplayClientStats[]): DeltaConsumerStats {
+  const delta = clients.filter((c) => c.mode === "delta");
+  const bytes = delta.reduce((sum, c) => sum + c.bytes, 0);
+  const rawBytes = delta.reduce((sum, c) => sum + c.rawBytes, 0);
+  return {
+    clients: clients.length,
+    deltaClients: delta.length,
+    bytes: clients.reduce((sum, c) => sum + c.bytes, 0),
+    rawBytes: clients.reduce((sum, c) => sum + c.rawBytes, 0),
+    savings: rawBytes > 0 ? `${((1 - bytes / rawBytes) * 100).toFixed(0)}%` : "0%",
+  };
+}
 
 /**
  * Statistics for monitoring delta efficiency
@@ -34,6 +87,28 @@ function rectHash(cmd: RectCommand): string {
   return `R:${cmd.x}:${cmd.y}:${cmd.width}:${cmd.height}`;
 }
 
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Whether two screen areas share a pixel
+ */
+function overlaps(a: Bounds, b: Bounds): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Whether `outer` covers all of `inner`
+ */
+function covers(outer: Bounds, inner: Bounds): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+}
+
 /**
  * Compare colors for equality
  */
@@ -59,13 +134,6 @@ function rectEqual(a: RectCommand, b: RectCommand): boolean {
   return colorEqual(a.color, b.color);
 }
 
-/**
- * Check if RECT is a screen clear (large rect covering most of screen)
- */
-function isScreenClear(cmd: RectCommand): boolean {
-  return cmd.width * cmd.height >= SCREEN_CLEAR_THRESHOLD;
-}
-
 /**
  * DisplayDelta - tracks command state to skip duplicates
  *
@@ -81,11 +149,18 @@ function isScreenClear(cmd: RectCommand): boolean {
  * ```
  */
 export class DisplayDelta {
-  private textCache = new Map<string, TextCommand>();
-  private rectCache = new Map<string, RectCommand>();
+  // Latest TEXT/RECT per position, in drawing order (re-drawn keys move to the end)
+  private cache = new Map<string, TextCommand | RectCommand>();
+  // Partly overdrawn since their last draw: a repeat of them changes pixels, so it is sent
+  private overdrawn = new Set<string>();
+  private lastClear: RectCommand | null = null;
+  private lastWave: WaveCommand | null = null;
+  private system: SystemCommand | null = null;
 
   private sentCount = 0;
   private skippedCount = 0;
+  private geometry: ScreenGeometry = MODEL_01_GEOMETRY;
+  private clearThreshold = clearThresholdFor(MODEL_01_GEOMETRY);
 
   /**
    * Check if command should be sent (not a duplicate)
@@ -94,12 +169,21 @@ export class DisplayDelta {
   shouldSend(cmd: ParsedCommand): boolean {
     // WAVE commands always sent (real-time waveform)
     if (cmd.type === "wave") {
+      this.lastWave = { ...cmd, data: cmd.data.slice() }; // Parser buffers may be reused
+      this.sentCount++;
+      return true;
+    }
+
+    // SYSTEM may change the hardware model → new geometry, full redraw follows
+    if (cmd.type === "system") {
+      this.setGeometry(geometryFor(cmd.hardwareType));
+      this.system = cmd;
       this.sentCount++;
       return true;
     }
 
-    // JPAD and SYSTEM commands always sent (state changes)
-    if (cmd.type === "jpad" || cmd.type === "system") {
+    // JPAD commands always sent (state changes)
+    if (cmd.type === "jpad") {
       this.sentCount++;
       return true;
     }
@@ -122,15 +206,16 @@ export class DisplayDelta {
    */
   private checkText(cmd: TextCommand): boolean {
     const key = textHash(cmd);
-    const cached = this.textCache.get(key);
+    const cached = this.cache.get(key);
 
-    if (cached && textEqual(cached, cmd)) {
+    if (cached?.type === "text" && !this.overdrawn.has(key) && textEqual(cached, cmd)) {
+      this.touch(key, cached);
       this.skippedCount++;
       return false;
     }
 
     // Store a copy to avoid mutation
-    this.textCache.set(key, {
+    this.touch(key, {
       ...cmd,
       fg: { ...cmd.fg },
       bg: { ...cmd.bg },
@@ -139,29 +224,70 @@ export class DisplayDelta {
     return true;
   }
 
+  /**
+   * Store a draw as the latest at its position (moves it to the end of the drawing order)
+   * A new draw also changes what earlier draws under it left on screen: fully covered ones
+   * are dropped, partly covered ones are marked so their next repeat is sent
+   */
+  private touch(key: string, cmd: TextCommand | RectCommand): void {
+    const fresh = this.cache.get(key) !== cmd;
+    this.cache.delete(key);
+    this.overdrawn.delete(key);
+    if (fresh) {
+      const area = this.bounds(cmd);
+      for (const [other, drawn] of this.cache) {
+        const under = this.bounds(drawn);
+        if (!overlaps(area, under)) continue;
+        if (covers(area, under)) {
+          this.cache.delete(other);
+          this.overdrawn.delete(other);
+        } else {
+          this.overdrawn.add(other);
+        }
+      }
+    }
+    this.cache.set(key, cmd);
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value!;
+      this.cache.delete(oldest);
+      this.overdrawn.delete(oldest);
+    }
+  }
+
+  /**
+   * Screen area a draw paints (TEXT: one text cell)
+   */
+  private bounds(cmd: TextCommand | RectCommand): Bounds {
+    return cmd.type === "rect"
+      ? cmd
+      : { x: cmd.x, y: cmd.y, width: this.geometry.cellWidth, height: this.geometry.cellHeight };
+  }
+
   /**
    * Check RECT command for changes
    * Also handles screen clear detection
    */
   private checkRect(cmd: RectCommand): boolean {
     // Screen clear - reset caches and always send
-    if (isScreenClear(cmd)) {
-      this.textCache.clear();
-      this.rectCache.clear();
+    if (this.isScreenClear(cmd)) {
+      this.cache.clear();
+      this.overdrawn.clear();
+      this.lastClear = { ...cmd, color: { ...cmd.color } };
       this.sentCount++;
       return true;
     }
 
     const key = rectHash(cmd);
-    const cached = this.rectCache.get(key);
+    const cached = this.cache.get(key);
 
-    if (cached && rectEqual(cached, cmd)) {
+    if (cached?.type === "rect" && !this.overdrawn.has(key) && rectEqual(cached, cmd)) {
+      this.touch(key, cached);
       this.skippedCount++;
       return false;
     }
 
     // Store a copy
-    this.rectCache.set(key, {
+    this.touch(key, {
       ...cmd,
       color: { ...cmd.color },
     });
@@ -169,13 +295,45 @@ export class DisplayDelta {
     return true;
   }
 
+  /**
+   * Check if RECT is a screen clear (large rect covering most of screen)
+   */
+  private isScreenClear(cmd: RectCommand): boolean {
+    return cmd.width * cmd.height >= this.clearThreshold;
+  }
+
+  /**
+   * Change screen geometry (resets caches if different)
+   */
+  setGeometry(geometry: ScreenGeometry): void {
+    if (sameGeometry(geometry, this.geometry)) return;
+    this.geometry = geometry;
+    this.clearThreshold = clearThresholdFor(geometry);
+    this.reset();
+  }
+
   /**
    * Clear all cached state
    * Call on reconnect or manual reset
    */
   reset(): void {
-    this.textCache.clear();
-    this.rectCache.clear();
+    this.cache.clear();
+    this.overdrawn.clear();
+    this.lastClear = null;
+    this.lastWave = null;
+  }
+
+  /**
+   * Commands that redraw the current screen from scratch:
+   * SYSTEM (model/font), last screen clear, latest draw per position in order, last waveform
+   */
+  snapshot(): ParsedCommand[] {
+    const commands: ParsedCommand[] = [];
+    if (this.system) commands.push(this.system);
+    if (this.lastClear) commands.push(this.lastClear);
+    commands.push(...this.cache.values());
+    if (this.lastWave) commands.push(this.lastWave);
+    return commands;
   }
 
   /**
@@ -202,9 +360,10 @@ export class DisplayDelta {
    * Get cache sizes for debugging
    */
   getCacheSizes(): { text: number; rect: number } {
-    return {
-      text: this.textCache.size,
-      rect: this.rectCache.size,
-    };
+    let text = 0;
+    for (const cmd of this.cache.values()) {
+      if (cmd.type === "text") text++;
+    }
+    return { text, rect: this.cache.size - text };
   }
 }
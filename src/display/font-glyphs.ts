@@ -0,0 +1,95 @@
+/**
+ * M8 Font Glyphs - server-side glyph tables decoded from m8-fonts.ts
+ * m8-fonts.ts stores each m8c font as a 1-bit BMP strip (94 glyphs, ASCII 33-126);
+ * this module turns the strips into per-glyph bitmaps for the Framebuffer.
+ *
+ * DRY: m8-fonts.ts stays the single source of font data (browser + server)
+ */
+
+import { M8_FONTS, FONT_V1_SMALL, FONT_V2_SMALL, FONT_V2_HUGE, type M8Font } from "./m8-fonts";
+import { HardwareType } from "../state/types";
+
+export const FIRST_GLYPH = 33; // '!' - space (32) has no glyph
+export const GLYPH_COUNT = 94;  // ASCII 33-126
+
+/**
+ * Decoded font: metrics plus one bitmap per glyph
+ */
+export interface GlyphFont {
+  name: string;
+  glyphX: number;
+  glyphY: number;
+  screenOffsetY: number;
+  textOffsetY: number;
+  waveformMaxHeight: number;
+  glyphs: Uint8Array[]; // glyphX * glyphY, row-major, 1 = foreground
+}
+
+/**
+ * Decode a 1-bit BMP font strip into glyph bitmaps
+ * Foreground is whichever palette entry is white (m8c fonts differ in polarity)
+ */
+export function decodeGlyphFont(font: M8Font): GlyphFont {
+  const bmp = Buffer.from(font.bmpBase64, "base64");
+  const dataOffset = bmp.readUInt32LE(10);
+  const headerSize = bmp.readUInt32LE(14);
+  const width = bmp.readInt32LE(18);
+  const height = bmp.readInt32LE(22);
+  const rowSize = Math.ceil(width / 32) * 4;
+  const paletteOffset = 14 + headerSize;
+  const foregroundBit = bmp[paletteOffset]! > 127 ? 0 : 1; // palette[0] white → bit 0 is glyph
+
+  const bitAt = (x: number, y: number): number => {
+    const srcRow = height > 0 ? height - 1 - y : y; // positive height = bottom-up
+    const byte = bmp[dataOffset + srcRow * rowSize + (x >> 3)] ?? 0;
+    return (byte >> (7 - (x & 7))) & 1;
+  };
+
+  const glyphs: Uint8Array[] = [];
+  for (let g = 0; g < GLYPH_COUNT; g++) {
+    const glyph = new Uint8Array(font.glyphX * font.glyphY);
+    for (let y = 0; y < font.glyphY; y++) {
+      for (let x = 0; x < font.glyphX; x++) {
+        glyph[y * font.glyphX + x] = bitAt(g * font.glyphX + x, y) === foregroundBit ? 1 : 0;
+      }
+    }
+    glyphs.push(glyph);
+  }
+
+  return {
+    name: font.name,
+    glyphX: font.glyphX,
+    glyphY: font.glyphY,
+    screenOffsetY: font.screenOffsetY,
+    textOffsetY: font.textOffsetY,
+    waveformMaxHeight: font.waveformMaxHeight,
+    glyphs,
+  };
+}
+
+const cache = new Map<number, GlyphFont>();
+
+/**
+ * Get decoded font by m8-fonts index (decoded once, then cached)
+ */
+export function getGlyphFont(index: number): GlyphFont {
+  const font = M8_FONTS[index] ?? M8_FONTS[FONT_V1_SMALL]!;
+  const key = M8_FONTS[index] ? index : FONT_V1_SMALL;
+  let decoded = cache.get(key);
+  if (!decoded) {
+    decoded = decodeGlyphFont(font);
+    cache.set(key, decoded);
+  }
+  return decoded;
+}
+
+/**
+ * Font index for SYSTEM fontMode (same mapping as m8c set_font_mode):
+ * Model:01 uses v1 small/large, Model:02 uses v2 small/large/huge
+ */
+export function fontIndexFor(hardwareType: number, fontMode: number): number {
+  if (hardwareType === HardwareType.MODEL_02) {
+    return Math.min(FONT_V2_SMALL + Math.max(0, fontMode), FONT_V2_HUGE);
+  }
+  return Math.min(FONT_V1_SMALL + Math.max(0, fontMode), FONT_V2_SMALL - 1);
+}
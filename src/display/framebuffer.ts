@@ -1,119 +1,27 @@
 /**
  * M8 Framebuffer - Pixel-perfect rendering like m8c
- * 320×240 pixel buffer with M8 font
- * Font extracted from m8c font1.h (font_v1_small)
+ * 320×240 (Model:01) or 480×320 (Model:02) pixel buffer with M8 fonts
+ * Font and geometry follow the SYSTEM command (hardwareType + fontMode)
  */
 
-import type { Color, TextCommand, RectCommand, WaveCommand } from "../state/types";
+import type { Color, TextCommand, RectCommand, WaveCommand, SystemCommand } from "../state/types";
+import { getGlyphFont, fontIndexFor, FIRST_GLYPH, type GlyphFont } from "./font-glyphs";
+import { FONT_V1_SMALL } from "./m8-fonts";
+import { MODEL_01_GEOMETRY, geometryFor } from "./geometry";
+import { buildPalette, toIndexed, type RgbaFrame } from "./indexed";
+import { encodePng } from "./png";
 
-// M8 screen dimensions
-export const SCREEN_WIDTH = 320;
-export const SCREEN_HEIGHT = 240;
+// Model:01 screen dimensions (defaults until a SYSTEM command arrives)
+export const SCREEN_WIDTH = MODEL_01_GEOMETRY.width;
+export const SCREEN_HEIGHT = MODEL_01_GEOMETRY.height;
 
-// M8 font dimensions (from m8c font_v1_small)
+// Default font metrics (m8c font_v1_small, used until SYSTEM selects another font)
 export const CHAR_WIDTH = 5;   // glyph_x
 export const CHAR_HEIGHT = 7;  // glyph_y
 export const TEXT_OFFSET_Y = 3; // text_offset_y from m8c
 
-// M8 Font v1 small (5x7 pixels, extracted from m8c font1.h)
-// ASCII 33-126 (94 characters). Space (32) is handled specially.
-// Each row is 5 bits left-aligned in a byte (bits 7-3)
-const M8_FONT: number[][] = [
-  [0x80, 0x80, 0x80, 0x80, 0x80, 0x00, 0x80], // 33 '!'
-  [0x50, 0x50, 0x00, 0x00, 0x00, 0x00, 0x00], // 34 '"'
-  [0x00, 0x50, 0xf8, 0x50, 0xf8, 0x50, 0x00], // 35 '#'
-  [0x20, 0xf8, 0xa0, 0xf8, 0x28, 0xf8, 0x20], // 36 '$'
-  [0x00, 0xc8, 0xd0, 0x20, 0x58, 0x98, 0x00], // 37 '%'
-  [0x60, 0x90, 0xa0, 0x48, 0xa8, 0x90, 0x68], // 38 '&'
-  [0x20, 0x20, 0x00, 0x00, 0x00, 0x00, 0x00], // 39 '\''
-  [0x08, 0x10, 0x10, 0x10, 0x10, 0x10, 0x08], // 40 '('
-  [0x80, 0x40, 0x40, 0x40, 0x40, 0x40, 0x80], // 41 ')'
-  [0x00, 0x50, 0x20, 0x50, 0x00, 0x00, 0x00], // 42 '*'
-  [0x00, 0x20, 0x20, 0xf8, 0x20, 0x20, 0x00], // 43 '+'
-  [0x00, 0x00, 0x00, 0x00, 0x00, 0x20, 0x20], // 44 ','
-  [0x00, 0x00, 0x00, 0xf8, 0x00, 0x00, 0x00], // 45 '-'
-  [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x20], // 46 '.'
-  [0x08, 0x08, 0x10, 0x20, 0x40, 0x80, 0x80], // 47 '/'
-  [0xf8, 0x88, 0x98, 0xa8, 0xc8, 0x88, 0xf8], // 48 '0'
-  [0x20, 0xe0, 0x20, 0x20, 0x20, 0x20, 0xf8], // 49 '1'
-  [0xf8, 0x08, 0x08, 0xf8, 0x80, 0x80, 0xf8], // 50 '2'
-  [0xf8, 0x08, 0x08, 0xf8, 0x08, 0x08, 0xf8], // 51 '3'
-  [0x88, 0x88, 0x88, 0xf8, 0x08, 0x08, 0x08], // 52 '4'
-  [0xf8, 0x80, 0x80, 0xf8, 0x08, 0x08, 0xf8], // 53 '5'
-  [0xf8, 0x80, 0x80, 0xf8, 0x88, 0x88, 0xf8], // 54 '6'
-  [0xf8, 0x08, 0x08, 0x10, 0x20, 0x20, 0x20], // 55 '7'
-  [0x78, 0x88, 0x88, 0xf8, 0x88, 0x88, 0xf0], // 56 '8'
-  [0xf8, 0x88, 0x88, 0xf8, 0x08, 0x08, 0x08], // 57 '9'
-  [0x00, 0x00, 0x40, 0x00, 0x00, 0x40, 0x00], // 58 ':'
-  [0x00, 0x00, 0x40, 0x00, 0x00, 0x40, 0x40], // 59 ';'
-  [0x00, 0x10, 0x30, 0x70, 0x30, 0x10, 0x00], // 60 '<'
-  [0x00, 0x00, 0xf8, 0x00, 0xf8, 0x00, 0x00], // 61 '='
-  [0x00, 0x40, 0x60, 0x70, 0x60, 0x40, 0x00], // 62 '>'
-  [0x70, 0x88, 0x08, 0x10, 0x20, 0x00, 0x20], // 63 '?'
-  [0x70, 0x88, 0xb8, 0xa8, 0xb8, 0x80, 0x70], // 64 '@'
-  [0x70, 0x88, 0x88, 0xf8, 0x88, 0x88, 0x88], // 65 'A'
-  [0xf0, 0x88, 0x88, 0xf0, 0x88, 0x88, 0xf0], // 66 'B'
-  [0x70, 0x88, 0x80, 0x80, 0x80, 0x88, 0x70], // 67 'C'
-  [0xf0, 0x88, 0x88, 0x88, 0x88, 0x88, 0xf0], // 68 'D'
-  [0xf8, 0x80, 0x80, 0xf0, 0x80, 0x80, 0xf8], // 69 'E'
-  [0xf8, 0x80, 0x80, 0xf0, 0x80, 0x80, 0x80], // 70 'F'
-  [0x70, 0x88, 0x80, 0x80, 0x98, 0x88, 0x70], // 71 'G'
-  [0x88, 0x88, 0x88, 0xf8, 0x88, 0x88, 0x88], // 72 'H'
-  [0xf8, 0x20, 0x20, 0x20, 0x20, 0x20, 0xf8], // 73 'I'
-  [0x08, 0x08, 0x08, 0x08, 0x88, 0x88, 0x70], // 74 'J'
-  [0x88, 0x90, 0xa0, 0xc0, 0xa0, 0x90, 0x88], // 75 'K'
-  [0x80, 0x80, 0x80, 0x80, 0x80, 0x80, 0xf8], // 76 'L'
-  [0x88, 0xd8, 0xa8, 0x88, 0x88, 0x88, 0x88], // 77 'M'
-  [0x88, 0xc8, 0xa8, 0x98, 0x88, 0x88, 0x88], // 78 'N'
-  [0x70, 0x88, 0x88, 0x88, 0x88, 0x88, 0x70], // 79 'O'
-  [0xf0, 0x88, 0x88, 0xf0, 0x80, 0x80, 0x80], // 80 'P'
-  [0x70, 0x88, 0x88, 0x88, 0xa8, 0x90, 0x68], // 81 'Q'
-  [0xf0, 0x88, 0x88, 0xf0, 0x90, 0x88, 0x88], // 82 'R'
-  [0x78, 0x80, 0x80, 0x70, 0x08, 0x08, 0xf0], // 83 'S'
-  [0xf8, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20], // 84 'T'
-  [0x88, 0x88, 0x88, 0x88, 0x88, 0x88, 0x70], // 85 'U'
-  [0x88, 0x88, 0x88, 0x88, 0x50, 0x50, 0x20], // 86 'V'
-  [0x88, 0x88, 0x88, 0x88, 0xa8, 0xd8, 0x88], // 87 'W'
-  [0x88, 0x88, 0x50, 0x20, 0x50, 0x88, 0x88], // 88 'X'
-  [0x88, 0x88, 0x88, 0x78, 0x08, 0x08, 0xf0], // 89 'Y'
-  [0xf8, 0x08, 0x10, 0x20, 0x40, 0x80, 0xf8], // 90 'Z'
-  [0x18, 0x10, 0x10, 0x10, 0x10, 0x10, 0x18], // 91 '['
-  [0x80, 0x80, 0x40, 0x20, 0x10, 0x08, 0x08], // 92 '\\'
-  [0xc0, 0x40, 0x40, 0x40, 0x40, 0x40, 0xc0], // 93 ']'
-  [0x20, 0x50, 0x00, 0x00, 0x00, 0x00, 0x00], // 94 '^'
-  [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0xf8], // 95 '_'
-  [0x40, 0x20, 0x00, 0x00, 0x00, 0x00, 0x00], // 96 '`'
-  [0x00, 0x00, 0xf8, 0x08, 0xf8, 0x88, 0xf8], // 97 'a'
-  [0x80, 0x80, 0xf8, 0x88, 0x88, 0x88, 0xf8], // 98 'b'
-  [0x00, 0x00, 0xf8, 0x80, 0x80, 0x80, 0xf8], // 99 'c'
-  [0x08, 0x08, 0xf8, 0x88, 0x88, 0x88, 0xf8], // 100 'd'
-  [0x00, 0x00, 0xf8, 0x88, 0xf8, 0x80, 0xf8], // 101 'e'
-  [0x38, 0x20, 0xf8, 0x20, 0x20, 0x20, 0x20], // 102 'f'
-  [0x00, 0x00, 0xf8, 0x88, 0xf8, 0x08, 0xf8], // 103 'g'
-  [0x80, 0x80, 0xf8, 0x88, 0x88, 0x88, 0x88], // 104 'h'
-  [0x20, 0x00, 0x60, 0x20, 0x20, 0x20, 0x70], // 105 'i'
-  [0x10, 0x00, 0x10, 0x10, 0x10, 0x10, 0xe0], // 106 'j'
-  [0x80, 0x80, 0x88, 0x90, 0xa0, 0xd0, 0x88], // 107 'k'
-  [0x60, 0x20, 0x20, 0x20, 0x20, 0x20, 0x70], // 108 'l'
-  [0x00, 0x00, 0xf8, 0xa8, 0xa8, 0xa8, 0xa8], // 109 'm'
-  [0x00, 0x00, 0xf8, 0x88, 0x88, 0x88, 0x88], // 110 'n'
-  [0x00, 0x00, 0xf8, 0x88, 0x88, 0x88, 0xf8], // 111 'o'
-  [0x00, 0x00, 0xf8, 0x88, 0x88, 0xf8, 0x80], // 112 'p'
-  [0x00, 0x00, 0xf8, 0x88, 0x88, 0xf8, 0x08], // 113 'q'
-  [0x00, 0x00, 0xf8, 0x80, 0x80, 0x80, 0x80], // 114 'r'
-  [0x00, 0x00, 0xf8, 0x80, 0xf8, 0x08, 0xf8], // 115 's'
-  [0x20, 0x20, 0xf8, 0x20, 0x20, 0x20, 0x38], // 116 't'
-  [0x00, 0x00, 0x88, 0x88, 0x88, 0x88, 0xf8], // 117 'u'
-  [0x00, 0x00, 0x88, 0x88, 0x90, 0xa0, 0xc0], // 118 'v'
-  [0x00, 0x00, 0xa8, 0xa8, 0xa8, 0xa8, 0xf8], // 119 'w'
-  [0x00, 0x00, 0x88, 0x50, 0x20, 0x50, 0x88], // 120 'x'
-  [0x00, 0x00, 0x88, 0x88, 0xf8, 0x08, 0xf8], // 121 'y'
-  [0x00, 0x00, 0xf8, 0x10, 0x20, 0x40, 0xf8], // 122 'z'
-  [0xf8, 0x88, 0x88, 0x88, 0x88, 0x88, 0xf8], // 123 '{'
-  [0x20, 0x20, 0x20, 0x20, 0x20, 0x20, 0x20], // 124 '|'
-  [0xf8, 0x88, 0x88, 0xa8, 0x88, 0x88, 0xf8], // 125 '}'
-  [0x00, 0x48, 0xb0, 0x00, 0x00, 0x00, 0x00], // 126 '~'
-];
+// Dirty tracking granularity (divides both 320×240 and 480×320)
+export const TILE_SIZE = 16;
 
 /**
  * M8 Framebuffer - pixel-perfect rendering
@@ -122,13 +30,65 @@ export class Framebuffer {
   private pixels: Uint8Array; // RGBA buffer
   private width = SCREEN_WIDTH;
   private height = SCREEN_HEIGHT;
+  private font: GlyphFont = getGlyphFont(FONT_V1_SMALL);
+  private fontIndex = FONT_V1_SMALL;
   private lastUpdate = 0;
+  private dirty: Uint8Array = new Uint8Array(0); // One flag per tile
 
   constructor() {
     this.pixels = new Uint8Array(SCREEN_WIDTH * SCREEN_HEIGHT * 4);
+    this.dirty = new Uint8Array(this.getTileGrid().count);
     this.clear({ r: 0, g: 0, b: 0 });
   }
 
+  /**
+   * Apply SYSTEM command: select screen size and font like m8c
+   */
+  applySystem(cmd: SystemCommand): void {
+    const { width, height } = geometryFor(cmd.hardwareType);
+    this.resize(width, height);
+    this.setFont(fontIndexFor(cmd.hardwareType, cmd.fontMode));
+  }
+
+  /**
+   * Select font by m8-fonts index (FONT_V1_SMALL ... FONT_V2_HUGE)
+   */
+  setFont(index: number): void {
+    this.font = getGlyphFont(index);
+    this.fontIndex = index;
+  }
+
+  /**
+   * Current font index and metrics
+   */
+  getFont(): { index: number; name: string; glyphX: number; glyphY: number } {
+    return {
+      index: this.fontIndex,
+      name: this.font.name,
+      glyphX: this.font.glyphX,
+      glyphY: this.font.glyphY,
+    };
+  }
+
+  /**
+   * Change screen size (reallocates and clears if different)
+   */
+  resize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    this.pixels = new Uint8Array(width * height * 4);
+    this.dirty = new Uint8Array(this.getTileGrid().count);
+    this.clear({ r: 0, g: 0, b: 0 });
+  }
+
+  /**
+   * Current screen size
+   */
+  getSize(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
   /**
    * Clear entire screen
    */
@@ -139,9 +99,47 @@ export class Framebuffer {
       this.pixels[i + 2] = color.b;
       this.pixels[i + 3] = 255;
     }
+    this.dirty.fill(1);
     this.lastUpdate = Date.now();
   }
 
+  /**
+   * Tile grid used for dirty tracking
+   */
+  getTileGrid(): { tileSize: number; cols: number; rows: number; count: number } {
+    const cols = Math.ceil(this.width / TILE_SIZE);
+    const rows = Math.ceil(this.height / TILE_SIZE);
+    return { tileSize: TILE_SIZE, cols, rows, count: cols * rows };
+  }
+
+  /**
+   * Mark tiles touched by a pixel area as changed
+   */
+  private markDirty(x: number, y: number, width: number, height: number): void {
+    const x0 = Math.max(0, x), y0 = Math.max(0, y);
+    const x1 = Math.min(this.width, x + width), y1 = Math.min(this.height, y + height);
+    if (x1 <= x0 || y1 <= y0) return;
+
+    const { cols } = this.getTileGrid();
+    for (let ty = Math.floor(y0 / TILE_SIZE); ty <= Math.floor((y1 - 1) / TILE_SIZE); ty++) {
+      for (let tx = Math.floor(x0 / TILE_SIZE); tx <= Math.floor((x1 - 1) / TILE_SIZE); tx++) {
+        this.dirty[ty * cols + tx] = 1;
+      }
+    }
+  }
+
+  /**
+   * Return indices of tiles changed since the last call (row-major) and reset tracking
+   */
+  takeDirtyTiles(): number[] {
+    const tiles: number[] = [];
+    for (let i = 0; i < this.dirty.length; i++) {
+      if (this.dirty[i]) tiles.push(i);
+    }
+    this.dirty.fill(0);
+    return tiles;
+  }
+
   /**
    * Set pixel at x,y
    */
@@ -171,9 +169,11 @@ export class Framebuffer {
 
   /**
    * Draw filled rectangle
+   * Applies font screen_offset_y (like m8c)
    */
   drawRect(cmd: RectCommand): void {
-    const { x, y, width, height, color } = cmd;
+    const { x, width, height, color } = cmd;
+    const y = cmd.y + this.font.screenOffsetY;
     for (let py = y; py < y + height && py < this.height; py++) {
       for (let px = x; px < x + width && px < this.width; px++) {
         if (px >= 0 && py >= 0) {
@@ -181,48 +181,41 @@ export class Framebuffer {
         }
       }
     }
+    this.markDirty(x, y, width, height);
     this.lastUpdate = Date.now();
   }
 
   /**
-   * Draw character with M8 font (5x7 like m8c)
-   * Applies TEXT_OFFSET_Y to Y position (same as m8c)
+   * Draw character with the current M8 font (like m8c)
+   * Applies text_offset_y + screen_offset_y to Y position
    */
   drawChar(x: number, y: number, char: string, fg: Color, bg: Color): void {
     const code = char.charCodeAt(0);
+    const { glyphX, glyphY, glyphs } = this.font;
 
-    // Apply text_offset_y (like m8c: command->pos.y + text_offset_y)
-    const drawY = y + TEXT_OFFSET_Y;
+    // Apply offsets (like m8c: command->pos.y + text_offset_y + screen_offset_y)
+    const drawY = y + this.font.textOffsetY + this.font.screenOffsetY;
+    this.markDirty(x, drawY, glyphX, glyphY);
 
     // Draw background first (glyph_x × glyph_y area)
-    for (let py = 0; py < CHAR_HEIGHT; py++) {
-      for (let px = 0; px < CHAR_WIDTH; px++) {
+    for (let py = 0; py < glyphY; py++) {
+      for (let px = 0; px < glyphX; px++) {
         this.setPixel(x + px, drawY + py, bg);
       }
     }
 
     // Space (ASCII 32) has no glyph - only background
-    if (code === 32) {
+    // Characters outside ASCII 33-126 are not in the font either
+    const glyph = code === 32 ? undefined : glyphs[code - FIRST_GLYPH];
+    if (!glyph) {
       this.lastUpdate = Date.now();
       return;
     }
 
-    // Get glyph index (ASCII 33-126 maps to index 0-93)
-    const glyphIndex = code - 33;
-    if (glyphIndex < 0 || glyphIndex >= M8_FONT.length) {
-      // Character not in font - just draw background
-      this.lastUpdate = Date.now();
-      return;
-    }
-
-    const glyph = M8_FONT[glyphIndex];
-
     // Draw foreground pixels from glyph bitmap
-    for (let py = 0; py < CHAR_HEIGHT && py < glyph.length; py++) {
-      const row = glyph[py];
-      for (let px = 0; px < CHAR_WIDTH; px++) {
-        // Check if bit is set (MSB first, bits 7-3 are the 5 pixels)
-        if (row & (0x80 >> px)) {
+    for (let py = 0; py < glyphY; py++) {
+      for (let px = 0; px < glyphX; px++) {
+        if (glyph[py * glyphX + px]) {
           this.setPixel(x + px, drawY + py, fg);
         }
       }
@@ -251,8 +244,9 @@ export class Framebuffer {
    */
   applyWave(cmd: WaveCommand): void {
     const { color, data } = cmd;
-    const waveMaxHeight = 24;
+    const waveMaxHeight = this.font.waveformMaxHeight;
     const waveX = this.width - data.length; // Right-aligned
+    this.markDirty(waveX, 0, data.length, waveMaxHeight + 1);
 
     // Clear waveform area first (top-right corner only)
     for (let y = 0; y < waveMaxHeight + 1; y++) {
@@ -283,6 +277,13 @@ export class Framebuffer {
     return this.pixels;
   }
 
+  /**
+   * Copy current pixels (for animations - the live buffer keeps changing)
+   */
+  snapshot(): RgbaFrame {
+    return { width: this.width, height: this.height, pixels: this.pixels.slice() };
+  }
+
   /**
    * Get last update timestamp
    */
@@ -290,6 +291,14 @@ export class Framebuffer {
     return this.lastUpdate;
   }
 
+  /**
+   * Export as palette PNG, optionally upscaled (nearest neighbour)
+   */
+  toPNG(scale = 1): Buffer {
+    const frame = { width: this.width, height: this.height, pixels: this.pixels };
+    return encodePng(toIndexed(frame, buildPalette([frame]), scale));
+  }
+
   /**
    * Export as BMP (uncompressed 24-bit)
    */
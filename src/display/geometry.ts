@@ -0,0 +1,52 @@
+/**
+ * M8 Screen Geometry
+ * Single source of truth for display size per hardware model
+ *
+ * Model:01 (and headless/beta): 320×240, 8×10 px text cells
+ * Model:02:                     480×320, 12×13 px text cells
+ * Both keep the same 40×24 logical text grid.
+ */
+
+import { HardwareType } from "../state/types";
+
+export interface ScreenGeometry {
+  width: number;       // Pixels
+  height: number;
+  cellWidth: number;   // Text grid cell size in pixels
+  cellHeight: number;
+  cols: number;        // Text grid size
+  rows: number;
+}
+
+export const MODEL_01_GEOMETRY: ScreenGeometry = {
+  width: 320,
+  height: 240,
+  cellWidth: 8,
+  cellHeight: 10,
+  cols: 40,
+  rows: 24,
+};
+
+export const MODEL_02_GEOMETRY: ScreenGeometry = {
+  width: 480,
+  height: 320,
+  cellWidth: 12,
+  cellHeight: 13,
+  cols: 40,
+  rows: 24,
+};
+
+/**
+ * Geometry for a SYSTEM command hardwareType
+ */
+export function geometryFor(hardwareType: number): ScreenGeometry {
+  return hardwareType === HardwareType.MODEL_02 ? MODEL_02_GEOMETRY : MODEL_01_GEOMETRY;
+}
+
+/**
+ * Check if two geometries describe the same screen
+ */
+export function sameGeometry(a: ScreenGeometry, b: ScreenGeometry): boolean {
+  return a.width === b.width && a.height === b.height &&
+    a.cellWidth === b.cellWidth && a.cellHeight === b.cellHeight;
+}
@@ -0,0 +1,149 @@
+/**
+ * Animated GIF encoder for indexed images
+ * GIF89a with a global palette, NETSCAPE loop extension and per-frame sub-rectangles
+ * (only the area that changed since the previous frame is encoded).
+ */
+
+import type { IndexedImage } from "./indexed";
+import { collapseFrames, type AnimationFrame, type FrameRegion } from "./png";
+
+const MAX_CODE = 4095;
+
+/**
+ * Palette bits for the GIF color table (table holds 2^bits entries, min 2)
+ */
+function paletteBits(colors: number): number {
+  let bits = 1;
+  while (1 << bits < colors) bits++;
+  return bits;
+}
+
+/**
+ * Bit writer packing LZW codes LSB-first into 255-byte sub-blocks
+ */
+class BlockWriter {
+  private bytes: number[] = [];
+  private current = 0;
+  private bitCount = 0;
+
+  write(code: number, size: number): void {
+    this.current |= code << this.bitCount;
+    this.bitCount += size;
+    while (this.bitCount >= 8) {
+      this.bytes.push(this.current & 0xff);
+      this.current >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  finish(): number[] {
+    if (this.bitCount > 0) this.bytes.push(this.current & 0xff);
+
+    const out: number[] = [];
+    for (let i = 0; i < this.bytes.length; i += 255) {
+      const block = this.bytes.slice(i, i + 255);
+      out.push(block.length, ...block);
+    }
+    out.push(0); // Block terminator
+    return out;
+  }
+}
+
+/**
+ * LZW-compress a region of palette indices
+ */
+function lzwEncode(image: IndexedImage, region: FrameRegion, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const writer = new BlockWriter();
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  writer.write(clearCode, codeSize);
+
+  let prefix = -1;
+  for (let y = 0; y < region.height; y++) {
+    const row = (region.y + y) * image.width + region.x;
+    for (let x = 0; x < region.width; x++) {
+      const index = image.indices[row + x]!;
+      if (prefix < 0) {
+        prefix = index;
+        continue;
+      }
+
+      const key = (prefix << 8) | index;
+      const existing = dictionary.get(key);
+      if (existing !== undefined) {
+        prefix = existing;
+        continue;
+      }
+
+      writer.write(prefix, codeSize);
+      if (nextCode <= MAX_CODE) {
+        dictionary.set(key, nextCode);
+        if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+        nextCode++;
+      } else {
+        // Dictionary full: reset
+        writer.write(clearCode, codeSize);
+        dictionary = new Map();
+        nextCode = endCode + 1;
+        codeSize = minCodeSize + 1;
+      }
+      prefix = index;
+    }
+  }
+
+  if (prefix >= 0) writer.write(prefix, codeSize);
+  writer.write(endCode, codeSize);
+  return writer.finish();
+}
+
+const u16 = (value: number): number[] => [value & 0xff, (value >> 8) & 0xff];
+
+/**
+ * Encode frames as animated GIF (loops forever)
+ * All frames must share size and palette. Delays are rounded to 10 ms (GIF resolution).
+ */
+export function encodeGif(frames: AnimationFrame[]): Buffer {
+  const first = frames[0];
+  if (!first) throw new Error("No frames to encode");
+
+  const { width, height, palette } = first.image;
+  const bits = paletteBits(palette.length / 3);
+  const minCodeSize = Math.max(2, bits);
+
+  const out: number[] = [
+    ...Buffer.from("GIF89a", "ascii"),
+    ...u16(width),
+    ...u16(height),
+    0x80 | ((bits - 1) << 4) | (bits - 1), // Global color table, color resolution, table size
+    0,  // Background color index
+    0,  // Pixel aspect ratio
+  ];
+
+  // Global color table (padded to 2^bits entries)
+  const table = new Uint8Array((1 << bits) * 3);
+  table.set(palette);
+  out.push(...table);
+
+  // NETSCAPE2.0 application extension: loop forever
+  out.push(0x21, 0xff, 0x0b, ...Buffer.from("NETSCAPE2.0", "ascii"), 0x03, 0x01, 0, 0, 0);
+
+  for (const { frame, region } of collapseFrames(frames)) {
+    const delay = Math.min(Math.max(Math.round(frame.delayMs / 10), 1), 0xffff);
+
+    // Graphic control extension: disposal "do not dispose", no transparency
+    out.push(0x21, 0xf9, 0x04, 0x04, ...u16(delay), 0, 0);
+
+    // Image descriptor (no local color table, not interlaced)
+    out.push(0x2c, ...u16(region.x), ...u16(region.y), ...u16(region.width), ...u16(region.height), 0);
+
+    out.push(minCodeSize, ...lzwEncode(frame.image, region, minCodeSize));
+  }
+
+  out.push(0x3b); // Trailer
+  return Buffer.from(out);
+}
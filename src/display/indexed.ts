@@ -0,0 +1,97 @@
+/**
+ * Indexed (palette) images for PNG/GIF export
+ * M8 screens use a handful of colors, so exact palettes almost always fit in 256 entries.
+ * If not (rare), colors are reduced to RGB 3-3-2 before indexing.
+ */
+
+export interface IndexedImage {
+  width: number;
+  height: number;
+  palette: Uint8Array;   // RGB triplets
+  indices: Uint8Array;   // width * height palette indices
+}
+
+/**
+ * Raw RGBA snapshot (Framebuffer.getPixels copy)
+ */
+export interface RgbaFrame {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+const MAX_COLORS = 256;
+
+/**
+ * Reduce RGB to 3-3-2 (256 colors) - fallback when the exact palette overflows
+ */
+function reduce332(r: number, g: number, b: number): number {
+  return ((r & 0xe0) << 16) | ((g & 0xe0) << 8) | (b & 0xc0);
+}
+
+/**
+ * Build a palette shared by all frames (needed for animations)
+ * Returns color (0xRRGGBB) → palette index
+ */
+export function buildPalette(frames: RgbaFrame[]): { palette: Uint8Array; lookup: Map<number, number>; reduced: boolean } {
+  const collect = (reduce: boolean): Map<number, number> | null => {
+    const lookup = new Map<number, number>();
+    for (const frame of frames) {
+      const { pixels } = frame;
+      for (let i = 0; i < pixels.length; i += 4) {
+        const r = pixels[i]!, g = pixels[i + 1]!, b = pixels[i + 2]!;
+        const key = reduce ? reduce332(r, g, b) : (r << 16) | (g << 8) | b;
+        if (!lookup.has(key)) {
+          if (lookup.size >= MAX_COLORS) return null;
+          lookup.set(key, lookup.size);
+        }
+      }
+    }
+    return lookup;
+  };
+
+  let reduced = false;
+  let lookup = collect(false);
+  if (!lookup) {
+    reduced = true;
+    lookup = collect(true)!;
+  }
+
+  const palette = new Uint8Array(Math.max(lookup.size, 1) * 3);
+  for (const [color, index] of lookup) {
+    palette[index * 3] = (color >> 16) & 0xff;
+    palette[index * 3 + 1] = (color >> 8) & 0xff;
+    palette[index * 3 + 2] = color & 0xff;
+  }
+  return { palette, lookup, reduced };
+}
+
+/**
+ * Convert RGBA frame to indexed image with integer nearest-neighbour scaling
+ */
+export function toIndexed(
+  frame: RgbaFrame,
+  shared: ReturnType<typeof buildPalette>,
+  scale = 1
+): IndexedImage {
+  const { width, height, pixels } = frame;
+  const outWidth = width * scale;
+  const outHeight = height * scale;
+  const indices = new Uint8Array(outWidth * outHeight);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const r = pixels[i]!, g = pixels[i + 1]!, b = pixels[i + 2]!;
+      const key = shared.reduced ? reduce332(r, g, b) : (r << 16) | (g << 8) | b;
+      const index = shared.lookup.get(key) ?? 0;
+
+      for (let sy = 0; sy < scale; sy++) {
+        const row = (y * scale + sy) * outWidth + x * scale;
+        indices.fill(index, row, row + scale);
+      }
+    }
+  }
+
+  return { width: outWidth, height: outHeight, palette: shared.palette, indices };
+}
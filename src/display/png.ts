@@ -0,0 +1,190 @@
+/**
+ * PNG / APNG encoder for indexed images
+ * pngjs cannot write palette (color type 3) or animated PNGs, so chunks are built here
+ * and compressed with node:zlib.
+ */
+
+import { deflateSync } from "zlib";
+import type { IndexedImage } from "./indexed";
+
+const SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const COLOR_TYPE_INDEXED = 3;
+
+/**
+ * Animation frame: full-size image shown for delayMs
+ */
+export interface AnimationFrame {
+  image: IndexedImage;
+  delayMs: number;
+}
+
+/**
+ * Changed region between two frames (null = identical)
+ */
+export interface FrameRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// CRC-32 (PNG chunk checksum)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, "ascii");
+  out.set(data, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+  return out;
+}
+
+function ihdr(width: number, height: number): Buffer {
+  const data = Buffer.alloc(13);
+  data.writeUInt32BE(width, 0);
+  data.writeUInt32BE(height, 4);
+  data[8] = 8;                   // Bit depth
+  data[9] = COLOR_TYPE_INDEXED;  // Color type
+  // Compression, filter, interlace = 0
+  return chunk("IHDR", data);
+}
+
+/**
+ * Deflate a region of palette indices as PNG scanlines (filter type 0)
+ */
+function compressRegion(image: IndexedImage, region: FrameRegion): Buffer {
+  const raw = Buffer.alloc((region.width + 1) * region.height);
+  for (let y = 0; y < region.height; y++) {
+    const src = (region.y + y) * image.width + region.x;
+    const dst = y * (region.width + 1);
+    raw[dst] = 0;
+    raw.set(image.indices.subarray(src, src + region.width), dst + 1);
+  }
+  return deflateSync(raw, { level: 9 });
+}
+
+const fullRegion = (image: IndexedImage): FrameRegion => ({
+  x: 0,
+  y: 0,
+  width: image.width,
+  height: image.height,
+});
+
+/**
+ * Bounding box of pixels that differ between two same-size images
+ */
+export function diffRegion(prev: IndexedImage, next: IndexedImage): FrameRegion | null {
+  let minX = next.width, minY = next.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < next.height; y++) {
+    const row = y * next.width;
+    for (let x = 0; x < next.width; x++) {
+      if (prev.indices[row + x] !== next.indices[row + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Merge consecutive identical frames (sum their delays)
+ * Returns frames with the region that changed since the previous one
+ */
+export function collapseFrames(frames: AnimationFrame[]): { frame: AnimationFrame; region: FrameRegion }[] {
+  const out: { frame: AnimationFrame; region: FrameRegion }[] = [];
+  for (const frame of frames) {
+    const last = out[out.length - 1];
+    if (!last) {
+      out.push({ frame: { ...frame }, region: fullRegion(frame.image) });
+      continue;
+    }
+    const region = diffRegion(last.frame.image, frame.image);
+    if (!region) {
+      last.frame.delayMs += frame.delayMs;
+    } else {
+      out.push({ frame: { ...frame }, region });
+    }
+  }
+  return out;
+}
+
+/**
+ * Encode indexed image as PNG
+ */
+export function encodePng(image: IndexedImage): Buffer {
+  return Buffer.concat([
+    SIGNATURE,
+    ihdr(image.width, image.height),
+    chunk("PLTE", image.palette),
+    chunk("IDAT", compressRegion(image, fullRegion(image))),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
+
+/**
+ * Encode frames as animated PNG (loops forever)
+ * All frames must share size and palette; unchanged areas are not re-encoded.
+ */
+export function encodeApng(frames: AnimationFrame[]): Buffer {
+  const first = frames[0];
+  if (!first) throw new Error("No frames to encode");
+
+  const collapsed = collapseFrames(frames);
+  const parts: Buffer[] = [SIGNATURE as Buffer, ihdr(first.image.width, first.image.height)];
+
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(collapsed.length, 0); // num_frames
+  actl.writeUInt32BE(0, 4);                // num_plays (0 = infinite)
+  parts.push(chunk("acTL", actl), chunk("PLTE", first.image.palette));
+
+  let sequence = 0;
+  collapsed.forEach(({ frame, region }, i) => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(region.width, 4);
+    fctl.writeUInt32BE(region.height, 8);
+    fctl.writeUInt32BE(region.x, 12);
+    fctl.writeUInt32BE(region.y, 16);
+    fctl.writeUInt16BE(Math.min(Math.round(frame.delayMs), 0xffff), 20); // delay_num
+    fctl.writeUInt16BE(1000, 22);  // delay_den (ms)
+    fctl[24] = 0;                  // dispose_op: none
+    fctl[25] = 0;                  // blend_op: source
+    parts.push(chunk("fcTL", fctl));
+
+    const data = compressRegion(frame.image, region);
+    if (i === 0) {
+      parts.push(chunk("IDAT", data));
+    } else {
+      const fdat = Buffer.alloc(4 + data.length);
+      fdat.writeUInt32BE(sequence++, 0);
+      fdat.set(data, 4);
+      parts.push(chunk("fdAT", fdat));
+    }
+  });
+
+  parts.push(chunk("IEND", new Uint8Array(0)));
+  return Buffer.concat(parts);
+}
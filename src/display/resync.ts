@@ -0,0 +1,27 @@
+/**
+ * Display resync
+ * Turns a screen snapshot (DisplayDelta.snapshot()) back into the SLIP stream the M8 would send,
+ * so a late-joining /display or TCP client gets the full screen without resetting the device
+ */
+
+import type { ParsedCommand } from "../state/types";
+import { encodeCommand } from "../serial/commands";
+import { slipEncode, SLIP } from "../serial/slip";
+
+/**
+ * Encode commands as consecutive SLIP frames
+ * Starts with a frame end so a partial frame already sent to the client is terminated first
+ */
+export function encodeResyncStream(commands: ParsedCommand[]): Uint8Array {
+  if (commands.length === 0) return new Uint8Array(0);
+
+  const frames = commands.map((cmd) => slipEncode(encodeCommand(cmd)));
+  const out = new Uint8Array(1 + frames.reduce((sum, f) => sum + f.length, 0));
+  out[0] = SLIP.END;
+  let offset = 1;
+  for (const frame of frames) {
+    out.set(frame, offset);
+    offset += frame.length;
+  }
+  return out;
+}
@@ -0,0 +1,326 @@
+/**
+ * M8 Screen Parser
+ * Turns the 40×24 text grid into a structured view: which screen is shown and its data
+ *
+ * Layout (font v1, see tests/fixtures/screens):
+ * - title ("PHRASE 0A", "INST. 03", "SONG", ...) near the top, usually row 3
+ * - data area on the left (cols 0-33)
+ * - track notes "1 C-4" ... "8 ---" on the right (col 34+)
+ *
+ * Works on plain text only, so the same code parses live buffers and golden fixtures.
+ */
+
+import type { M8Screen } from "../state/types";
+import type { TextBuffer } from "./buffer";
+
+// Right-hand track column (track notes, tempo, meters)
+export const TRACK_COLUMN = 34;
+
+// Title must appear within the first rows
+const TITLE_SEARCH_ROWS = 6;
+
+/**
+ * Title patterns: view name + optional hex number
+ */
+const TITLE_PATTERNS: { view: M8Screen; pattern: RegExp }[] = [
+  { view: "SONG", pattern: /^SONG\b/ },
+  { view: "CHAIN", pattern: /^CHAIN\s+([0-9A-F]{2})\b/ },
+  { view: "PHRASE", pattern: /^PHRASE\s+([0-9A-F]{2})\b/ },
+  { view: "INST", pattern: /^INST\.?\s+([0-9A-F]{2})\b/ },
+  { view: "TABLE", pattern: /^TABLE\s+([0-9A-F]{2})\b/ },
+  { view: "MIXER", pattern: /^MIXER\b/ },
+  { view: "PROJECT", pattern: /^PROJECT\b/ },
+  { view: "GROOVE", pattern: /^GROOVE\s*([0-9A-F]{2})?\b/ },
+  { view: "SCALE", pattern: /^SCALE\s*([0-9A-F]{2})?\b/ },
+  { view: "EFFECTS", pattern: /^EFFECT/ },
+  { view: "LIVE", pattern: /^LIVE\b/ },
+];
+
+// Cell patterns
+const HEX2 = "[0-9A-F]{2}|--";
+const NOTE = "[A-G][-#]\\d|---|OFF";
+const FX = "([A-Z]{3}|---)\\s([0-9A-F]{2})";
+
+const SONG_ROW = new RegExp(`^\\s*([0-9A-F]{2})((?:\\s+(?:${HEX2})){8})`);
+const CHAIN_ROW = new RegExp(`^\\s*([0-9A-F])\\s+(${HEX2})\\s+([0-9A-F]{2})\\b`);
+const PHRASE_ROW = new RegExp(
+  `^\\s*([0-9A-F])\\s+(${NOTE})\\s+(${HEX2})\\s+(${HEX2})\\s+${FX}\\s+${FX}\\s+${FX}`
+);
+const TABLE_ROW = new RegExp(
+  `^\\s*([0-9A-F])\\s+(${HEX2})\\s+(${HEX2})\\s+${FX}\\s+${FX}\\s+${FX}`
+);
+const TRACK_NOTE = new RegExp(`^([1-8])\\s(${NOTE})$`);
+const PARAM_VALUE_COLUMN = 9;   // Labels occupy cols 1-8
+const PARAM_LABEL = /^[A-Z][A-Z0-9.\/>]+$/;
+const PARAM_PAIR = /^([A-Z][A-Z0-9.\/>]+)\s(\S.*)$/;
+
+// Text column where each cursor column starts (same layout as the emulator VIEW_FIELDS)
+const FIELD_COLUMNS: Partial<Record<M8Screen, number[]>> = {
+  SONG: [4, 7, 10, 13, 16, 19, 22, 25],
+  CHAIN: [3, 6],
+  PHRASE: [3, 7, 10, 13, 20, 27],
+  TABLE: [3, 6, 9, 16, 23],
+};
+
+// On-screen buttons, not parameters (INST "LOAD SAVE")
+const ACTION_WORDS = new Set(["LOAD", "SAVE"]);
+
+export interface FxCell {
+  cmd: string | null;    // "VOL", null for "---"
+  value: number;
+}
+
+export interface SongRow {
+  line: number;                // Screen row the data was read from
+  row: number;
+  tracks: (number | null)[];   // Chain per track, null = empty
+}
+
+export interface ChainRow {
+  line: number;
+  step: number;
+  phrase: number | null;
+  transpose: number;
+}
+
+export interface PhraseRow {
+  line: number;
+  step: number;
+  note: string | null;         // "C-4", "OFF", null = empty
+  vel: number | null;
+  inst: number | null;
+  fx: FxCell[];
+}
+
+export interface TableRow {
+  line: number;
+  step: number;
+  transpose: number | null;
+  vel: number | null;
+  fx: FxCell[];
+}
+
+export interface ParamEntry {
+  name: string;
+  value: string;
+  line: number;                // Screen row / column of the label
+  col: number;
+}
+
+/**
+ * View-specific data (discriminated by view)
+ */
+export type ParsedViewData =
+  | { view: "SONG"; rows: SongRow[] }
+  | { view: "CHAIN"; rows: ChainRow[] }
+  | { view: "PHRASE"; rows: PhraseRow[] }
+  | { view: "TABLE"; rows: TableRow[] }
+  | { view: Exclude<M8Screen, "SONG" | "CHAIN" | "PHRASE" | "TABLE">; params: ParamEntry[] };
+
+export type ParsedScreen = ParsedViewData & {
+  number: number | null;       // Chain/phrase/instrument/table number from the title
+  title: string;
+  titleRow: number;
+  trackNotes: (string | null)[];
+};
+
+const hexOrNull = (text: string): number | null => (text.startsWith("-") ? null : parseInt(text, 16));
+
+const fxCells = (match: RegExpMatchArray, start: number): FxCell[] =>
+  [0, 1, 2].map((i) => ({
+    cmd: match[start + i * 2] === "---" ? null : match[start + i * 2]!,
+    value: parseInt(match[start + i * 2 + 1]!, 16),
+  }));
+
+/**
+ * Split a line into the data area (left) and the track column (right)
+ */
+function splitLine(line: string): { left: string; right: string } {
+  return {
+    left: line.slice(0, TRACK_COLUMN).trimEnd(),
+    right: line.slice(TRACK_COLUMN).trim(),
+  };
+}
+
+/**
+ * Find the view title in the top rows
+ */
+function findTitle(lines: string[]): { view: M8Screen; number: number | null; title: string; row: number } {
+  for (let row = 0; row < Math.min(lines.length, TITLE_SEARCH_ROWS); row++) {
+    const title = splitLine(lines[row]!).left.trim();
+    if (!title) continue;
+    for (const { view, pattern } of TITLE_PATTERNS) {
+      const match = title.match(pattern);
+      if (match) {
+        return { view, number: match[1] ? parseInt(match[1], 16) : null, title, row };
+      }
+    }
+  }
+  return { view: "UNKNOWN", number: null, title: "", row: -1 };
+}
+
+/**
+ * Parse name/value pairs from parameter screens (INST, MIXER, PROJECT, ...)
+ * Pairs are separated by 2+ spaces ("TRANSP. ON   TBL.TIC 01"); a label padded to the
+ * value column takes the next run as its value ("TYPE    FMSYNTH").
+ * Rows with an empty label area continue the previous parameter (e.g. FM operator rows).
+ */
+function parseParams(lines: string[], firstLine: number): ParamEntry[] {
+  const params: ParamEntry[] = [];
+  const append = (text: string) => {
+    const last = params[params.length - 1];
+    if (last) last.value = `${last.value} ${text}`.trim();
+  };
+
+  lines.forEach((line, index) => {
+    const { left } = splitLine(line);
+    if (!left.trim()) return;
+
+    // Runs of text separated by 2+ spaces, with their start column
+    const runs = [...left.matchAll(/\S+(?: \S+)*/g)].map((m) => ({ text: m[0], col: m.index! }));
+    if (!left.slice(0, PARAM_VALUE_COLUMN).trim()) {
+      append(runs.map((run) => run.text).join(" "));
+      return;
+    }
+
+    const lineNumber = firstLine + index;
+    let pending: { name: string; col: number } | null = null;
+    for (const { text, col } of runs) {
+      if (text.split(" ").every((word) => ACTION_WORDS.has(word))) continue;
+
+      const pair = text.match(PARAM_PAIR);
+      if (pending !== null) {
+        params.push({ name: pending.name, value: text, line: lineNumber, col: pending.col });
+        pending = null;
+      } else if (PARAM_LABEL.test(text)) {
+        pending = { name: text, col };
+      } else if (pair) {
+        params.push({ name: pair[1]!, value: pair[2]!, line: lineNumber, col });
+      } else {
+        append(text);
+      }
+    }
+    if (pending !== null) params.push({ name: pending.name, value: "", line: lineNumber, col: pending.col });
+  });
+
+  return params;
+}
+
+/**
+ * Parse view-specific data rows
+ */
+function parseViewData(view: M8Screen, lines: string[], firstLine: number): ParsedViewData {
+  const rows = lines.map((line) => splitLine(line).left);
+
+  switch (view) {
+    case "SONG":
+      return {
+        view,
+        rows: rows.flatMap((line, i) => {
+          const match = line.match(SONG_ROW);
+          if (!match) return [];
+          return [{ line: firstLine + i, row: parseInt(match[1]!, 16), tracks: match[2]!.trim().split(/\s+/).map(hexOrNull) }];
+        }),
+      };
+    case "CHAIN":
+      return {
+        view,
+        rows: rows.flatMap((line, i) => {
+          const match = line.match(CHAIN_ROW);
+          if (!match) return [];
+          return [{ line: firstLine + i, step: parseInt(match[1]!, 16), phrase: hexOrNull(match[2]!), transpose: parseInt(match[3]!, 16) }];
+        }),
+      };
+    case "PHRASE":
+      return {
+        view,
+        rows: rows.flatMap((line, i) => {
+          const match = line.match(PHRASE_ROW);
+          if (!match) return [];
+          return [{
+            line: firstLine + i,
+            step: parseInt(match[1]!, 16),
+            note: match[2] === "---" ? null : match[2]!,
+            vel: hexOrNull(match[3]!),
+            inst: hexOrNull(match[4]!),
+            fx: fxCells(match, 5),
+          }];
+        }),
+      };
+    case "TABLE":
+      return {
+        view,
+        rows: rows.flatMap((line, i) => {
+          const match = line.match(TABLE_ROW);
+          if (!match) return [];
+          return [{
+            line: firstLine + i,
+            step: parseInt(match[1]!, 16),
+            transpose: hexOrNull(match[2]!),
+            vel: hexOrNull(match[3]!),
+            fx: fxCells(match, 4),
+          }];
+        }),
+      };
+    default:
+      return { view, params: parseParams(lines, firstLine) };
+  }
+}
+
+/**
+ * Parse screen text (one string per row, row 0 first)
+ */
+export function parseScreen(lines: string[]): ParsedScreen {
+  const { view, number, title, row } = findTitle(lines);
+
+  const trackNotes: (string | null)[] = Array(8).fill(null);
+  for (const line of lines) {
+    const match = splitLine(line).right.match(TRACK_NOTE);
+    if (match) {
+      trackNotes[parseInt(match[1]!, 10) - 1] = match[2] === "---" ? null : match[2]!;
+    }
+  }
+
+  // Data starts below the title
+  const data = parseViewData(view, row >= 0 ? lines.slice(row + 1) : [], row + 1);
+  return { ...data, number, title, titleRow: row, trackNotes };
+}
+
+/**
+ * Index of the field containing a text column (last field starting at or before it)
+ */
+function fieldIndex(starts: number[], col: number): number {
+  let index = 0;
+  starts.forEach((start, i) => {
+    if (start <= col) index = i;
+  });
+  return index;
+}
+
+/**
+ * Translate the highlighted text cell into the view's row/col (as M8StateTracker counts them)
+ * Returns null if the cursor is not on a recognized data row.
+ */
+export function locateCursor(parsed: ParsedScreen, cursor: { row: number; col: number }): { row: number; col: number } | null {
+  if ("rows" in parsed) {
+    const entry = (parsed.rows as (SongRow | ChainRow | PhraseRow | TableRow)[]).find((r) => r.line === cursor.row);
+    if (!entry) return null;
+    const row = "row" in entry ? entry.row : entry.step;
+    return { row, col: fieldIndex(FIELD_COLUMNS[parsed.view] ?? [0], cursor.col) };
+  }
+
+  const lines = [...new Set(parsed.params.map((p) => p.line))];
+  const row = lines.indexOf(cursor.row);
+  if (row < 0) return null;
+  const starts = parsed.params.filter((p) => p.line === cursor.row).map((p) => p.col);
+  return { row, col: fieldIndex(starts, cursor.col) };
+}
+
+/**
+ * Parse the live text buffer (adds the cursor cell)
+ */
+export function parseTextBuffer(buffer: TextBuffer): ParsedScreen & { cursor: { row: number; col: number } } {
+  const { rows } = buffer.getDimensions();
+  const lines = Array.from({ length: rows }, (_, r) => buffer.getRow(r));
+  return { ...parseScreen(lines), cursor: buffer.getCursor() };
+}
@@ -0,0 +1,200 @@
+/**
+ * Tile Stream - compressed dirty-rectangle screen updates for /screen clients
+ * Only tiles that changed since the last message are sent, as deflated palette indices.
+ * A mostly static M8 screen costs a few hundred bytes per second instead of a BMP per frame.
+ *
+ * Message format (little-endian):
+ *   [0]     u8   type (1 = keyframe, 2 = delta)
+ *   [1-2]   u16  screen width
+ *   [3-4]   u16  screen height
+ *   [5]     u8   tile size (px)
+ *   [6-7]   u16  tile count
+ *   [8-9]   u16  palette entries
+ *   [10..]  deflate(palette RGB × entries | tile index u16 × count | tile pixels, tileSize² indices each)
+ *
+ * Tiles at the right/bottom edge are sent full-size; clients clip to the screen size.
+ */
+
+import { deflateSync, inflateSync } from "zlib";
+import type { Framebuffer } from "./framebuffer";
+import { buildPalette, toIndexed, type RgbaFrame } from "./indexed";
+
+export const TILE_KEYFRAME = 1;
+export const TILE_DELTA = 2;
+
+const HEADER_SIZE = 10;
+
+export interface TileMessage {
+  type: number;
+  width: number;
+  height: number;
+  tileSize: number;
+  palette: Uint8Array;
+  tiles: { index: number; pixels: Uint8Array }[];
+}
+
+export interface TileStreamStats {
+  keyframes: number;
+  deltas: number;
+  tilesSent: number;
+  bytesSent: number;
+}
+
+/**
+ * Encodes framebuffer changes as tile messages
+ * Single consumer of Framebuffer dirty tracking: deltas are shared by all clients,
+ * late joiners get a keyframe.
+ */
+export class TileStreamEncoder {
+  private framebuffer: Framebuffer;
+  private sent: Uint8Array = new Uint8Array(0); // Pixels as of the last message
+  private stats: TileStreamStats = { keyframes: 0, deltas: 0, tilesSent: 0, bytesSent: 0 };
+
+  constructor(framebuffer: Framebuffer) {
+    this.framebuffer = framebuffer;
+  }
+
+  /**
+   * Full screen (on join / on request)
+   */
+  keyframe(): Buffer {
+    this.framebuffer.takeDirtyTiles();
+    const { count } = this.framebuffer.getTileGrid();
+    const message = this.encode(TILE_KEYFRAME, Array.from({ length: count }, (_, i) => i));
+    this.stats.keyframes++;
+    return message;
+  }
+
+  /**
+   * Tiles changed since the last message (null if nothing changed)
+   */
+  delta(): Buffer | null {
+    const pixels = this.framebuffer.getPixels();
+    const dirty = this.framebuffer.takeDirtyTiles();
+
+    // Screen resized since the last message: everything is new
+    const resized = this.sent.length !== pixels.length;
+    const tiles = resized ? dirty : dirty.filter((tile) => this.tileChanged(tile));
+    if (tiles.length === 0) return null;
+
+    const message = this.encode(TILE_DELTA, tiles);
+    this.stats.deltas++;
+    return message;
+  }
+
+  getStats(): TileStreamStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Compare tile pixels with what clients last received
+   * (drawing the same content again marks tiles dirty without changing them)
+   */
+  private tileChanged(tile: number): boolean {
+    const pixels = this.framebuffer.getPixels();
+    const { width } = this.framebuffer.getSize();
+    const { x, y, w, h } = this.tileRect(tile);
+
+    for (let row = y; row < y + h; row++) {
+      const start = (row * width + x) * 4;
+      const end = start + w * 4;
+      for (let i = start; i < end; i++) {
+        if (pixels[i] !== this.sent[i]) return true;
+      }
+    }
+    return false;
+  }
+
+  private tileRect(tile: number): { x: number; y: number; w: number; h: number } {
+    const { width, height } = this.framebuffer.getSize();
+    const { tileSize, cols } = this.framebuffer.getTileGrid();
+    const x = (tile % cols) * tileSize;
+    const y = Math.floor(tile / cols) * tileSize;
+    return { x, y, w: Math.min(tileSize, width - x), h: Math.min(tileSize, height - y) };
+  }
+
+  private encode(type: number, tiles: number[]): Buffer {
+    const pixels = this.framebuffer.getPixels();
+    const { width, height } = this.framebuffer.getSize();
+    const { tileSize } = this.framebuffer.getTileGrid();
+    const tileBytes = tileSize * tileSize * 4;
+
+    // Stack tiles vertically into one RGBA strip so they share a palette
+    const strip: RgbaFrame = {
+      width: tileSize,
+      height: tileSize * tiles.length,
+      pixels: new Uint8Array(tileBytes * tiles.length),
+    };
+    tiles.forEach((tile, n) => {
+      const { x, y, w, h } = this.tileRect(tile);
+      for (let row = 0; row < h; row++) {
+        const src = ((y + row) * width + x) * 4;
+        strip.pixels.set(pixels.subarray(src, src + w * 4), n * tileBytes + row * tileSize * 4);
+      }
+    });
+
+    const palette = buildPalette([strip]);
+    const indexed = toIndexed(strip, palette);
+
+    const tileIndices = Buffer.alloc(tiles.length * 2);
+    tiles.forEach((tile, n) => tileIndices.writeUInt16LE(tile, n * 2));
+
+    const body = deflateSync(Buffer.concat([palette.palette, tileIndices, indexed.indices]));
+
+    const header = Buffer.alloc(HEADER_SIZE);
+    header[0] = type;
+    header.writeUInt16LE(width, 1);
+    header.writeUInt16LE(height, 3);
+    header[5] = tileSize;
+    header.writeUInt16LE(tiles.length, 6);
+    header.writeUInt16LE(palette.palette.length / 3, 8);
+
+    // Remember what clients now have
+    if (this.sent.length !== pixels.length) {
+      this.sent = new Uint8Array(pixels.length);
+    }
+    for (const tile of tiles) {
+      const { x, y, w, h } = this.tileRect(tile);
+      for (let row = y; row < y + h; row++) {
+        const start = (row * width + x) * 4;
+        this.sent.set(pixels.subarray(start, start + w * 4), start);
+      }
+    }
+
+    const message = Buffer.concat([header, body]);
+    this.stats.tilesSent += tiles.length;
+    this.stats.bytesSent += message.length;
+    return message;
+  }
+}
+
+/**
+ * Decode a tile message (reference implementation of the web client decoder)
+ */
+export function decodeTileMessage(data: Buffer): TileMessage {
+  if (data.length < HEADER_SIZE) throw new Error("Truncated tile message");
+
+  const tileSize = data[5]!;
+  const count = data.readUInt16LE(6);
+  const paletteEntries = data.readUInt16LE(8);
+  const body = inflateSync(data.subarray(HEADER_SIZE));
+
+  const palette = new Uint8Array(body.subarray(0, paletteEntries * 3));
+  const indexOffset = paletteEntries * 3;
+  const pixelOffset = indexOffset + count * 2;
+  const tilePixels = tileSize * tileSize;
+
+  const tiles = Array.from({ length: count }, (_, n) => ({
+    index: body.readUInt16LE(indexOffset + n * 2),
+    pixels: new Uint8Array(body.subarray(pixelOffset + n * tilePixels, pixelOffset + (n + 1) * tilePixels)),
+  }));
+
+  return {
+    type: data[0]!,
+    width: data.readUInt16LE(1),
+    height: data.readUInt16LE(3),
+    tileSize,
+    palette,
+    tiles,
+  };
+}
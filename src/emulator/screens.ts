@@ -0,0 +1,382 @@
+/**
+ * Virtual M8 Screens
+ * Demo project data and text layouts for the emulated M8 views
+ *
+ * Layout follows the real M8 (font v1 small, 40×24 text grid, 8×10 px cells):
+ * title on row 3, column header on row 5, data rows from row 6,
+ * track notes column on the right (see tests/fixtures/screens)
+ */
+
+import type { Color, M8Screen } from "../state/types";
+
+// Emulator palette (cursor fg is the only bright color, like on the device)
+export const EMU_COLORS = {
+  BACKGROUND: { r: 0, g: 0, b: 0 },
+  TITLE: { r: 48, g: 236, b: 248 },
+  LABEL: { r: 96, g: 96, b: 136 },
+  VALUE: { r: 160, g: 160, b: 192 },
+  EMPTY: { r: 64, g: 64, b: 88 },
+  CURSOR_FG: { r: 248, g: 248, b: 248 },
+  CURSOR_BG: { r: 96, g: 96, b: 136 },
+} as const satisfies Record<string, Color>;
+
+export const TITLE_ROW = 3;
+export const HEADER_ROW = 5;
+export const FIRST_DATA_ROW = 6;
+export const TRACK_COLUMN = 34;
+
+const NOTE_NAMES = ["C-", "C#", "D-", "D#", "E-", "F-", "F#", "G-", "G#", "A-", "A#", "B-"];
+
+/**
+ * Format note number as M8 note name (48 = C-4)
+ */
+export function formatNote(note: number | null): string {
+  if (note === null) return "---";
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12)}`;
+}
+
+/**
+ * Format byte as 2-digit uppercase hex, "--" for empty
+ */
+export function formatHex(value: number | null): string {
+  if (value === null) return "--";
+  return value.toString(16).toUpperCase().padStart(2, "0");
+}
+
+export interface PhraseStep {
+  note: number | null;
+  vel: number | null;
+  inst: number | null;
+}
+
+export interface ChainStep {
+  phrase: number | null;
+  transpose: number;
+}
+
+export interface Instrument {
+  type: string;
+  name: string;
+  params: [string, string][];
+}
+
+/**
+ * Song data shown by the emulator
+ */
+export interface EmulatorProject {
+  song: (number | null)[][];               // 16 rows × 8 tracks of chain numbers
+  chains: Map<number, ChainStep[]>;        // 16 steps each
+  phrases: Map<number, PhraseStep[]>;      // 16 steps each
+  instruments: Map<number, Instrument>;
+  tempo: number;
+}
+
+/**
+ * Editable field on a view: position in the text grid
+ */
+export interface FieldSpan {
+  col: number;
+  width: number;
+}
+
+/**
+ * One run of text drawn in a single color
+ */
+export interface ScreenText {
+  row: number;
+  col: number;
+  text: string;
+  color: Color;
+}
+
+/**
+ * Current view as seen by the renderer
+ */
+export interface ViewState {
+  screen: M8Screen;
+  number: number;
+  row: number;
+  col: number;
+  trackNotes: (number | null)[];
+}
+
+/**
+ * Rendered view: text runs plus the cursor cell span
+ */
+export interface RenderedView {
+  texts: ScreenText[];
+  cursor: { row: number; col: number; width: number } | null;
+}
+
+const EMPTY_PHRASE = (): PhraseStep[] =>
+  Array.from({ length: 16 }, () => ({ note: null, vel: null, inst: null }));
+
+const EMPTY_CHAIN = (): ChainStep[] =>
+  Array.from({ length: 16 }, () => ({ phrase: null, transpose: 0 }));
+
+/**
+ * Create the demo project the emulator boots with
+ */
+export function createDemoProject(): EmulatorProject {
+  const song = Array.from({ length: 16 }, () => Array<number | null>(8).fill(null));
+  song[0]![0] = 0x00;
+  song[0]![1] = 0x01;
+  song[1]![0] = 0x00;
+  song[1]![1] = 0x02;
+
+  const chains = new Map<number, ChainStep[]>();
+  const chain0 = EMPTY_CHAIN();
+  chain0[0] = { phrase: 0x00, transpose: 0 };
+  chain0[1] = { phrase: 0x01, transpose: 0 };
+  chains.set(0x00, chain0);
+  const chain1 = EMPTY_CHAIN();
+  chain1[0] = { phrase: 0x02, transpose: 0 };
+  chains.set(0x01, chain1);
+  const chain2 = EMPTY_CHAIN();
+  chain2[0] = { phrase: 0x02, transpose: 0x0c };
+  chains.set(0x02, chain2);
+
+  const phrases = new Map<number, PhraseStep[]>();
+  const phrase0 = EMPTY_PHRASE();
+  phrase0[0] = { note: 48, vel: 0x7f, inst: 0x00 };
+  phrase0[4] = { note: 51, vel: 0x60, inst: 0x00 };
+  phrase0[8] = { note: 55, vel: 0x7f, inst: 0x00 };
+  phrase0[12] = { note: 53, vel: 0x40, inst: 0x00 };
+  phrases.set(0x00, phrase0);
+  const phrase1 = EMPTY_PHRASE();
+  phrase1[0] = { note: 46, vel: 0x7f, inst: 0x00 };
+  phrase1[8] = { note: 43, vel: 0x7f, inst: 0x00 };
+  phrases.set(0x01, phrase1);
+  const phrase2 = EMPTY_PHRASE();
+  phrase2[0] = { note: 36, vel: 0x7f, inst: 0x01 };
+  phrase2[6] = { note: 36, vel: 0x50, inst: 0x01 };
+  phrase2[10] = { note: 39, vel: 0x7f, inst: 0x01 };
+  phrases.set(0x02, phrase2);
+
+  const instruments = new Map<number, Instrument>();
+  instruments.set(0x00, {
+    type: "WAVSYNTH",
+    name: "LEAD",
+    params: [
+      ["TRANSP.", "ON"],
+      ["SHAPE", "00 PULSE12"],
+      ["SIZE", "80"],
+      ["MULT", "80"],
+      ["WARP", "00"],
+      ["SCAN", "00"],
+      ["FILTER", "01 LOWPASS"],
+      ["CUTOFF", "A0"],
+      ["RES", "30"],
+    ],
+  });
+  instruments.set(0x01, {
+    type: "FMSYNTH",
+    name: "BASS",
+    params: [
+      ["TRANSP.", "ON"],
+      ["ALGO", "00 >B>C>D"],
+      ["RATIO", "01.00"],
+      ["LEV/FB", "80/00"],
+      ["MOD1", "00"],
+      ["MOD2", "00"],
+      ["FILTER", "00 OFF"],
+      ["CUTOFF", "FF"],
+      ["RES", "00"],
+    ],
+  });
+
+  return { song, chains, phrases, instruments, tempo: 120 };
+}
+
+/**
+ * Get chain (created empty on first access, like the device)
+ */
+export function getChain(project: EmulatorProject, num: number): ChainStep[] {
+  let chain = project.chains.get(num);
+  if (!chain) {
+    chain = EMPTY_CHAIN();
+    project.chains.set(num, chain);
+  }
+  return chain;
+}
+
+/**
+ * Get phrase (created empty on first access, like the device)
+ */
+export function getPhrase(project: EmulatorProject, num: number): PhraseStep[] {
+  let phrase = project.phrases.get(num);
+  if (!phrase) {
+    phrase = EMPTY_PHRASE();
+    project.phrases.set(num, phrase);
+  }
+  return phrase;
+}
+
+/**
+ * Get instrument (default empty instrument if unset)
+ */
+export function getInstrument(project: EmulatorProject, num: number): Instrument {
+  return project.instruments.get(num) ?? { type: "NONE", name: "-----", params: [] };
+}
+
+/**
+ * Editable field columns per view (cursor col index → text span)
+ */
+export const VIEW_FIELDS: Partial<Record<M8Screen, FieldSpan[]>> = {
+  SONG: Array.from({ length: 8 }, (_, i) => ({ col: 4 + i * 3, width: 2 })),
+  CHAIN: [
+    { col: 3, width: 2 },
+    { col: 6, width: 2 },
+  ],
+  PHRASE: [
+    { col: 3, width: 3 },
+    { col: 7, width: 2 },
+    { col: 10, width: 2 },
+    { col: 13, width: 6 },
+    { col: 20, width: 6 },
+    { col: 27, width: 6 },
+  ],
+  INST: [{ col: 9, width: 12 }],
+};
+
+/**
+ * Number of cursor rows per view
+ */
+export function viewRowCount(project: EmulatorProject, view: ViewState): number {
+  if (view.screen === "INST") {
+    return 2 + getInstrument(project, view.number).params.length;
+  }
+  return 16;
+}
+
+/**
+ * Number of cursor columns per view
+ */
+export function viewColCount(screen: M8Screen): number {
+  return VIEW_FIELDS[screen]?.length ?? 1;
+}
+
+/**
+ * Title shown on row 3
+ */
+export function viewTitle(view: ViewState): string {
+  switch (view.screen) {
+    case "SONG":
+    case "LIVE":
+    case "MIXER":
+    case "PROJECT":
+    case "EFFECTS":
+      return view.screen;
+    case "INST":
+      return `INST. ${formatHex(view.number)}`;
+    default:
+      return `${view.screen} ${formatHex(view.number)}`;
+  }
+}
+
+/**
+ * Data rows for the current view: label text + field values
+ */
+function viewRows(project: EmulatorProject, view: ViewState): { header: string; rows: string[][] } {
+  switch (view.screen) {
+    case "SONG":
+      return {
+        header: "   1  2  3  4  5  6  7  8",
+        rows: project.song.map((tracks, r) => [
+          formatHex(r),
+          ...tracks.map((chain) => formatHex(chain)),
+        ]),
+      };
+    case "CHAIN":
+      return {
+        header: "  PH TSP",
+        rows: getChain(project, view.number).map((step, r) => [
+          r.toString(16).toUpperCase(),
+          formatHex(step.phrase),
+          formatHex(step.transpose),
+        ]),
+      };
+    case "PHRASE":
+      return {
+        header: "  N   V  I  FX1    FX2    FX3",
+        rows: getPhrase(project, view.number).map((step, r) => [
+          r.toString(16).toUpperCase(),
+          formatNote(step.note),
+          formatHex(step.vel),
+          formatHex(step.inst),
+          "--- 00",
+          "--- 00",
+          "--- 00",
+        ]),
+      };
+    default:
+      return {
+        header: "",
+        rows: Array.from({ length: 16 }, (_, r) => [r.toString(16).toUpperCase(), "--"]),
+      };
+  }
+}
+
+/**
+ * Render the current view into colored text runs
+ */
+export function renderView(project: EmulatorProject, view: ViewState): RenderedView {
+  const texts: ScreenText[] = [];
+  let cursor: RenderedView["cursor"] = null;
+
+  texts.push({ row: TITLE_ROW, col: 1, text: viewTitle(view), color: EMU_COLORS.TITLE });
+  texts.push({
+    row: TITLE_ROW,
+    col: TRACK_COLUMN + 1,
+    text: `T>${project.tempo}`,
+    color: EMU_COLORS.LABEL,
+  });
+
+  if (view.screen === "INST") {
+    const inst = getInstrument(project, view.number);
+    const params: [string, string][] = [["TYPE", inst.type], ["NAME", inst.name], ...inst.params];
+    params.forEach(([name, value], i) => {
+      const row = HEADER_ROW + i;
+      texts.push({ row, col: 1, text: name, color: EMU_COLORS.LABEL });
+      texts.push({ row, col: 9, text: value, color: EMU_COLORS.VALUE });
+      if (i === view.row) {
+        cursor = { row, col: 9, width: value.length };
+      }
+    });
+  } else {
+    const { header, rows } = viewRows(project, view);
+    const fields = VIEW_FIELDS[view.screen];
+    if (header) {
+      texts.push({ row: HEADER_ROW, col: 1, text: header, color: EMU_COLORS.LABEL });
+    }
+    rows.forEach(([label, ...values], r) => {
+      const row = FIRST_DATA_ROW + r;
+      texts.push({ row, col: 1, text: label!, color: EMU_COLORS.LABEL });
+      values.forEach((value, c) => {
+        const span = fields?.[c] ?? { col: 4 + c * 3, width: value.length };
+        const isEmpty = value.startsWith("--");
+        texts.push({
+          row,
+          col: span.col,
+          text: value,
+          color: isEmpty ? EMU_COLORS.EMPTY : EMU_COLORS.VALUE,
+        });
+        if (r === view.row && c === view.col) {
+          cursor = { row, col: span.col, width: span.width };
+        }
+      });
+    });
+  }
+
+  // Track notes column (right side, rows 7-14)
+  view.trackNotes.forEach((note, t) => {
+    texts.push({
+      row: FIRST_DATA_ROW + 1 + t,
+      col: TRACK_COLUMN,
+      text: `${t + 1} ${formatNote(note)}`,
+      color: note === null ? EMU_COLORS.EMPTY : EMU_COLORS.VALUE,
+    });
+  });
+
+  return { texts, cursor };
+}
@@ -0,0 +1,503 @@
+/**
+ * Virtual M8 - software stand-in for the M8 Tracker
+ *
+ * Speaks the same serial protocol as the device:
+ * - Receives 'C' controller bitmasks, 'K' keyjazz, 'E' / 'R' / 'D'
+ * - Emits SLIP-encoded RECT / TEXT / WAVE / JPAD / SYSTEM frames
+ *
+ * Plugged into M8Connection through an in-process transport, so the whole
+ * server (WS, TCP proxy, screen image) runs without hardware:
+ *   npx tsx src/index.ts --port emulator
+ */
+
+import { slipEncode } from "../serial/slip";
+import { encodeCommand } from "../serial/commands";
+import type { M8Transport, TransportFactory, TransportHandlers } from "../serial/transport";
+import { geometryFor, type ScreenGeometry } from "../display/geometry";
+import { M8Key, HardwareType, type Color, type M8Screen, type ParsedCommand } from "../state/types";
+import {
+  EMU_COLORS,
+  createDemoProject,
+  getChain,
+  getPhrase,
+  getInstrument,
+  renderView,
+  viewRowCount,
+  viewColCount,
+  type EmulatorProject,
+  type ViewState,
+} from "./screens";
+
+/**
+ * Port name that selects the emulator instead of a serial device
+ */
+export const VIRTUAL_M8_PORT = "emulator";
+
+// Waveform (full-width top strip, sample value = Y coordinate)
+const WAVE_CENTER = 12;
+const WAVE_COLOR: Color = { r: 48, g: 236, b: 248 };
+
+// Host → M8 commands
+const CMD_CONTROLLER = 0x43; // 'C'
+const CMD_KEYJAZZ = 0x4b;    // 'K'
+const CMD_ENABLE = 0x45;     // 'E'
+const CMD_RESET = 0x52;      // 'R'
+const CMD_DISCONNECT = 0x44; // 'D'
+
+const DIRECTIONS: [number, "up" | "down" | "left" | "right"][] = [
+  [M8Key.UP, "up"],
+  [M8Key.DOWN, "down"],
+  [M8Key.LEFT, "left"],
+  [M8Key.RIGHT, "right"],
+];
+
+// View graph (SHIFT + direction), as on the device
+const NAVIGATION: Record<string, M8Screen> = {
+  "LIVE:right": "SONG",
+  "SONG:right": "CHAIN",
+  "CHAIN:right": "PHRASE",
+  "PHRASE:right": "INST",
+  "INST:right": "TABLE",
+  "TABLE:left": "INST",
+  "INST:left": "PHRASE",
+  "PHRASE:left": "CHAIN",
+  "CHAIN:left": "SONG",
+  "SONG:left": "LIVE",
+  "SONG:up": "PROJECT",
+  "PROJECT:down": "SONG",
+  "PHRASE:up": "GROOVE",
+  "GROOVE:down": "PHRASE",
+  "LIVE:down": "MIXER",
+  "SONG:down": "MIXER",
+  "CHAIN:down": "MIXER",
+  "PHRASE:down": "MIXER",
+  "INST:down": "MIXER",
+  "TABLE:down": "MIXER",
+  "MIXER:down": "EFFECTS",
+  "EFFECTS:up": "MIXER",
+};
+
+const HORIZONTAL_VIEWS: M8Screen[] = ["LIVE", "SONG", "CHAIN", "PHRASE", "INST", "TABLE"];
+
+export interface VirtualM8Options {
+  hardwareType?: number;                 // Reported in SYSTEM (default: PRODUCTION)
+  firmware?: [number, number, number];   // Reported in SYSTEM (default: 4.0.0)
+  fontMode?: number;                     // Reported in SYSTEM (default: 0)
+  waveIntervalMs?: number;               // Waveform frame interval while sounding (0 = manual tick)
+  project?: EmulatorProject;             // Song data (default: demo project)
+}
+
+interface DrawnCell {
+  char: string;
+  fg: Color;
+  bg: Color;
+}
+
+function sameColor(a: Color, b: Color): boolean {
+  return a.r === b.r && a.g === b.g && a.b === b.b;
+}
+
+/**
+ * Emulated M8 device
+ */
+export class VirtualM8 {
+  private options: Required<Omit<VirtualM8Options, "project">>;
+  private geometry: ScreenGeometry;
+  private project: EmulatorProject;
+  private output: ((data: Uint8Array) => void) | null = null;
+  private waveTimer: ReturnType<typeof setInterval> | null = null;
+  private pending: number[] = [];
+
+  private enabled = false;
+  private buttons = 0;
+  private playing = false;
+  private noteOn: number | null = null;
+  private wavePhase = 0;
+
+  private view: ViewState = { screen: "SONG", number: 0, row: 0, col: 0, trackNotes: Array(8).fill(null) };
+  private cursors = new Map<M8Screen, { row: number; col: number }>();
+  private lastHorizontal: M8Screen = "SONG";
+  private drawn: (DrawnCell | null)[][] = [];
+
+  constructor(options: VirtualM8Options = {}) {
+    this.options = {
+      hardwareType: options.hardwareType ?? HardwareType.PRODUCTION,
+      firmware: options.firmware ?? [4, 0, 0],
+      fontMode: options.fontMode ?? 0,
+      waveIntervalMs: options.waveIntervalMs ?? 50,
+    };
+    this.geometry = geometryFor(this.options.hardwareType);
+    this.project = options.project ?? createDemoProject();
+    this.resetDrawn();
+  }
+
+  /**
+   * Transport factory for M8Connection (ignores path and baud rate)
+   */
+  readonly openTransport: TransportFactory = async (_path, _baudRate, handlers) => {
+    return this.attach(handlers);
+  };
+
+  /**
+   * Attach a host: frames go to handlers.onData until close()
+   */
+  attach(handlers: Pick<TransportHandlers, "onData">): M8Transport {
+    this.output = handlers.onData;
+    if (this.options.waveIntervalMs > 0 && !this.waveTimer) {
+      this.waveTimer = setInterval(() => this.tick(), this.options.waveIntervalMs);
+      this.waveTimer.unref?.();
+    }
+
+    return {
+      write: async (data) => this.receive(data),
+      close: async () => this.detach(),
+    };
+  }
+
+  /**
+   * Detach host and stop timers
+   */
+  detach(): void {
+    this.output = null;
+    this.enabled = false;
+    if (this.waveTimer) {
+      clearInterval(this.waveTimer);
+      this.waveTimer = null;
+    }
+  }
+
+  /**
+   * Process bytes sent by the host (may contain several commands or a partial one)
+   */
+  receive(data: Uint8Array): void {
+    this.pending.push(...data);
+
+    while (this.pending.length > 0) {
+      const cmd = this.pending[0]!;
+      let length = 1;
+      if (cmd === CMD_CONTROLLER) {
+        length = 2;
+      } else if (cmd === CMD_KEYJAZZ) {
+        if (this.pending.length < 2) return;
+        length = this.pending[1] === 0xff ? 2 : 3;
+      }
+      if (this.pending.length < length) return;
+
+      const bytes = this.pending.splice(0, length);
+      this.handleCommand(bytes);
+    }
+  }
+
+  /**
+   * Current view/cursor (for tests and debugging)
+   */
+  getView(): { screen: M8Screen; number: number; row: number; col: number } {
+    const { screen, number, row, col } = this.view;
+    return { screen, number, row, col };
+  }
+
+  /**
+   * Song data (mutable, for tests)
+   */
+  getProject(): EmulatorProject {
+    return this.project;
+  }
+
+  /**
+   * Is display output enabled ('E' received)
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Emit one waveform frame if something is sounding
+   */
+  tick(): void {
+    if (!this.enabled || (!this.playing && this.noteOn === null)) return;
+
+    this.wavePhase = (this.wavePhase + 1) % 64;
+    const freq = this.noteOn !== null ? 2 + (this.noteOn % 12) / 4 : 3;
+    const data = new Uint8Array(this.geometry.width);
+    for (let i = 0; i < data.length; i++) {
+      const angle = ((i + this.wavePhase * 5) / data.length) * Math.PI * 2 * freq;
+      data[i] = Math.round(WAVE_CENTER + Math.sin(angle) * (WAVE_CENTER - 2));
+    }
+    this.emit([{ type: "wave", color: WAVE_COLOR, data }]);
+  }
+
+  private handleCommand(bytes: number[]): void {
+    switch (bytes[0]) {
+      case CMD_ENABLE:
+        this.enabled = true;
+        this.emit([this.systemCommand()]);
+        this.redraw(true);
+        break;
+      case CMD_RESET:
+        if (!this.enabled) return;
+        this.emit([this.systemCommand()]);
+        this.redraw(true);
+        break;
+      case CMD_DISCONNECT:
+        this.enabled = false;
+        this.buttons = 0;
+        break;
+      case CMD_CONTROLLER:
+        this.handleButtons(bytes[1]!);
+        break;
+      case CMD_KEYJAZZ:
+        this.handleKeyjazz(bytes[1]!, bytes[2] ?? 0);
+        break;
+    }
+  }
+
+  private systemCommand(): ParsedCommand {
+    const [major, minor, patch] = this.options.firmware;
+    return {
+      type: "system",
+      hardwareType: this.options.hardwareType,
+      firmwareMajor: major,
+      firmwareMinor: minor,
+      firmwarePatch: patch,
+      fontMode: this.options.fontMode,
+    };
+  }
+
+  /**
+   * Controller state: act on newly pressed buttons only (edge-triggered)
+   */
+  private handleButtons(bitmask: number): void {
+    const pressed = bitmask & ~this.buttons;
+    this.buttons = bitmask;
+
+    if (this.enabled) {
+      this.emit([{ type: "jpad", state: bitmask }]);
+    }
+
+    if (pressed & M8Key.START) {
+      this.playing = !this.playing;
+      if (!this.playing) this.emitFlatWave();
+    }
+
+    for (const [mask, direction] of DIRECTIONS) {
+      if (!(pressed & mask)) continue;
+
+      if (bitmask & M8Key.SELECT) {
+        this.navigate(direction);
+      } else if (bitmask & M8Key.EDIT) {
+        this.editValue(direction);
+      } else {
+        this.moveCursor(direction);
+      }
+    }
+
+    // EDIT alone on an empty field inserts a default value
+    if (pressed === M8Key.EDIT) {
+      this.insertValue();
+    }
+  }
+
+  private handleKeyjazz(note: number, velocity: number): void {
+    if (note === 0xff) {
+      this.noteOn = null;
+      this.view.trackNotes[0] = null;
+      this.emitFlatWave();
+    } else {
+      this.noteOn = note;
+      this.view.trackNotes[0] = velocity > 0 ? note : null;
+      this.tick();
+    }
+    this.redraw(false);
+  }
+
+  /**
+   * SHIFT + direction: move between views
+   */
+  private navigate(direction: "up" | "down" | "left" | "right"): void {
+    const from = this.view.screen;
+    let to: M8Screen | undefined;
+
+    if (from === "MIXER" && direction === "up") {
+      to = this.lastHorizontal;
+    } else {
+      to = NAVIGATION[`${from}:${direction}`];
+    }
+    if (!to) return;
+
+    // Follow the value under the cursor into the next view
+    let number = this.view.number;
+    if (from === "SONG" && to === "CHAIN") {
+      number = this.project.song[this.view.row]?.[this.view.col] ?? number;
+    } else if (from === "CHAIN" && to === "PHRASE") {
+      number = getChain(this.project, this.view.number)[this.view.row]?.phrase ?? number;
+    } else if (from === "PHRASE" && to === "INST") {
+      number = getPhrase(this.project, this.view.number)[this.view.row]?.inst ?? number;
+    }
+
+    if (HORIZONTAL_VIEWS.includes(from)) {
+      this.lastHorizontal = from;
+    }
+
+    this.cursors.set(from, { row: this.view.row, col: this.view.col });
+    const saved = this.cursors.get(to) ?? { row: 0, col: 0 };
+    this.view = { ...this.view, screen: to, number, row: saved.row, col: saved.col };
+    this.clampCursor();
+    this.redraw(true);
+  }
+
+  private moveCursor(direction: "up" | "down" | "left" | "right"): void {
+    switch (direction) {
+      case "up": this.view.row--; break;
+      case "down": this.view.row++; break;
+      case "left": this.view.col--; break;
+      case "right": this.view.col++; break;
+    }
+    this.clampCursor();
+    this.redraw(false);
+  }
+
+  private clampCursor(): void {
+    const rows = viewRowCount(this.project, this.view);
+    const cols = this.view.screen === "INST" ? 1 : viewColCount(this.view.screen);
+    this.view.row = Math.max(0, Math.min(this.view.row, rows - 1));
+    this.view.col = Math.max(0, Math.min(this.view.col, cols - 1));
+  }
+
+  /**
+   * EDIT + direction: left/right ±1, up/down ±16 (notes: semitone / octave)
+   */
+  private editValue(direction: "up" | "down" | "left" | "right"): void {
+    const isNote = this.view.screen === "PHRASE" && this.view.col === 0;
+    const large = isNote ? 12 : 16;
+    const delta = { right: 1, left: -1, up: large, down: -large }[direction];
+    const max = isNote ? 127 : 255;
+
+    this.updateField((value) =>
+      value === null ? null : Math.max(0, Math.min(max, value + delta))
+    );
+  }
+
+  private insertValue(): void {
+    const isNote = this.view.screen === "PHRASE" && this.view.col === 0;
+    this.updateField((value) => value ?? (isNote ? 48 : 0));
+  }
+
+  /**
+   * Apply an update to the editable value under the cursor
+   */
+  private updateField(update: (value: number | null) => number | null): void {
+    const { screen, number, row, col } = this.view;
+
+    if (screen === "SONG") {
+      const tracks = this.project.song[row];
+      if (tracks) tracks[col] = update(tracks[col] ?? null);
+    } else if (screen === "CHAIN") {
+      const step = getChain(this.project, number)[row];
+      if (step && col === 0) step.phrase = update(step.phrase);
+      if (step && col === 1) step.transpose = update(step.transpose) ?? 0;
+    } else if (screen === "PHRASE") {
+      const step = getPhrase(this.project, number)[row];
+      if (step && col === 0) step.note = update(step.note);
+      if (step && col === 1) step.vel = update(step.vel);
+      if (step && col === 2) step.inst = update(step.inst);
+    } else {
+      return;
+    }
+    this.redraw(false);
+  }
+
+  private emitFlatWave(): void {
+    if (!this.enabled) return;
+    this.emit([{ type: "wave", color: WAVE_COLOR, data: new Uint8Array(this.geometry.width).fill(WAVE_CENTER) }]);
+  }
+
+  private resetDrawn(): void {
+    this.drawn = Array.from({ length: this.geometry.rows }, () => Array<DrawnCell | null>(this.geometry.cols).fill(null));
+  }
+
+  /**
+   * Draw the current view
+   * full: clear screen and draw everything (view change, 'E', 'R')
+   * otherwise: only cells that differ from what was last drawn
+   */
+  private redraw(full: boolean): void {
+    if (!this.enabled) return;
+
+    const cells: (DrawnCell | null)[][] = Array.from({ length: this.geometry.rows }, () =>
+      Array<DrawnCell | null>(this.geometry.cols).fill(null)
+    );
+    const rendered = renderView(this.project, this.view);
+    for (const { row, col, text, color } of rendered.texts) {
+      for (let i = 0; i < text.length && col + i < this.geometry.cols; i++) {
+        cells[row]![col + i] = { char: text[i]!, fg: color, bg: EMU_COLORS.BACKGROUND };
+      }
+    }
+    if (rendered.cursor) {
+      const { row, col, width } = rendered.cursor;
+      for (let i = 0; i < width && col + i < this.geometry.cols; i++) {
+        const char = cells[row]![col + i]?.char ?? " ";
+        cells[row]![col + i] = { char, fg: EMU_COLORS.CURSOR_FG, bg: EMU_COLORS.CURSOR_BG };
+      }
+    }
+
+    const commands: ParsedCommand[] = [];
+    if (full) {
+      this.resetDrawn();
+      commands.push({
+        type: "rect",
+        x: 0,
+        y: 0,
+        width: this.geometry.width,
+        height: this.geometry.height,
+        color: EMU_COLORS.BACKGROUND,
+      });
+    }
+
+    // Cursor cells go last so TextBuffer picks them up as the cursor
+    const cursorCommands: ParsedCommand[] = [];
+    for (let row = 0; row < this.geometry.rows; row++) {
+      for (let col = 0; col < this.geometry.cols; col++) {
+        const next = cells[row]![col] ?? null;
+        const prev = this.drawn[row]![col] ?? null;
+        if (!next && !prev) continue;
+        if (next && prev && next.char === prev.char && sameColor(next.fg, prev.fg) && sameColor(next.bg, prev.bg)) {
+          continue;
+        }
+
+        const cell = next ?? { char: " ", fg: EMU_COLORS.BACKGROUND, bg: EMU_COLORS.BACKGROUND };
+        const target = sameColor(cell.fg, EMU_COLORS.CURSOR_FG) ? cursorCommands : commands;
+        target.push({
+          type: "text",
+          char: cell.char,
+          charCode: cell.char.charCodeAt(0),
+          x: col * this.geometry.cellWidth,
+          y: row * this.geometry.cellHeight,
+          fg: { ...cell.fg },
+          bg: { ...cell.bg },
+        });
+        this.drawn[row]![col] = next;
+      }
+    }
+
+    // Reversed: TextBuffer takes the last highlighted cell as the cursor,
+    // so the first character of the field has to be drawn last
+    this.emit([...commands, ...cursorCommands.reverse()]);
+  }
+
+  /**
+   * SLIP-encode commands and deliver them to the host as one chunk
+   */
+  private emit(commands: ParsedCommand[]): void {
+    if (!this.output || commands.length === 0) return;
+
+    const frames = commands.map((cmd) => slipEncode(encodeCommand(cmd)));
+    const total = frames.reduce((sum, f) => sum + f.length, 0);
+    const chunk = new Uint8Array(total);
+    let offset = 0;
+    for (const frame of frames) {
+      chunk.set(frame, offset);
+      offset += frame.length;
+    }
+    this.output(chunk);
+  }
+}
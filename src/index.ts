@@ -7,9 +7,21 @@ import { parseArgs } from "util";
 import { M8Connection, findM8Device, listPorts } from "./serial/connection";
 import { TextBuffer } from "./display/buffer";
 import { Framebuffer } from "./display/framebuffer";
-import { DisplayDelta } from "./display/delta";
+import { DisplayDelta, summarizeDisplayClients } from "./display/delta";
+import { encodeResyncStream } from "./display/resync";
+import { encodeCommand } from "./serial/commands";
+import { slipEncode } from "./serial/slip";
 import { M8Server } from "./server/http";
 import { TcpProxy } from "./server/tcp-proxy";
+import { InputArbiter } from "./input/arbiter";
+import { Authenticator, parseAuthTokens, hasRole } from "./server/auth";
+import { loadTlsOptions } from "./server/tls";
+import { resolveOpusSettings } from "./audio/opus";
+import { parseAudioBackends, type AudioCaptureSettings } from "./audio/capture-backends";
+import { nowMicros } from "./server/clock";
+import { VirtualM8, VIRTUAL_M8_PORT } from "./emulator/virtual-m8";
+import { SerialCapture, SerialHistory, readCaptureFile, createReplayTransport } from "./serial/capture";
+import type { TransportFactory } from "./serial/transport";
 import type { ParsedCommand } from "./state/types";
 import { config } from "./config";
 
@@ -20,7 +32,11 @@ const { values } = parseArgs({
     port: { type: "string", short: "p", default: config.SERIAL_PORT },
     http: { type: "string", short: "h", default: String(config.HTTP_PORT) },
     "tcp-proxy": { type: "string", short: "t", default: String(config.TCP_PORT) },
+    "tcp-tls": { type: "string", default: String(config.TCP_TLS_PORT) },
     list: { type: "boolean", short: "l", default: false },
+    replay: { type: "string", short: "r" },
+    "replay-speed": { type: "string", default: "1" },
+    "replay-loop": { type: "boolean", default: false },
     help: { type: "boolean", default: false },
   },
 });
@@ -34,10 +50,14 @@ Usage:
   npx tsx src/index.ts [options]
 
 Options:
-  -p, --port <path>      Serial port (auto-detect if not specified)
+  -p, --port <path>      Serial port (auto-detect if not specified, "${VIRTUAL_M8_PORT}" for virtual M8)
   -h, --http <port>      HTTP server port (default: ${config.HTTP_PORT})
   -t, --tcp-proxy <port> TCP proxy port for remote m8c (default: ${config.TCP_PORT}, 0 to disable)
+  --tcp-tls <port>       TLS TCP proxy port, needs TLS configured (default: ${config.TCP_TLS_PORT}, 0 to disable)
   -l, --list             List available serial ports
+  -r, --replay <file>    Replay a recorded .m8cap session instead of a device
+  --replay-speed <n>     Replay speed multiplier (default: 1)
+  --replay-loop          Restart replay when it reaches the end
   --help                 Show this help
 
 Environment Variables (overridden by CLI args):
@@ -46,15 +66,37 @@ Environment Variables (overridden by CLI args):
   M8_SERIAL_PORT        Serial port (auto-detect if empty)
   M8_BAUD_RATE          Serial baud rate (default: 115200)
   M8_AUDIO_ENABLED      Enable audio streaming (default: true)
+  M8_AUDIO_BACKENDS     Capture backends in failover order: native, alsa, pipewire, file
+                        (default: alsa,native,pipewire)
+  M8_AUDIO_FILE         .raw file/directory for the file backend (default: tests/fixtures/audio)
+  M8_AUDIO_SILENCE_MS   Fail over after this much digital silence (default: 0, off)
+  M8_OPUS_BITRATE       Default Opus bitrate in kbit/s (default: 64)
+  M8_OPUS_FRAME_MS      Default Opus frame size in ms: 5, 10, 20, 40, 60 (default: 20)
+  M8_PLAYOUT_DELAY_MS   Playout delay announced to timestamped clients (default: 150)
   M8_AUTO_RECONNECT     Auto-reconnect on disconnect (default: true)
   M8_RECONNECT_INTERVAL Reconnect interval in ms (default: 1000)
   M8_LOG_LEVEL          Log level: debug, info, warn, error (default: info)
+  M8_CAPTURE_DIR        Directory for .m8cap captures (default: captures)
+  M8_CAPTURE_MAX_MB     Serial capture size limit in MiB, 0 = none (default: 64)
+  M8_CAPTURE_MAX_MINUTES Serial capture duration limit in minutes, 0 = none (default: 30)
+  M8_MACRO_DIR          Directory for saved key macros (default: macros)
+  M8_RECORDINGS_DIR     Directory for audio recordings (default: recordings)
+  M8_REPLAY_SECONDS     Instant-replay window in seconds; captures audio from startup (default: 0, off)
+  M8_AUTH_TOKENS        API tokens "name:token:role,..." (roles: viewer, player, admin)
+  M8_CORS_ORIGINS       Allowed cross-origin callers, comma separated (default: none)
+  M8_TLS_CERT           TLS certificate (PEM) for https:// / wss:// (default: none)
+  M8_TLS_KEY            TLS private key (PEM)
+  M8_TLS_SELF_SIGNED    Generate a self-signed cert on first run (default: false)
+  M8_TCP_TLS_PORT       TLS TCP proxy port (default: 3334, 0 to disable)
 
 Examples:
   npx tsx src/index.ts                           # HTTP:8080 + TCP:3333
   npx tsx src/index.ts -p /dev/ttyACM0           # Specific port
   npx tsx src/index.ts -t 0                      # Disable TCP proxy
+  npx tsx src/index.ts -p ${VIRTUAL_M8_PORT}                # No hardware: virtual M8
+  npx tsx src/index.ts -r bug.m8cap --replay-speed 4  # Replay capture at 4x
   M8_HTTP_PORT=9000 npx tsx src/index.ts         # HTTP:9000 via ENV
+  M8_TLS_SELF_SIGNED=1 npx tsx src/index.ts      # HTTPS:8080 + TCP:3333 + TLS TCP:3334
 `);
   process.exit(0);
 }
@@ -75,7 +117,19 @@ if (values.list) {
 
 // Find or use specified port
 let serialPort = values.port || "";
-if (!serialPort) {
+let replayTransport: TransportFactory | undefined;
+if (values.replay) {
+  // Replay a recorded session (port name is only informational)
+  const session = await readCaptureFile(values.replay);
+  const speed = parseFloat(values["replay-speed"] || "1");
+  console.log(`[Replay] ${values.replay}: ${session.records.length} records at ${speed}x`);
+  replayTransport = createReplayTransport(session, {
+    speed,
+    loop: values["replay-loop"],
+    onEnd: () => console.log("[Replay] End of capture"),
+  });
+  serialPort = values.replay;
+} else if (!serialPort) {
   console.log("Searching for M8 device...");
   serialPort = await findM8Device() || "";
   if (serialPort) {
@@ -85,10 +139,24 @@ if (!serialPort) {
   }
 }
 
+// Virtual M8 (no hardware needed)
+const emulator = serialPort === VIRTUAL_M8_PORT ? new VirtualM8() : null;
+if (emulator) {
+  console.log("Using virtual M8 emulator");
+}
+
 // Create components
 const buffer = new TextBuffer();
+const capture = new SerialCapture({
+  maxBytes: config.CAPTURE_MAX_MB * 1024 * 1024,
+  maxDuration: config.CAPTURE_MAX_MINUTES * 60 * 1000,
+});
 const framebuffer = new Framebuffer();
 const displayDelta = new DisplayDelta();
+// Screen traffic for instant replays (a little longer than the audio window, for keyframes)
+const serialHistory = config.REPLAY_SECONDS > 0
+  ? new SerialHistory((config.REPLAY_SECONDS + 5) * 1000, () => encodeResyncStream(displayDelta.snapshot()))
+  : null;
 
 // Debug statistics for QA analysis
 const debugStats = {
@@ -108,7 +176,7 @@ const debugStats = {
     this.rectSizes.clear();
     this.fgColors.clear();
   },
-  toJSON() {
+  toJSON(): object {
     const deltaStats = displayDelta.getStats();
     return {
       textCommands: this.textCommands,
@@ -123,19 +191,60 @@ const debugStats = {
         skipped: deltaStats.skipped,
         ratio: deltaStats.ratio.toFixed(2),
         savings: `${((1 - deltaStats.ratio) * 100).toFixed(0)}%`,
+        // Bytes actually sent per stream consumer (savings over its delta-mode clients)
+        consumers: {
+          tcp: summarizeDisplayClients(tcpProxy?.getDisplayStats() ?? []),
+          display: summarizeDisplayClients(server.getDisplayStats()),
+        },
       },
     };
   }
 };
 
+// TLS for HTTP/WebSocket and the TCP proxy (optional)
+const tlsOptions = await loadTlsOptions(config.TLS_CERT, config.TLS_KEY, config.TLS_SELF_SIGNED);
+
+// Audio capture backend chain (file = fixtures on a loop, no hardware needed)
+const audioCapture: AudioCaptureSettings = {
+  backends: parseAudioBackends(config.AUDIO_BACKENDS),
+  filePath: config.AUDIO_FILE || undefined,
+  silenceMs: config.AUDIO_SILENCE_MS,
+};
+
+// Opus settings for audio clients that ask for Opus without choosing their own
+const opusDefaults = resolveOpusSettings({ bitrate: config.OPUS_BITRATE, frameMs: config.OPUS_FRAME_MS });
+
+// Capture time of the serial chunk being forwarded/parsed (display timestamps)
+let serialTimestamp = 0;
+
+// Delta stream: frames that passed the filter, re-encoded and sent once per serial chunk
+// (commands are parsed synchronously after the chunk's raw bytes were forwarded)
+let deltaFrames: Uint8Array[] = [];
+let deltaTimestamp = 0;
+function queueDeltaFrame(cmd: ParsedCommand): void {
+  if (deltaFrames.length === 0) {
+    deltaTimestamp = serialTimestamp;
+    queueMicrotask(flushDeltaFrames);
+  }
+  deltaFrames.push(slipEncode(encodeCommand(cmd)));
+}
+function flushDeltaFrames(): void {
+  const frames = Buffer.concat(deltaFrames);
+  deltaFrames = [];
+  tcpProxy?.broadcastDelta(frames, deltaTimestamp);
+  server.broadcastDisplayDelta(frames, deltaTimestamp);
+}
+
 // TCP Proxy (optional)
 let tcpProxy: TcpProxy | null = null;
 const tcpProxyPort = values["tcp-proxy"] ? parseInt(values["tcp-proxy"]) : 0;
+const tcpTlsPort = tlsOptions && values["tcp-tls"] ? parseInt(values["tcp-tls"]) : 0;
 
 const connection = new M8Connection({
   port: serialPort,
   baudRate: config.BAUD_RATE,
-  autoReconnect: config.AUTO_RECONNECT,
+  autoReconnect: emulator || replayTransport ? false : config.AUTO_RECONNECT,
+  transportFactory: replayTransport ?? emulator?.openTransport,
   reconnectInterval: config.RECONNECT_INTERVAL,
   onCommand: (cmd: ParsedCommand) => {
     // Update text buffer
@@ -179,24 +288,43 @@ const connection = new M8Connection({
     } else if (cmd.type === "wave") {
       framebuffer.applyWave(cmd);
       debugStats.waveCommands++;
+    } else if (cmd.type === "system") {
+      // Font mode / hardware model (M8 redraws the screen after this)
+      framebuffer.applySystem(cmd);
+      buffer.applySystem(cmd);
+      tcpProxy?.setStatus({
+        connected: true,
+        hardwareType: cmd.hardwareType,
+        firmware: { major: cmd.firmwareMajor, minor: cmd.firmwareMinor, patch: cmd.firmwarePatch },
+      });
+      console.log(`SYSTEM: hw=${cmd.hardwareType} fw=${cmd.firmwareMajor}.${cmd.firmwareMinor}.${cmd.firmwarePatch} font=${cmd.fontMode}`);
     }
 
-    // Delta filtering for WebSocket - skip unchanged commands
+    // Delta filtering for WebSocket and delta-mode display clients - skip unchanged commands
     if (displayDelta.shouldSend(cmd)) {
       server.broadcastCommand(cmd);
+      queueDeltaFrame(cmd);
     }
   },
   onSerialData: (data: Uint8Array) => {
+    capture.recordIn(data);
+    serialHistory?.recordIn(data);
+    serialTimestamp = nowMicros();
+
     // Forward raw serial bytes to WebSocket display clients (new)
-    server.broadcastDisplay(data);
+    server.broadcastDisplay(data, serialTimestamp);
 
     // Forward to TCP proxy clients (legacy, for backward compatibility)
     if (tcpProxy) {
-      tcpProxy.broadcast(data);
+      tcpProxy.broadcast(data, serialTimestamp);
     }
   },
+  onSentData: (data: Uint8Array) => {
+    capture.recordOut(data);
+  },
   onConnect: async () => {
     console.log("M8 connected");
+    tcpProxy?.setStatus({ connected: true });
     // Reset delta cache on reconnect (client needs full state)
     displayDelta.reset();
     // Re-enable display after reconnect
@@ -213,6 +341,7 @@ const connection = new M8Connection({
   },
   onDisconnect: () => {
     console.log("M8 disconnected, waiting for reconnect...");
+    tcpProxy?.setStatus({ connected: false, hardwareType: null, firmware: null });
   },
   onError: (err) => {
     // Only log non-trivial errors
@@ -222,20 +351,41 @@ const connection = new M8Connection({
   },
 });
 
+// All client input (TCP, WebSocket, HTTP) goes through one arbiter
+const inputArbiter = new InputArbiter({ send: (data) => connection.sendRaw(data) });
+
+// Token auth for HTTP, WebSocket and TCP (disabled without tokens)
+const auth = new Authenticator(parseAuthTokens(config.AUTH_TOKENS));
+if (!auth.isEnabled()) {
+  console.warn("[Auth] No M8_AUTH_TOKENS configured - every client has admin access");
+}
+
 // Setup TCP proxy if enabled
-if (tcpProxyPort > 0) {
+if (tcpProxyPort > 0 || tcpTlsPort > 0) {
   tcpProxy = new TcpProxy({
     port: tcpProxyPort,
-    onClientData: async (data) => {
-      // Forward client data to M8
-      await connection.sendRaw(data);
+    tls: tlsOptions ?? undefined,
+    tlsPort: tcpTlsPort,
+    opus: opusDefaults,
+    playoutDelayMs: config.PLAYOUT_DELAY_MS,
+    auth,
+    onClientData: (data, id) => {
+      // Forward client data to M8 (buttons merged with other clients, driver lock enforced)
+      inputArbiter.feed(id, data).catch((err) => console.error("[Input] TCP client input failed:", err.message));
     },
-    onConnect: (id) => {
+    onConnect: (id, address, principal) => {
       console.log(`Remote m8c connected: ${id}`);
+      inputArbiter.register(id, "tcp", {
+        label: `m8c ${address} (${principal.name})`,
+        observer: !hasRole(principal, "player"),
+      });
     },
     onDisconnect: (id) => {
       console.log(`Remote m8c disconnected: ${id}`);
+      void inputArbiter.unregister(id);
     },
+    // Current screen for new and lagging clients (no 'R' to the device)
+    getSnapshot: () => encodeResyncStream(displayDelta.snapshot()),
   });
 }
 
@@ -245,9 +395,31 @@ const server = new M8Server({
   buffer,
   framebuffer,
   // Stream audio to TCP clients (enabled - uses 'A' + length framing)
-  onAudioData: tcpProxy ? (data) => tcpProxy!.broadcastAudio(data) : undefined,
+  onAudioData: tcpProxy ? (data, timestamp) => tcpProxy!.broadcastAudio(data, timestamp) : undefined,
   // Debug statistics for QA analysis
   getDebugStats: () => debugStats.toJSON(),
+  // TCP client status (/api/tcp/clients)
+  getTcpClients: tcpProxy ? () => tcpProxy!.getClients() : undefined,
+  // Full screen for late-joining /display clients
+  getDisplaySnapshot: () => encodeResyncStream(displayDelta.snapshot()),
+  // Serial session capture (/api/capture/*)
+  capture,
+  captureDir: config.CAPTURE_DIR,
+  // Saved key macros (/api/macros)
+  macroDir: config.MACRO_DIR,
+  // Audio recordings (/api/recordings)
+  recordingsDir: config.RECORDINGS_DIR,
+  // Instant replay (/api/audio/replay)
+  replaySeconds: config.REPLAY_SECONDS,
+  getDisplayHistory: serialHistory ? (from, to) => serialHistory.capture(from, to) : undefined,
+  // Shared input arbitration (/api/session)
+  arbiter: inputArbiter,
+  auth,
+  corsOrigins: config.CORS_ORIGINS.split(",").map((o) => o.trim()).filter(Boolean),
+  tls: tlsOptions ?? undefined,
+  opus: opusDefaults,
+  playoutDelayMs: config.PLAYOUT_DELAY_MS,
+  audioCapture,
 });
 
 // Start server (even if M8 not connected yet)
@@ -266,16 +438,17 @@ try {
   console.log("Waiting for M8 to connect...");
 }
 
-const tcpInfo = tcpProxy
-  ? `  TCP Proxy: tcp://0.0.0.0:${tcpProxyPort} (for remote m8c)\n`
-  : "";
+const tcpInfo = (tcpProxyPort > 0 ? `  TCP Proxy: tcp://0.0.0.0:${tcpProxyPort} (for remote m8c)\n` : "")
+  + (tcpTlsPort > 0 ? `  TCP TLS:   tls://0.0.0.0:${tcpTlsPort} (for remote m8c over TLS)\n` : "");
+const httpScheme = tlsOptions ? "https" : "http";
+const wsScheme = tlsOptions ? "wss" : "ws";
 
 console.log(`
 M8 Display Server started!
 
   Serial:    ${serialPort || "(auto-detect)"}
-  HTTP:      http://localhost:${values.http || "8080"}
-  WebSocket: ws://localhost:${values.http || "8080"}/ws
+  HTTP:      ${httpScheme}://localhost:${values.http || "8080"}
+  WebSocket: ${wsScheme}://localhost:${values.http || "8080"}/ws
 ${tcpInfo}
 API:
   GET  /api/health       - Connection status
@@ -286,6 +459,10 @@ API:
   POST /api/note         - Note on {"note":60,"vel":100}
   POST /api/note/off     - Note off
   POST /api/reset        - Reset display
+  POST /api/capture/start - Start serial capture
+  POST /api/capture/stop  - Save capture as .m8cap
+  POST /api/recordings/start - Record audio {"format":"wav"|"flac"}
+  POST /api/recordings/stop  - Save the recording
 
 Press Ctrl+C to stop.
 `);
@@ -293,6 +470,7 @@ Press Ctrl+C to stop.
 // Graceful shutdown
 async function shutdown() {
   console.log("\nShutting down...");
+  await server.stopRecording();
   server.stop();
   if (tcpProxy) {
     await tcpProxy.stop();
@@ -0,0 +1,331 @@
+/**
+ * Input Arbiter
+ * Single path from all clients (TCP, /control, /ws, HTTP) to the M8 input
+ *
+ * - Tracks the buttons each client holds and sends the OR of them (PROTOCOL.md: input merging)
+ * - Optional exclusive "driver" lock: while held, only the driver's input reaches the M8
+ *   Others can request it (queued) or be granted it by the driver; it passes on when released
+ * - Observers are read-only (no buttons, no keyjazz, no lock)
+ */
+
+import type { M8Connection } from "../serial/connection";
+
+// Host → M8 commands
+const CMD_CONTROLLER = 0x43; // 'C'
+const CMD_KEYJAZZ = 0x4b;    // 'K'
+const CMD_DISCONNECT = 0x44; // 'D'
+
+export type InputClientKind = "tcp" | "control" | "ws" | "http";
+
+/**
+ * Input surface used by routes (subset of M8Connection, one per client)
+ */
+export type InputPort = Pick<M8Connection, "sendKeys" | "sendNoteOn" | "sendNoteOff" | "reset">;
+
+export interface InputClientInfo {
+  id: string;
+  kind: InputClientKind;
+  label: string;             // Address or description
+  observer: boolean;
+  buttons: number;           // Currently held bitmask
+  connectedAt: number;
+}
+
+export interface SessionInfo {
+  driver: InputClientInfo | null;
+  requests: string[];        // Client ids waiting for the lock, oldest first
+  merged: number;            // Bitmask last sent to the M8
+  clients: InputClientInfo[];
+}
+
+export interface InputArbiterDependencies {
+  send: (data: Uint8Array) => Promise<void>;
+}
+
+/**
+ * Input refused (observer, or another client holds the driver lock)
+ */
+export class InputRejectedError extends Error {
+  constructor(message: string, public readonly clientId: string) {
+    super(message);
+    this.name = "InputRejectedError";
+  }
+}
+
+interface ClientState extends InputClientInfo {
+  pending: number[];         // Partial command from a raw stream
+}
+
+export class InputArbiter {
+  private deps: InputArbiterDependencies;
+  private clients = new Map<string, ClientState>();
+  private driver: string | null = null;
+  private requests: string[] = [];
+  private merged = 0;
+  private sendQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<(session: SessionInfo) => void>();
+
+  constructor(deps: InputArbiterDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Add a client (re-registering keeps its held buttons)
+   */
+  register(id: string, kind: InputClientKind, options: { label?: string; observer?: boolean } = {}): void {
+    const existing = this.clients.get(id);
+    this.clients.set(id, {
+      id,
+      kind,
+      label: options.label ?? kind,
+      observer: options.observer ?? false,
+      buttons: existing?.buttons ?? 0,
+      connectedAt: existing?.connectedAt ?? Date.now(),
+      pending: [],
+    });
+    this.notify();
+  }
+
+  /**
+   * Remove a client: its buttons are released and its lock passes on
+   */
+  async unregister(id: string): Promise<void> {
+    if (!this.clients.delete(id)) return;
+    this.requests = this.requests.filter((r) => r !== id);
+    if (this.driver === id) this.passLock();
+    await this.flush();
+    this.notify();
+  }
+
+  /**
+   * Make a client read-only (or writable again)
+   */
+  async setObserver(id: string, observer: boolean): Promise<void> {
+    const client = this.clients.get(id);
+    if (!client) return;
+    client.observer = observer;
+    if (observer) {
+      client.buttons = 0;
+      this.requests = this.requests.filter((r) => r !== id);
+      if (this.driver === id) this.passLock();
+      await this.flush();
+    }
+    this.notify();
+  }
+
+  /**
+   * Why a client may not send input (null = allowed)
+   */
+  checkInput(id: string): string | null {
+    const client = this.clients.get(id);
+    if (!client) return "Unknown input client";
+    if (client.observer) return "Observers are read-only";
+    if (this.driver !== null && this.driver !== id) {
+      return `Input locked by ${this.clients.get(this.driver)?.label ?? this.driver}`;
+    }
+    return null;
+  }
+
+  /**
+   * Set the buttons a client holds (full bitmask, like the 'C' command)
+   * @throws InputRejectedError
+   */
+  async setButtons(id: string, bitmask: number): Promise<void> {
+    this.assertInput(id);
+    this.clients.get(id)!.buttons = bitmask & 0xff;
+    await this.flush();
+  }
+
+  /**
+   * Keyjazz note on/off
+   * @throws InputRejectedError
+   */
+  async sendNote(id: string, note: number | null, velocity = 100): Promise<void> {
+    this.assertInput(id);
+    const data = note === null ? [CMD_KEYJAZZ, 0xff] : [CMD_KEYJAZZ, note, velocity];
+    await this.enqueue(new Uint8Array(data));
+  }
+
+  /**
+   * Non-input command (enable/reset), allowed for every client
+   */
+  async sendCommand(data: Uint8Array): Promise<void> {
+    await this.enqueue(data);
+  }
+
+  /**
+   * Raw client → M8 byte stream (TCP): split into commands and arbitrate each
+   * Refused input is dropped: observers, and everyone but the driver while the lock is held,
+   * send nothing at all (not even enable/reset). 'D' (disconnect) is not forwarded: the display
+   * stays on for the other clients, the client's buttons are released when it unregisters.
+   */
+  async feed(id: string, data: Uint8Array): Promise<void> {
+    const client = this.clients.get(id);
+    if (!client) return;
+    client.pending.push(...data);
+
+    while (client.pending.length > 0) {
+      const cmd = client.pending[0]!;
+      let length = 1;
+      if (cmd === CMD_CONTROLLER) {
+        length = 2;
+      } else if (cmd === CMD_KEYJAZZ) {
+        if (client.pending.length < 2) return;
+        length = client.pending[1] === 0xff ? 2 : 3;
+      }
+      if (client.pending.length < length) return;
+      const bytes = client.pending.splice(0, length);
+
+      if (cmd === CMD_DISCONNECT) continue;
+      if (this.checkInput(id) !== null) continue;
+
+      if (cmd === CMD_CONTROLLER) {
+        await this.setButtons(id, bytes[1]!);
+      } else if (cmd === CMD_KEYJAZZ) {
+        await this.sendNote(id, bytes.length === 2 ? null : bytes[1]!, bytes[2]);
+      } else {
+        await this.sendCommand(new Uint8Array(bytes));
+      }
+    }
+  }
+
+  /**
+   * Ask for the driver lock
+   * @returns "granted" if free (or already held), "queued" otherwise
+   * @throws InputRejectedError for observers
+   */
+  async requestLock(id: string): Promise<"granted" | "queued"> {
+    const client = this.clients.get(id);
+    if (!client || client.observer) throw new InputRejectedError("Observers cannot drive", id);
+
+    if (this.driver === null || this.driver === id) {
+      await this.setDriver(id);
+      return "granted";
+    }
+    if (!this.requests.includes(id)) this.requests.push(id);
+    this.notify();
+    return "queued";
+  }
+
+  /**
+   * Give up the lock (or a pending request); the oldest request gets it next
+   * @returns false if the client neither held nor requested it
+   */
+  async releaseLock(id: string): Promise<boolean> {
+    if (this.driver !== id) {
+      const queued = this.requests.includes(id);
+      this.requests = this.requests.filter((r) => r !== id);
+      if (queued) this.notify();
+      return queued;
+    }
+    this.passLock();
+    await this.flush();
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Driver hands the lock to another client
+   * @throws InputRejectedError if the caller is not the driver or the target cannot drive
+   */
+  async grantLock(id: string, to: string): Promise<void> {
+    if (this.driver !== id) throw new InputRejectedError("Only the driver can grant the lock", id);
+    const target = this.clients.get(to);
+    if (!target || target.observer) throw new InputRejectedError(`Cannot grant the lock to ${to}`, id);
+    await this.setDriver(to);
+  }
+
+  /**
+   * Current lock holder, requests and clients
+   */
+  getSession(): SessionInfo {
+    const info = (c: ClientState): InputClientInfo => {
+      const { pending: _pending, ...rest } = c;
+      return rest;
+    };
+    const driver = this.driver ? this.clients.get(this.driver) : undefined;
+    return {
+      driver: driver ? info(driver) : null,
+      requests: [...this.requests],
+      merged: this.merged,
+      clients: [...this.clients.values()].map(info),
+    };
+  }
+
+  /**
+   * Listen for lock/client changes (not for every button press)
+   * @returns Unsubscribe function
+   */
+  onChange(listener: (session: SessionInfo) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Connection-like input surface for one client (routes, WebSocket handlers)
+   */
+  port(id: string): InputPort {
+    return {
+      sendKeys: (bitmask) => this.setButtons(id, bitmask),
+      sendNoteOn: (note, velocity) => this.sendNote(id, note, velocity),
+      sendNoteOff: () => this.sendNote(id, null),
+      reset: () => this.sendCommand(new Uint8Array([0x52])), // 'R'
+    };
+  }
+
+  private assertInput(id: string): void {
+    const reason = this.checkInput(id);
+    if (reason !== null) throw new InputRejectedError(reason, id);
+  }
+
+  /**
+   * Give the lock to a client; everyone else's held buttons are released
+   */
+  private async setDriver(id: string): Promise<void> {
+    this.driver = id;
+    this.requests = this.requests.filter((r) => r !== id);
+    for (const client of this.clients.values()) {
+      if (client.id !== id) client.buttons = 0;
+    }
+    await this.flush();
+    this.notify();
+  }
+
+  private passLock(): void {
+    const next = this.requests.shift() ?? null;
+    this.driver = next;
+    if (next !== null) {
+      for (const client of this.clients.values()) {
+        if (client.id !== next) client.buttons = 0;
+      }
+    }
+  }
+
+  /**
+   * Send the merged bitmask if it changed
+   */
+  private async flush(): Promise<void> {
+    let merged = 0;
+    for (const client of this.clients.values()) {
+      if (this.driver === null || this.driver === client.id) merged |= client.buttons;
+    }
+    if (merged === this.merged) return;
+    this.merged = merged;
+    await this.enqueue(new Uint8Array([CMD_CONTROLLER, merged]));
+  }
+
+  /**
+   * Serialize writes so commands from concurrent clients keep their order
+   */
+  private enqueue(data: Uint8Array): Promise<void> {
+    const send = this.sendQueue.then(() => this.deps.send(data));
+    this.sendQueue = send.catch(() => {});
+    return send;
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const session = this.getSession();
+    for (const listener of this.listeners) listener(session);
+  }
+}
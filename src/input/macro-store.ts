@@ -0,0 +1,108 @@
+/**
+ * Saved Macros
+ * Named macros stored as one JSON file per macro, so a shared directory can be synced/versioned
+ */
+
+import { mkdir, readFile, readdir, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { parseMacro } from "./macro";
+
+export const MACRO_EXTENSION = ".macro.json";
+
+// Names double as file names
+const NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface SavedMacro {
+  name: string;
+  macro: string;
+  description: string;
+  updatedAt: string;       // ISO timestamp
+}
+
+/**
+ * Check a macro name (letters, digits, "-" and "_", up to 64 chars)
+ */
+export function isValidMacroName(name: string): boolean {
+  return NAME_PATTERN.test(name);
+}
+
+export class MacroStore {
+  constructor(private readonly dir: string) {}
+
+  private path(name: string): string {
+    if (!isValidMacroName(name)) throw new Error(`Invalid macro name: ${name}`);
+    return join(this.dir, `${name}${MACRO_EXTENSION}`);
+  }
+
+  /**
+   * All saved macros, sorted by name (unreadable files are skipped)
+   */
+  async list(): Promise<SavedMacro[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const names = files
+      .filter((file) => file.endsWith(MACRO_EXTENSION))
+      .map((file) => file.slice(0, -MACRO_EXTENSION.length))
+      .filter(isValidMacroName)
+      .sort();
+
+    const macros: SavedMacro[] = [];
+    for (const name of names) {
+      const macro = await this.get(name);
+      if (macro) macros.push(macro);
+    }
+    return macros;
+  }
+
+  /**
+   * Load a macro (null if missing or unreadable)
+   */
+  async get(name: string): Promise<SavedMacro | null> {
+    if (!isValidMacroName(name)) return null;
+    try {
+      const data = JSON.parse(await readFile(this.path(name), "utf8"));
+      if (typeof data.macro !== "string") return null;
+      return {
+        name,
+        macro: data.macro,
+        description: typeof data.description === "string" ? data.description : "",
+        updatedAt: typeof data.updatedAt === "string" ? data.updatedAt : "",
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save (or replace) a macro; the text is validated first
+   * @throws MacroSyntaxError for invalid macro text
+   */
+  async save(name: string, macro: string, description = ""): Promise<SavedMacro> {
+    const path = this.path(name);
+    parseMacro(macro);
+
+    const saved: SavedMacro = { name, macro, description, updatedAt: new Date().toISOString() };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(path, JSON.stringify(saved, null, 2) + "\n");
+    return saved;
+  }
+
+  /**
+   * Delete a macro
+   * @returns false if it did not exist
+   */
+  async delete(name: string): Promise<boolean> {
+    if (!isValidMacroName(name)) return false;
+    try {
+      await unlink(this.path(name));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * M8 Key Macros
+ * Small text format for key sequences, compiled to KeySequence steps and run with precise timing
+ *
+ * Syntax (comma or newline separated, case-insensitive):
+ *   down            press a key
+ *   shift+right     hold the first keys, press the last
+ *   down*4          repeat
+ *   edit:hold300    hold for 300 ms (default 50)
+ *   wait:200        pause for 200 ms
+ * Modifiers combine: "opt+up*2:hold100"
+ */
+
+import { isValidKey, keysToBitmask, createKeyPress, createCombo, type KeySequence } from "./keys";
+import type { M8KeyName } from "../state/types";
+import { InputRejectedError } from "./arbiter";
+
+// Default hold time of a press (same as createKeyPress)
+export const DEFAULT_HOLD_MS = 50;
+
+// Release time after each press so repeated presses register as separate presses
+export const RELEASE_GAP_MS = 30;
+
+// Limits (keep a single macro from locking the input for minutes)
+const MAX_REPEAT = 128;
+const MAX_HOLD_MS = 5000;
+const MAX_WAIT_MS = 10000;
+const MAX_PRESSES = 1024;
+
+export type MacroAction =
+  | { type: "press"; keys: M8KeyName[]; holdMs: number; repeat: number }
+  | { type: "wait"; ms: number };
+
+/**
+ * Macro text could not be parsed (position = character offset of the bad step)
+ */
+export class MacroSyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} at ${position}`);
+    this.name = "MacroSyntaxError";
+  }
+}
+
+const STEP = /^([a-z]+(?:\s*\+\s*[a-z]+)*)((?:\s*(?:\*\s*\d+|:\s*hold\s*\d+))*)$/;
+const WAIT = /^wait\s*:\s*(\d+)$/;
+const MODIFIER = /\*\s*(\d+)|:\s*hold\s*(\d+)/g;
+
+/**
+ * Parse macro text into actions
+ * @throws MacroSyntaxError
+ */
+export function parseMacro(source: string): MacroAction[] {
+  const actions: MacroAction[] = [];
+  let presses = 0;
+
+  for (const match of source.matchAll(/[^,\n]+/g)) {
+    const text = match[0].trim().toLowerCase();
+    const position = match.index! + match[0].length - match[0].trimStart().length;
+    if (!text) continue;
+
+    const wait = text.match(WAIT);
+    if (wait) {
+      const ms = parseInt(wait[1]!, 10);
+      if (ms > MAX_WAIT_MS) throw new MacroSyntaxError(`Wait longer than ${MAX_WAIT_MS} ms`, position);
+      actions.push({ type: "wait", ms });
+      continue;
+    }
+
+    const step = text.match(STEP);
+    if (!step) throw new MacroSyntaxError(`Invalid step "${text}"`, position);
+
+    const keys = step[1]!.split("+").map((key) => key.trim());
+    const unknown = keys.find((key) => !isValidKey(key));
+    if (unknown) throw new MacroSyntaxError(`Unknown key "${unknown}"`, position);
+    if (new Set(keys).size !== keys.length) throw new MacroSyntaxError(`Repeated key in "${text}"`, position);
+
+    let repeat = 1;
+    let holdMs = DEFAULT_HOLD_MS;
+    for (const modifier of step[2]!.matchAll(MODIFIER)) {
+      if (modifier[1] !== undefined) repeat = parseInt(modifier[1], 10);
+      if (modifier[2] !== undefined) holdMs = parseInt(modifier[2], 10);
+    }
+    if (repeat < 1 || repeat > MAX_REPEAT) throw new MacroSyntaxError(`Repeat must be 1-${MAX_REPEAT}`, position);
+    if (holdMs < 1 || holdMs > MAX_HOLD_MS) throw new MacroSyntaxError(`Hold must be 1-${MAX_HOLD_MS} ms`, position);
+
+    presses += repeat;
+    if (presses > MAX_PRESSES) throw new MacroSyntaxError(`More than ${MAX_PRESSES} presses`, position);
+    actions.push({ type: "press", keys: keys as M8KeyName[], holdMs, repeat });
+  }
+
+  if (actions.length === 0) throw new MacroSyntaxError("Empty macro", 0);
+  return actions;
+}
+
+/**
+ * Steps for one press of an action (repeat not applied)
+ * Ends with a release held for RELEASE_GAP_MS
+ */
+export function compilePress(keys: M8KeyName[], holdMs: number): KeySequence[] {
+  let steps: KeySequence[];
+  if (keys.length === 1) {
+    steps = createKeyPress(keys[0]!, holdMs);
+  } else if (keys.length === 2) {
+    steps = createCombo(keys[0]!, keys[1]!, holdMs);
+  } else {
+    // More than one modifier: hold them together, then press the last key
+    const holdMask = keysToBitmask(keys.slice(0, -1));
+    steps = [
+      { bitmask: holdMask, duration: 20 },
+      { bitmask: keysToBitmask(keys), duration: holdMs },
+      { bitmask: holdMask, duration: 20 },
+      { bitmask: 0, duration: 0 },
+    ];
+  }
+  steps[steps.length - 1]!.duration = RELEASE_GAP_MS;
+  return steps;
+}
+
+/**
+ * Flatten actions into timed bitmask steps
+ */
+export function compileMacro(actions: MacroAction[]): KeySequence[] {
+  return actions.flatMap((action) => {
+    if (action.type === "wait") return [{ bitmask: 0, duration: action.ms }];
+    const press = compilePress(action.keys, action.holdMs);
+    return Array.from({ length: action.repeat }, () => press.map((step) => ({ ...step }))).flat();
+  });
+}
+
+/**
+ * Total run time of a macro in ms
+ */
+export function macroDuration(actions: MacroAction[]): number {
+  return compileMacro(actions).reduce((total, step) => total + step.duration, 0);
+}
+
+export type MacroRunStatus = "done" | "cancelled" | "rejected" | "error"; // rejected: input refused (driver lock, observer)
+
+export interface MacroRunResult {
+  id: number;
+  status: MacroRunStatus;
+  presses: number;         // Completed presses
+  durationMs: number;
+  error?: string;
+}
+
+export interface MacroRunInfo {
+  id: number;
+  label: string;           // Macro text or saved name
+  presses: number;
+  totalPresses: number;
+  startedAt: number;
+}
+
+export interface MacroRunnerDependencies {
+  sendKeys: (bitmask: number) => Promise<void>;
+  onPress?: (keys: M8KeyName[]) => void;   // After each completed press (state tracking)
+  now?: () => number;
+}
+
+/**
+ * Runs one macro at a time against sendKeys
+ * Steps are scheduled against absolute deadlines, so send latency does not accumulate.
+ */
+export class MacroRunner {
+  private deps: MacroRunnerDependencies;
+  private now: () => number;
+  private nextId = 1;
+  private current: MacroRunInfo | null = null;
+  private cancelled = false;
+  private wake: (() => void) | null = null;
+
+  constructor(deps: MacroRunnerDependencies) {
+    this.deps = deps;
+    this.now = deps.now ?? (() => performance.now());
+  }
+
+  /**
+   * Check if a macro is running
+   */
+  isBusy(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Running macro (null when idle)
+   */
+  getStatus(): MacroRunInfo | null {
+    return this.current ? { ...this.current } : null;
+  }
+
+  /**
+   * Stop the running macro; keys are released before run() resolves
+   * @returns false if nothing was running
+   */
+  cancel(): boolean {
+    if (!this.current) return false;
+    this.cancelled = true;
+    this.wake?.();
+    return true;
+  }
+
+  /**
+   * Run parsed actions (rejects with an error if another macro is running)
+   * @param sendKeys Send through this instead of deps.sendKeys (per-client input)
+   */
+  async run(
+    actions: MacroAction[],
+    label: string,
+    sendKeys: (bitmask: number) => Promise<void> = this.deps.sendKeys
+  ): Promise<MacroRunResult> {
+    if (this.current) throw new Error("Macro already running");
+
+    const totalPresses = actions.reduce((n, a) => n + (a.type === "press" ? a.repeat : 0), 0);
+    const info: MacroRunInfo = { id: this.nextId++, label, presses: 0, totalPresses, startedAt: Date.now() };
+    this.current = info;
+    this.cancelled = false;
+
+    const start = this.now();
+    let deadline = start;
+    let status: MacroRunStatus = "done";
+    let error: string | undefined;
+
+    try {
+      outer:
+      for (const action of actions) {
+        const steps = action.type === "wait"
+          ? [{ bitmask: 0, duration: action.ms }]
+          : compilePress(action.keys, action.holdMs);
+        const repeat = action.type === "wait" ? 1 : action.repeat;
+
+        for (let i = 0; i < repeat; i++) {
+          for (const step of steps) {
+            if (this.cancelled) break outer;
+            await sendKeys(step.bitmask);
+            deadline += step.duration;
+            await this.sleepUntil(deadline);
+          }
+          if (action.type === "press" && !this.cancelled) {
+            info.presses++;
+            this.deps.onPress?.(action.keys);
+          }
+        }
+      }
+      if (this.cancelled) status = "cancelled";
+    } catch (err) {
+      status = err instanceof InputRejectedError ? "rejected" : "error";
+      error = err instanceof Error ? err.message : String(err);
+    } finally {
+      // Never leave a key held down
+      if (status !== "done") await sendKeys(0).catch(() => {});
+      this.current = null;
+      this.wake = null;
+    }
+
+    const result: MacroRunResult = {
+      id: info.id,
+      status,
+      presses: info.presses,
+      durationMs: Math.round(this.now() - start),
+    };
+    if (error) result.error = error;
+    return result;
+  }
+
+  /**
+   * Sleep until a deadline on the runner clock (cut short by cancel)
+   */
+  private sleepUntil(deadline: number): Promise<void> {
+    const ms = deadline - this.now();
+    if (ms <= 0 || this.cancelled) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
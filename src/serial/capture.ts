@@ -0,0 +1,382 @@
+/**
+ * Serial Session Capture (.m8cap)
+ * Records raw serial traffic and replays it through M8Connection
+ *
+ * File format (little endian):
+ *   header:  "M8CAP" + version (1 byte) + start time (float64, Unix ms)
+ *   record:  direction (1 byte, 'I' = from M8, 'O' = to M8)
+ *            + offset from start (uint32, ms) + length (uint32) + raw bytes
+ *
+ * Replay only feeds inbound ('I') records back; outbound ones are kept so a
+ * bug report shows which keys were pressed.
+ *
+ * A capture stops taking traffic once it reaches its size or duration limit; the
+ * session is kept until it is stopped and saved.
+ *
+ * SerialHistory keeps a rolling window of inbound traffic, so the last N seconds
+ * of screen can be saved next to an instant audio replay.
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { M8Transport, TransportFactory } from "./transport";
+import { SLIP } from "./slip";
+
+const MAGIC = [0x4d, 0x38, 0x43, 0x41, 0x50]; // "M8CAP"
+const VERSION = 1;
+const HEADER_SIZE = MAGIC.length + 1 + 8;
+const RECORD_HEADER_SIZE = 1 + 4 + 4;
+
+const DIRECTION_IN = 0x49;  // 'I'
+const DIRECTION_OUT = 0x4f; // 'O'
+
+export const CAPTURE_EXTENSION = ".m8cap";
+
+export interface CaptureRecord {
+  time: number;               // ms since capture start
+  direction: "in" | "out";    // in = M8 → host, out = host → M8
+  data: Uint8Array;
+}
+
+export interface CaptureData {
+  startedAt: number;          // Unix ms
+  records: CaptureRecord[];
+}
+
+export interface CaptureStats {
+  recording: boolean;
+  startedAt: number | null;
+  records: number;
+  bytesIn: number;
+  bytesOut: number;
+  duration: number;           // ms
+  maxBytes: number;           // 0 = no limit
+  maxDuration: number;        // ms, 0 = no limit
+  limitReached: boolean;      // Traffic after the limit was dropped
+}
+
+export interface CaptureLimits {
+  maxBytes?: number;          // Recorded bytes, both directions (default: 64 MiB, 0 = no limit)
+  maxDuration?: number;       // ms (default: 30 minutes, 0 = no limit)
+}
+
+export const DEFAULT_CAPTURE_MAX_BYTES = 64 * 1024 * 1024;
+export const DEFAULT_CAPTURE_MAX_DURATION = 30 * 60 * 1000;
+
+/**
+ * Serialize capture to .m8cap bytes
+ */
+export function encodeCapture(capture: CaptureData): Uint8Array {
+  const size = capture.records.reduce(
+    (sum, r) => sum + RECORD_HEADER_SIZE + r.data.length,
+    HEADER_SIZE
+  );
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+
+  out.set(MAGIC, 0);
+  out[MAGIC.length] = VERSION;
+  view.setFloat64(MAGIC.length + 1, capture.startedAt, true);
+
+  let offset = HEADER_SIZE;
+  for (const record of capture.records) {
+    out[offset] = record.direction === "in" ? DIRECTION_IN : DIRECTION_OUT;
+    view.setUint32(offset + 1, Math.max(0, Math.round(record.time)), true);
+    view.setUint32(offset + 5, record.data.length, true);
+    out.set(record.data, offset + RECORD_HEADER_SIZE);
+    offset += RECORD_HEADER_SIZE + record.data.length;
+  }
+
+  return out;
+}
+
+/**
+ * Parse .m8cap bytes
+ * @throws Error if the data is not a valid capture
+ */
+export function decodeCapture(bytes: Uint8Array): CaptureData {
+  if (bytes.length < HEADER_SIZE || MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new Error("Not an .m8cap file");
+  }
+  if (bytes[MAGIC.length] !== VERSION) {
+    throw new Error(`Unsupported .m8cap version: ${bytes[MAGIC.length]}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const startedAt = view.getFloat64(MAGIC.length + 1, true);
+  const records: CaptureRecord[] = [];
+
+  let offset = HEADER_SIZE;
+  while (offset < bytes.length) {
+    if (offset + RECORD_HEADER_SIZE > bytes.length) {
+      throw new Error("Truncated .m8cap record header");
+    }
+    const direction = bytes[offset];
+    const time = view.getUint32(offset + 1, true);
+    const length = view.getUint32(offset + 5, true);
+    const start = offset + RECORD_HEADER_SIZE;
+    if (start + length > bytes.length) {
+      throw new Error("Truncated .m8cap record data");
+    }
+    if (direction !== DIRECTION_IN && direction !== DIRECTION_OUT) {
+      throw new Error(`Invalid .m8cap record direction: ${direction}`);
+    }
+
+    records.push({
+      time,
+      direction: direction === DIRECTION_IN ? "in" : "out",
+      data: bytes.slice(start, start + length),
+    });
+    offset = start + length;
+  }
+
+  return { startedAt, records };
+}
+
+/**
+ * Load .m8cap file
+ */
+export async function readCaptureFile(path: string): Promise<CaptureData> {
+  return decodeCapture(new Uint8Array(await readFile(path)));
+}
+
+/**
+ * Records serial traffic while started
+ * Feed it from onSerialData (in) and onSentData (out)
+ */
+export class SerialCapture {
+  private readonly maxBytes: number;
+  private readonly maxDuration: number;
+  private startedAt: number | null = null;
+  private records: CaptureRecord[] = [];
+  private bytesIn = 0;
+  private bytesOut = 0;
+  private limitReachedAt: number | null = null; // ms since capture start
+
+  constructor(limits: CaptureLimits = {}) {
+    this.maxBytes = limits.maxBytes ?? DEFAULT_CAPTURE_MAX_BYTES;
+    this.maxDuration = limits.maxDuration ?? DEFAULT_CAPTURE_MAX_DURATION;
+  }
+
+  /**
+   * Start a new capture (discards any unsaved one)
+   */
+  start(): void {
+    this.startedAt = Date.now();
+    this.records = [];
+    this.bytesIn = 0;
+    this.bytesOut = 0;
+    this.limitReachedAt = null;
+  }
+
+  /**
+   * Stop capturing and return the recorded session
+   */
+  stop(): CaptureData {
+    if (this.startedAt === null) {
+      throw new Error("Not capturing");
+    }
+    const capture = { startedAt: this.startedAt, records: this.records };
+    this.startedAt = null;
+    return capture;
+  }
+
+  /**
+   * Record bytes received from M8
+   */
+  recordIn(data: Uint8Array): void {
+    if (this.record("in", data)) this.bytesIn += data.length;
+  }
+
+  /**
+   * Record bytes sent to M8
+   */
+  recordOut(data: Uint8Array): void {
+    if (this.record("out", data)) this.bytesOut += data.length;
+  }
+
+  isRecording(): boolean {
+    return this.startedAt !== null;
+  }
+
+  getStats(): CaptureStats {
+    const last = this.records[this.records.length - 1];
+    return {
+      recording: this.isRecording(),
+      startedAt: this.startedAt,
+      records: this.records.length,
+      bytesIn: this.bytesIn,
+      bytesOut: this.bytesOut,
+      duration: this.startedAt === null
+        ? (last?.time ?? 0)
+        : (this.limitReachedAt ?? Date.now() - this.startedAt),
+      maxBytes: this.maxBytes,
+      maxDuration: this.maxDuration,
+      limitReached: this.limitReachedAt !== null,
+    };
+  }
+
+  private record(direction: CaptureRecord["direction"], data: Uint8Array): boolean {
+    if (this.startedAt === null || this.limitReachedAt !== null || data.length === 0) return false;
+    const time = Date.now() - this.startedAt;
+    const overDuration = this.maxDuration > 0 && time > this.maxDuration;
+    const overBytes = this.maxBytes > 0 && this.bytesIn + this.bytesOut + data.length > this.maxBytes;
+    if (overDuration || overBytes) {
+      this.limitReachedAt = overDuration ? this.maxDuration : time;
+      return false;
+    }
+    // Copy: serial buffers are reused by the caller
+    this.records.push({ time, direction, data: data.slice() });
+    return true;
+  }
+}
+
+interface HistoryEntry {
+  at: number;                 // Unix ms
+  data: Uint8Array;
+  keyframe: boolean;          // Full-screen resync stream
+}
+
+/**
+ * Rolling window of inbound serial traffic
+ * Every few seconds a keyframe (the full screen, from the caller) is inserted at a SLIP frame
+ * boundary, so a saved window replays from a complete screen instead of a partial redraw.
+ */
+export class SerialHistory {
+  private entries: HistoryEntry[] = [];
+  private lastKeyframeAt = -Infinity;
+  private atFrameBoundary = true;
+
+  /**
+   * @param windowMs How much traffic to keep
+   * @param keyframe Resync stream of the screen so far (e.g. encodeResyncStream of the display delta)
+   */
+  constructor(
+    private readonly windowMs: number,
+    private readonly keyframe: () => Uint8Array,
+    private readonly keyframeIntervalMs = 5000
+  ) {}
+
+  /**
+   * Record bytes received from M8, before they are decoded (a keyframe taken here
+   * is the screen up to them)
+   */
+  recordIn(data: Uint8Array, now = Date.now()): void {
+    if (data.length === 0) return;
+    if (this.atFrameBoundary && now - this.lastKeyframeAt >= this.keyframeIntervalMs) {
+      this.entries.push({ at: now, data: this.keyframe(), keyframe: true });
+      this.lastKeyframeAt = now;
+      this.trim(now);
+    }
+    // Copy: serial buffers are reused by the caller
+    this.entries.push({ at: now, data: data.slice(), keyframe: false });
+    this.atFrameBoundary = data[data.length - 1] === SLIP.END;
+  }
+
+  /**
+   * Traffic from `from` to `to` (Unix ms) as a capture that starts with the screen at `from`:
+   * the keyframe before it and the traffic up to `from` are delivered at time 0
+   * @returns null if nothing was received yet
+   */
+  capture(from: number, to = Date.now()): CaptureData | null {
+    let start = -1;
+    for (let i = 0; i < this.entries.length; i++) {
+      const entry = this.entries[i]!;
+      if (!entry.keyframe) continue;
+      if (entry.at <= from || start === -1) start = i;
+      if (entry.at > from) break;
+    }
+    if (start === -1) return null;
+
+    const startedAt = Math.max(from, this.entries[start]!.at);
+    const records: CaptureRecord[] = this.entries
+      .slice(start)
+      .filter((entry, i) => (i === 0 || !entry.keyframe) && entry.at <= to && entry.data.length > 0)
+      .map((entry) => ({ time: Math.max(0, entry.at - startedAt), direction: "in" as const, data: entry.data }));
+    return { startedAt, records };
+  }
+
+  // Drop everything before the last keyframe that is older than the window
+  private trim(now: number): void {
+    const cutoff = now - this.windowMs;
+    let keep = 0;
+    for (let i = 0; i < this.entries.length && this.entries[i]!.at <= cutoff; i++) {
+      if (this.entries[i]!.keyframe) keep = i;
+    }
+    if (keep > 0) this.entries.splice(0, keep);
+  }
+}
+
+/**
+ * Save capture as .m8cap (creates parent directory)
+ */
+export async function writeCaptureFile(path: string, capture: CaptureData): Promise<number> {
+  await mkdir(dirname(path), { recursive: true });
+  const bytes = encodeCapture(capture);
+  await writeFile(path, bytes);
+  return bytes.length;
+}
+
+export interface ReplayOptions {
+  speed?: number;       // Playback speed multiplier (default: 1)
+  loop?: boolean;       // Restart from the beginning when done (default: false)
+  onEnd?: () => void;   // Called when the last record has been delivered
+}
+
+/**
+ * Transport that plays back inbound capture records with original timing
+ * Writes from the host are accepted and ignored; the transport stays open
+ * after the last record so the final screen remains visible.
+ */
+export function createReplayTransport(
+  capture: CaptureData,
+  options: ReplayOptions = {}
+): TransportFactory {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const inbound = capture.records.filter((r) => r.direction === "in");
+
+  return async (_path, _baudRate, handlers) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let closed = false;
+    let index = 0;
+    let playbackStart = Date.now();
+
+    const schedule = (): void => {
+      if (closed) return;
+
+      if (index >= inbound.length) {
+        options.onEnd?.();
+        if (!options.loop || inbound.length === 0) return;
+        index = 0;
+        playbackStart = Date.now();
+      }
+
+      // Absolute schedule against playback start (no drift accumulation)
+      const due = playbackStart + inbound[index]!.time / speed;
+      timer = setTimeout(() => {
+        timer = null;
+        const now = Date.now();
+        while (!closed && index < inbound.length && playbackStart + inbound[index]!.time / speed <= now) {
+          handlers.onData(inbound[index]!.data);
+          index++;
+        }
+        schedule();
+      }, Math.max(0, due - Date.now()));
+    };
+
+    // Start after connect() has resolved and listeners are set up
+    setTimeout(schedule, 0);
+
+    const transport: M8Transport = {
+      write: async () => {},
+      close: async () => {
+        closed = true;
+        if (timer) {
+          clearTimeout(timer);
+          timer = null;
+        }
+      },
+    };
+    return transport;
+  };
+}
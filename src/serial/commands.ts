@@ -197,3 +197,104 @@ export function isJpadCommand(cmd: ParsedCommand): cmd is JpadCommand {
 export function isSystemCommand(cmd: ParsedCommand): cmd is SystemCommand {
   return cmd.type === "system";
 }
+
+/**
+ * Write 16-bit little-endian value
+ */
+function writeU16LE(out: Uint8Array, offset: number, value: number): void {
+  out[offset] = value & 0xff;
+  out[offset + 1] = (value >> 8) & 0xff;
+}
+
+/**
+ * Write RGB color as 3 bytes
+ */
+function writeColor(out: Uint8Array, offset: number, color: Color): void {
+  out[offset] = color.r;
+  out[offset + 1] = color.g;
+  out[offset + 2] = color.b;
+}
+
+/**
+ * Encode RECT command (0xFE)
+ * Always uses the full 12-byte form so the frame does not depend
+ * on the receiver's "last color" state
+ */
+export function encodeRect(cmd: RectCommand): Uint8Array {
+  const out = new Uint8Array(12);
+  out[0] = M8Command.RECT;
+  writeU16LE(out, 1, cmd.x);
+  writeU16LE(out, 3, cmd.y);
+  writeU16LE(out, 5, cmd.width);
+  writeU16LE(out, 7, cmd.height);
+  writeColor(out, 9, cmd.color);
+  return out;
+}
+
+/**
+ * Encode TEXT command (0xFD)
+ */
+export function encodeText(cmd: TextCommand): Uint8Array {
+  const out = new Uint8Array(12);
+  out[0] = M8Command.TEXT;
+  out[1] = cmd.charCode;
+  writeU16LE(out, 2, cmd.x);
+  writeU16LE(out, 4, cmd.y);
+  writeColor(out, 6, cmd.fg);
+  writeColor(out, 9, cmd.bg);
+  return out;
+}
+
+/**
+ * Encode WAVE command (0xFC)
+ */
+export function encodeWave(cmd: WaveCommand): Uint8Array {
+  const out = new Uint8Array(4 + cmd.data.length);
+  out[0] = M8Command.WAVE;
+  writeColor(out, 1, cmd.color);
+  out.set(cmd.data, 4);
+  return out;
+}
+
+/**
+ * Encode JPAD command (0xFB)
+ */
+export function encodeJpad(cmd: JpadCommand): Uint8Array {
+  const out = new Uint8Array(3);
+  out[0] = M8Command.JPAD;
+  writeU16LE(out, 1, cmd.state);
+  return out;
+}
+
+/**
+ * Encode SYSTEM command (0xFF)
+ */
+export function encodeSystem(cmd: SystemCommand): Uint8Array {
+  return new Uint8Array([
+    M8Command.SYSTEM,
+    cmd.hardwareType,
+    cmd.firmwareMajor,
+    cmd.firmwareMinor,
+    cmd.firmwarePatch,
+    cmd.fontMode,
+  ]);
+}
+
+/**
+ * Encode a command back into an (unescaped) frame
+ * Inverse of parseCommand - wrap the result with slipEncode() for the wire
+ */
+export function encodeCommand(cmd: ParsedCommand): Uint8Array {
+  switch (cmd.type) {
+    case "rect":
+      return encodeRect(cmd);
+    case "text":
+      return encodeText(cmd);
+    case "wave":
+      return encodeWave(cmd);
+    case "jpad":
+      return encodeJpad(cmd);
+    case "system":
+      return encodeSystem(cmd);
+  }
+}
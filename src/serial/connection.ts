@@ -6,6 +6,7 @@
 import { SerialPort } from "serialport";
 import { SlipDecoder } from "./slip";
 import { parseCommand } from "./commands";
+import { openSerialTransport, type M8Transport, type TransportFactory } from "./transport";
 import type { ParsedCommand } from "../state/types";
 import { resetM8Usb } from "../usb/reset";
 
@@ -19,11 +20,13 @@ export interface M8ConnectionOptions {
   onCommand?: CommandCallback;
   onRaw?: RawCallback;          // Decoded SLIP frames
   onSerialData?: RawCallback;   // Raw serial bytes (for TCP proxy)
+  onSentData?: RawCallback;     // Raw bytes written to M8 (for session capture)
   onError?: ErrorCallback;
   onConnect?: () => void;
   onDisconnect?: () => void;
   autoReconnect?: boolean;       // Auto-reconnect on disconnect (default: true)
   reconnectInterval?: number;    // Reconnect scan interval in ms (default: 1000)
+  transportFactory?: TransportFactory; // Byte pipe to the device (default: serial port)
 }
 
 /**
@@ -31,7 +34,7 @@ export interface M8ConnectionOptions {
  * Handles SLIP decoding and command parsing with auto-reconnect
  */
 export class M8Connection {
-  private serial: SerialPort | null = null;
+  private transport: M8Transport | null = null;
   private slip: SlipDecoder;
   private options: {
     port: string;
@@ -39,11 +42,13 @@ export class M8Connection {
     onCommand: CommandCallback;
     onRaw: RawCallback;
     onSerialData: RawCallback;
+    onSentData: RawCallback;
     onError: ErrorCallback;
     onConnect: () => void;
     onDisconnect: () => void;
     autoReconnect: boolean;
     reconnectInterval: number;
+    transportFactory: TransportFactory;
   };
   private connected = false;
   private reconnectTimer: ReturnType<typeof setInterval> | null = null;
@@ -58,11 +63,13 @@ export class M8Connection {
       onCommand: options.onCommand ?? (() => {}),
       onRaw: options.onRaw ?? (() => {}),
       onSerialData: options.onSerialData ?? (() => {}),
+      onSentData: options.onSentData ?? (() => {}),
       onError: options.onError ?? console.error,
       onConnect: options.onConnect ?? (() => {}),
       onDisconnect: options.onDisconnect ?? (() => {}),
       autoReconnect: options.autoReconnect ?? true,
       reconnectInterval: options.reconnectInterval ?? 1000,
+      transportFactory: options.transportFactory ?? openSerialTransport,
     };
 
     this.slip = new SlipDecoder((frame) => this.handleFrame(frame));
@@ -111,38 +118,27 @@ export class M8Connection {
       this.options.port = port;
     }
 
-    return new Promise((resolve, reject) => {
-      this.serial = new SerialPort(
-        {
-          path: port,
-          baudRate: this.options.baudRate,
-          dataBits: 8,
-          parity: "none",
-          stopBits: 1,
-          rtscts: false,  // No flow control
-          xon: false,
-          xoff: false,
-          xany: false,
+    try {
+      this.transport = await this.options.transportFactory(port, this.options.baudRate, {
+        onData: (data) => this.handleSerialData(data),
+        onError: (err) => {
+          this.options.onError(err);
+          this.handleDisconnect();
         },
-        (err) => {
-          if (err) {
-            this.options.onError(err);
-            // Start reconnect loop if auto-reconnect enabled
-            if (this.options.autoReconnect && !this.stopping) {
-              this.startReconnectLoop();
-            }
-            reject(err);
-            return;
-          }
-
-          this.connected = true;
-          this.stopReconnectLoop();
-          this.setupListeners();
-          this.options.onConnect();
-          resolve();
-        }
-      );
-    });
+        onClose: () => this.handleDisconnect(),
+      });
+    } catch (err) {
+      this.options.onError(err as Error);
+      // Start reconnect loop if auto-reconnect enabled
+      if (this.options.autoReconnect && !this.stopping) {
+        this.startReconnectLoop();
+      }
+      throw err;
+    }
+
+    this.connected = true;
+    this.stopReconnectLoop();
+    this.options.onConnect();
   }
 
   /**
@@ -200,42 +196,27 @@ export class M8Connection {
   private serialDataCount = 0;
   private serialLastLog = 0;
 
-  private setupListeners(): void {
-    if (!this.serial) return;
-
-    this.serial.on("data", (data: Buffer) => {
-      const bytes = new Uint8Array(data);
-
-      // Debug: log serial data stats
-      this.serialDataCount++;
-      const now = Date.now();
-      if (now - this.serialLastLog > 5000) {
-        console.log(`[Serial] Received: ${this.serialDataCount} chunks, last ${data.length} bytes`);
-        this.serialDataCount = 0;
-        this.serialLastLog = now;
-      }
-
-      // Forward raw serial data for TCP proxy
-      this.options.onSerialData(bytes);
-      // Feed to SLIP decoder
-      this.slip.feed(bytes);
-    });
-
-    this.serial.on("error", (err) => {
-      this.options.onError(err);
-      this.handleDisconnect();
-    });
+  private handleSerialData(bytes: Uint8Array): void {
+    // Debug: log serial data stats
+    this.serialDataCount++;
+    const now = Date.now();
+    if (now - this.serialLastLog > 5000) {
+      console.log(`[Serial] Received: ${this.serialDataCount} chunks, last ${bytes.length} bytes`);
+      this.serialDataCount = 0;
+      this.serialLastLog = now;
+    }
 
-    this.serial.on("close", () => {
-      this.handleDisconnect();
-    });
+    // Forward raw serial data for TCP proxy
+    this.options.onSerialData(bytes);
+    // Feed to SLIP decoder
+    this.slip.feed(bytes);
   }
 
   private handleDisconnect(): void {
     if (!this.connected) return;
 
     this.connected = false;
-    this.serial = null;
+    this.transport = null;
     this.options.port = ""; // Clear port for re-detection
     this.options.onDisconnect();
 
@@ -252,7 +233,7 @@ export class M8Connection {
     this.stopping = true;
     this.stopReconnectLoop();
 
-    if (!this.serial || !this.connected) {
+    if (!this.transport || !this.connected) {
       return;
     }
 
@@ -261,39 +242,22 @@ export class M8Connection {
       await this.sendRaw(new Uint8Array([0x44])); // 'D'
     } catch { /* ignore */ }
 
-    return new Promise((resolve) => {
-      this.serial!.close(() => {
-        this.connected = false;
-        this.serial = null;
-        resolve();
-      });
-    });
+    const transport = this.transport;
+    this.connected = false;
+    this.transport = null;
+    await transport.close();
   }
 
   /**
    * Send raw bytes to M8
    */
   async sendRaw(data: Uint8Array): Promise<void> {
-    if (!this.serial || !this.connected) {
+    if (!this.transport || !this.connected) {
       throw new Error("Not connected");
     }
 
-    return new Promise((resolve, reject) => {
-      this.serial!.write(Buffer.from(data), (err) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-        // Drain to ensure data is sent
-        this.serial!.drain((drainErr) => {
-          if (drainErr) {
-            reject(drainErr);
-          } else {
-            resolve();
-          }
-        });
-      });
-    });
+    await this.transport.write(data);
+    this.options.onSentData(data);
   }
 
   /**
@@ -0,0 +1,86 @@
+/**
+ * M8 Transport
+ * Byte pipe between M8Connection and a device (real serial port or emulator)
+ *
+ * SOLID: Dependency Inversion - M8Connection depends on this abstraction,
+ * not on the serialport library directly
+ */
+
+import { SerialPort } from "serialport";
+
+/**
+ * Events raised by an open transport
+ */
+export interface TransportHandlers {
+  onData: (data: Uint8Array) => void;
+  onError: (error: Error) => void;
+  onClose: () => void;
+}
+
+/**
+ * Open byte pipe to an M8
+ */
+export interface M8Transport {
+  /** Write bytes and wait until they are flushed */
+  write(data: Uint8Array): Promise<void>;
+  /** Close the pipe (onClose is not required to fire) */
+  close(): Promise<void>;
+}
+
+/**
+ * Opens a transport for a port path (injectable for testing/emulation)
+ */
+export type TransportFactory = (
+  path: string,
+  baudRate: number,
+  handlers: TransportHandlers
+) => Promise<M8Transport>;
+
+/**
+ * Default transport: real serial port via serialport library
+ */
+export const openSerialTransport: TransportFactory = (path, baudRate, handlers) => {
+  return new Promise((resolve, reject) => {
+    const serial = new SerialPort(
+      {
+        path,
+        baudRate,
+        dataBits: 8,
+        parity: "none",
+        stopBits: 1,
+        rtscts: false,  // No flow control
+        xon: false,
+        xoff: false,
+        xany: false,
+      },
+      (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        serial.on("data", (data: Buffer) => handlers.onData(new Uint8Array(data)));
+        serial.on("error", (error) => handlers.onError(error));
+        serial.on("close", () => handlers.onClose());
+
+        resolve({
+          write: (data) =>
+            new Promise((res, rej) => {
+              serial.write(Buffer.from(data), (writeErr) => {
+                if (writeErr) {
+                  rej(writeErr);
+                  return;
+                }
+                // Drain to ensure data is sent
+                serial.drain((drainErr) => (drainErr ? rej(drainErr) : res()));
+              });
+            }),
+          close: () =>
+            new Promise((res) => {
+              serial.close(() => res());
+            }),
+        });
+      }
+    );
+  });
+};
@@ -0,0 +1,148 @@
+/**
+ * Authentication and roles
+ * Tokens from config (M8_AUTH_TOKENS), checked on HTTP, WebSocket upgrade and the TCP handshake
+ *
+ * Roles (each includes the ones before it):
+ * - viewer: watch screen/audio, read state
+ * - player: send input, run macros, navigate, take the driver lock
+ * - admin:  device management (serial port, USB reset, captures)
+ *
+ * With no tokens configured auth is disabled and every client is admin (local use).
+ */
+
+import type { IncomingMessage } from "http";
+import { createHash, timingSafeEqual } from "crypto";
+
+export type Role = "viewer" | "player" | "admin";
+
+const ROLE_LEVEL: Record<Role, number> = { viewer: 1, player: 2, admin: 3 };
+
+export interface Principal {
+  name: string;
+  role: Role;
+}
+
+// Principal used when auth is disabled
+const ANONYMOUS_ADMIN: Principal = { name: "anonymous", role: "admin" };
+
+/**
+ * Check if a principal has at least the required role
+ */
+export function hasRole(principal: Principal, required: Role): boolean {
+  return ROLE_LEVEL[principal.role] >= ROLE_LEVEL[required];
+}
+
+/**
+ * Role wire code (TCP handshake reply): 0 = denied, 1 viewer, 2 player, 3 admin
+ */
+export function roleCode(role: Role | null): number {
+  return role ? ROLE_LEVEL[role] : 0;
+}
+
+/**
+ * Parse "token:role" or "name:token:role" entries, comma separated
+ * @throws Error for malformed entries (fail at startup, not at first request)
+ */
+export function parseAuthTokens(spec: string): Map<string, Principal> {
+  const tokens = new Map<string, Principal>();
+
+  spec.split(",").map((entry) => entry.trim()).filter(Boolean).forEach((entry, index) => {
+    const parts = entry.split(":");
+    const [name, token, role] = parts.length === 3 ? parts : [`token${index + 1}`, parts[0], parts[1]];
+    if (!token || !role || !(role in ROLE_LEVEL)) {
+      throw new Error(`Invalid auth token entry #${index + 1} (expected [name:]token:viewer|player|admin)`);
+    }
+    tokens.set(token, { name: name!, role: role as Role });
+  });
+  return tokens;
+}
+
+/**
+ * Route access rules, first match wins (path without /api/ prefix)
+ */
+const ROUTE_RULES: { method?: string; pattern: RegExp; role: Role | null }[] = [
+  // Public: health checks (Docker, monitoring)
+  { method: "GET", pattern: /^health(\/|$)/, role: null },
+  { pattern: /^auth\/whoami$/, role: "viewer" },
+
+  // Device management
+  { pattern: /^usb\/reset/, role: "admin" },
+  { method: "POST", pattern: /^(port|reconnect)$/, role: "admin" },
+  { method: "POST", pattern: /^debug\//, role: "admin" },
+  { method: "POST", pattern: /^capture\//, role: "admin" },
+  { method: "GET", pattern: /^audio\/record$/, role: "player" },
+
+  // Everything else: read = viewer, change = player
+  { method: "GET", pattern: /.*/, role: "viewer" },
+  { pattern: /.*/, role: "player" },
+];
+
+/**
+ * Role required for an API route (null = public)
+ */
+export function requiredRole(method: string, path: string): Role | null {
+  const rule = ROUTE_RULES.find((r) => (!r.method || r.method === method) && r.pattern.test(path));
+  return rule ? rule.role : "admin";
+}
+
+// Read-only streams (/control takes viewers as observers); any other path is legacy /ws input
+const VIEWER_WS_PATHS = new Set(["/audio", "/display", "/screen", "/control"]);
+
+/**
+ * Role required for a WebSocket path
+ */
+export function requiredWsRole(path: string): Role {
+  return VIEWER_WS_PATHS.has(path) ? "viewer" : "player";
+}
+
+/**
+ * Token from a request: Authorization: Bearer, X-M8-Token header or ?token= (browsers' WebSocket)
+ */
+export function tokenFromRequest(req: IncomingMessage): string | null {
+  const auth = req.headers.authorization;
+  if (auth?.startsWith("Bearer ")) return auth.slice(7).trim();
+
+  const header = req.headers["x-m8-token"];
+  if (typeof header === "string") return header;
+
+  const query = (req.url ?? "").split("?")[1];
+  return query ? new URLSearchParams(query).get("token") : null;
+}
+
+export class Authenticator {
+  private tokens: Map<string, Principal>;
+
+  constructor(tokens: Map<string, Principal> = new Map()) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Auth is enabled when at least one token is configured
+   */
+  isEnabled(): boolean {
+    return this.tokens.size > 0;
+  }
+
+  /**
+   * Resolve a token (null = unknown or missing)
+   */
+  authenticate(token: string | null | undefined): Principal | null {
+    if (!this.isEnabled()) return ANONYMOUS_ADMIN;
+    if (!token) return null;
+
+    // Compare digests in constant time (no early exit on the first differing byte)
+    const digest = createHash("sha256").update(token).digest();
+    let match: Principal | null = null;
+    for (const [candidate, principal] of this.tokens) {
+      if (timingSafeEqual(digest, createHash("sha256").update(candidate).digest())) match = principal;
+    }
+    return match;
+  }
+
+  /**
+   * Authenticate an HTTP/WebSocket request
+   */
+  authenticateRequest(req: IncomingMessage): Principal | null {
+    return this.authenticate(tokenFromRequest(req));
+  }
+}
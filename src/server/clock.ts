@@ -0,0 +1,34 @@
+/**
+ * Media clock
+ * Single Responsibility: one monotonic time base for audio and display timestamps
+ *
+ * Timestamps are microseconds on a monotonic clock (not wall time, never jumps).
+ * Clients map them to their own clock with a clock-sync exchange, NTP style:
+ *   send t0 (own clock) → reply { t0, serverTime } arrives at t1
+ *   offset = serverTime - (t0 + t1) / 2
+ * and present media captured at ts at local time ts - offset + playoutDelayMs * 1000,
+ * so every client (and both channels) plays out with the same delay.
+ */
+
+export const DEFAULT_PLAYOUT_DELAY_MS = 150;
+
+/**
+ * Current media clock time in microseconds
+ */
+export function nowMicros(): number {
+  return Math.round(performance.now() * 1000);
+}
+
+/**
+ * Clock-sync reply (JSON channels)
+ */
+export interface ClockSync {
+  type: "clock";
+  t0: number;             // Client's send time, echoed
+  serverTime: number;     // Media clock (µs) when the reply was made
+  playoutDelayMs: number; // Delay clients should add to capture timestamps
+}
+
+export function clockSync(t0: number, playoutDelayMs: number): ClockSync {
+  return { type: "clock", t0, serverTime: nowMicros(), playoutDelayMs };
+}
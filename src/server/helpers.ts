@@ -12,6 +12,19 @@ export function jsonResponse(res: ServerResponse, data: object, status = 200): v
   res.end(JSON.stringify(data));
 }
 
+/**
+ * Decode a percent-encoded URL path segment (e.g. a name in /api/recordings/:name)
+ * @returns null after answering 400 if the encoding is malformed
+ */
+export function decodePathParam(res: ServerResponse, value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    jsonResponse(res, { error: "Malformed URL encoding" }, 400);
+    return null;
+  }
+}
+
 /**
  * Parse request body as JSON
  */
@@ -38,10 +51,15 @@ export function delay(ms: number): Promise<void> {
 }
 
 /**
- * Set CORS headers
+ * Set CORS headers for allowed origins (M8_CORS_ORIGINS)
+ * Same-origin requests (the built-in web UI) need none; "*" allows any origin.
  */
-export function setCorsHeaders(res: ServerResponse): void {
-  res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+export function setCorsHeaders(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): void {
+  const origin = req.headers.origin;
+  res.setHeader("Vary", "Origin");
+  if (!origin || !(allowedOrigins.includes(origin) || allowedOrigins.includes("*"))) return;
+
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, X-M8-Token");
 }
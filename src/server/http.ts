@@ -3,7 +3,8 @@
  * REST endpoints for M8 control
  */
 
-import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import { createServer, type IncomingMessage, type ServerResponse, type Server as HttpServer } from "http";
+import { createServer as createHttpsServer, type Server as HttpsServer } from "https";
 import { WebSocketServer, type WebSocket } from "ws";
 import { readFile, unlink } from "fs/promises";
 import { join, dirname } from "path";
@@ -12,17 +13,43 @@ import type { M8Connection } from "../serial/connection";
 import { DeviceManager } from "../serial/device-manager";
 import type { TextBuffer } from "../display/buffer";
 import type { Framebuffer } from "../display/framebuffer";
+import { TileStreamEncoder } from "../display/tile-stream";
+import type { DisplayStreamMode, DisplayClientStats } from "../display/delta";
 import { isValidKey } from "../input/keys";
 import type { ParsedCommand, M8Screen } from "../state/types";
-import { M8StateTracker } from "../state/tracker";
-import { AudioRecorder, getAudioDevices, findM8AudioDevice } from "../audio/capture";
+import { M8StateTracker, observeScreen } from "../state/tracker";
+import { getAudioDevices, findM8AudioDevice } from "../audio/capture";
 import { UsbAudioStreamer } from "../audio/usb-streamer";
+import type { AudioCaptureSettings } from "../audio/capture-backends";
+import { CAPTURE_FORMAT } from "../audio/audio-hub";
+import { RecordingStore } from "../audio/recordings";
+import { resolveOpusSettings, DEFAULT_OPUS_SETTINGS, type OpusSettings } from "../audio/opus";
+import { resolveAudioFormat, type SampleFormat } from "../audio/pcm-convert";
 import { spawn } from "child_process";
 import { createHealthRoute } from "./routes/health";
 import { createScreenRoutes } from "./routes/screen";
 import { createInputRoutes } from "./routes/input";
 import { createUsbRoutes } from "./routes/usb";
+import { createCaptureRoutes } from "./routes/capture";
+import { createNavigateRoutes } from "./routes/navigate";
+import { createMacroRoutes } from "./routes/macro";
+import { createRecordingRoutes } from "./routes/recordings";
+import { MacroRunner } from "../input/macro";
+import { MacroStore } from "../input/macro-store";
+import { InputArbiter, InputRejectedError, type InputPort } from "../input/arbiter";
+import { createSessionRoutes } from "./routes/session";
+import { createTcpRoutes } from "./routes/tcp";
+import type { TcpClientInfo } from "./tcp-proxy";
+import { Authenticator, hasRole, requiredRole, requiredWsRole, type Principal } from "./auth";
+import { Navigator } from "../state/navigator";
+import { parseTextBuffer } from "../display/screen-parser";
+import type { CaptureData, SerialCapture } from "../serial/capture";
 import { setCorsHeaders, parseBody } from "./helpers";
+import type { TlsOptions } from "./tls";
+import { nowMicros, clockSync, DEFAULT_PLAYOUT_DELAY_MS } from "./clock";
+
+// Quiet time after the last TEXT/RECT before the screen is read back
+const STATE_SYNC_DELAY_MS = 50;
 
 // Get directory of this file for static serving
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -32,8 +59,42 @@ export interface M8ServerOptions {
   connection: M8Connection;
   buffer: TextBuffer;
   framebuffer?: Framebuffer;
-  onAudioData?: (data: Buffer) => void; // For TCP audio streaming
+  onAudioData?: (data: Buffer, timestamp: number) => void; // For TCP audio streaming
   getDebugStats?: () => object; // Debug statistics callback
+  getTcpClients?: () => TcpClientInfo[]; // TCP proxy clients (/api/tcp/clients)
+  getDisplaySnapshot?: () => Uint8Array; // SLIP stream of the current screen for new /display clients
+  capture?: SerialCapture;      // Serial session recorder (fed by index.ts)
+  captureDir?: string;          // Where .m8cap files are saved (default: captures)
+  macroDir?: string;            // Where saved macros are stored (default: macros)
+  recordingsDir?: string;       // Where audio recordings are stored (default: recordings)
+  arbiter?: InputArbiter;       // Shared with the TCP proxy (default: own arbiter)
+  auth?: Authenticator;         // Token auth (default: disabled, everyone is admin)
+  corsOrigins?: string[];       // Allowed cross-origin callers (default: none)
+  tls?: TlsOptions;             // Serve https:// and wss:// (default: plain http)
+  opus?: OpusSettings;          // Defaults for /audio?codec=opus clients
+  playoutDelayMs?: number;      // Announced in clock-sync replies (default: 150)
+  audioCapture?: AudioCaptureSettings; // Capture backend chain (default: alsa, native, pipewire)
+  replaySeconds?: number;       // Instant-replay window; audio is captured continuously (default: 0, off)
+  getDisplayHistory?: (from: number, to: number) => CaptureData | null; // Screen traffic for instant replays
+}
+
+// Arbiter client of an HTTP caller: one per principal, so a driver lock taken with one token
+// refuses input sent with another
+function httpClientId(principal: Principal): string {
+  return `http:${principal.name}`;
+}
+
+// Input of shared helpers when no caller is given: never registered, so the arbiter refuses it
+const NO_CLIENT_ID = "none";
+
+/**
+ * Routes acting as one HTTP caller
+ */
+interface HttpClient {
+  id: string;
+  port: InputPort;
+  input: ReturnType<typeof createInputRoutes>;
+  session: ReturnType<typeof createSessionRoutes>;
 }
 
 interface WebSocketData {
@@ -44,7 +105,7 @@ interface WebSocketData {
  * M8 HTTP/WebSocket Server
  */
 export class M8Server {
-  private server: ReturnType<typeof createServer> | null = null;
+  private server: HttpServer | HttpsServer | null = null;
   private wss: WebSocketServer | null = null;
   private connection: M8Connection;
   private buffer: TextBuffer;
@@ -53,32 +114,68 @@ export class M8Server {
   private clients: Map<WebSocket, WebSocketData> = new Map(); // Legacy /ws
   private controlClients: Set<WebSocket> = new Set();         // /control - input only
   private screenClients: Set<WebSocket> = new Set();          // /screen - BMP images
+  private tileClients: Set<WebSocket> = new Set();            // /screen?mode=tiles - dirty tiles
+  private tileEncoder: TileStreamEncoder | null;
   private displayClients: Set<WebSocket> = new Set();         // /display - SLIP for m8c
+  private displayDeltaClients: Set<WebSocket> = new Set();    // /display?mode=delta - delta-filtered SLIP
+  private displayStats: Map<WebSocket, DisplayClientStats> = new Map();
+  private displayTimestampClients: Set<WebSocket> = new Set(); // /display?timestamps=1
   private stateTracker: M8StateTracker;
   private screenBroadcastTimer: ReturnType<typeof setTimeout> | null = null;
+  private stateSyncTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastStateJson = "";
   private screenDirty = false;
   private jpegBroadcastInterval: ReturnType<typeof setInterval> | null = null;
-  private audioRecorder: AudioRecorder | null = null;
   private audioStreamer: UsbAudioStreamer;
   private healthRoute: ReturnType<typeof createHealthRoute>;
   private screenRoutes: ReturnType<typeof createScreenRoutes>;
   private inputRoutes: ReturnType<typeof createInputRoutes>;
   private usbRoutes: ReturnType<typeof createUsbRoutes>;
+  private captureRoutes: ReturnType<typeof createCaptureRoutes>;
+  private navigateRoutes: ReturnType<typeof createNavigateRoutes>;
+  private macroRoutes: ReturnType<typeof createMacroRoutes>;
+  private recordingRoutes: ReturnType<typeof createRecordingRoutes>;
+  private httpClients = new Map<string, HttpClient>(); // By arbiter client id, see httpClient()
+  private tcpRoutes: ReturnType<typeof createTcpRoutes>;
+  private arbiter: InputArbiter;
+  private auth: Authenticator;
+  private corsOrigins: string[];
+  private tls: TlsOptions | null;
+  private opus: OpusSettings;
+  private playoutDelayMs: number;
+  private wsPrincipals = new WeakMap<IncomingMessage, Principal>(); // Set at WebSocket upgrade
   private getDebugStats: (() => object) | null;
+  private getDisplaySnapshot: (() => Uint8Array) | null;
   private deviceManager: DeviceManager;
 
   constructor(options: M8ServerOptions) {
     this.connection = options.connection;
     this.buffer = options.buffer;
     this.framebuffer = options.framebuffer ?? null;
+    this.tileEncoder = this.framebuffer ? new TileStreamEncoder(this.framebuffer) : null;
     this.port = options.port ?? 8080;
     this.getDebugStats = options.getDebugStats ?? null;
+    this.getDisplaySnapshot = options.getDisplaySnapshot ?? null;
     this.stateTracker = new M8StateTracker();
+    this.stateTracker.onDrift((events) => {
+      console.log(`[State] Drift corrected: ${events.map((e) => `${e.field} ${e.predicted}→${e.observed}`).join(", ")}`);
+      this.broadcastControl({ type: "drift", events });
+    });
     this.deviceManager = new DeviceManager(options.connection);
+    this.auth = options.auth ?? new Authenticator();
+    this.corsOrigins = options.corsOrigins ?? [];
+    this.tls = options.tls ?? null;
+    this.opus = options.opus ?? DEFAULT_OPUS_SETTINGS;
+    this.playoutDelayMs = options.playoutDelayMs ?? DEFAULT_PLAYOUT_DELAY_MS;
+    this.arbiter = options.arbiter ?? new InputArbiter({ send: (data) => this.connection.sendRaw(data) });
+    this.arbiter.onChange((session) => this.broadcastControl({ type: "session", session }));
     // Auto-start audio if TCP streaming is enabled
     this.audioStreamer = new UsbAudioStreamer({
       onAudioData: options.onAudioData,
-      autoStart: !!options.onAudioData, // Start immediately for TCP clients
+      autoStart: !!options.onAudioData || !!options.replaySeconds, // Start immediately for TCP clients / replay
+      playoutDelayMs: this.playoutDelayMs,
+      replaySeconds: options.replaySeconds,
+      capture: options.audioCapture,
     });
 
     // Initialize routes (Dependency Injection)
@@ -91,10 +188,42 @@ export class M8Server {
       framebuffer: this.framebuffer,
     });
     this.inputRoutes = createInputRoutes({
-      connection: this.connection,
+      connection: this.arbiter.port(NO_CLIENT_ID),
       stateTracker: this.stateTracker,
     });
     this.usbRoutes = createUsbRoutes();
+    this.captureRoutes = createCaptureRoutes({
+      capture: options.capture ?? null,
+      dir: options.captureDir ?? "captures",
+    });
+    this.navigateRoutes = createNavigateRoutes({
+      navigator: new Navigator({
+        pressKey: (key) => this.inputRoutes.pressKey(key),
+        pressCombo: (hold, press) => this.inputRoutes.pressCombo(hold, press),
+        readScreen: () => parseTextBuffer(this.buffer),
+      }),
+    });
+    this.macroRoutes = createMacroRoutes({
+      runner: new MacroRunner({
+        sendKeys: (bitmask) => this.arbiter.setButtons(NO_CLIENT_ID, bitmask),
+        onPress: (keys) => {
+          if (keys.length === 1) this.stateTracker.onKey(keys[0]!);
+          else this.stateTracker.onCombo(keys[0]!, keys[keys.length - 1]!);
+        },
+      }),
+      store: new MacroStore(options.macroDir ?? "macros"),
+    });
+    this.recordingRoutes = createRecordingRoutes({
+      source: this.audioStreamer,
+      store: new RecordingStore(options.recordingsDir ?? "recordings"),
+      format: CAPTURE_FORMAT,
+      replaySeconds: options.replaySeconds ?? 0,
+      getReplay: (seconds) => this.audioStreamer.getReplay(seconds),
+      getDisplayHistory: options.getDisplayHistory,
+    });
+    this.tcpRoutes = createTcpRoutes({
+      getClients: options.getTcpClients ?? null,
+    });
   }
 
   /**
@@ -128,13 +257,33 @@ export class M8Server {
    * Start server
    */
   start(): void {
-    this.server = createServer((req, res) => {
+    const handler = (req: IncomingMessage, res: ServerResponse) => {
       this.handleRequest(req, res);
-    });
+    };
+    this.server = this.tls
+      ? createHttpsServer({ cert: this.tls.cert, key: this.tls.key }, handler)
+      : createServer(handler);
 
     this.wss = new WebSocketServer({
       server: this.server,
-      perMessageDeflate: false  // Disable compression - libwebsockets compatibility
+      perMessageDeflate: false,  // Disable compression - libwebsockets compatibility
+      // Reject unauthenticated upgrades before the handshake completes
+      verifyClient: ({ req }, done) => {
+        const path = (req.url || "/").split("?")[0]!;
+        const principal = this.auth.authenticateRequest(req);
+        if (!principal) {
+          console.log(`[Auth] WebSocket ${path} denied: missing or invalid token`);
+          done(false, 401, "Unauthorized");
+          return;
+        }
+        if (!hasRole(principal, requiredWsRole(path))) {
+          console.log(`[Auth] WebSocket ${path} denied for ${principal.name} (${principal.role})`);
+          done(false, 403, "Forbidden");
+          return;
+        }
+        this.wsPrincipals.set(req, principal);
+        done(true);
+      },
     });
 
     // Global error handler to prevent server crash
@@ -147,23 +296,74 @@ export class M8Server {
       const url = req.url || "/";
       const path = url.split("?")[0];
 
-      // Audio streaming WebSocket
+      // Audio streaming WebSocket (raw PCM, or ?codec=opus[&bitrate=kbit/s][&frame=ms]; &timestamps=1; &prebuffer=ms;
+      // &levels=1; PCM format: &rate=Hz&channels=1|2&format=s16|f32|ulaw)
       if (path === "/audio") {
         console.log("Audio client connected");
-        this.audioStreamer.addClient(ws);
+        const query = new URLSearchParams(url.split("?")[1]);
+        const opus = query.get("codec") === "opus"
+          ? resolveOpusSettings({ bitrate: Number(query.get("bitrate")) || undefined, frameMs: Number(query.get("frame")) || undefined }, this.opus)
+          : undefined;
+        const format = query.has("rate") || query.has("channels") || query.has("format")
+          ? resolveAudioFormat({
+            sampleRate: Number(query.get("rate")) || undefined,
+            channels: Number(query.get("channels")) || undefined,
+            sampleFormat: (query.get("format") ?? undefined) as SampleFormat | undefined,
+          })
+          : undefined;
+        this.audioStreamer.addClient(ws, {
+          opus,
+          format,
+          timestamps: query.get("timestamps") === "1",
+          prebufferMs: Number(query.get("prebuffer")) || undefined,
+          levels: query.get("levels") === "1",
+        });
         return;
       }
 
       // Display streaming WebSocket (raw SLIP frames for m8c-websocket)
+      // ?timestamps=1 prefixes each message with its u64 BE capture time (µs, media clock)
       if (path === "/display") {
-        this.registerWSClient(ws, this.displayClients, "Display");
+        const query = new URLSearchParams(url.split("?")[1]);
+        const mode: DisplayStreamMode = query.get("mode") === "delta" ? "delta" : "raw";
+        const stats: DisplayClientStats = { mode, bytes: 0, rawBytes: 0 };
+        this.registerWSClient(ws, mode === "delta" ? this.displayDeltaClients : this.displayClients,
+          mode === "delta" ? "Display (delta)" : "Display");
+        this.displayStats.set(ws, stats);
+        if (query.get("timestamps") === "1") this.displayTimestampClients.add(ws);
+        ws.on("close", () => {
+          this.displayStats.delete(ws);
+          this.displayTimestampClients.delete(ws);
+        });
+        // Current screen first, so the client isn't blank until the M8 redraws
+        const snapshot = this.getDisplaySnapshot?.();
+        if (snapshot?.length) {
+          const message = this.displayMessage(ws, snapshot, nowMicros());
+          ws.send(message);
+          stats.bytes += message.length;
+        }
         return;
       }
 
-      // Control WebSocket (input only - JSON messages)
+      // Control WebSocket (input only - JSON messages), ?observe=1 for read-only
       if (path === "/control") {
+        const clientId = crypto.randomUUID();
+        const principal = this.wsPrincipals.get(req);
+        const observer = new URLSearchParams(url.split("?")[1]).get("observe") === "1"
+          || !principal || !hasRole(principal, "player");
+        this.arbiter.register(clientId, "control", { label: `control ${req.socket.remoteAddress}`, observer });
         this.registerWSClient(ws, this.controlClients, "Control",
-          (msg) => this.handleWsMessage(ws, msg));
+          (msg) => this.handleWsMessage(ws, msg, clientId));
+        ws.on("close", () => void this.arbiter.unregister(clientId));
+        ws.send(JSON.stringify({ type: "session", clientId, session: this.arbiter.getSession() }));
+        return;
+      }
+
+      // Screen WebSocket, tile mode (compressed changed tiles, keyframe on join/request)
+      if (path === "/screen" && new URLSearchParams(url.split("?")[1]).get("mode") === "tiles") {
+        this.registerWSClient(ws, this.tileClients, "Screen (tiles)",
+          (msg) => this.handleTileMessage(ws, msg));
+        this.sendKeyframe(ws);
         return;
       }
 
@@ -177,6 +377,7 @@ export class M8Server {
       // Regular control WebSocket (legacy - supports both input and screen)
       const data: WebSocketData = { id: crypto.randomUUID() };
       this.clients.set(ws, data);
+      this.arbiter.register(data.id, "ws", { label: `ws ${req.socket.remoteAddress}` });
       console.log(`WebSocket connected (legacy /ws): ${data.id}`);
 
       ws.on("error", (err) => {
@@ -185,23 +386,66 @@ export class M8Server {
       });
 
       ws.on("message", (message) => {
-        this.handleWsMessage(ws, message.toString());
+        this.handleWsMessage(ws, message.toString(), data.id);
       });
 
       ws.on("close", () => {
         console.log(`WebSocket disconnected: ${data.id}`);
         this.clients.delete(ws);
+        void this.arbiter.unregister(data.id);
       });
     });
 
     this.server.listen(this.port, () => {
-      console.log(`M8 Server running on http://localhost:${this.port}`);
+      console.log(`M8 Server running on ${this.tls ? "https" : "http"}://localhost:${this.port}`);
     });
 
     // Start BMP broadcast to /screen clients (10 FPS)
     this.startScreenBroadcast();
   }
 
+  /**
+   * Send changed tiles to all tile-mode /screen clients
+   */
+  private broadcastTileDelta(except?: WebSocket): void {
+    if (this.tileClients.size === 0 || !this.tileEncoder) return;
+
+    const delta = this.tileEncoder.delta();
+    if (!delta) return;
+
+    for (const ws of this.tileClients) {
+      if (ws !== except && ws.readyState === ws.OPEN) {
+        ws.send(delta);
+      }
+    }
+  }
+
+  /**
+   * Send a full tile keyframe to one client
+   * Pending changes go to the others first - the keyframe resets dirty tracking
+   */
+  private sendKeyframe(ws: WebSocket): void {
+    if (!this.tileEncoder) return;
+    this.broadcastTileDelta(ws);
+    if (ws.readyState === ws.OPEN) {
+      ws.send(this.tileEncoder.keyframe());
+    }
+  }
+
+  /**
+   * Handle tile-mode client message: {"type":"keyframe"} requests a full redraw
+   */
+  private handleTileMessage(ws: WebSocket, message: string): void {
+    try {
+      const msg = JSON.parse(message);
+      if (msg.type === "keyframe") {
+        this.sendKeyframe(ws);
+      }
+    } catch {
+      // Ignore malformed messages
+    }
+  }
+
   /**
    * Start BMP broadcast interval (10 FPS = 100ms)
    * Uses BMP instead of JPEG to avoid sharp dependency
@@ -209,6 +453,7 @@ export class M8Server {
   private screenBroadcastCount = 0;
   private startScreenBroadcast(): void {
     this.jpegBroadcastInterval = setInterval(() => {
+      this.broadcastTileDelta();
       if (this.screenClients.size === 0 || !this.framebuffer) return;
 
       try {
@@ -241,7 +486,7 @@ export class M8Server {
     const path = url.pathname;
 
     // CORS headers (DRY - using helper)
-    setCorsHeaders(res);
+    setCorsHeaders(req, res, this.corsOrigins);
 
     if (req.method === "OPTIONS") {
       res.writeHead(204);
@@ -252,7 +497,10 @@ export class M8Server {
     try {
       // API routes
       if (path.startsWith("/api/")) {
-        await this.handleApi(req, res, path.replace("/api/", ""));
+        const apiPath = path.replace("/api/", "");
+        const principal = this.authorize(req, res, requiredRole(req.method || "GET", apiPath));
+        if (!principal) return;
+        await this.handleApi(req, res, apiPath, principal);
         return;
       }
 
@@ -273,18 +521,69 @@ export class M8Server {
       res.writeHead(404);
       res.end("Not Found");
     } catch (err) {
+      // Another client holds the driver lock (or this is an observer)
+      if (err instanceof InputRejectedError) {
+        this.json(res, { error: err.message, session: this.arbiter.getSession() }, 423);
+        return;
+      }
       console.error("Request error:", err);
       res.writeHead(500);
       res.end("Internal Server Error");
     }
   }
 
+  /**
+   * Routes acting as an HTTP caller (arbiter client registered on first use)
+   */
+  private httpClient(principal: Principal): HttpClient {
+    const id = httpClientId(principal);
+    let client = this.httpClients.get(id);
+    if (!client) {
+      this.arbiter.register(id, "http", { label: `HTTP ${principal.name}` });
+      const port = this.arbiter.port(id);
+      client = {
+        id,
+        port,
+        input: createInputRoutes({ connection: port, stateTracker: this.stateTracker }),
+        session: createSessionRoutes({ arbiter: this.arbiter, clientId: id }),
+      };
+      this.httpClients.set(id, client);
+    }
+    return client;
+  }
+
+  /**
+   * Check the request token against the role a route needs
+   * Writes 401/403 and returns null when access is denied
+   */
+  private authorize(req: IncomingMessage, res: ServerResponse, role: ReturnType<typeof requiredRole>): Principal | null {
+    const principal = this.auth.authenticateRequest(req);
+    if (role === null) return principal ?? { name: "public", role: "viewer" };
+
+    if (!principal) {
+      this.json(res, { error: "Authentication required" }, 401);
+      return null;
+    }
+    if (!hasRole(principal, role)) {
+      console.log(`[Auth] ${req.method} ${req.url?.split("?")[0]} denied for ${principal.name} (${principal.role})`);
+      this.json(res, { error: `Requires ${role} role` }, 403);
+      return null;
+    }
+    return principal;
+  }
+
   /**
    * Handle API requests
    */
-  private async handleApi(req: IncomingMessage, res: ServerResponse, path: string): Promise<void> {
+  private async handleApi(req: IncomingMessage, res: ServerResponse, path: string, principal: Principal): Promise<void> {
     const method = req.method || "GET";
 
+    // GET /api/auth/whoami - Token name and role
+    if (path === "auth/whoami" && method === "GET") {
+      this.json(res, { ...principal, authEnabled: this.auth.isEnabled() });
+      return;
+    }
+
     // GET /api/health
     if (path === "health" && method === "GET") {
       this.healthRoute.get(res);
@@ -368,6 +667,32 @@ export class M8Server {
       return;
     }
 
+    // === Serial Capture ===
+
+    // GET /api/capture - Capture status
+    if (path === "capture" && method === "GET") {
+      this.captureRoutes.getStatus(res);
+      return;
+    }
+
+    // POST /api/capture/start
+    if (path === "capture/start" && method === "POST") {
+      this.captureRoutes.postStart(res);
+      return;
+    }
+
+    // POST /api/capture/stop - Save session as .m8cap
+    if (path === "capture/stop" && method === "POST") {
+      await this.captureRoutes.postStop(res);
+      return;
+    }
+
+    // GET /api/capture/file/:name - Download .m8cap
+    if (path.startsWith("capture/file/") && method === "GET") {
+      await this.captureRoutes.getFile(res, path.replace("capture/file/", ""));
+      return;
+    }
+
     // GET /api/screen
     if (path === "screen" && method === "GET") {
       this.screenRoutes.getJson(res);
@@ -380,9 +705,15 @@ export class M8Server {
       return;
     }
 
+    // GET /api/screen/parsed - Structured view (SONG/CHAIN/PHRASE/INST/...)
+    if (path === "screen/parsed" && method === "GET") {
+      this.screenRoutes.getParsed(res);
+      return;
+    }
+
     // POST /api/raw - Send raw bitmask (low-level direct control)
     if (path === "raw" && method === "POST") {
-      await this.inputRoutes.postRaw(req, res);
+      await this.httpClient(principal).input.postRaw(req, res);
       return;
     }
 
@@ -392,34 +723,48 @@ export class M8Server {
       return;
     }
 
+    // GET /api/screen/image.png?scale=N - Palette PNG
+    if (path === "screen/image.png" && method === "GET") {
+      const url = new URL(req.url || "/", `http://localhost:${this.port}`);
+      this.screenRoutes.getImagePng(res, url.searchParams);
+      return;
+    }
+
+    // GET /api/screen/clip?seconds=N&format=gif|apng - Animated capture
+    if (path === "screen/clip" && method === "GET") {
+      const url = new URL(req.url || "/", `http://localhost:${this.port}`);
+      await this.screenRoutes.getClip(res, url.searchParams);
+      return;
+    }
+
     // POST /api/key/:key
     if (path.startsWith("key/") && method === "POST") {
       const key = path.replace("key/", "");
-      await this.inputRoutes.postKey(res, key);
+      await this.httpClient(principal).input.postKey(res, key);
       return;
     }
 
     // POST /api/keys (combo)
     if (path === "keys" && method === "POST") {
-      await this.inputRoutes.postKeys(req, res);
+      await this.httpClient(principal).input.postKeys(req, res);
       return;
     }
 
     // POST /api/note
     if (path === "note" && method === "POST") {
-      await this.inputRoutes.postNote(req, res);
+      await this.httpClient(principal).input.postNote(req, res);
       return;
     }
 
     // POST /api/note/off
     if (path === "note/off" && method === "POST") {
-      await this.inputRoutes.postNoteOff(res);
+      await this.httpClient(principal).input.postNoteOff(res);
       return;
     }
 
     // POST /api/reset
     if (path === "reset" && method === "POST") {
-      await this.inputRoutes.postReset(res);
+      await this.httpClient(principal).input.postReset(res);
       return;
     }
 
@@ -474,13 +819,91 @@ export class M8Server {
       return;
     }
 
-    // POST /api/state/verify
+    // POST /api/state/verify - Reconcile with the screen now
     if (path === "state/verify" && method === "POST") {
-      this.stateTracker.verify();
+      this.stateTracker.verify(observeScreen(this.buffer));
       this.json(res, this.stateTracker.toJSON());
       return;
     }
 
+    // GET /api/state/drift - Recent prediction/screen mismatches
+    if (path === "state/drift" && method === "GET") {
+      this.json(res, { events: this.stateTracker.getDriftEvents() });
+      return;
+    }
+
+    // POST /api/navigate - Go to view/number/row/col, verified on screen
+    if (path === "navigate" && method === "POST") {
+      const { input } = this.httpClient(principal);
+      await this.navigateRoutes.postNavigate(req, res, { pressKey: input.pressKey, pressCombo: input.pressCombo });
+      return;
+    }
+
+    // GET /api/session - Input clients and driver lock
+    if (path === "session" && method === "GET") {
+      this.httpClient(principal).session.getSession(res);
+      return;
+    }
+
+    // POST /api/session/lock - Request/release/grant the driver lock (as the token's HTTP client)
+    if (path === "session/lock" && method === "POST") {
+      await this.httpClient(principal).session.postLock(req, res);
+      return;
+    }
+
+    // GET /api/tcp/clients - TCP proxy clients, queue depth, drops and RTT
+    if (path === "tcp/clients" && method === "GET") {
+      this.tcpRoutes.getClients(res);
+      return;
+    }
+
+    // POST /api/macro - Run a macro {macro} or saved {name}
+    if (path === "macro" && method === "POST") {
+      await this.macroRoutes.postMacro(req, res, this.httpClient(principal).port.sendKeys);
+      return;
+    }
+
+    // GET /api/macro - Running macro
+    if (path === "macro" && method === "GET") {
+      this.macroRoutes.getStatus(res);
+      return;
+    }
+
+    // POST /api/macro/cancel
+    if (path === "macro/cancel" && method === "POST") {
+      const reason = this.arbiter.checkInput(this.httpClient(principal).id);
+      if (reason !== null) {
+        this.json(res, { error: reason, session: this.arbiter.getSession() }, 423);
+        return;
+      }
+      this.macroRoutes.postCancel(res);
+      return;
+    }
+
+    // GET /api/macros - Saved macros
+    if (path === "macros" && method === "GET") {
+      await this.macroRoutes.getSaved(res);
+      return;
+    }
+
+    // POST /api/macros - Save macro {name, macro, description?}
+    if (path === "macros" && method === "POST") {
+      await this.macroRoutes.postSaved(req, res);
+      return;
+    }
+
+    // GET /api/macros/:name
+    if (path.startsWith("macros/") && method === "GET") {
+      await this.macroRoutes.getSavedMacro(res, path.replace("macros/", ""));
+      return;
+    }
+
+    // DELETE /api/macros/:name
+    if (path.startsWith("macros/") && method === "DELETE") {
+      await this.macroRoutes.deleteSaved(res, path.replace("macros/", ""));
+      return;
+    }
+
     // GET /api/audio/devices
     if (path === "audio/devices" && method === "GET") {
       const devices = await getAudioDevices();
@@ -489,35 +912,58 @@ export class M8Server {
       return;
     }
 
-    // GET /api/audio/debug - Debug stats for audio data
+    // GET /api/audio/debug - Debug stats for audio data + active capture backend
     if (path === "audio/debug" && method === "GET") {
       const stats = this.audioStreamer.hub.getStats();
-      this.json(res, stats);
+      this.json(res, { ...stats, capture: this.audioStreamer.getCaptureStatus() });
       return;
     }
 
-    // POST /api/audio/start
-    if (path === "audio/start" && method === "POST") {
-      if (this.audioRecorder?.isRecording()) {
-        this.json(res, { error: "Already recording" }, 400);
-        return;
-      }
-      const body = await this.parseBody(req) as { device?: string };
-      const device = body.device || (await findM8AudioDevice()) || "hw:M8";
-      this.audioRecorder = new AudioRecorder({ device });
-      const outputPath = await this.audioRecorder.start();
-      this.json(res, { ok: true, recording: true, path: outputPath });
+    // GET /api/audio/levels - Peak/RMS per channel, short-term loudness, clipping
+    if (path === "audio/levels" && method === "GET") {
+      this.json(res, this.audioStreamer.hub.getLevels());
       return;
     }
 
-    // POST /api/audio/stop
-    if (path === "audio/stop" && method === "POST") {
-      if (!this.audioRecorder?.isRecording()) {
-        this.json(res, { error: "Not recording" }, 400);
-        return;
-      }
-      const result = await this.audioRecorder.stop();
-      this.json(res, { ok: true, ...result });
+    // GET /api/recordings - Saved recordings + the one in progress
+    if (path === "recordings" && method === "GET") {
+      await this.recordingRoutes.getList(res);
+      return;
+    }
+
+    // POST /api/recordings/start (also /api/audio/start) - Record the live feed {name?, format?}
+    if ((path === "recordings/start" || path === "audio/start") && method === "POST") {
+      await this.recordingRoutes.postStart(req, res);
+      return;
+    }
+
+    // POST /api/recordings/stop (also /api/audio/stop)
+    if ((path === "recordings/stop" || path === "audio/stop") && method === "POST") {
+      await this.recordingRoutes.postStop(res);
+      return;
+    }
+
+    // POST /api/recordings/:name/rename {name}
+    if (path.startsWith("recordings/") && path.endsWith("/rename") && method === "POST") {
+      await this.recordingRoutes.postRename(req, res, path.slice("recordings/".length, -"/rename".length));
+      return;
+    }
+
+    // GET /api/recordings/:name/display - Download the screen capture of an instant replay
+    if (path.startsWith("recordings/") && path.endsWith("/display") && method === "GET") {
+      await this.recordingRoutes.getDisplay(res, path.slice("recordings/".length, -"/display".length));
+      return;
+    }
+
+    // GET /api/recordings/:name - Download
+    if (path.startsWith("recordings/") && method === "GET") {
+      await this.recordingRoutes.getFile(res, path.replace("recordings/", ""));
+      return;
+    }
+
+    // DELETE /api/recordings/:name
+    if (path.startsWith("recordings/") && method === "DELETE") {
+      await this.recordingRoutes.deleteRecording(res, path.replace("recordings/", ""));
       return;
     }
 
@@ -533,33 +979,17 @@ export class M8Server {
       if (handled) return;
     }
 
-    // GET /api/audio/record?duration=N
+    // POST /api/audio/replay {seconds?, display?, name?} - Save the instant-replay window as a recording
+    if (path === "audio/replay" && method === "POST") {
+      await this.recordingRoutes.postReplay(req, res);
+      return;
+    }
+
+    // GET /api/audio/record?duration=N[&format=flac] - Record N seconds, respond with the file
     if (path === "audio/record" && method === "GET") {
       const url = new URL(req.url || "/", `http://localhost:${this.port}`);
-      const durationStr = url.searchParams.get("duration") || "5";
-      const duration = parseInt(durationStr);
-
-      if (duration < 1 || duration > 300) {
-        this.json(res, { error: "Duration must be 1-300 seconds" }, 400);
-        return;
-      }
-
-      const device = (await findM8AudioDevice()) || "hw:M8";
-      const recorder = new AudioRecorder({ device });
-
-      try {
-        const result = await recorder.record(duration);
-        const wavData = await readFile(result.path);
-        res.writeHead(200, {
-          "Content-Type": "audio/wav",
-          "Content-Length": wavData.length,
-          "Content-Disposition": `attachment; filename="m8_recording.wav"`,
-        });
-        res.end(wavData);
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : "Recording failed";
-        this.json(res, { error: msg }, 500);
-      }
+      const duration = parseInt(url.searchParams.get("duration") || "5");
+      await this.recordingRoutes.getTimed(res, duration, url.searchParams.get("format") ?? undefined);
       return;
     }
 
@@ -587,37 +1017,86 @@ export class M8Server {
   /**
    * Handle WebSocket message
    */
-  private async handleWsMessage(ws: WebSocket, message: string): Promise<void> {
+  private async handleWsMessage(ws: WebSocket, message: string, clientId: string): Promise<void> {
+    const reply = (data: object) => {
+      if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(data));
+    };
+
     try {
       const data = JSON.parse(message);
       console.log("WS message:", data.type, data.key || data.press || "");
+      const port = this.arbiter.port(clientId);
 
       switch (data.type) {
         case "key":
           if (isValidKey(data.key)) {
-            await this.inputRoutes.pressKey(data.key);
+            await this.inputRoutes.pressKey(data.key, port);
           }
           break;
 
         case "keys":
           if (data.press && isValidKey(data.press)) {
             if (data.hold && isValidKey(data.hold)) {
-              await this.inputRoutes.pressCombo(data.hold, data.press);
+              await this.inputRoutes.pressCombo(data.hold, data.press, port);
             } else {
-              await this.inputRoutes.pressKey(data.press);
+              await this.inputRoutes.pressKey(data.press, port);
             }
           }
           break;
 
+        // Held buttons (full bitmask, merged with other clients)
+        case "buttons":
+          if (typeof data.bitmask === "number" && data.bitmask >= 0 && data.bitmask <= 255) {
+            await port.sendKeys(data.bitmask);
+          }
+          break;
+
         case "note":
-          await this.connection.sendNoteOn(data.note, data.vel ?? 100);
+          await port.sendNoteOn(data.note, data.vel ?? 100);
           break;
 
         case "noteOff":
-          await this.connection.sendNoteOff();
+          await port.sendNoteOff();
+          break;
+
+        case "macro": {
+          const { status, body } = await this.macroRoutes.runMacro(data, port.sendKeys);
+          reply({ type: "macro", code: status, ...body });
+          break;
+        }
+
+        // Only a client that may send input can stop a macro (non-player /control clients are observers)
+        case "macroCancel": {
+          const reason = this.arbiter.checkInput(clientId);
+          if (reason !== null) {
+            reply({ type: "rejected", error: reason });
+            break;
+          }
+          this.macroRoutes.cancel();
+          break;
+        }
+
+        // Clock sync for capture timestamps: {t0} → {type: "clock", t0, serverTime, playoutDelayMs}
+        case "clock":
+          if (typeof data.t0 === "number") reply(clockSync(data.t0, this.playoutDelayMs));
+          break;
+
+        // Driver lock: {action: "request" | "release" | "grant", to?}
+        case "lock":
+          if (data.action === "request") {
+            reply({ type: "lock", lock: await this.arbiter.requestLock(clientId) });
+          } else if (data.action === "release") {
+            reply({ type: "lock", released: await this.arbiter.releaseLock(clientId) });
+          } else if (data.action === "grant" && typeof data.to === "string") {
+            await this.arbiter.grantLock(clientId, data.to);
+          }
           break;
       }
     } catch (err) {
+      if (err instanceof InputRejectedError) {
+        reply({ type: "rejected", error: err.message });
+        return;
+      }
       console.error("WebSocket message error:", err);
     }
   }
@@ -643,13 +1122,27 @@ export class M8Server {
    * Broadcast raw display data (SLIP frames) to display clients
    * Used by m8c-websocket for clean binary streaming
    */
-  broadcastDisplay(data: Uint8Array): void {
+  broadcastDisplay(data: Uint8Array, timestamp = nowMicros()): void {
+    for (const stats of this.displayStats.values()) stats.rawBytes += data.length;
+    this.sendDisplay(this.displayClients, data, timestamp);
+  }
+
+  /**
+   * Send delta-filtered SLIP frames to /display?mode=delta clients
+   */
+  broadcastDisplayDelta(frames: Uint8Array, timestamp = nowMicros()): void {
+    this.sendDisplay(this.displayDeltaClients, frames, timestamp);
+  }
+
+  private sendDisplay(clients: Set<WebSocket>, data: Uint8Array, timestamp: number): void {
     // Snapshot to avoid "Set modified during iteration" race condition
-    const clients = [...this.displayClients];
-    for (const ws of clients) {
+    for (const ws of [...clients]) {
       try {
         if (ws.readyState === ws.OPEN) {
-          ws.send(data);
+          const message = this.displayMessage(ws, data, timestamp);
+          ws.send(message);
+          const stats = this.displayStats.get(ws);
+          if (stats) stats.bytes += message.length;
         }
       } catch {
         // Ignore send errors on closed connections
@@ -657,6 +1150,24 @@ export class M8Server {
     }
   }
 
+  /**
+   * /display message: SLIP bytes, behind the capture time for ?timestamps=1 clients
+   */
+  private displayMessage(ws: WebSocket, data: Uint8Array, timestamp: number): Uint8Array {
+    if (!this.displayTimestampClients.has(ws)) return data;
+    const message = Buffer.alloc(8 + data.length);
+    message.writeBigUInt64BE(BigInt(Math.max(0, timestamp)), 0);
+    message.set(data, 8);
+    return message;
+  }
+
+  /**
+   * Per-client /display stream statistics
+   */
+  getDisplayStats(): DisplayClientStats[] {
+    return [...this.displayStats.values()].map((stats) => ({ ...stats }));
+  }
+
   /**
    * Broadcast command to clients
    */
@@ -671,6 +1182,43 @@ export class M8Server {
       this.screenDirty = true;
       this.scheduleScreenBroadcast();
     }
+
+    // Screen content changed: re-check tracked state once the redraw settles
+    if (cmd.type === "text" || cmd.type === "rect") {
+      this.scheduleStateSync();
+    }
+  }
+
+  /**
+   * Reconcile state tracker with the text buffer (debounced - M8 redraws in bursts)
+   */
+  private scheduleStateSync(): void {
+    if (this.stateSyncTimer) clearTimeout(this.stateSyncTimer);
+
+    this.stateSyncTimer = setTimeout(() => {
+      this.stateSyncTimer = null;
+      this.stateTracker.verify(observeScreen(this.buffer));
+
+      // Push state to control clients when it changed
+      const state = this.stateTracker.toJSON();
+      const json = JSON.stringify({ ...state, lastVerified: 0 });
+      if (json !== this.lastStateJson) {
+        this.lastStateJson = json;
+        this.broadcastControl({ type: "state", state });
+      }
+    }, STATE_SYNC_DELAY_MS);
+  }
+
+  /**
+   * Send JSON message to /control clients
+   */
+  private broadcastControl(data: object): void {
+    const message = JSON.stringify(data);
+    for (const ws of this.controlClients) {
+      if (ws.readyState === ws.OPEN) {
+        ws.send(message);
+      }
+    }
   }
 
   /**
@@ -737,6 +1285,10 @@ export class M8Server {
       clearInterval(this.jpegBroadcastInterval);
       this.jpegBroadcastInterval = null;
     }
+    if (this.stateSyncTimer) {
+      clearTimeout(this.stateSyncTimer);
+      this.stateSyncTimer = null;
+    }
     this.audioStreamer.stop();
     this.wss?.close();
     this.server?.close();
@@ -751,6 +1303,13 @@ export class M8Server {
     return this.clients.size;
   }
 
+  /**
+   * Finalize an audio recording in progress (before shutdown)
+   */
+  async stopRecording(): Promise<void> {
+    await this.recordingRoutes.finish();
+  }
+
   /**
    * Restart audio streaming (called after USB reconnect)
    */
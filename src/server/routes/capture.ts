@@ -0,0 +1,116 @@
+/**
+ * Capture Routes - Single Responsibility: serial session recording
+ */
+
+import type { ServerResponse } from "http";
+import { readFile } from "fs/promises";
+import { basename, join } from "path";
+import { jsonResponse, decodePathParam } from "../helpers";
+import {
+  CAPTURE_EXTENSION,
+  writeCaptureFile,
+  type SerialCapture,
+} from "../../serial/capture";
+
+export interface CaptureDependencies {
+  capture: SerialCapture | null;
+  dir: string;               // Where .m8cap files are saved
+}
+
+/**
+ * Create capture route handlers
+ * @param deps Dependencies injected (Dependency Inversion)
+ */
+export function createCaptureRoutes(deps: CaptureDependencies) {
+  const unavailable = (res: ServerResponse): boolean => {
+    if (deps.capture) return false;
+    jsonResponse(res, { error: "Capture not available" }, 501);
+    return true;
+  };
+
+  return {
+    /**
+     * GET /api/capture
+     * Returns capture status
+     */
+    getStatus(res: ServerResponse): void {
+      if (unavailable(res)) return;
+      jsonResponse(res, deps.capture!.getStats());
+    },
+
+    /**
+     * POST /api/capture/start
+     * Starts recording serial traffic (in + out)
+     */
+    postStart(res: ServerResponse): void {
+      if (unavailable(res)) return;
+      if (deps.capture!.isRecording()) {
+        jsonResponse(res, { error: "Already capturing" }, 400);
+        return;
+      }
+      deps.capture!.start();
+      jsonResponse(res, { ok: true, recording: true });
+    },
+
+    /**
+     * POST /api/capture/stop
+     * Stops recording and saves the session as .m8cap
+     */
+    async postStop(res: ServerResponse): Promise<void> {
+      if (unavailable(res)) return;
+      if (!deps.capture!.isRecording()) {
+        jsonResponse(res, { error: "Not capturing" }, 400);
+        return;
+      }
+
+      const stats = deps.capture!.getStats();
+      const session = deps.capture!.stop();
+      const stamp = new Date(session.startedAt).toISOString().replace(/[:.]/g, "-");
+      const file = `m8-${stamp}${CAPTURE_EXTENSION}`;
+
+      try {
+        const size = await writeCaptureFile(join(deps.dir, file), session);
+        jsonResponse(res, {
+          ok: true,
+          file,
+          size,
+          records: stats.records,
+          bytesIn: stats.bytesIn,
+          bytesOut: stats.bytesOut,
+          duration: stats.duration,
+          limitReached: stats.limitReached,
+        });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Failed to save capture";
+        jsonResponse(res, { error: msg }, 500);
+      }
+    },
+
+    /**
+     * GET /api/capture/file/:name
+     * Downloads a saved .m8cap file
+     */
+    async getFile(res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      // basename() blocks path traversal
+      const file = basename(name);
+      if (!file.endsWith(CAPTURE_EXTENSION)) {
+        jsonResponse(res, { error: "Invalid capture file name" }, 400);
+        return;
+      }
+
+      try {
+        const data = await readFile(join(deps.dir, file));
+        res.writeHead(200, {
+          "Content-Type": "application/octet-stream",
+          "Content-Length": data.length,
+          "Content-Disposition": `attachment; filename="${file}"`,
+        });
+        res.end(data);
+      } catch {
+        jsonResponse(res, { error: "Capture not found" }, 404);
+      }
+    },
+  };
+}
@@ -4,13 +4,13 @@
 
 import type { IncomingMessage, ServerResponse } from "http";
 import { jsonResponse, parseBody, delay } from "../helpers";
-import type { M8Connection } from "../../serial/connection";
+import type { InputPort } from "../../input/arbiter";
 import type { M8StateTracker } from "../../state/tracker";
 import { keyToBitmask, isValidKey, createCombo } from "../../input/keys";
 import type { M8KeyName } from "../../state/types";
 
 export interface InputDependencies {
-  connection: M8Connection;
+  connection: InputPort;      // HTTP client's input (arbitrated)
   stateTracker: M8StateTracker;
 }
 
@@ -21,23 +21,25 @@ export interface InputDependencies {
 export function createInputRoutes(deps: InputDependencies) {
   /**
    * Press single key helper
+   * @param port Client input to use (default: HTTP client)
    */
-  async function pressKey(key: M8KeyName): Promise<void> {
+  async function pressKey(key: M8KeyName, port: InputPort = deps.connection): Promise<void> {
     const bitmask = keyToBitmask(key);
     console.log("pressKey:", key, "bitmask:", bitmask);
-    await deps.connection.sendKeys(bitmask);
+    await port.sendKeys(bitmask);
     await delay(50);
-    await deps.connection.sendKeys(0);
+    await port.sendKeys(0);
     deps.stateTracker.onKey(key);
   }
 
   /**
    * Press key combo helper
+   * @param port Client input to use (default: HTTP client)
    */
-  async function pressCombo(hold: M8KeyName, press: M8KeyName): Promise<void> {
+  async function pressCombo(hold: M8KeyName, press: M8KeyName, port: InputPort = deps.connection): Promise<void> {
     const sequence = createCombo(hold, press);
     for (const step of sequence) {
-      await deps.connection.sendKeys(step.bitmask);
+      await port.sendKeys(step.bitmask);
       if (step.duration > 0) {
         await delay(step.duration);
       }
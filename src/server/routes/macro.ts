@@ -0,0 +1,168 @@
+/**
+ * Macro Routes - Single Responsibility: key macros (run, cancel, saved macros)
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { jsonResponse, parseBody, decodePathParam } from "../helpers";
+import { parseMacro, MacroSyntaxError, type MacroRunner, type MacroRunStatus } from "../../input/macro";
+import { isValidMacroName, type MacroStore } from "../../input/macro-store";
+
+export interface MacroDependencies {
+  runner: MacroRunner;
+  store: MacroStore;
+}
+
+// HTTP status per run outcome: refused input is the caller's condition (423, like the input routes)
+const RUN_STATUS_CODES: Record<MacroRunStatus, number> = { done: 200, cancelled: 200, rejected: 423, error: 500 };
+
+export interface MacroRequest {
+  macro?: string;          // Macro text, e.g. "shift+right, down*4"
+  name?: string;           // Or a saved macro
+}
+
+/**
+ * Create macro route handlers
+ * @param deps Dependencies injected (Dependency Inversion)
+ */
+export function createMacroRoutes(deps: MacroDependencies) {
+  /**
+   * Resolve, parse and run a macro; shared by POST /api/macro and the /control message
+   * Returns the HTTP status and body to report
+   * @param sendKeys Input of the requesting client (default: runner's)
+   */
+  async function runMacro(
+    request: MacroRequest,
+    sendKeys?: (bitmask: number) => Promise<void>
+  ): Promise<{ status: number; body: object }> {
+    let source = request.macro;
+    let label = source ?? "";
+
+    if (typeof source !== "string") {
+      if (typeof request.name !== "string") {
+        return { status: 400, body: { error: "macro or name required" } };
+      }
+      const saved = await deps.store.get(request.name);
+      if (!saved) return { status: 404, body: { error: `Macro not found: ${request.name}` } };
+      source = saved.macro;
+      label = saved.name;
+    }
+
+    let actions;
+    try {
+      actions = parseMacro(source);
+    } catch (err) {
+      if (err instanceof MacroSyntaxError) {
+        return { status: 400, body: { error: err.message, position: err.position } };
+      }
+      throw err;
+    }
+
+    if (deps.runner.isBusy()) {
+      return { status: 409, body: { error: "Macro already running", running: deps.runner.getStatus() } };
+    }
+
+    const result = await deps.runner.run(actions, label, sendKeys);
+    const status = RUN_STATUS_CODES[result.status];
+    return { status, body: { ok: status === 200, ...result } };
+  }
+
+  return {
+    /**
+     * POST /api/macro
+     * Body: { macro } or { name } - responds when the macro finished or was cancelled
+     * @param sendKeys Input of the requesting client (default: runner's)
+     */
+    async postMacro(
+      req: IncomingMessage,
+      res: ServerResponse,
+      sendKeys?: (bitmask: number) => Promise<void>
+    ): Promise<void> {
+      const body = await parseBody<MacroRequest>(req);
+      const { status, body: response } = await runMacro(body, sendKeys);
+      jsonResponse(res, response, status);
+    },
+
+    /**
+     * GET /api/macro
+     * Returns the running macro (null when idle)
+     */
+    getStatus(res: ServerResponse): void {
+      jsonResponse(res, { running: deps.runner.getStatus() });
+    },
+
+    /**
+     * POST /api/macro/cancel
+     * Stops the running macro and releases all keys
+     */
+    postCancel(res: ServerResponse): void {
+      jsonResponse(res, { ok: true, cancelled: deps.runner.cancel() });
+    },
+
+    /**
+     * GET /api/macros
+     * Lists saved macros
+     */
+    async getSaved(res: ServerResponse): Promise<void> {
+      jsonResponse(res, { macros: await deps.store.list() });
+    },
+
+    /**
+     * GET /api/macros/:name
+     */
+    async getSavedMacro(res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      const saved = await deps.store.get(name);
+      if (!saved) {
+        jsonResponse(res, { error: "Macro not found" }, 404);
+        return;
+      }
+      jsonResponse(res, saved);
+    },
+
+    /**
+     * POST /api/macros
+     * Body: { name, macro, description? } - saves or replaces a macro
+     */
+    async postSaved(req: IncomingMessage, res: ServerResponse): Promise<void> {
+      const body = await parseBody<{ name?: string; macro?: string; description?: string }>(req);
+      if (typeof body.name !== "string" || !isValidMacroName(body.name)) {
+        jsonResponse(res, { error: "Invalid name (letters, digits, - and _, max 64)" }, 400);
+        return;
+      }
+      if (typeof body.macro !== "string") {
+        jsonResponse(res, { error: "macro required" }, 400);
+        return;
+      }
+
+      try {
+        const saved = await deps.store.save(body.name, body.macro, body.description ?? "");
+        jsonResponse(res, { ok: true, macro: saved });
+      } catch (err) {
+        if (err instanceof MacroSyntaxError) {
+          jsonResponse(res, { error: err.message, position: err.position }, 400);
+          return;
+        }
+        const msg = err instanceof Error ? err.message : "Failed to save macro";
+        jsonResponse(res, { error: msg }, 500);
+      }
+    },
+
+    /**
+     * DELETE /api/macros/:name
+     */
+    async deleteSaved(res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      if (!(await deps.store.delete(name))) {
+        jsonResponse(res, { error: "Macro not found" }, 404);
+        return;
+      }
+      jsonResponse(res, { ok: true });
+    },
+
+    // Expose for WebSocket handler
+    runMacro,
+    cancel: () => deps.runner.cancel(),
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Navigate Routes - Single Responsibility: high-level "go to" requests
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { jsonResponse, parseBody } from "../helpers";
+import type { Navigator, NavigationTarget, NavigatorInput } from "../../state/navigator";
+import type { M8Screen } from "../../state/types";
+
+export interface NavigateDependencies {
+  navigator: Navigator;
+}
+
+const SCREENS: M8Screen[] = [
+  "LIVE", "SONG", "CHAIN", "PHRASE", "INST", "TABLE",
+  "PROJECT", "MIXER", "EFFECTS", "GROOVE", "SCALE",
+];
+
+// Views whose number can be targeted
+const NUMBERED_SCREENS: M8Screen[] = ["CHAIN", "PHRASE", "INST", "TABLE"];
+
+/**
+ * Accept numbers as JSON numbers or hex strings ("0A")
+ */
+function parseNumber(value: unknown, max: number): number | null | undefined {
+  if (value === undefined) return undefined;
+  const parsed = typeof value === "string" && /^[0-9a-fA-F]{1,2}$/.test(value)
+    ? parseInt(value, 16)
+    : value;
+  return typeof parsed === "number" && Number.isInteger(parsed) && parsed >= 0 && parsed <= max
+    ? parsed
+    : null;
+}
+
+/**
+ * Create navigate route handlers
+ * @param deps Dependencies injected (Dependency Inversion)
+ */
+export function createNavigateRoutes(deps: NavigateDependencies) {
+  return {
+    /**
+     * POST /api/navigate
+     * Body: { screen, number?, row?, col? } - number may be hex string ("0A")
+     * Returns final verified state, or 409 with the screen navigation got stuck on
+     * @param input Key input of the requesting client (default: navigator's)
+     */
+    async postNavigate(req: IncomingMessage, res: ServerResponse, input?: NavigatorInput): Promise<void> {
+      const body = await parseBody<{ screen?: string; number?: unknown; row?: unknown; col?: unknown }>(req);
+      const screen = body.screen?.toUpperCase() as M8Screen | undefined;
+
+      if (!screen || !SCREENS.includes(screen)) {
+        jsonResponse(res, { error: `Invalid screen (${SCREENS.join(", ")})` }, 400);
+        return;
+      }
+
+      const number = parseNumber(body.number, 0xff);
+      const row = parseNumber(body.row, 0xff);
+      const col = typeof body.col === "number" ? parseNumber(body.col, 15) : body.col === undefined ? undefined : null;
+      if (number === null || row === null || col === null) {
+        jsonResponse(res, { error: "number/row must be 0-255 (or hex string), col 0-15" }, 400);
+        return;
+      }
+      if (number !== undefined && !NUMBERED_SCREENS.includes(screen)) {
+        jsonResponse(res, { error: `${screen} has no number` }, 400);
+        return;
+      }
+
+      if (deps.navigator.isBusy()) {
+        jsonResponse(res, { error: "Navigation already in progress" }, 409);
+        return;
+      }
+
+      const target: NavigationTarget = { screen, number, row, col };
+      const result = await deps.navigator.navigate(target, input);
+      jsonResponse(res, result, result.ok ? 200 : 409);
+    },
+  };
+}
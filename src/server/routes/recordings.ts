@@ -0,0 +1,346 @@
+/**
+ * Recording Routes - Single Responsibility: audio recordings (start/stop, instant replay, list, download,
+ * delete, rename)
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { readFile } from "fs/promises";
+import { jsonResponse, parseBody, delay, decodePathParam } from "../helpers";
+import { CAPTURE_EXTENSION, writeCaptureFile, type CaptureData } from "../../serial/capture";
+import {
+  createRecordingWriter,
+  defaultRecordingName,
+  isRecordingFormat,
+  isValidRecordingName,
+  recordingContentType,
+  type PcmFormat,
+  type Recording,
+  type RecordingFormat,
+  type RecordingStore,
+  type RecordingSummary,
+} from "../../audio/recordings";
+
+/**
+ * Where recordings come from (UsbAudioStreamer: the live capture feed)
+ */
+export interface RecordingSource {
+  startRecording(filePath: string, format: RecordingFormat): Promise<void>;
+  stopRecording(): Promise<RecordingSummary | null>;
+}
+
+export interface RecordingDependencies {
+  source: RecordingSource;
+  store: RecordingStore;
+  format: PcmFormat;          // Layout of the source's PCM
+  replaySeconds?: number;     // Length of the instant-replay window
+  getReplay?: (seconds: number) => { pcm: Buffer; startedAt: number } | null;
+  getDisplayHistory?: (from: number, to: number) => CaptureData | null;
+}
+
+interface ActiveRecording {
+  name: string;
+  format: RecordingFormat;
+  startedAt: Date;
+}
+
+/**
+ * Create recording route handlers
+ * @param deps Dependencies injected (Dependency Inversion)
+ */
+export function createRecordingRoutes(deps: RecordingDependencies) {
+  let active: ActiveRecording | null = null;
+
+  const status = (recording: ActiveRecording) => ({
+    name: recording.name,
+    format: recording.format,
+    startedAt: recording.startedAt.toISOString(),
+    duration: (Date.now() - recording.startedAt.getTime()) / 1000,
+  });
+
+  /**
+   * Start recording; returns the HTTP status and body to report
+   */
+  async function start(request: { name?: string; format?: string }): Promise<{ status: number; body: object }> {
+    if (active) return { status: 400, body: { error: "Already recording", recording: status(active) } };
+
+    const format = request.format ?? "wav";
+    if (!isRecordingFormat(format)) return { status: 400, body: { error: "format must be wav or flac" } };
+    const name = request.name ?? defaultRecordingName();
+    if (!isValidRecordingName(name)) return { status: 400, body: { error: "Invalid name (letters, digits, - and _, max 64)" } };
+    if (await deps.store.exists(name)) return { status: 409, body: { error: `Recording already exists: ${name}` } };
+
+    const recording: ActiveRecording = { name, format, startedAt: new Date() };
+    active = recording; // Claimed before awaiting, so concurrent starts are refused
+    try {
+      await deps.source.startRecording(await deps.store.prepare(name, format), format);
+    } catch (err) {
+      active = null;
+      const msg = err instanceof Error ? err.message : "Failed to start recording";
+      return { status: 500, body: { error: msg } };
+    }
+    return { status: 200, body: { ok: true, recording: status(recording) } };
+  }
+
+  /**
+   * Stop recording and save its metadata
+   * @returns The saved recording, null if not recording
+   */
+  async function stop(): Promise<Recording | null> {
+    if (!active) return null;
+    const { name, format, startedAt } = active;
+    active = null;
+
+    const summary = await deps.source.stopRecording();
+    const recording: Recording = {
+      name,
+      format,
+      file: `${name}.${format}`,
+      ...deps.format,
+      duration: (summary?.frames ?? 0) / deps.format.sampleRate,
+      size: summary?.size ?? 0,
+      startedAt: startedAt.toISOString(),
+      stoppedAt: new Date().toISOString(),
+    };
+    await deps.store.save(recording);
+    return recording;
+  }
+
+  async function sendAudio(res: ServerResponse, recording: Recording): Promise<void> {
+    const data = await readFile(deps.store.audioPath(recording));
+    res.writeHead(200, {
+      "Content-Type": recordingContentType(recording.format),
+      "Content-Length": data.length,
+      "Content-Disposition": `attachment; filename="${recording.file}"`,
+    });
+    res.end(data);
+  }
+
+  return {
+    /**
+     * GET /api/recordings
+     * Lists saved recordings (newest first) and the one in progress
+     */
+    async getList(res: ServerResponse): Promise<void> {
+      jsonResponse(res, {
+        recording: active ? status(active) : null,
+        recordings: await deps.store.list(),
+      });
+    },
+
+    /**
+     * POST /api/recordings/start
+     * Body: { name?, format?: "wav" | "flac" } - records the live capture feed
+     */
+    async postStart(req: IncomingMessage, res: ServerResponse): Promise<void> {
+      const body = await parseBody<{ name?: string; format?: string }>(req);
+      const { status: code, body: response } = await start(body);
+      jsonResponse(res, response, code);
+    },
+
+    /**
+     * POST /api/recordings/stop
+     * Finalizes the file and returns the saved recording
+     */
+    async postStop(res: ServerResponse): Promise<void> {
+      try {
+        const recording = await stop();
+        if (!recording) {
+          jsonResponse(res, { error: "Not recording" }, 400);
+          return;
+        }
+        jsonResponse(res, { ok: true, recording });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Failed to save recording";
+        jsonResponse(res, { error: msg }, 500);
+      }
+    },
+
+    /**
+     * GET /api/audio/record?duration=N
+     * Records N seconds (1-300) and responds with the file
+     */
+    async getTimed(res: ServerResponse, seconds: number, format = "wav"): Promise<void> {
+      if (!Number.isFinite(seconds) || seconds < 1 || seconds > 300) {
+        jsonResponse(res, { error: "Duration must be 1-300 seconds" }, 400);
+        return;
+      }
+      const started = await start({ format });
+      if (started.status !== 200) {
+        jsonResponse(res, started.body, started.status);
+        return;
+      }
+
+      await delay(seconds * 1000);
+      try {
+        const recording = await stop();
+        if (!recording) {
+          jsonResponse(res, { error: "Recording was stopped" }, 409);
+          return;
+        }
+        await sendAudio(res, recording);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Recording failed";
+        jsonResponse(res, { error: msg }, 500);
+      }
+    },
+
+    /**
+     * POST /api/audio/replay
+     * Body: { seconds?, display?, name? } - saves the last N seconds of audio (default: the whole
+     * window) as a WAV recording, with the matching screen as <name>.m8cap when display is set
+     */
+    async postReplay(req: IncomingMessage, res: ServerResponse): Promise<void> {
+      const maxSeconds = deps.replaySeconds ?? 0;
+      if (!deps.getReplay || maxSeconds <= 0) {
+        jsonResponse(res, { error: "Instant replay not available" }, 501);
+        return;
+      }
+
+      const body = await parseBody<{ seconds?: number; display?: boolean; name?: string }>(req);
+      const seconds = body.seconds ?? maxSeconds;
+      if (typeof seconds !== "number" || !(seconds >= 1) || seconds > maxSeconds) {
+        jsonResponse(res, { error: `seconds must be 1-${maxSeconds}` }, 400);
+        return;
+      }
+      const name = body.name ?? defaultRecordingName(new Date(), "replay");
+      if (!isValidRecordingName(name)) {
+        jsonResponse(res, { error: "Invalid name (letters, digits, - and _, max 64)" }, 400);
+        return;
+      }
+      if (await deps.store.exists(name)) {
+        jsonResponse(res, { error: `Recording already exists: ${name}` }, 409);
+        return;
+      }
+
+      const replay = deps.getReplay(seconds);
+      if (!replay) {
+        jsonResponse(res, { error: "No audio captured yet" }, 409);
+        return;
+      }
+
+      try {
+        const writer = createRecordingWriter(await deps.store.prepare(name, "wav"), "wav", deps.format);
+        writer.write(replay.pcm);
+        const summary = await writer.close();
+        const duration = summary.frames / deps.format.sampleRate;
+        const stoppedAt = replay.startedAt + duration * 1000;
+
+        const recording: Recording = {
+          name,
+          format: "wav",
+          file: `${name}.wav`,
+          ...deps.format,
+          duration,
+          size: summary.size,
+          startedAt: new Date(replay.startedAt).toISOString(),
+          stoppedAt: new Date(stoppedAt).toISOString(),
+        };
+        const capture = body.display ? deps.getDisplayHistory?.(replay.startedAt, stoppedAt) : null;
+        if (capture) {
+          recording.display = `${name}${CAPTURE_EXTENSION}`;
+          await writeCaptureFile(deps.store.displayPath(recording)!, capture);
+        }
+        await deps.store.save(recording);
+        jsonResponse(res, { ok: true, recording });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Failed to save replay";
+        jsonResponse(res, { error: msg }, 500);
+      }
+    },
+
+    /**
+     * GET /api/recordings/:name/display
+     * Downloads the screen capture saved with an instant replay
+     */
+    async getDisplay(res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      const recording = await deps.store.get(name);
+      const path = recording && deps.store.displayPath(recording);
+      if (!recording || !path) {
+        jsonResponse(res, { error: "Screen capture not found" }, 404);
+        return;
+      }
+      try {
+        const data = await readFile(path);
+        res.writeHead(200, {
+          "Content-Type": "application/octet-stream",
+          "Content-Length": data.length,
+          "Content-Disposition": `attachment; filename="${recording.display}"`,
+        });
+        res.end(data);
+      } catch {
+        jsonResponse(res, { error: "Screen capture not found" }, 404);
+      }
+    },
+
+    /**
+     * GET /api/recordings/:name
+     * Downloads the audio file
+     */
+    async getFile(res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      const recording = await deps.store.get(name);
+      if (!recording) {
+        jsonResponse(res, { error: "Recording not found" }, 404);
+        return;
+      }
+      await sendAudio(res, recording);
+    },
+
+    /**
+     * DELETE /api/recordings/:name
+     */
+    async deleteRecording(res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      if (active?.name === name) {
+        jsonResponse(res, { error: "Recording in progress" }, 409);
+        return;
+      }
+      if (!(await deps.store.delete(name))) {
+        jsonResponse(res, { error: "Recording not found" }, 404);
+        return;
+      }
+      jsonResponse(res, { ok: true });
+    },
+
+    /**
+     * POST /api/recordings/:name/rename
+     * Body: { name } - the new name
+     */
+    async postRename(req: IncomingMessage, res: ServerResponse, param: string): Promise<void> {
+      const name = decodePathParam(res, param);
+      if (name === null) return;
+      const body = await parseBody<{ name?: string }>(req);
+      if (typeof body.name !== "string" || !isValidRecordingName(body.name)) {
+        jsonResponse(res, { error: "Invalid name (letters, digits, - and _, max 64)" }, 400);
+        return;
+      }
+      if (active?.name === name) {
+        jsonResponse(res, { error: "Recording in progress" }, 409);
+        return;
+      }
+
+      try {
+        const recording = await deps.store.rename(name, body.name);
+        if (!recording) {
+          jsonResponse(res, { error: "Recording not found" }, 404);
+          return;
+        }
+        jsonResponse(res, { ok: true, recording });
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : "Failed to rename recording";
+        jsonResponse(res, { error: msg }, 409);
+      }
+    },
+
+    /**
+     * Finalize a recording in progress (shutdown)
+     */
+    async finish(): Promise<void> {
+      await stop();
+    },
+  };
+}
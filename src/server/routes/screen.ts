@@ -6,12 +6,49 @@ import type { ServerResponse } from "http";
 import { jsonResponse } from "../helpers";
 import type { TextBuffer } from "../../display/buffer";
 import type { Framebuffer } from "../../display/framebuffer";
+import { buildPalette, toIndexed, type RgbaFrame } from "../../display/indexed";
+import { encodeApng, type AnimationFrame } from "../../display/png";
+import { encodeGif } from "../../display/gif";
+import { parseTextBuffer } from "../../display/screen-parser";
+
+// Limits for query parameters
+export const MAX_SCALE = 8;
+export const MAX_CLIP_SECONDS = 30;
+export const MAX_CLIP_FPS = 30;
+const DEFAULT_CLIP_FPS = 10;
+
+export type ClipFormat = "gif" | "apng";
+
+const CLIP_CONTENT_TYPES: Record<ClipFormat, string> = {
+  gif: "image/gif",
+  apng: "image/apng",
+};
 
 export interface ScreenDependencies {
   buffer: TextBuffer;
   framebuffer: Framebuffer | null;
 }
 
+/**
+ * Parse an integer query parameter within [min, max]
+ * Returns fallback when absent, null when invalid
+ */
+function parseIntParam(value: string | null, fallback: number, min: number, max: number): number | null {
+  if (value === null || value === "") return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = parseInt(value, 10);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+function sendImage(res: ServerResponse, contentType: string, data: Buffer): void {
+  res.writeHead(200, {
+    "Content-Type": contentType,
+    "Content-Length": data.length,
+    "Cache-Control": "no-cache",
+  });
+  res.end(data);
+}
+
 /**
  * Create screen route handlers
  * @param deps Dependencies injected (Dependency Inversion)
@@ -35,6 +72,14 @@ export function createScreenRoutes(deps: ScreenDependencies) {
       res.end(deps.buffer.toText());
     },
 
+    /**
+     * GET /api/screen/parsed
+     * Returns the recognized view with typed data (phrase steps, chain rows, params, ...)
+     */
+    getParsed(res: ServerResponse): void {
+      jsonResponse(res, parseTextBuffer(deps.buffer));
+    },
+
     /**
      * GET /api/screen/image
      * Returns screen as BMP image
@@ -52,5 +97,78 @@ export function createScreenRoutes(deps: ScreenDependencies) {
       });
       res.end(Buffer.from(bmp));
     },
+
+    /**
+     * GET /api/screen/image.png?scale=N
+     * Returns screen as palette PNG, upscaled 1-8x (nearest neighbour)
+     */
+    getImagePng(res: ServerResponse, params: URLSearchParams): void {
+      if (!deps.framebuffer) {
+        jsonResponse(res, { error: "Framebuffer not available" }, 500);
+        return;
+      }
+      const scale = parseIntParam(params.get("scale"), 1, 1, MAX_SCALE);
+      if (scale === null) {
+        jsonResponse(res, { error: `scale must be an integer 1-${MAX_SCALE}` }, 400);
+        return;
+      }
+      sendImage(res, "image/png", deps.framebuffer.toPNG(scale));
+    },
+
+    /**
+     * GET /api/screen/clip?seconds=N&format=gif|apng&scale=N&fps=N
+     * Records the screen for N seconds and returns an animated GIF (default) or APNG
+     */
+    async getClip(res: ServerResponse, params: URLSearchParams): Promise<void> {
+      const framebuffer = deps.framebuffer;
+      if (!framebuffer) {
+        jsonResponse(res, { error: "Framebuffer not available" }, 500);
+        return;
+      }
+
+      const seconds = parseIntParam(params.get("seconds"), 3, 1, MAX_CLIP_SECONDS);
+      const scale = parseIntParam(params.get("scale"), 1, 1, MAX_SCALE);
+      const fps = parseIntParam(params.get("fps"), DEFAULT_CLIP_FPS, 1, MAX_CLIP_FPS);
+      const format = params.get("format") ?? "gif";
+
+      if (seconds === null) {
+        jsonResponse(res, { error: `seconds must be an integer 1-${MAX_CLIP_SECONDS}` }, 400);
+        return;
+      }
+      if (scale === null) {
+        jsonResponse(res, { error: `scale must be an integer 1-${MAX_SCALE}` }, 400);
+        return;
+      }
+      if (fps === null) {
+        jsonResponse(res, { error: `fps must be an integer 1-${MAX_CLIP_FPS}` }, 400);
+        return;
+      }
+      if (format !== "gif" && format !== "apng") {
+        jsonResponse(res, { error: "format must be gif or apng" }, 400);
+        return;
+      }
+
+      // Sample the framebuffer at a fixed rate
+      const intervalMs = 1000 / fps;
+      const count = seconds * fps;
+      const snapshots: RgbaFrame[] = [];
+      for (let i = 0; i < count; i++) {
+        if (i > 0) await new Promise((resolve) => setTimeout(resolve, intervalMs));
+        snapshots.push(framebuffer.snapshot());
+      }
+
+      // Frames must share size (a SYSTEM command may resize mid-clip)
+      const last = snapshots[snapshots.length - 1]!;
+      const sameSize = snapshots.filter((f) => f.width === last.width && f.height === last.height);
+
+      const palette = buildPalette(sameSize);
+      const frames: AnimationFrame[] = sameSize.map((snapshot) => ({
+        image: toIndexed(snapshot, palette, scale),
+        delayMs: intervalMs,
+      }));
+
+      const data = format === "gif" ? encodeGif(frames) : encodeApng(frames);
+      sendImage(res, CLIP_CONTENT_TYPES[format], data);
+    },
   };
 }
@@ -0,0 +1,64 @@
+/**
+ * Session Routes - Single Responsibility: shared input session (driver lock)
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { jsonResponse, parseBody } from "../helpers";
+import { InputRejectedError, type InputArbiter } from "../../input/arbiter";
+
+export interface SessionDependencies {
+  arbiter: InputArbiter;
+  clientId: string;          // Arbiter client used for HTTP requests
+}
+
+/**
+ * Create session route handlers
+ * @param deps Dependencies injected (Dependency Inversion)
+ */
+export function createSessionRoutes(deps: SessionDependencies) {
+  return {
+    /**
+     * GET /api/session
+     * Returns the lock holder, pending requests and connected input clients
+     */
+    getSession(res: ServerResponse): void {
+      jsonResponse(res, { clientId: deps.clientId, ...deps.arbiter.getSession() });
+    },
+
+    /**
+     * POST /api/session/lock
+     * Body: { action: "request" | "release" | "grant", to? } - acts as the HTTP client
+     */
+    async postLock(req: IncomingMessage, res: ServerResponse): Promise<void> {
+      const body = await parseBody<{ action?: string; to?: string }>(req);
+      const { arbiter, clientId } = deps;
+
+      try {
+        switch (body.action) {
+          case "request":
+            jsonResponse(res, { ok: true, lock: await arbiter.requestLock(clientId), session: arbiter.getSession() });
+            return;
+          case "release":
+            jsonResponse(res, { ok: await arbiter.releaseLock(clientId), session: arbiter.getSession() });
+            return;
+          case "grant":
+            if (typeof body.to !== "string") {
+              jsonResponse(res, { error: "to required" }, 400);
+              return;
+            }
+            await arbiter.grantLock(clientId, body.to);
+            jsonResponse(res, { ok: true, session: arbiter.getSession() });
+            return;
+          default:
+            jsonResponse(res, { error: "action must be request, release or grant" }, 400);
+        }
+      } catch (err) {
+        if (err instanceof InputRejectedError) {
+          jsonResponse(res, { error: err.message, session: arbiter.getSession() }, 423);
+          return;
+        }
+        throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * TCP Routes - Single Responsibility: TCP proxy client status
+ */
+
+import type { ServerResponse } from "http";
+import { jsonResponse } from "../helpers";
+import type { TcpClientInfo } from "../tcp-proxy";
+
+export interface TcpDependencies {
+  getClients: (() => TcpClientInfo[]) | null; // null = TCP proxy disabled
+}
+
+/**
+ * Create TCP route handlers
+ * @param deps Dependencies injected (Dependency Inversion)
+ */
+export function createTcpRoutes(deps: TcpDependencies) {
+  return {
+    /**
+     * GET /api/tcp/clients
+     * Connected m8c clients with protocol, queue depth, drops and RTT
+     */
+    getClients(res: ServerResponse): void {
+      if (!deps.getClients) {
+        jsonResponse(res, { enabled: false, clients: [] });
+        return;
+      }
+      jsonResponse(res, { enabled: true, clients: deps.getClients() });
+    },
+  };
+}
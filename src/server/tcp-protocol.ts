@@ -0,0 +1,255 @@
+/**
+ * TCP proxy wire protocol (see PROTOCOL.md)
+ * Single Responsibility: packet framing, hello negotiation and status encoding
+ *
+ * v1: server sends framed packets (header + u16 BE length + payload), client sends raw M8 bytes
+ * v2: client opens with a framed 'H' hello, after that both directions are framed
+ */
+
+export const PROTOCOL_VERSION = 2;
+
+// Packet headers (server → client unless noted)
+export const DISPLAY_HEADER = 0x44;    // 'D' - display/SLIP data
+export const AUDIO_HEADER = 0x41;      // 'A' - audio data
+export const AUTH_HEADER = 0x54;       // 'T' - token handshake (both directions)
+export const HELLO_HEADER = 0x48;      // 'H' - version + capabilities (both directions, v2)
+export const INPUT_HEADER = 0x49;      // 'I' - raw M8 input bytes (client → server, v2)
+export const PING_HEADER = 0x50;       // 'P' - ping, payload echoed in the pong (both directions, v2)
+export const PONG_HEADER = 0x4f;       // 'O' - pong (both directions, v2)
+export const STATUS_HEADER = 0x53;     // 'S' - M8 connection status (v2)
+export const COMPRESSED_HEADER = 0x5a; // 'Z' - deflate-raw compressed packets (v2)
+export const TIMESTAMP_HEADER = 0x4d;  // 'M' - capture time of the next 'D'/'A' data (v2, timestamps capability)
+export const CLOCK_HEADER = 0x43;      // 'C' - clock sync: request (client), server time + playout delay (server)
+
+export const MAX_PAYLOAD = 0xffff;
+
+// Capability bits (hello)
+export const CAP_AUDIO = 0x0001;       // Receive 'A' audio packets
+export const CAP_DELTA = 0x0002;       // Delta-only display stream
+export const CAP_COMPRESSION = 0x0004; // Accept 'Z' compressed packets
+export const CAP_TIMESTAMPS = 0x0008;  // Receive 'M' capture timestamps
+
+// Audio codecs (hello)
+export const CODEC_PCM = 0;  // S16_LE, 44100 Hz, stereo
+export const CODEC_OPUS = 1; // Opus, 48000 Hz, stereo, one packet per 'A'
+
+// PCM sample formats (hello, in the order of SAMPLE_FORMATS)
+export const SAMPLE_S16 = 0;  // Signed 16-bit little-endian
+export const SAMPLE_F32 = 1;  // 32-bit float little-endian
+export const SAMPLE_ULAW = 2; // 8-bit G.711 µ-law
+
+// Server hello flags
+export const FLAG_AUTH_REQUIRED = 0x01;
+
+export interface Packet {
+  header: number;
+  payload: Buffer;
+}
+
+export interface Hello {
+  version: number;
+  capabilities: number;
+  codec: number;
+  opus?: { bitrate: number; frameMs: number }; // Opus settings (kbit/s, ms), 0 = server default
+  pcm?: PcmHelloFormat;                         // PCM format, 0 = capture format
+}
+
+/**
+ * PCM format a client asks for (or the server grants)
+ */
+export interface PcmHelloFormat {
+  sampleRate: number;   // Hz
+  channels: number;     // 1 or 2
+  sampleFormat: number; // SAMPLE_S16, SAMPLE_F32 or SAMPLE_ULAW
+}
+
+export interface ServerHello extends Hello {
+  flags: number;
+}
+
+/**
+ * Server clock-sync reply ('C' packet)
+ */
+export interface ClockReply {
+  serverTime: number;     // Media clock, µs
+  playoutDelayMs: number;
+  echo: Buffer;           // Client request payload
+}
+
+/**
+ * M8 connection status ('S' packet)
+ */
+export interface M8Status {
+  connected: boolean;
+  hardwareType: number | null;
+  firmware: { major: number; minor: number; patch: number } | null;
+}
+
+/**
+ * Frame a packet: header + u16 BE length + payload
+ * @throws RangeError if the payload does not fit the 16-bit length
+ */
+export function encodePacket(header: number, payload: Uint8Array = new Uint8Array(0)): Buffer {
+  if (payload.length > MAX_PAYLOAD) {
+    throw new RangeError(`Packet payload too large: ${payload.length} bytes`);
+  }
+  const packet = Buffer.allocUnsafe(3 + payload.length);
+  packet[0] = header;
+  packet.writeUInt16BE(payload.length, 1);
+  packet.set(payload, 3);
+  return packet;
+}
+
+/**
+ * Incremental packet parser for a TCP byte stream (packets may be split or concatenated)
+ */
+export class PacketParser {
+  private pending: Buffer = Buffer.alloc(0);
+
+  push(data: Uint8Array): Packet[] {
+    this.pending = this.pending.length ? Buffer.concat([this.pending, data]) : Buffer.from(data);
+    const packets: Packet[] = [];
+
+    let offset = 0;
+    while (this.pending.length - offset >= 3) {
+      const length = this.pending.readUInt16BE(offset + 1);
+      if (this.pending.length - offset < 3 + length) break;
+      packets.push({
+        header: this.pending[offset]!,
+        payload: this.pending.subarray(offset + 3, offset + 3 + length),
+      });
+      offset += 3 + length;
+    }
+
+    this.pending = this.pending.subarray(offset);
+    return packets;
+  }
+}
+
+/**
+ * Client hello payload: version u8, capabilities u16 BE, codec u8
+ * [, opus bitrate u16 BE (kbit/s), opus frame u8 (ms)
+ * [, pcm sample rate u32 BE, pcm channels u8, pcm sample format u8]]
+ * (the Opus fields are zero when only a PCM format is sent)
+ */
+export function encodeHello(hello: Hello): Buffer {
+  const payload = Buffer.alloc(hello.pcm ? 13 : hello.opus ? 7 : 4);
+  payload[0] = hello.version;
+  payload.writeUInt16BE(hello.capabilities, 1);
+  payload[3] = hello.codec;
+  if (hello.opus) writeOpus(payload, 4, hello.opus);
+  if (hello.pcm) writePcm(payload, 7, hello.pcm);
+  return encodePacket(HELLO_HEADER, payload);
+}
+
+/**
+ * Parse a client hello (missing fields default to v1 behaviour: audio, PCM)
+ */
+export function decodeHello(payload: Buffer): Hello {
+  const hello: Hello = {
+    version: payload[0] ?? PROTOCOL_VERSION,
+    capabilities: payload.length >= 3 ? payload.readUInt16BE(1) : CAP_AUDIO,
+    codec: payload[3] ?? CODEC_PCM,
+  };
+  // Followed by a PCM format, the Opus fields are only padding unless Opus was asked for
+  if (payload.length >= 7 && (payload.length < 13 || hello.codec === CODEC_OPUS)) hello.opus = readOpus(payload, 4);
+  if (payload.length >= 13) hello.pcm = readPcm(payload, 7);
+  return hello;
+}
+
+/**
+ * Server hello payload: client hello fields (as granted) + flags u8
+ * [, opus bitrate u16 BE, opus frame u8 when Opus was granted
+ * [, pcm sample rate u32 BE, pcm channels u8, pcm sample format u8 when a PCM format was granted]]
+ */
+export function encodeServerHello(hello: ServerHello): Buffer {
+  const payload = Buffer.alloc(hello.pcm ? 14 : hello.opus ? 8 : 5);
+  payload[0] = hello.version;
+  payload.writeUInt16BE(hello.capabilities, 1);
+  payload[3] = hello.codec;
+  payload[4] = hello.flags;
+  if (hello.opus) writeOpus(payload, 5, hello.opus);
+  if (hello.pcm) writePcm(payload, 8, hello.pcm);
+  return encodePacket(HELLO_HEADER, payload);
+}
+
+export function decodeServerHello(payload: Buffer): ServerHello {
+  const server: ServerHello = { ...decodeHello(payload.subarray(0, 4)), flags: payload[4] ?? 0 };
+  if (payload.length >= 8 && (payload.length < 14 || server.codec === CODEC_OPUS)) server.opus = readOpus(payload, 5);
+  if (payload.length >= 14) server.pcm = readPcm(payload, 8);
+  return server;
+}
+
+function writeOpus(payload: Buffer, offset: number, opus: { bitrate: number; frameMs: number }): void {
+  payload.writeUInt16BE(opus.bitrate, offset);
+  payload[offset + 2] = opus.frameMs;
+}
+
+function readOpus(payload: Buffer, offset: number): { bitrate: number; frameMs: number } {
+  return { bitrate: payload.readUInt16BE(offset), frameMs: payload[offset + 2]! };
+}
+
+function writePcm(payload: Buffer, offset: number, pcm: PcmHelloFormat): void {
+  payload.writeUInt32BE(pcm.sampleRate, offset);
+  payload[offset + 4] = pcm.channels;
+  payload[offset + 5] = pcm.sampleFormat;
+}
+
+function readPcm(payload: Buffer, offset: number): PcmHelloFormat {
+  return { sampleRate: payload.readUInt32BE(offset), channels: payload[offset + 4]!, sampleFormat: payload[offset + 5]! };
+}
+
+/**
+ * Status payload: connected u8, hardware type u8 (0xFF = unknown), firmware major/minor/patch
+ */
+export function encodeStatus(status: M8Status): Buffer {
+  return encodePacket(STATUS_HEADER, Buffer.from([
+    status.connected ? 1 : 0,
+    status.hardwareType ?? 0xff,
+    status.firmware?.major ?? 0,
+    status.firmware?.minor ?? 0,
+    status.firmware?.patch ?? 0,
+  ]));
+}
+
+export function decodeStatus(payload: Buffer): M8Status {
+  const known = payload[1] !== undefined && payload[1] !== 0xff;
+  return {
+    connected: payload[0] === 1,
+    hardwareType: known ? payload[1]! : null,
+    firmware: known ? { major: payload[2] ?? 0, minor: payload[3] ?? 0, patch: payload[4] ?? 0 } : null,
+  };
+}
+
+/**
+ * Timestamp payload: stream u8 ('D' or 'A'), capture time u64 BE (µs, media clock)
+ */
+export function encodeTimestamp(stream: number, timestamp: number): Buffer {
+  const payload = Buffer.alloc(9);
+  payload[0] = stream;
+  payload.writeBigUInt64BE(BigInt(Math.max(0, Math.round(timestamp))), 1);
+  return encodePacket(TIMESTAMP_HEADER, payload);
+}
+
+export function decodeTimestamp(payload: Buffer): { stream: number; timestamp: number } {
+  return { stream: payload[0] ?? 0, timestamp: Number(payload.readBigUInt64BE(1)) };
+}
+
+/**
+ * Clock reply payload: server time u64 BE (µs), playout delay u16 BE (ms), request payload echoed
+ */
+export function encodeClockReply(reply: ClockReply): Buffer {
+  const payload = Buffer.alloc(10 + reply.echo.length);
+  payload.writeBigUInt64BE(BigInt(reply.serverTime), 0);
+  payload.writeUInt16BE(Math.min(0xffff, reply.playoutDelayMs), 8);
+  payload.set(reply.echo, 10);
+  return encodePacket(CLOCK_HEADER, payload);
+}
+
+export function decodeClockReply(payload: Buffer): ClockReply {
+  return {
+    serverTime: Number(payload.readBigUInt64BE(0)),
+    playoutDelayMs: payload.readUInt16BE(8),
+    echo: payload.subarray(10),
+  };
+}
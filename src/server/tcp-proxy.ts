@@ -8,31 +8,151 @@
  * Features:
  * - Raw bidirectional data passthrough
  * - Multiple client support (broadcast FROM M8)
- * - Merged input TO M8 from all clients
+ * - Input TO M8 tagged with the client id (merged by the InputArbiter)
+ * - Token handshake when auth is enabled: client sends 'T' + u8 length + token first,
+ *   server answers 'T' + length 1 + role code (0 = denied, then the socket is closed)
+ * - Optional TLS port (same protocol inside TLS) next to the plain port
+ * - Protocol v2 (client opens with an 'H' hello): negotiated capabilities, framed input,
+ *   ping/pong and 'S' status packets. Clients that don't say hello get v1 (raw input)
+ * - Full-screen resync: new clients get the current screen (getSnapshot) instead of a blank one
+ * - Display stream per client: raw M8 bytes, or delta-filtered frames (v2 delta capability)
+ * - Backpressure: each socket's write buffer is the client's queue. Display batches over the
+ *   high-water mark are dropped until the client drains, then it is resynced;
+ *   audio over its (lower) mark is dropped, never buffered into seconds of lag
+ * - Audio as raw PCM, or Opus or PCM in another format (rate, channels, sample format) for v2
+ *   clients that ask for it in their hello
+ * - Capture timestamps ('M' before display batches and audio packets, v2 timestamps capability)
+ *   and clock sync ('C'), so clients can line audio up with the display
  */
 
 import { type Socket, type Server } from "net";
 import * as net from "net";
-
-export type RawDataCallback = (data: Uint8Array) => void;
-
-// Packet headers (all packets: header + 2-byte length BE + data)
-const DISPLAY_HEADER = 0x44; // 'D' - display/SLIP data
-const AUDIO_HEADER = 0x41;   // 'A' - audio PCM data
+import * as tls from "tls";
+import { deflateRawSync } from "zlib";
+import { roleCode, type Authenticator, type Principal } from "./auth";
+import type { TlsOptions } from "./tls";
+import type { DisplayStreamMode, DisplayClientStats } from "../display/delta";
+import { OpusEncoderPool, resolveOpusSettings, DEFAULT_OPUS_SETTINGS, type OpusSettings } from "../audio/opus";
+import {
+  PcmConverterPool,
+  SAMPLE_FORMATS,
+  audioFormatKey,
+  bytesPerFrame,
+  isNativeAudioFormat,
+  resolveAudioFormat,
+  type AudioFormat,
+} from "../audio/pcm-convert";
+import { nowMicros, DEFAULT_PLAYOUT_DELAY_MS } from "./clock";
+import {
+  PROTOCOL_VERSION,
+  AUDIO_HEADER,
+  AUTH_HEADER,
+  CLOCK_HEADER,
+  COMPRESSED_HEADER,
+  DISPLAY_HEADER,
+  HELLO_HEADER,
+  INPUT_HEADER,
+  PING_HEADER,
+  PONG_HEADER,
+  CAP_AUDIO,
+  CAP_COMPRESSION,
+  CAP_DELTA,
+  CAP_TIMESTAMPS,
+  CODEC_OPUS,
+  CODEC_PCM,
+  FLAG_AUTH_REQUIRED,
+  MAX_PAYLOAD,
+  PacketParser,
+  decodeHello,
+  encodeClockReply,
+  encodePacket,
+  encodeServerHello,
+  encodeStatus,
+  encodeTimestamp,
+  type M8Status,
+  type Packet,
+} from "./tcp-protocol";
+
+export type RawDataCallback = (data: Uint8Array, clientId: string) => void;
+
+// Time a client has to authenticate before it is dropped
+const AUTH_TIMEOUT_MS = 5000;
+
+// Largest ping payload echoed back
+const MAX_PING_PAYLOAD = 64;
+
+// Per-client queue limits (bytes waiting in the socket buffer)
+const DISPLAY_HIGH_WATER = 256 * 1024;
+const AUDIO_HIGH_WATER = 32 * 1024; // ~190ms of 44.1kHz stereo S16
 
 export interface TcpProxyOptions {
-  port: number;
+  port: number;             // Plain TCP port (0 = no plain listener)
   onClientData?: RawDataCallback; // Data from TCP clients -> M8
-  onConnect?: (clientId: string) => void;
+  onConnect?: (clientId: string, address: string, principal: Principal) => void;
   onDisconnect?: (clientId: string) => void;
   enableAudio?: boolean; // Enable audio streaming to clients
   batchIntervalMs?: number; // Batch interval for display packets (default: 16ms)
+  pingIntervalMs?: number;  // Server pings to v2 clients for RTT (default: 5000, 0 = off)
+  displayHighWater?: number; // Queued bytes before display is dropped (default: 256 KiB)
+  audioHighWater?: number;   // Queued bytes before audio is dropped (default: 32 KiB)
+  getSnapshot?: () => Uint8Array; // SLIP stream redrawing the current screen (joins, resyncs)
+  auth?: Authenticator;     // Require the token handshake when auth is enabled
+  tls?: TlsOptions;         // Certificate for the TLS port
+  tlsPort?: number;         // TLS-wrapped port (requires tls, 0 = disabled)
+  opus?: OpusSettings;      // Defaults for clients asking for Opus without settings
+  playoutDelayMs?: number;  // Playout delay announced in clock replies (default: 150)
 }
 
 interface ClientInfo {
   id: string;
   socket: Socket;
   address: string;
+  principal: Principal | null;   // null until the handshake succeeded
+  handshake: Buffer;             // Partial v1 handshake bytes
+  authTimer: ReturnType<typeof setTimeout> | null;
+  protocol: 0 | 1 | 2;           // 0 until the first byte tells v1 from v2
+  parser: PacketParser | null;   // v2 framed input
+  hello: boolean;                // v2 hello received
+  capabilities: number;          // Granted capabilities (v1: audio as configured)
+  codec: number;
+  opus: OpusSettings | null;     // Granted Opus settings (codec = CODEC_OPUS)
+  opusKey: string | null;        // Encoder in the shared pool
+  format: AudioFormat | null;    // Granted PCM format (codec = CODEC_PCM), null = capture format
+  formatKey: string | null;      // Converter in the shared pool (formats other than the capture format)
+  ping: { seq: number; sentAt: number } | null; // Outstanding server ping
+  rttMs: number | null;
+  resyncPending: boolean;        // Display dropped, waiting for the queue to drain
+  stats: TcpClientStats;
+}
+
+/**
+ * Per-client send statistics
+ */
+export interface TcpClientStats {
+  sentBytes: number;
+  displayBytes: number;          // Display data written (after compression)
+  rawDisplayBytes: number;       // Raw M8 display bytes while connected (delta comparison)
+  droppedDisplay: number;        // Display batches dropped
+  droppedAudio: number;          // Audio packets dropped
+  resyncs: number;
+}
+
+/**
+ * Client as reported by getClients()
+ */
+export interface TcpClientInfo {
+  id: string;
+  address: string;
+  protocol: number | null;
+  capabilities: number;
+  codec: number;
+  opus: OpusSettings | null;
+  format: AudioFormat | null;
+  displayMode: DisplayStreamMode;
+  rttMs: number | null;
+  queuedBytes: number;
+  resyncPending: boolean;
+  stats: TcpClientStats;
 }
 
 /**
@@ -41,13 +161,23 @@ interface ClientInfo {
  */
 export class TcpProxy {
   private server: Server | null = null;
+  private tlsServer: tls.Server | null = null;
   private clients: Map<string, ClientInfo> = new Map();
-  private options: Required<TcpProxyOptions>;
+  private options: Required<Omit<TcpProxyOptions, "auth" | "tls" | "tlsPort">>;
+  private auth: Authenticator | null;
+  private tls: TlsOptions | null;
+  private tlsPort: number;
   private running = false;
   private audioEnabled = false;
-
-  // Batching for display packets (4G optimization)
-  private batchBuffer: Buffer[] = [];
+  private opusPool = new OpusEncoderPool();
+  private converters = new PcmConverterPool();
+  private status: M8Status = { connected: false, hardwareType: null, firmware: null };
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+  private pingSeq = 0;
+
+  // Batching for display packets (4G optimization), one batch per stream mode
+  private batches: Record<DisplayStreamMode, Buffer[]> = { raw: [], delta: [] };
+  private batchTimestamps: Record<DisplayStreamMode, number | null> = { raw: null, delta: null }; // First chunk's capture time
   private batchTimer: ReturnType<typeof setTimeout> | null = null;
   private batchBytes = 0;
   private batchPackets = 0;
@@ -61,29 +191,56 @@ export class TcpProxy {
       onDisconnect: options.onDisconnect ?? (() => {}),
       enableAudio: options.enableAudio ?? true,
       batchIntervalMs: options.batchIntervalMs ?? 5, // 5ms for low latency (was 16ms)
+      pingIntervalMs: options.pingIntervalMs ?? 5000,
+      displayHighWater: options.displayHighWater ?? DISPLAY_HIGH_WATER,
+      audioHighWater: options.audioHighWater ?? AUDIO_HIGH_WATER,
+      getSnapshot: options.getSnapshot ?? (() => new Uint8Array(0)),
+      opus: options.opus ?? DEFAULT_OPUS_SETTINGS,
+      playoutDelayMs: options.playoutDelayMs ?? DEFAULT_PLAYOUT_DELAY_MS,
     };
     this.audioEnabled = this.options.enableAudio;
+    this.auth = options.auth?.isEnabled() ? options.auth : null;
+    this.tls = options.tls ?? null;
+    this.tlsPort = this.tls ? options.tlsPort ?? 0 : 0;
   }
 
   /**
-   * Start TCP server
+   * Start TCP server (and the TLS server if configured)
    */
-  start(): Promise<void> {
-    return new Promise((resolve, reject) => {
+  async start(): Promise<void> {
+    if (this.options.port > 0) {
       this.server = net.createServer((socket) => {
         this.handleConnection(socket);
       });
+      await this.listen(this.server, this.options.port);
+      console.log(`TCP Proxy listening on port ${this.options.port}`);
+    }
 
-      this.server.on("error", (err) => {
-        console.error("TCP Proxy error:", err);
-        reject(err);
+    if (this.tls && this.tlsPort > 0) {
+      this.tlsServer = tls.createServer({ cert: this.tls.cert, key: this.tls.key }, (socket) => {
+        this.handleConnection(socket);
       });
+      // Failed handshakes (plain clients on the TLS port, rejected certs) never reach handleConnection
+      this.tlsServer.on("tlsClientError", (err, socket) => {
+        console.log(`TCP Proxy TLS handshake failed (${socket.remoteAddress}): ${err.message}`);
+      });
+      await this.listen(this.tlsServer, this.tlsPort);
+      console.log(`TCP Proxy listening on port ${this.tlsPort} (TLS)`);
+    }
 
-      this.server.listen(this.options.port, () => {
-        this.running = true;
-        console.log(`TCP Proxy listening on port ${this.options.port}`);
-        resolve();
+    if (this.options.pingIntervalMs > 0) {
+      this.pingTimer = setInterval(() => this.pingClients(), this.options.pingIntervalMs);
+    }
+    this.running = true;
+  }
+
+  private listen(server: Server, port: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      server.on("error", (err) => {
+        console.error("TCP Proxy error:", err);
+        reject(err);
       });
+      server.listen(port, () => resolve());
     });
   }
 
@@ -98,52 +255,357 @@ export class TcpProxy {
       id: clientId,
       socket,
       address,
+      principal: null,
+      handshake: Buffer.alloc(0),
+      authTimer: null,
+      protocol: 0,
+      parser: null,
+      hello: false,
+      capabilities: this.audioEnabled ? CAP_AUDIO : 0,
+      codec: CODEC_PCM,
+      opus: null,
+      opusKey: null,
+      format: null,
+      formatKey: null,
+      ping: null,
+      rttMs: null,
+      resyncPending: false,
+      stats: { sentBytes: 0, displayBytes: 0, rawDisplayBytes: 0, droppedDisplay: 0, droppedAudio: 0, resyncs: 0 },
     };
 
     this.clients.set(clientId, client);
-    console.log(`TCP client connected: ${address} (${clientId})`);
-    this.options.onConnect(clientId);
+    const secure = socket instanceof tls.TLSSocket ? ", TLS" : "";
+    console.log(`TCP client connected: ${address} (${clientId}${secure})`);
+
+    if (this.auth) {
+      client.authTimer = setTimeout(() => {
+        console.log(`[Auth] TCP client ${address} did not authenticate`);
+        socket.destroy();
+      }, AUTH_TIMEOUT_MS);
+    } else {
+      this.authorize(client, { name: "anonymous", role: "admin" });
+    }
 
-    // Handle data from client -> M8
-    socket.on("data", (data: Buffer) => {
-      this.options.onClientData(new Uint8Array(data));
-    });
+    socket.on("data", (data: Buffer) => this.handleData(client, data));
+    socket.on("drain", () => this.checkResync(client));
 
     // Handle client disconnect
     socket.on("close", () => {
-      this.clients.delete(clientId);
+      if (client.authTimer) clearTimeout(client.authTimer);
+      this.removeClient(client);
       console.log(`TCP client disconnected: ${address}`);
-      this.options.onDisconnect(clientId);
+      if (client.principal) this.options.onDisconnect(clientId);
     });
 
     socket.on("error", (err) => {
       console.error(`TCP client error (${address}):`, err.message);
-      this.clients.delete(clientId);
+      this.removeClient(client);
     });
 
     // Set socket options for low latency
     socket.setNoDelay(true);
   }
 
+  private removeClient(client: ClientInfo): void {
+    this.clients.delete(client.id);
+    if (client.opusKey) {
+      this.opusPool.release(client.opusKey);
+      client.opusKey = null;
+    }
+    if (client.formatKey) {
+      this.converters.release(client.formatKey);
+      client.formatKey = null;
+    }
+  }
+
+  /**
+   * Data from a client: the first byte picks the protocol ('H' = v2, anything else = v1)
+   */
+  private handleData(client: ClientInfo, data: Buffer): void {
+    if (client.protocol === 0) {
+      client.protocol = data[0] === HELLO_HEADER ? 2 : 1;
+      if (client.protocol === 2) client.parser = new PacketParser();
+    }
+
+    if (client.parser) {
+      for (const packet of client.parser.push(data)) {
+        if (client.socket.destroyed || client.socket.writableEnded) return;
+        this.handlePacket(client, packet);
+      }
+      return;
+    }
+
+    // v1: optional token handshake, then raw M8 bytes
+    if (!client.principal) {
+      const rest = this.handleHandshake(client, data);
+      if (!rest || rest.length === 0) return;
+      data = rest;
+    }
+    this.options.onClientData(new Uint8Array(data), client.id);
+  }
+
+  /**
+   * v2 packet from a client (unknown headers are ignored for forward compatibility)
+   */
+  private handlePacket(client: ClientInfo, packet: Packet): void {
+    switch (packet.header) {
+      case HELLO_HEADER:
+        if (!client.hello) this.handleHello(client, packet.payload);
+        break;
+      case AUTH_HEADER:
+        if (client.principal) break;
+        this.authenticateToken(client, packet.payload.toString("utf8"));
+        break;
+      case INPUT_HEADER:
+        if (!client.principal) {
+          this.denyClient(client, "input before token");
+          break;
+        }
+        if (packet.payload.length > 0) this.options.onClientData(new Uint8Array(packet.payload), client.id);
+        break;
+      case PING_HEADER:
+        client.socket.write(encodePacket(PONG_HEADER, packet.payload.subarray(0, MAX_PING_PAYLOAD)));
+        break;
+      case PONG_HEADER:
+        this.handlePong(client, packet.payload);
+        break;
+      case CLOCK_HEADER:
+        client.socket.write(encodeClockReply({
+          serverTime: nowMicros(),
+          playoutDelayMs: this.options.playoutDelayMs,
+          echo: packet.payload.subarray(0, MAX_PING_PAYLOAD),
+        }));
+        break;
+    }
+  }
+
+  /**
+   * Negotiate: grant the requested capabilities the server supports
+   */
+  private handleHello(client: ClientInfo, payload: Buffer): void {
+    const hello = decodeHello(payload);
+    const supported = (this.audioEnabled ? CAP_AUDIO : 0) | CAP_COMPRESSION | CAP_DELTA | CAP_TIMESTAMPS;
+
+    client.hello = true;
+    client.capabilities = hello.capabilities & supported;
+    // Opus when asked for (and audio was granted), PCM for anything else, in the format asked for
+    if (hello.codec === CODEC_OPUS && client.capabilities & CAP_AUDIO) {
+      client.codec = CODEC_OPUS;
+      client.opus = resolveOpusSettings(hello.opus ?? {}, this.options.opus);
+      client.opusKey = this.opusPool.acquire(client.opus);
+    } else {
+      client.codec = CODEC_PCM;
+      if (hello.pcm && client.capabilities & CAP_AUDIO) {
+        client.format = resolveAudioFormat({
+          sampleRate: hello.pcm.sampleRate || undefined,
+          channels: hello.pcm.channels || undefined,
+          sampleFormat: SAMPLE_FORMATS[hello.pcm.sampleFormat],
+        });
+        if (!isNativeAudioFormat(client.format)) client.formatKey = this.converters.acquire(client.format);
+      }
+    }
+
+    client.socket.write(encodeServerHello({
+      version: Math.min(hello.version, PROTOCOL_VERSION),
+      capabilities: client.capabilities,
+      codec: client.codec,
+      flags: this.auth ? FLAG_AUTH_REQUIRED : 0,
+      ...(client.opus && { opus: client.opus }),
+      ...(client.format && {
+        pcm: {
+          sampleRate: client.format.sampleRate,
+          channels: client.format.channels,
+          sampleFormat: SAMPLE_FORMATS.indexOf(client.format.sampleFormat),
+        },
+      }),
+    }));
+    const codec = client.opus
+      ? `, opus ${client.opus.bitrate}kbit/s ${client.opus.frameMs}ms`
+      : client.format ? `, pcm ${audioFormatKey(client.format)}` : "";
+    console.log(`TCP client ${client.address}: protocol v${hello.version}, capabilities 0x${client.capabilities.toString(16)}${codec}`);
+
+    if (client.principal) {
+      client.socket.write(encodeStatus(this.status));
+      // Switching to the delta stream: the raw bytes so far may end mid-frame, start clean
+      if (client.capabilities & CAP_DELTA) this.sendSnapshot(client);
+    }
+  }
+
+  /**
+   * Collect the 'T' + length + token handshake (v1)
+   * @returns Bytes following the handshake once authenticated, null while incomplete or denied
+   */
+  private handleHandshake(client: ClientInfo, data: Buffer): Buffer | null {
+    client.handshake = Buffer.concat([client.handshake, data]);
+    const buf = client.handshake;
+
+    if (buf[0] !== AUTH_HEADER) {
+      this.denyClient(client, "no token handshake");
+      return null;
+    }
+    if (buf.length < 2 || buf.length < 2 + buf[1]!) return null;
+
+    const token = buf.subarray(2, 2 + buf[1]!).toString("utf8");
+    if (!this.authenticateToken(client, token)) return null;
+    return buf.subarray(2 + buf[1]!);
+  }
+
+  /**
+   * Check a token, answer 'T' + role code and admit the client (or deny and close)
+   */
+  private authenticateToken(client: ClientInfo, token: string): boolean {
+    const principal = this.auth ? this.auth.authenticate(token) : client.principal;
+    if (!principal) {
+      this.denyClient(client, "invalid token");
+      return false;
+    }
+
+    client.socket.write(Buffer.from([AUTH_HEADER, 0, 1, roleCode(principal.role)]));
+    console.log(`[Auth] TCP client ${client.address} authenticated as ${principal.name} (${principal.role})`);
+    this.authorize(client, principal);
+    if (client.hello) client.socket.write(encodeStatus(this.status));
+    return true;
+  }
+
+  private authorize(client: ClientInfo, principal: Principal): void {
+    client.principal = principal;
+    if (client.authTimer) clearTimeout(client.authTimer);
+    client.authTimer = null;
+    this.options.onConnect(client.id, client.address, principal);
+    this.sendSnapshot(client);
+  }
+
+  private denyClient(client: ClientInfo, reason: string): void {
+    console.log(`[Auth] TCP client ${client.address} denied: ${reason}`);
+    client.socket.end(Buffer.from([AUTH_HEADER, 0, 1, roleCode(null)]));
+  }
+
+  /**
+   * Ping v2 clients (payload: u32 BE sequence) to measure round-trip time
+   */
+  private pingClients(): void {
+    for (const client of this.clients.values()) {
+      if (!client.hello || !client.principal) continue;
+      const seq = ++this.pingSeq >>> 0;
+      const payload = Buffer.alloc(4);
+      payload.writeUInt32BE(seq);
+      client.ping = { seq, sentAt: performance.now() };
+      client.socket.write(encodePacket(PING_HEADER, payload));
+    }
+  }
+
+  private handlePong(client: ClientInfo, payload: Buffer): void {
+    if (!client.ping || payload.length < 4 || payload.readUInt32BE(0) !== client.ping.seq) return;
+    client.rttMs = Math.round((performance.now() - client.ping.sentAt) * 10) / 10;
+    client.ping = null;
+  }
+
+  /**
+   * Queue display data for a client, or drop it (and everything until a resync) when it lags
+   */
+  private sendDisplay(client: ClientInfo, data: Buffer): void {
+    if (client.resyncPending) {
+      client.stats.droppedDisplay++;
+      this.checkResync(client);
+      return;
+    }
+    if (client.socket.writableLength + data.length > this.options.displayHighWater) {
+      client.stats.droppedDisplay++;
+      client.resyncPending = true;
+      console.log(`[TcpProxy] ${client.address} lagging (${client.socket.writableLength} bytes queued), dropping display until it drains`);
+      return;
+    }
+    this.write(client, data);
+    client.stats.displayBytes += data.length;
+  }
+
+  /**
+   * Queue audio for a client, dropping packets rather than building up lag
+   */
+  private sendAudio(client: ClientInfo, packet: Buffer): void {
+    if (client.socket.writableLength + packet.length > this.options.audioHighWater) {
+      client.stats.droppedAudio++;
+      return;
+    }
+    this.write(client, packet);
+  }
+
+  private displayMode(client: ClientInfo): DisplayStreamMode {
+    return client.capabilities & CAP_DELTA ? "delta" : "raw";
+  }
+
+  private write(client: ClientInfo, data: Buffer): void {
+    client.socket.write(data);
+    client.stats.sentBytes += data.length;
+  }
+
+  /**
+   * Resume display for a client that caught up: the missed batches are replaced by a full screen
+   */
+  private checkResync(client: ClientInfo): void {
+    if (!client.resyncPending || client.socket.writableLength > 0 || !client.principal) return;
+    client.resyncPending = false;
+    client.stats.resyncs++;
+    console.log(`[TcpProxy] ${client.address} drained, resyncing display`);
+    this.sendSnapshot(client);
+  }
+
+  /**
+   * Send the current screen to one client as 'D' packets
+   */
+  private sendSnapshot(client: ClientInfo): void {
+    const snapshot = this.options.getSnapshot();
+    for (let offset = 0; offset < snapshot.length; offset += MAX_PAYLOAD) {
+      const packet = encodePacket(DISPLAY_HEADER, snapshot.subarray(offset, offset + MAX_PAYLOAD));
+      this.write(client, packet);
+      client.stats.displayBytes += packet.length;
+    }
+  }
+
+  /**
+   * Update the M8 status and send 'S' to v2 clients
+   */
+  setStatus(status: Partial<M8Status>): void {
+    this.status = { ...this.status, ...status };
+    const packet = encodeStatus(this.status);
+    for (const client of this.clients.values()) {
+      if (client.hello && client.principal) client.socket.write(packet);
+    }
+  }
+
+  getStatus(): M8Status {
+    return this.status;
+  }
+
   /**
    * Send data to all connected clients (M8 -> clients)
    * Format: 'D' + 2-byte length (BE) + SLIP data
    * Uses batching to reduce packet count for 4G optimization
+   * Raw M8 bytes, for clients on the raw stream
    */
   private displayPacketCount = 0;
   private displayLastLog = 0;
 
-  broadcast(data: Uint8Array): void {
+  broadcast(data: Uint8Array, timestamp = nowMicros()): void {
+    this.queueDisplay("raw", data, timestamp);
+  }
+
+  /**
+   * Delta-filtered SLIP frames, for clients on the delta stream
+   */
+  broadcastDelta(frames: Uint8Array, timestamp = nowMicros()): void {
+    this.queueDisplay("delta", frames, timestamp);
+  }
+
+  private queueDisplay(mode: DisplayStreamMode, data: Uint8Array, timestamp: number): void {
     if (this.clients.size === 0) return;
+    this.batchTimestamps[mode] ??= timestamp;
 
     // Create packet: 'D' + length (2 bytes BE) + data
-    const packet = Buffer.allocUnsafe(3 + data.length);
-    packet[0] = DISPLAY_HEADER;
-    packet.writeUInt16BE(data.length, 1);
-    Buffer.from(data).copy(packet, 3);
+    const packet = encodePacket(DISPLAY_HEADER, data);
 
     // Add to batch
-    this.batchBuffer.push(packet);
+    this.batches[mode].push(packet);
     this.batchBytes += packet.length;
     this.batchPackets++;
 
@@ -159,15 +621,15 @@ export class TcpProxy {
   private flushBatch(): void {
     this.batchTimer = null;
 
-    if (this.batchBuffer.length === 0 || this.clients.size === 0) {
-      this.batchBuffer = [];
-      return;
-    }
+    const { raw, delta } = this.batches;
+    const timestamps = this.batchTimestamps;
+    this.batches = { raw: [], delta: [] };
+    this.batchTimestamps = { raw: null, delta: null };
+    if (raw.length + delta.length === 0 || this.clients.size === 0) return;
 
-    // Combine all packets into single buffer
-    const combined = Buffer.concat(this.batchBuffer);
-    const packetCount = this.batchBuffer.length;
-    this.batchBuffer = [];
+    // Combine all packets into single buffer per stream
+    const combined: Record<DisplayStreamMode, Buffer> = { raw: Buffer.concat(raw), delta: Buffer.concat(delta) };
+    const packetCount = raw.length + delta.length;
     this.batchSent++;
 
     // Log batch stats every 5 seconds
@@ -183,10 +645,31 @@ export class TcpProxy {
       this.displayLastLog = now;
     }
 
-    // Send combined buffer to all clients
+    // Compressed once per batch, only for clients that negotiated it (and only if it helps)
+    const compressed: Partial<Record<DisplayStreamMode, Buffer | null>> = {};
+    const compressedFor = (mode: DisplayStreamMode) => {
+      if (compressed[mode] === undefined) {
+        const deflated = deflateRawSync(combined[mode]);
+        compressed[mode] = deflated.length < combined[mode].length && deflated.length <= MAX_PAYLOAD
+          ? encodePacket(COMPRESSED_HEADER, deflated)
+          : null;
+      }
+      return compressed[mode];
+    };
+
+    // Send each (authenticated) client its stream
     for (const client of this.clients.values()) {
+      if (!client.principal) continue;
+      client.stats.rawDisplayBytes += combined.raw.length;
+      const mode = this.displayMode(client);
+      if (combined[mode].length === 0) continue;
       try {
-        client.socket.write(combined);
+        const packed = client.capabilities & CAP_COMPRESSION ? compressedFor(mode) : null;
+        const data = packed ?? combined[mode];
+        // Timestamp and data queued (or dropped) together
+        this.sendDisplay(client, client.capabilities & CAP_TIMESTAMPS
+          ? Buffer.concat([encodeTimestamp(DISPLAY_HEADER, timestamps[mode] ?? nowMicros()), data])
+          : data);
       } catch (err) {
         console.error(`Error sending to ${client.address}:`, err);
       }
@@ -195,19 +678,21 @@ export class TcpProxy {
 
   /**
    * Send audio data to all connected clients
-   * Format: 'A' + 2-byte length (BE) + PCM data
+   * Format: 'A' + 2-byte length (BE) + PCM data, or one Opus packet per 'A' for Opus clients;
+   * PCM converted to another format is split into 'A' packets of whole frames if it outgrows one
+   * @param timestamp Capture time of the first sample (µs, media clock)
    */
   private audioPacketCount = 0;
   private audioLastLog = 0;
 
-  broadcastAudio(pcmData: Buffer): void {
+  broadcastAudio(pcmData: Buffer, timestamp = nowMicros()): void {
     if (!this.audioEnabled || this.clients.size === 0) return;
 
     // Create packet: 'A' + length (2 bytes BE) + data
-    const packet = Buffer.allocUnsafe(3 + pcmData.length);
-    packet[0] = AUDIO_HEADER;
-    packet.writeUInt16BE(pcmData.length, 1);
-    pcmData.copy(packet, 3);
+    const packet = encodePacket(AUDIO_HEADER, pcmData);
+    const opusPackets = this.opusPool.size > 0 ? this.opusPool.encode(pcmData, timestamp) : null;
+    const converted = this.converters.size > 0 ? this.converters.convert(pcmData, timestamp) : null;
+    const stamped = (data: Buffer, at: number) => Buffer.concat([encodeTimestamp(AUDIO_HEADER, at), data]);
 
     // Log audio broadcast stats every 5 seconds
     this.audioPacketCount++;
@@ -219,8 +704,27 @@ export class TcpProxy {
     }
 
     for (const client of this.clients.values()) {
+      if (!client.principal || !(client.capabilities & CAP_AUDIO)) continue;
       try {
-        client.socket.write(packet);
+        const timestamps = client.capabilities & CAP_TIMESTAMPS;
+        if (client.opusKey) {
+          for (const opus of opusPackets?.get(client.opusKey) ?? []) {
+            const opusPacket = encodePacket(AUDIO_HEADER, opus.data);
+            this.sendAudio(client, timestamps ? stamped(opusPacket, opus.timestamp) : opusPacket);
+          }
+        } else if (client.formatKey) {
+          const chunk = converted?.get(client.formatKey);
+          if (!chunk) continue;
+          const frame = bytesPerFrame(client.format!);
+          const size = MAX_PAYLOAD - (MAX_PAYLOAD % frame);
+          for (let offset = 0; offset < chunk.data.length; offset += size) {
+            const pcmPacket = encodePacket(AUDIO_HEADER, chunk.data.subarray(offset, offset + size));
+            const at = chunk.timestamp + ((offset / frame) * 1e6) / client.format!.sampleRate;
+            this.sendAudio(client, timestamps ? stamped(pcmPacket, at) : pcmPacket);
+          }
+        } else {
+          this.sendAudio(client, timestamps ? stamped(packet, timestamp) : packet);
+        }
       } catch (err) {
         // Ignore write errors for audio (non-critical)
       }
@@ -239,8 +743,8 @@ export class TcpProxy {
    */
   sendTo(clientId: string, data: Uint8Array): void {
     const client = this.clients.get(clientId);
-    if (client) {
-      client.socket.write(Buffer.from(data));
+    if (client?.principal) {
+      this.write(client, Buffer.from(data));
     }
   }
 
@@ -254,10 +758,31 @@ export class TcpProxy {
   /**
    * Get client info
    */
-  getClients(): { id: string; address: string }[] {
+  getClients(): TcpClientInfo[] {
     return Array.from(this.clients.values()).map((c) => ({
       id: c.id,
       address: c.address,
+      protocol: c.protocol || null,
+      capabilities: c.capabilities,
+      codec: c.codec,
+      opus: c.opus,
+      format: c.format,
+      displayMode: this.displayMode(c),
+      rttMs: c.rttMs,
+      queuedBytes: c.socket.writableLength,
+      resyncPending: c.resyncPending,
+      stats: { ...c.stats },
+    }));
+  }
+
+  /**
+   * Per-client display stream statistics
+   */
+  getDisplayStats(): DisplayClientStats[] {
+    return Array.from(this.clients.values()).filter((c) => c.principal).map((c) => ({
+      mode: this.displayMode(c),
+      bytes: c.stats.displayBytes,
+      rawBytes: c.stats.rawDisplayBytes,
     }));
   }
 
@@ -283,6 +808,10 @@ export class TcpProxy {
    */
   stop(): Promise<void> {
     return new Promise((resolve) => {
+      if (this.pingTimer) {
+        clearInterval(this.pingTimer);
+        this.pingTimer = null;
+      }
       // Clear batch timer
       if (this.batchTimer) {
         clearTimeout(this.batchTimer);
@@ -291,7 +820,8 @@ export class TcpProxy {
       // Flush remaining batch
       this.flushBatch();
 
-      if (!this.server) {
+      const servers = [this.server, this.tlsServer].filter((s): s is Server => s !== null);
+      if (servers.length === 0) {
         resolve();
         return;
       }
@@ -301,13 +831,21 @@ export class TcpProxy {
         client.socket.destroy();
       }
       this.clients.clear();
-
-      // Close server
-      this.server.close(() => {
-        this.running = false;
-        console.log("TCP Proxy stopped");
-        resolve();
-      });
+      this.opusPool.clear();
+      this.converters.clear();
+
+      // Close servers
+      let open = servers.length;
+      for (const server of servers) {
+        server.close(() => {
+          if (--open > 0) return;
+          this.running = false;
+          this.server = null;
+          this.tlsServer = null;
+          console.log("TCP Proxy stopped");
+          resolve();
+        });
+      }
     });
   }
 }
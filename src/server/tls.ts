@@ -0,0 +1,107 @@
+/**
+ * TLS certificates
+ * Loads the cert/key pair for https://, wss:// and the TLS TCP proxy port,
+ * and generates a self-signed pair on first run (via the openssl CLI)
+ */
+
+import { spawn } from "child_process";
+import { access, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+import { networkInterfaces } from "os";
+
+export interface TlsOptions {
+  cert: Buffer;
+  key: Buffer;
+}
+
+// Used when self-signed generation is on but no paths are configured
+export const DEFAULT_CERT_PATH = "certs/m8-display.crt";
+export const DEFAULT_KEY_PATH = "certs/m8-display.key";
+
+const SELF_SIGNED_DAYS = 825; // Longest validity Apple clients accept
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Names a self-signed cert should be valid for: localhost and this host's IPv4 addresses
+ */
+export function localSubjectAltNames(): string[] {
+  const names = ["DNS:localhost", "IP:127.0.0.1"];
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const addr of addresses ?? []) {
+      if (addr.family === "IPv4" && !addr.internal) names.push(`IP:${addr.address}`);
+    }
+  }
+  return names;
+}
+
+/**
+ * Generate a self-signed certificate (EC P-256) with openssl
+ * @throws Error if openssl is missing or fails
+ */
+export async function generateSelfSignedCert(
+  certPath: string,
+  keyPath: string,
+  altNames: string[] = localSubjectAltNames()
+): Promise<void> {
+  await mkdir(dirname(certPath), { recursive: true });
+  await mkdir(dirname(keyPath), { recursive: true });
+
+  const args = [
+    "req", "-x509", "-nodes",
+    "-newkey", "ec", "-pkeyopt", "ec_paramgen_curve:prime256v1",
+    "-keyout", keyPath,
+    "-out", certPath,
+    "-days", String(SELF_SIGNED_DAYS),
+    "-subj", "/CN=m8-display",
+    "-addext", `subjectAltName=${altNames.join(",")}`,
+  ];
+
+  await new Promise<void>((resolve, reject) => {
+    const proc = spawn("openssl", args, { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+    proc.stderr.on("data", (chunk) => (stderr += chunk));
+    proc.on("error", (err) => reject(new Error(`openssl not available: ${err.message}`)));
+    proc.on("close", (code) => {
+      if (code === 0) resolve();
+      else reject(new Error(`openssl failed (${code}): ${stderr.trim().split("\n").pop()}`));
+    });
+  });
+}
+
+/**
+ * Load the TLS cert/key pair
+ * @param selfSigned Generate a self-signed pair if the files don't exist yet
+ * @returns null when TLS is not configured (no paths and no self-signed generation)
+ * @throws Error if configured files are missing (fail at startup, not at first connection)
+ */
+export async function loadTlsOptions(
+  certPath: string,
+  keyPath: string,
+  selfSigned = false
+): Promise<TlsOptions | null> {
+  if (!certPath && !keyPath && !selfSigned) return null;
+
+  certPath ||= DEFAULT_CERT_PATH;
+  keyPath ||= DEFAULT_KEY_PATH;
+
+  if (!(await exists(certPath)) || !(await exists(keyPath))) {
+    if (!selfSigned) {
+      throw new Error(`TLS certificate or key not found (${certPath}, ${keyPath})`);
+    }
+    console.log(`[TLS] Generating self-signed certificate: ${certPath}`);
+    await generateSelfSignedCert(certPath, keyPath);
+  }
+
+  return {
+    cert: await readFile(certPath),
+    key: await readFile(keyPath),
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * M8 Navigator
+ * Plans a key path to a view/number/row/col, executes it and checks the screen after each step
+ *
+ * - Views: BFS over the SHIFT+direction graph (TRANSITIONS, MIXER up → last horizontal view)
+ * - Numbers: follow the value under the cursor like the device does
+ *   (SONG cell → CHAIN, CHAIN row → PHRASE, PHRASE instrument → INST, INST → TABLE of the same number)
+ * - Rows/cols: plain direction presses, re-planned from the observed cursor
+ */
+
+import type { M8Screen, M8KeyName } from "./types";
+import { TRANSITIONS, HORIZONTAL_ORDER, type ScreenObservation } from "./tracker";
+import { locateCursor, type ParsedScreen } from "../display/screen-parser";
+
+type Direction = "up" | "down" | "left" | "right";
+
+const DIRECTIONS: Direction[] = ["up", "down", "left", "right"];
+
+// Upper bound on key presses per navigation (number search visits chains/phrases)
+const DEFAULT_MAX_STEPS = 400;
+
+// Wait after a key press before reading the screen back
+const DEFAULT_SETTLE_MS = 100;
+
+// View whose cursor value selects the numbered view (SHIFT+RIGHT follows it)
+const PARENT_VIEW: Partial<Record<M8Screen, M8Screen>> = {
+  CHAIN: "SONG",
+  PHRASE: "CHAIN",
+  INST: "PHRASE",
+};
+
+// Cursor column of the followed value (PHRASE: instrument column)
+const VALUE_COLUMN: Partial<Record<M8Screen, number>> = {
+  CHAIN: 0,
+  PHRASE: 2,
+};
+
+export interface NavigationTarget {
+  screen: M8Screen;
+  number?: number;
+  row?: number;
+  col?: number;
+}
+
+export type NavigationResult =
+  | { ok: true; state: ScreenObservation; steps: number }
+  | { ok: false; error: string; stuckOn: (ScreenObservation & { title: string }) | null; steps: number };
+
+/**
+ * Key input a navigation presses through
+ */
+export interface NavigatorInput {
+  pressKey: (key: M8KeyName) => Promise<void>;
+  pressCombo: (hold: M8KeyName, press: M8KeyName) => Promise<void>;
+}
+
+export interface NavigatorDependencies extends NavigatorInput {
+  readScreen: () => ParsedScreen & { cursor: { row: number; col: number } };
+  wait?: (ms: number) => Promise<void>;
+  settleMs?: number;
+  maxSteps?: number;
+}
+
+const viewLabel = (screen: M8Screen, number: number): string =>
+  `${screen} ${number.toString(16).toUpperCase().padStart(2, "0")}`;
+
+/**
+ * Navigation failed (message is returned to the client)
+ */
+class NavigationError extends Error {}
+
+interface Observed {
+  parsed: ParsedScreen;
+  state: ScreenObservation;
+}
+
+/**
+ * Shortest SHIFT+direction path between views
+ * @param lastHorizontal View MIXER returns to on SHIFT+UP
+ */
+export function planScreenPath(from: M8Screen, to: M8Screen, lastHorizontal: M8Screen = "SONG"): Direction[] | null {
+  interface Node { screen: M8Screen; lastHorizontal: M8Screen; path: Direction[] }
+
+  const queue: Node[] = [{ screen: from, lastHorizontal, path: [] }];
+  const seen = new Set<string>([`${from}:${lastHorizontal}`]);
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node.screen === to) return node.path;
+
+    for (const direction of DIRECTIONS) {
+      const next = node.screen === "MIXER" && direction === "up"
+        ? node.lastHorizontal
+        : TRANSITIONS[`${node.screen}:${direction}`];
+      if (!next) continue;
+
+      const nextHorizontal = HORIZONTAL_ORDER.includes(node.screen) ? node.screen : node.lastHorizontal;
+      const key = `${next}:${nextHorizontal}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      queue.push({ screen: next, lastHorizontal: nextHorizontal, path: [...node.path, direction] });
+    }
+  }
+  return null;
+}
+
+/**
+ * Screen-verified navigator
+ */
+export class Navigator {
+  private deps: NavigatorDependencies;
+  private input: NavigatorInput;
+  private wait: (ms: number) => Promise<void>;
+  private settleMs: number;
+  private maxSteps: number;
+  private steps = 0;
+  private busy = false;
+  private lastHorizontal: M8Screen = "SONG";
+
+  constructor(deps: NavigatorDependencies) {
+    this.deps = deps;
+    this.input = deps;
+    this.wait = deps.wait ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.settleMs = deps.settleMs ?? DEFAULT_SETTLE_MS;
+    this.maxSteps = deps.maxSteps ?? DEFAULT_MAX_STEPS;
+  }
+
+  /**
+   * Check if a navigation is running
+   */
+  isBusy(): boolean {
+    return this.busy;
+  }
+
+  /**
+   * Navigate to target and return the verified state
+   * @param input Press through this instead of deps (per-client input)
+   */
+  async navigate(target: NavigationTarget, input: NavigatorInput = this.deps): Promise<NavigationResult> {
+    if (this.busy) {
+      return { ok: false, error: "Navigation already in progress", stuckOn: null, steps: 0 };
+    }
+
+    this.busy = true;
+    this.input = input;
+    this.steps = 0;
+    try {
+      if (target.number !== undefined && (PARENT_VIEW[target.screen] || target.screen === "TABLE")) {
+        await this.openNumbered(target.screen, target.number);
+      } else {
+        await this.goToScreen(target.screen);
+      }
+
+      if (target.row !== undefined || target.col !== undefined) {
+        await this.moveCursor(target.row, target.col);
+      }
+
+      const { state } = await this.observe();
+      return { ok: true, state, steps: this.steps };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Navigation failed";
+      const { parsed, state } = this.observeNow();
+      const stuckOn = parsed.view === "UNKNOWN" ? null : { ...state, title: parsed.title };
+      return { ok: false, error, stuckOn, steps: this.steps };
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  /**
+   * Read the screen as an observation (no waiting)
+   */
+  private observeNow(): Observed {
+    const parsed = this.deps.readScreen();
+    const position = parsed.view === "UNKNOWN" ? null : locateCursor(parsed, parsed.cursor);
+    return {
+      parsed,
+      state: {
+        screen: parsed.view,
+        number: parsed.number,
+        row: position?.row ?? null,
+        col: position?.col ?? null,
+      },
+    };
+  }
+
+  /**
+   * Read the screen after the display settled
+   */
+  private async observe(): Promise<Observed> {
+    await this.wait(this.settleMs);
+    const observed = this.observeNow();
+    if (observed.parsed.view === "UNKNOWN") {
+      throw new NavigationError("Screen not recognized");
+    }
+    return observed;
+  }
+
+  private countStep(): void {
+    if (++this.steps > this.maxSteps) {
+      throw new NavigationError(`Gave up after ${this.maxSteps} key presses`);
+    }
+  }
+
+  private async press(direction: Direction, times = 1): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      this.countStep();
+      await this.input.pressKey(direction);
+    }
+  }
+
+  private async shift(direction: Direction, from: M8Screen): Promise<void> {
+    this.countStep();
+    if (HORIZONTAL_ORDER.includes(from)) this.lastHorizontal = from;
+    await this.input.pressCombo("shift", direction);
+  }
+
+  /**
+   * Walk the view graph until the target view is shown (re-planned after every step)
+   */
+  private async goToScreen(screen: M8Screen): Promise<Observed> {
+    let observed = await this.observe();
+
+    while (observed.state.screen !== screen) {
+      const from = observed.state.screen;
+      const path = planScreenPath(from, screen, this.lastHorizontal);
+      if (!path || path.length === 0) {
+        throw new NavigationError(`No path from ${from} to ${screen}`);
+      }
+
+      await this.shift(path[0]!, from);
+      observed = await this.observe();
+      if (observed.state.screen === from) {
+        throw new NavigationError(`SHIFT+${path[0]!.toUpperCase()} did not leave ${from}`);
+      }
+    }
+    return observed;
+  }
+
+  /**
+   * Move the cursor to row/col on the current view
+   */
+  private async moveCursor(row?: number, col?: number): Promise<Observed> {
+    let observed = await this.observe();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const current = observed.state;
+      if (current.row === null || current.col === null) {
+        throw new NavigationError("Cursor position not readable");
+      }
+
+      const rowDelta = row === undefined ? 0 : row - current.row;
+      const colDelta = col === undefined ? 0 : col - current.col;
+      if (rowDelta === 0 && colDelta === 0) return observed;
+
+      await this.press(rowDelta > 0 ? "down" : "up", Math.abs(rowDelta));
+      await this.press(colDelta > 0 ? "right" : "left", Math.abs(colDelta));
+
+      const previous = current;
+      observed = await this.observe();
+      if (observed.state.row === previous.row && observed.state.col === previous.col) {
+        throw new NavigationError(`Cursor stuck at row ${previous.row} col ${previous.col}`);
+      }
+    }
+
+    const { row: gotRow, col: gotCol } = observed.state;
+    if ((row !== undefined && gotRow !== row) || (col !== undefined && gotCol !== col)) {
+      throw new NavigationError(`Cursor stopped at row ${gotRow} col ${gotCol}`);
+    }
+    return observed;
+  }
+
+  /**
+   * Open a numbered view (CHAIN/PHRASE/INST/TABLE n) by following values from its parent view
+   */
+  private async openNumbered(screen: M8Screen, number: number): Promise<void> {
+    let observed = await this.observe();
+    if (observed.state.screen === screen && observed.state.number === number) return;
+
+    // Tables belong to the instrument of the same number
+    if (screen === "TABLE") {
+      await this.openNumbered("INST", number);
+      observed = await this.goToScreen("TABLE");
+      if (observed.state.number !== number) {
+        throw new NavigationError(`Expected ${viewLabel(screen, number)}, got ${observed.parsed.title}`);
+      }
+      return;
+    }
+
+    const parent = PARENT_VIEW[screen]!;
+
+    // Current context first (e.g. the chain we are in)
+    observed = await this.goToScreen(parent);
+    if (await this.enterFrom(observed, screen, number)) return;
+
+    // Then every other parent reachable from the song
+    if (parent !== "SONG") {
+      const checked = observed.state.number;
+      for (const candidate of await this.reachableNumbers(parent)) {
+        if (candidate === checked) continue;
+        await this.openNumbered(parent, candidate);
+        if (await this.enterFrom(await this.observe(), screen, number)) return;
+      }
+    }
+
+    throw new NavigationError(`${viewLabel(screen, number)} not found (searched from the song view)`);
+  }
+
+  /**
+   * Numbers of CHAIN/PHRASE views reachable from the visible song rows
+   */
+  private async reachableNumbers(screen: M8Screen): Promise<number[]> {
+    const song = await this.goToScreen("SONG");
+    const chains = [...new Set(
+      song.parsed.view === "SONG"
+        ? song.parsed.rows.flatMap((r) => r.tracks.filter((c): c is number => c !== null))
+        : []
+    )];
+    if (screen === "CHAIN") return chains;
+
+    const phrases = new Set<number>();
+    for (const chain of chains) {
+      await this.openNumbered("CHAIN", chain);
+      const { parsed } = await this.observe();
+      if (parsed.view === "CHAIN") {
+        parsed.rows.forEach((r) => r.phrase !== null && phrases.add(r.phrase));
+      }
+    }
+    return [...phrases];
+  }
+
+  /**
+   * Put the cursor on a value equal to number and SHIFT+RIGHT into the child view
+   * Returns false if the parent view does not contain the number
+   */
+  private async enterFrom(observed: Observed, screen: M8Screen, number: number): Promise<boolean> {
+    const { parsed } = observed;
+    let position: { row: number; col: number } | null = null;
+
+    if (parsed.view === "SONG") {
+      for (const row of parsed.rows) {
+        const track = row.tracks.indexOf(number);
+        if (track >= 0) {
+          position = { row: row.row, col: track };
+          break;
+        }
+      }
+    } else if (parsed.view === "CHAIN") {
+      const row = parsed.rows.find((r) => r.phrase === number);
+      if (row) position = { row: row.step, col: VALUE_COLUMN.CHAIN! };
+    } else if (parsed.view === "PHRASE") {
+      const row = parsed.rows.find((r) => r.inst === number);
+      if (row) position = { row: row.step, col: VALUE_COLUMN.PHRASE! };
+    }
+    if (!position) return false;
+
+    await this.moveCursor(position.row, position.col);
+    await this.shift("right", parsed.view);
+
+    const entered = await this.observe();
+    if (entered.state.screen !== screen || entered.state.number !== number) {
+      throw new NavigationError(`Expected ${viewLabel(screen, number)}, got ${entered.parsed.title}`);
+    }
+    return true;
+  }
+}
@@ -1,12 +1,15 @@
 /**
  * M8 State Tracker
  * Tracks cursor position and screen state
+ * Predicts from key presses, then reconciles against the display (verify/syncFromScreen)
  */
 
 import type { M8State, M8Screen, M8KeyName } from "./types";
+import type { TextBuffer } from "../display/buffer";
+import { parseTextBuffer, locateCursor } from "../display/screen-parser";
 
 // Screen constants
-const HORIZONTAL_ORDER: M8Screen[] = ["LIVE", "SONG", "CHAIN", "PHRASE", "INST", "TABLE"];
+export const HORIZONTAL_ORDER: M8Screen[] = ["LIVE", "SONG", "CHAIN", "PHRASE", "INST", "TABLE"];
 
 const MAX_ROWS: Record<M8Screen, number> = {
   SONG: 256,
@@ -37,7 +40,7 @@ const COLUMNS: Record<M8Screen, number> = {
 };
 
 // Screen transitions (SHIFT + direction)
-const TRANSITIONS: Record<string, M8Screen> = {
+export const TRANSITIONS: Record<string, M8Screen> = {
   // Horizontal
   "LIVE:right": "SONG",
   "SONG:right": "CHAIN",
@@ -66,6 +69,46 @@ const TRANSITIONS: Record<string, M8Screen> = {
   "EFFECTS:up": "MIXER",
 };
 
+// Recent drift events kept for /api/state/drift
+const MAX_DRIFT_EVENTS = 50;
+
+/**
+ * What the display shows (null = could not be read from the screen)
+ */
+export interface ScreenObservation {
+  screen: M8Screen;
+  number: number | null;
+  row: number | null;
+  col: number | null;
+}
+
+/**
+ * Prediction disagreed with the screen (state was corrected to `observed`)
+ */
+export interface DriftEvent {
+  field: "screen" | "number" | "row" | "col";
+  predicted: M8Screen | number;
+  observed: M8Screen | number;
+  timestamp: number;
+}
+
+/**
+ * Read the current view from the text buffer
+ * Returns null when no known view title is on screen (boot, redraw in progress)
+ */
+export function observeScreen(buffer: TextBuffer): ScreenObservation | null {
+  const parsed = parseTextBuffer(buffer);
+  if (parsed.view === "UNKNOWN") return null;
+
+  const position = locateCursor(parsed, parsed.cursor);
+  return {
+    screen: parsed.view,
+    number: parsed.number,
+    row: position?.row ?? null,
+    col: position?.col ?? null,
+  };
+}
+
 /**
  * Create initial state
  */
@@ -89,6 +132,8 @@ function createState(screen: M8Screen = "SONG"): M8State {
 export class M8StateTracker {
   private state: M8State;
   private chainCache: Map<number, number[]> = new Map();
+  private driftEvents: DriftEvent[] = [];
+  private driftListeners: Set<(events: DriftEvent[]) => void> = new Set();
 
   constructor(initialScreen: M8Screen = "SONG") {
     this.state = createState(initialScreen);
@@ -114,6 +159,7 @@ export class M8StateTracker {
       lastVerified: this.state.lastVerified,
       chainNum: this.state.chainNum,
       chainRow: this.state.chainRow,
+      driftCount: this.driftEvents.length,
     };
   }
 
@@ -249,11 +295,72 @@ export class M8StateTracker {
   }
 
   /**
-   * Verify state (placeholder - would use screen detection)
+   * Verify state against the screen
+   * Without an observation (nothing readable on screen) only the timestamp is refreshed.
    */
-  verify(): M8State {
-    this.state.lastVerified = Date.now();
-    this.state.confidence = 1.0;
+  verify(observation?: ScreenObservation | null): M8State {
+    if (observation) {
+      this.syncFromScreen(observation);
+    } else {
+      this.state.lastVerified = Date.now();
+    }
     return this.getState();
   }
+
+  /**
+   * Correct state from what the display shows
+   * Returns drift events (empty when the prediction matched)
+   */
+  syncFromScreen(observation: ScreenObservation): DriftEvent[] {
+    const timestamp = Date.now();
+    const events: DriftEvent[] = [];
+    const check = <K extends DriftEvent["field"]>(field: K, observed: M8State[K] | null) => {
+      if (observed === null) return;
+      const predicted = this.state[field];
+      if (predicted !== observed) {
+        events.push({ field, predicted, observed, timestamp });
+        this.state[field] = observed as never;
+      }
+    };
+
+    // Leaving a horizontal view: remember it for MIXER → up (like onCombo)
+    if (observation.screen !== this.state.screen && HORIZONTAL_ORDER.includes(this.state.screen)) {
+      this.state._lastHorizontal = this.state.screen;
+    }
+
+    check("screen", observation.screen);
+    check("number", observation.number);
+    check("row", observation.row);
+    check("col", observation.col);
+
+    if (observation.screen === "CHAIN" && observation.number !== null) {
+      this.state.chainNum = observation.number;
+    }
+
+    this.state.confidence = 1.0;
+    this.state.lastVerified = timestamp;
+
+    if (events.length > 0) {
+      this.driftEvents.push(...events);
+      this.driftEvents.splice(0, Math.max(0, this.driftEvents.length - MAX_DRIFT_EVENTS));
+      for (const listener of this.driftListeners) listener(events);
+    }
+    return events;
+  }
+
+  /**
+   * Recent drift events (oldest first)
+   */
+  getDriftEvents(): DriftEvent[] {
+    return [...this.driftEvents];
+  }
+
+  /**
+   * Subscribe to drift events
+   * @returns Unsubscribe function
+   */
+  onDrift(listener: (events: DriftEvent[]) => void): () => void {
+    this.driftListeners.add(listener);
+    return () => this.driftListeners.delete(listener);
+  }
 }
@@ -127,6 +127,18 @@ describe("AudioHub", () => {
       await Bun.write("/tmp/test-audio.raw", "");
     });
 
+    it("should write a WAV that starts on a sample frame boundary", async () => {
+      hub.onAudioData(Buffer.from([9, 9])); // Half a frame before recording starts
+      await hub.startRecording("/tmp/test-aligned.wav");
+      hub.onAudioData(Buffer.from([9, 9, 1, 2, 3, 4]));
+
+      expect(await hub.stopRecording()).toEqual({ frames: 1, size: 48 });
+      const file = Buffer.from(await Bun.file("/tmp/test-aligned.wav").arrayBuffer());
+      expect(file.toString("ascii", 0, 4)).toBe("RIFF");
+      expect([...file.subarray(44)]).toEqual([1, 2, 3, 4]);
+      await Bun.write("/tmp/test-aligned.wav", "");
+    });
+
     it("should broadcast and record simultaneously", async () => {
       const ws = createMockWs();
       hub.addClient(ws as any);
@@ -154,6 +166,166 @@ describe("AudioHub", () => {
     });
   });
 
+  describe("opus clients", () => {
+    it("should announce the format and send Opus packets with 0x02 prefix", () => {
+      const pcm = createMockWs();
+      const opus = createMockWs();
+      hub.addClient(pcm as any);
+      hub.addClient(opus as any, { opus: { bitrate: 64, frameMs: 20 } });
+
+      const [first] = opus.send.mock.calls as unknown as [Buffer][];
+      const format = JSON.parse(first![0].subarray(1).toString());
+      expect(format.format).toEqual({ codec: "opus", sampleRate: 48000, channels: 2, bitrate: 64, frameMs: 20 });
+
+      // 50ms of silence: 2 packets of 20ms
+      hub.onAudioData(Buffer.alloc(2205 * 4));
+
+      expect(pcm.send).toHaveBeenCalledTimes(1);
+      const packets = (opus.send.mock.calls as unknown as [Buffer][]).slice(1).map(([data]) => data);
+      expect(packets.length).toBe(2);
+      expect(packets.every((p) => p[0] === 0x02 && p.length < 200)).toBe(true);
+      expect(hub.getStats().opusClients).toBe(1);
+    });
+  });
+
+  describe("format clients", () => {
+    it("should announce the format and share one converter between clients asking for it", () => {
+      const pcm = createMockWs();
+      const mono = [createMockWs(), createMockWs()];
+      hub.addClient(pcm as any);
+      for (const ws of mono) hub.addClient(ws as any, { format: { sampleRate: 44100, channels: 1, sampleFormat: "f32" } });
+
+      const [first] = mono[0]!.send.mock.calls as unknown as [Buffer][];
+      expect(JSON.parse(first![0].subarray(1).toString()).format)
+        .toEqual({ codec: "pcm", sampleRate: 44100, channels: 1, sampleFormat: "f32" });
+      expect(hub.getStats().formatClients).toBe(2);
+
+      // One frame: L = 16384, R = -16384 downmixes to 0; the next: both 16384 → 0.5
+      const data = Buffer.alloc(8);
+      data.writeInt16LE(16384, 0);
+      data.writeInt16LE(-16384, 2);
+      data.writeInt16LE(16384, 4);
+      data.writeInt16LE(16384, 6);
+      hub.onAudioData(data);
+
+      expect((pcm.send.mock.calls as unknown as [Buffer][])[0]![0].length).toBe(9);
+      const [sent] = (mono[1]!.send.mock.calls as unknown as [Buffer][]).slice(1).map(([d]) => d);
+      expect(sent![0]).toBe(0x00);
+      expect([sent!.readFloatLE(1), sent!.readFloatLE(5)]).toEqual([0, 0.5]);
+
+      for (const ws of mono) hub.removeClient(ws as any);
+      expect(hub.getStats().formatClients).toBe(0);
+    });
+
+    it("should convert the prebuffer for format clients", () => {
+      for (let i = 0; i < 5; i++) hub.onAudioData(Buffer.alloc(4410 * 4));
+
+      const ws = createMockWs();
+      hub.addClient(ws as any, { prebufferMs: 50, format: { sampleRate: 22050, channels: 1, sampleFormat: "ulaw" } });
+
+      const sent = (ws.send.mock.calls as unknown as [Buffer][])[1]![0];
+      expect(sent[0]).toBe(0x00);
+      expect(Math.abs(sent.length - 1 - 1102)).toBeLessThanOrEqual(1); // 50ms at 22.05kHz, one byte per frame
+    });
+  });
+
+  describe("timestamps", () => {
+    it("should prefix audio with the capture time for clients that asked", () => {
+      const ws = createMockWs();
+      hub.addClient(ws as any, { timestamps: true });
+
+      hub.onAudioData(Buffer.from([1, 2, 3, 4]), 1_234_567);
+
+      const sent = (ws.send.mock.calls as unknown as [Buffer][])[0]![0];
+      expect(sent[0]).toBe(0x80); // PCM | timestamped
+      expect(Number(sent.readBigUInt64BE(1))).toBe(1_234_567);
+      expect([...sent.subarray(9)]).toEqual([1, 2, 3, 4]);
+    });
+
+    it("should answer clock sync requests with server time and playout delay", () => {
+      const ws = createMockWs();
+      new AudioHub(1024, 80).addClient(ws as any);
+
+      const [, onMessage] = (ws.on.mock.calls as unknown as [string, (raw: Buffer) => void][])
+        .find(([event]) => event === "message")!;
+      onMessage(Buffer.from(JSON.stringify({ type: "clock", t0: 99 })));
+
+      const sent = (ws.send.mock.calls as unknown as [Buffer][])[0]![0];
+      expect(sent[0]).toBe(0x01);
+      expect(JSON.parse(sent.subarray(1).toString())).toMatchObject({ type: "clock", t0: 99, playoutDelayMs: 80 });
+    });
+  });
+
+  describe("jitter buffer", () => {
+    it("should start a PCM client with a frame-aligned prebuffer of the newest audio", () => {
+      const stream = Buffer.from(Array.from({ length: 13230 }, (_, i) => i & 0xff));
+      for (let offset = 0; offset < stream.length; offset += 4410) { // 1102.5 frames per chunk
+        hub.onAudioData(stream.subarray(offset, offset + 4410));
+      }
+
+      const ws = createMockWs();
+      hub.addClient(ws as any, { prebufferMs: 50 });
+
+      const sent = (ws.send.mock.calls as unknown as [Buffer][])[0]![0];
+      const prebuffer = sent.subarray(1);
+      expect(sent[0]).toBe(0x00);
+      expect(prebuffer.length).toBe(2205 * 4 + 2); // 50ms + the half frame at the end of the stream
+      expect((stream.length - prebuffer.length) % 4).toBe(0);
+      expect(prebuffer.equals(stream.subarray(stream.length - prebuffer.length))).toBe(true);
+    });
+
+    it("should raise the target on reported underruns and expose client stats", () => {
+      const ws = createMockWs();
+      hub.addClient(ws as any, { prebufferMs: 80 });
+      expect(ws.send).not.toHaveBeenCalled(); // Nothing captured yet
+
+      const [, onMessage] = (ws.on.mock.calls as unknown as [string, (raw: Buffer) => void][])
+        .find(([event]) => event === "message")!;
+      onMessage(Buffer.from(JSON.stringify({ type: "report", bufferMs: 75, underruns: 0, latencyMs: 80 })));
+      expect(ws.send).not.toHaveBeenCalled();
+      onMessage(Buffer.from(JSON.stringify({ type: "report", bufferMs: 10, underruns: 2, latencyMs: 80 })));
+
+      const sent = (ws.send.mock.calls as unknown as [Buffer][])[0]![0];
+      expect(sent[0]).toBe(0x01);
+      expect(JSON.parse(sent.subarray(1).toString())).toEqual({ type: "buffer", targetMs: 160 });
+      expect(hub.getStats().buffers).toEqual([
+        { codec: "pcm", latencyMs: 80, targetMs: 160, bufferMs: 10, underruns: 2, reports: 2 },
+      ]);
+    });
+  });
+
+  describe("levels", () => {
+    const controls = (ws: ReturnType<typeof createMockWs>) => (ws.send.mock.calls as unknown as [Buffer][])
+      .map(([msg]) => msg)
+      .filter((msg) => msg[0] === 0x01)
+      .map((msg) => JSON.parse(msg.subarray(1).toString()));
+
+    it("should send meter readings only to clients that asked", () => {
+      const metering = createMockWs();
+      const plain = createMockWs();
+      hub.addClient(metering as any, { levels: true });
+      hub.addClient(plain as any);
+
+      hub.onAudioData(Buffer.alloc(400));
+
+      expect(controls(metering)).toEqual([expect.objectContaining({ type: "levels", clipping: false })]);
+      expect(controls(plain)).toEqual([]);
+      expect(hub.getLevels()).toMatchObject({ active: true, clipEvents: 0, lastClipAt: null });
+    });
+
+    it("should announce clipping to every client", () => {
+      const ws = createMockWs();
+      hub.addClient(ws as any);
+      const pcm = Buffer.alloc(400);
+      pcm.writeInt16LE(32767, 0);
+
+      hub.onAudioData(pcm);
+
+      expect(controls(ws)).toEqual([expect.objectContaining({ type: "clip", clips: [1, 0] })]);
+      expect(hub.getLevels()).toMatchObject({ clipping: true, clipEvents: 1 });
+    });
+  });
+
   describe("integration: multiple clients + file", () => {
     it("should handle 3 clients + file recording simultaneously", async () => {
       const ws1 = createMockWs();
@@ -163,7 +335,7 @@ describe("AudioHub", () => {
       hub.addClient(ws1 as any);
       hub.addClient(ws2 as any);
       hub.addClient(ws3 as any);
-      await hub.startRecording("/tmp/test-multi.raw");
+      await hub.startRecording("/tmp/test-multi.wav");
 
       // Simulate receiving 10 audio packets
       for (let i = 0; i < 10; i++) {
@@ -176,9 +348,9 @@ describe("AudioHub", () => {
 
       await hub.stopRecording();
 
-      // Verify file has data (10 packets * 4 bytes = 40 bytes)
-      const file = Bun.file("/tmp/test-multi.raw");
-      expect(file.size).toBe(40);
+      // Verify file has data (WAV header + 10 packets * 4 bytes = 40 bytes)
+      const file = Bun.file("/tmp/test-multi.wav");
+      expect(file.size).toBe(44 + 40);
     });
   });
 });
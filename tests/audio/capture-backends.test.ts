@@ -0,0 +1,167 @@
+/**
+ * Capture Backend Tests
+ * Priority chain with failover on start failure, errors, stalls and (opt-in) silence
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import {
+  FailoverCapture,
+  parseAudioBackends,
+  DEFAULT_AUDIO_BACKENDS,
+  type AudioBackend,
+} from "../../src/audio/capture-backends";
+import type { AudioCaptureOptions, IAudioCapture } from "../../src/audio/native-capture";
+import { delay } from "../../src/server/helpers";
+
+class FakeCapture implements IAudioCapture {
+  running = false;
+  constructor(readonly options: AudioCaptureOptions, private readonly failure?: string) {}
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  async start(): Promise<void> {
+    if (this.failure) throw new Error(this.failure);
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+  }
+}
+
+// Backend that records its instances, optionally failing to start
+function fake(name: string, failure?: string) {
+  const instances: FakeCapture[] = [];
+  const backend: AudioBackend = {
+    name,
+    create: (options) => {
+      const capture = new FakeCapture(options, failure);
+      instances.push(capture);
+      return capture;
+    },
+  };
+  return { backend, instances, latest: () => instances[instances.length - 1]! };
+}
+
+describe("FailoverCapture", () => {
+  let capture: FailoverCapture | null = null;
+
+  afterEach(async () => {
+    await capture?.stop();
+    capture = null;
+  });
+
+  it("should start the first backend that works and report the chain", async () => {
+    const native = fake("native", "Native tool not found");
+    const alsa = fake("alsa");
+    const received: Buffer[] = [];
+    capture = new FailoverCapture([native.backend, alsa.backend], { onData: (data) => received.push(data) });
+
+    await capture.start();
+    alsa.latest().options.onData(Buffer.from([1, 2, 3, 4]));
+
+    expect(capture.activeBackend).toBe("alsa");
+    expect(received).toHaveLength(1);
+    expect(capture.getStatus()).toEqual({
+      active: "alsa",
+      backends: [
+        { name: "native", state: "failed", error: "Native tool not found" },
+        { name: "alsa", state: "active", error: null },
+      ],
+      failovers: 0,
+      lastFailover: null,
+    });
+  });
+
+  it("should fail over when the active backend errors, ignoring the old one afterwards", async () => {
+    const alsa = fake("alsa");
+    const file = fake("file");
+    const received: Buffer[] = [];
+    capture = new FailoverCapture([alsa.backend, file.backend], { onData: (data) => received.push(data) });
+    await capture.start();
+
+    const failed = alsa.latest();
+    failed.options.onError!(new Error("arecord exited"));
+    await delay(0);
+
+    expect(capture.activeBackend).toBe("file");
+    expect(failed.isRunning).toBe(false);
+    expect(capture.getStatus()).toMatchObject({ failovers: 1, lastFailover: { from: "alsa", to: "file", reason: "arecord exited" } });
+
+    failed.options.onData(Buffer.from([9, 9, 9, 9]));
+    expect(received).toHaveLength(0);
+  });
+
+  it("should fail over when the active backend stalls", async () => {
+    const alsa = fake("alsa");
+    const file = fake("file");
+    capture = new FailoverCapture([alsa.backend, file.backend], { onData: () => {}, stallMs: 100 });
+    await capture.start();
+
+    await delay(700);
+    expect(capture.activeBackend).toBe("file");
+    expect(capture.getStatus().lastFailover?.reason).toBe("no audio for 100 ms");
+  });
+
+  it("should fail over on silence once per round when enabled", async () => {
+    const alsa = fake("alsa");
+    const file = fake("file");
+    capture = new FailoverCapture([alsa.backend, file.backend], { onData: () => {}, silenceMs: 100 });
+    await capture.start();
+
+    const feed = setInterval(() => {
+      if (alsa.latest().isRunning) alsa.latest().options.onData(Buffer.alloc(64));
+      if (file.instances.length > 0 && file.latest().isRunning) file.latest().options.onData(Buffer.alloc(64));
+    }, 20);
+    try {
+      await delay(700);
+      expect(capture.activeBackend).toBe("file");
+      await delay(600);
+      // Both silent: stays put instead of cycling
+      expect(capture.activeBackend).toBe("file");
+      expect(capture.getStatus().failovers).toBe(1);
+    } finally {
+      clearInterval(feed);
+    }
+  });
+
+  it("should list every failure when no backend starts", async () => {
+    const native = fake("native", "no libusb");
+    const alsa = fake("alsa", "M8 audio device not found");
+    capture = new FailoverCapture([native.backend, alsa.backend], { onData: () => {} });
+
+    await expect(capture.start()).rejects.toThrow("native: no libusb; alsa: M8 audio device not found");
+    expect(capture.isRunning).toBe(false);
+  });
+
+  it("should reject a start that waits for a failover leaving no backend", async () => {
+    let unplugged = false;
+    const instances: FakeCapture[] = [];
+    const alsa: AudioBackend = {
+      name: "alsa",
+      create: (options) => {
+        instances.push(new FakeCapture(options, unplugged ? "M8 audio device not found" : undefined));
+        return instances[instances.length - 1]!;
+      },
+    };
+    const native = fake("native", "no libusb");
+    capture = new FailoverCapture([alsa, native.backend], { onData: () => {}, onError: () => {} });
+    await capture.start();
+
+    unplugged = true;
+    instances[0]!.options.onError!(new Error("arecord exited"));
+
+    await expect(capture.start()).rejects.toThrow("alsa: M8 audio device not found; native: no libusb");
+    expect(capture.isRunning).toBe(false);
+  });
+});
+
+describe("parseAudioBackends", () => {
+  it("should parse a priority list", () => {
+    expect(parseAudioBackends(" File, alsa ")).toEqual(["file", "alsa"]);
+    expect(parseAudioBackends("")).toEqual(DEFAULT_AUDIO_BACKENDS);
+    expect(() => parseAudioBackends("alsa,jack")).toThrow("Unknown audio backend: jack");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * File Capture Tests
+ * Raw PCM fixtures played back in real time, as a hardware-free capture backend
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+import { FileLoopCapture, stripTextPreamble } from "../../src/audio/file-capture";
+import { delay } from "../../src/server/helpers";
+
+const FIXTURE = resolve(__dirname, "../fixtures/audio/fmsynth-reference.raw");
+
+describe("FileLoopCapture", () => {
+  let capture: FileLoopCapture | null = null;
+
+  afterEach(async () => {
+    await capture?.stop();
+    capture = null;
+  });
+
+  it("should skip the capture tool's text preamble", async () => {
+    const raw = await readFile(FIXTURE);
+    const pcm = stripTextPreamble(raw);
+    expect(raw.length - pcm.length).toBe(77);
+    expect(stripTextPreamble(Buffer.from([0, 1, 0x0a, 2]))).toHaveLength(4);
+  });
+
+  it("should stream the fixtures at the M8's data rate, frame aligned", async () => {
+    const chunks: Buffer[] = [];
+    capture = new FileLoopCapture({ onData: (data) => chunks.push(data), chunkMs: 10 });
+    await capture.start();
+    expect(capture.isRunning).toBe(true);
+    await delay(200);
+    await capture.stop();
+
+    const received = Buffer.concat(chunks);
+    expect(chunks.every((chunk) => chunk.length % 4 === 0)).toBe(true);
+    expect(received.length).toBeGreaterThan(44100 * 4 * 0.1);
+    expect(received.length).toBeLessThan(44100 * 4 * 0.4);
+    expect(received.equals(stripTextPreamble(await readFile(FIXTURE)).subarray(0, received.length))).toBe(true);
+  });
+
+  it("should loop, or stop at the end when asked", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "m8-file-capture-"));
+    try {
+      await writeFile(join(dir, "a.raw"), Buffer.from([1, 0, 2, 0, 3])); // Partial frame dropped
+      await writeFile(join(dir, "b.raw"), Buffer.from([4, 0, 5, 0]));
+
+      const looped: Buffer[] = [];
+      capture = new FileLoopCapture({ onData: (data) => looped.push(data), path: dir, chunkMs: 5 });
+      await capture.start();
+      await delay(20);
+      await capture.stop();
+      expect(Buffer.concat(looped).subarray(0, 12)).toEqual(Buffer.from([1, 0, 2, 0, 4, 0, 5, 0, 1, 0, 2, 0]));
+
+      const once: Buffer[] = [];
+      capture = new FileLoopCapture({ onData: (data) => once.push(data), path: join(dir, "b.raw"), loop: false, chunkMs: 5 });
+      await capture.start();
+      await delay(20);
+      expect(Buffer.concat(once)).toEqual(Buffer.from([4, 0, 5, 0]));
+      expect(capture.isRunning).toBe(false);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should refuse a directory without audio", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "m8-file-capture-"));
+    try {
+      capture = new FileLoopCapture({ onData: () => {}, path: dir });
+      await expect(capture.start()).rejects.toThrow("No .raw audio");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * FLAC Round-Trip Tests
+ * Encoder output decoded by a small reference decoder (STREAMINFO, frame header and CRCs,
+ * constant/verbatim/fixed subframes, Rice residuals, stereo decorrelation) and compared
+ * sample for sample with the input
+ */
+
+import { describe, it, expect } from "bun:test";
+import { createHash } from "crypto";
+import { FlacEncoder } from "../../src/audio/flac";
+import type { PcmFormat } from "../../src/audio/recordings";
+
+const STEREO: PcmFormat = { sampleRate: 44100, channels: 2, bitsPerSample: 16 };
+const MONO: PcmFormat = { sampleRate: 44100, channels: 1, bitsPerSample: 16 };
+
+/**
+ * MSB-first bit reader
+ */
+class BitReader {
+  private position = 0; // Bits read
+
+  constructor(private readonly data: Uint8Array) {}
+
+  get bytes(): number {
+    return this.position >> 3;
+  }
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++, this.position++) {
+      value = value * 2 + ((this.data[this.position >> 3]! >> (7 - (this.position & 7))) & 1);
+    }
+    return value;
+  }
+
+  signed(count: number): number {
+    const value = this.bits(count);
+    return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+  }
+
+  unary(): number {
+    let zeros = 0;
+    while (this.bits(1) === 0) zeros++;
+    return zeros;
+  }
+
+  align(): void {
+    this.position = (this.position + 7) & ~7;
+  }
+}
+
+// Bitwise CRC (independent of the encoder's table-driven one)
+function crc(data: Uint8Array, poly: number, width: number): number {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of data) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) value = value & top ? ((value << 1) ^ poly) & mask : (value << 1) & mask;
+  }
+  return value;
+}
+
+interface DecodedFlac {
+  sampleRate: number;
+  channels: number;
+  totalSamples: number;
+  md5: string;
+  assignments: number[]; // Channel assignment per frame
+  subframeTypes: Set<number>;
+  pcm: Buffer;           // Interleaved S16_LE
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number, bps: number, types: Set<number>): Int32Array {
+  const samples = new Int32Array(blockSize);
+  expect(reader.bits(1)).toBe(0);
+  const type = reader.bits(6);
+  types.add(type);
+  expect(reader.bits(1)).toBe(0); // No wasted bits
+
+  if (type === 0) return samples.fill(reader.signed(bps));
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = reader.signed(bps);
+    return samples;
+  }
+  if (type < 8 || type > 12) throw new Error(`Unexpected subframe type ${type}`);
+
+  const order = type - 8;
+  for (let i = 0; i < order; i++) samples[i] = reader.signed(bps);
+  const paramBits = reader.bits(2) === 1 ? 5 : 4;
+  const partitionOrder = reader.bits(4);
+  let i = order;
+  for (let part = 0; part < 1 << partitionOrder; part++) {
+    const k = reader.bits(paramBits);
+    if (k === (1 << paramBits) - 1) throw new Error("Escaped partitions are not used");
+    const count = (blockSize >> partitionOrder) - (part === 0 ? order : 0);
+    for (let j = 0; j < count; j++, i++) {
+      const value = reader.unary() * 2 ** k + reader.bits(k);
+      const residual = value % 2 ? -(value + 1) / 2 : value / 2;
+      const s = samples;
+      const prediction = [
+        0,
+        s[i - 1]!,
+        2 * s[i - 1]! - s[i - 2]!,
+        3 * s[i - 1]! - 3 * s[i - 2]! + s[i - 3]!,
+        4 * s[i - 1]! - 6 * s[i - 2]! + 4 * s[i - 3]! - s[i - 4]!,
+      ][order]!;
+      samples[i] = prediction + residual;
+    }
+  }
+  return samples;
+}
+
+function decodeFlac(file: Buffer): DecodedFlac {
+  expect(file.toString("ascii", 0, 4)).toBe("fLaC");
+  expect(file[4]).toBe(0x80); // Last metadata block, STREAMINFO
+  const info = new BitReader(file.subarray(8, 42));
+  info.bits(16 + 16 + 24 + 24);
+  const sampleRate = info.bits(20);
+  const channels = info.bits(3) + 1;
+  expect(info.bits(5) + 1).toBe(16);
+  const totalSamples = info.bits(36);
+  const md5 = file.subarray(26, 42).toString("hex");
+
+  const decoded: Int32Array[][] = Array.from({ length: channels }, () => []);
+  const assignments: number[] = [];
+  const subframeTypes = new Set<number>();
+  let offset = 42;
+  for (let frameNumber = 0; offset < file.length; frameNumber++) {
+    const reader = new BitReader(file.subarray(offset));
+    expect(reader.bits(15)).toBe(0x7ffc); // Sync
+    expect(reader.bits(1)).toBe(0);       // Fixed blocksize
+    const sizeCode = reader.bits(4);
+    reader.bits(4);                        // Sample rate (STREAMINFO has it)
+    const assignment = reader.bits(4);
+    expect(reader.bits(3)).toBe(4);        // 16 bits per sample
+    reader.bits(1);
+
+    // Frame number, UTF-8 coded
+    const first = reader.bits(8);
+    let extra = 0;
+    while (first & (0x80 >> extra)) extra++;
+    let number = extra === 0 ? first : first & (0xff >> (extra + 1));
+    for (let i = 1; i < extra; i++) number = number * 64 + (reader.bits(8) & 0x3f);
+    expect(number).toBe(frameNumber);
+
+    const blockSize = sizeCode === 12 ? 4096 : sizeCode === 7 ? reader.bits(16) + 1 : NaN;
+    const headerEnd = reader.bytes;
+    expect(reader.bits(8)).toBe(crc(file.subarray(offset, offset + headerEnd), 0x07, 8));
+
+    const subframes = Array.from({ length: channels }, (_, ch) => {
+      // The side channel has one extra bit
+      const side = (assignment === 8 && ch === 1) || (assignment === 9 && ch === 0) || (assignment === 10 && ch === 1);
+      return decodeSubframe(reader, blockSize, side ? 17 : 16, subframeTypes);
+    });
+    reader.align();
+    const frameEnd = reader.bytes;
+    expect(reader.bits(16)).toBe(crc(file.subarray(offset, offset + frameEnd), 0x8005, 16));
+
+    if (assignment >= 8) {
+      const [a, b] = subframes as [Int32Array, Int32Array];
+      for (let i = 0; i < blockSize; i++) {
+        if (assignment === 8) {
+          b[i] = a[i]! - b[i]!;                 // Left/side
+        } else if (assignment === 9) {
+          a[i] = a[i]! + b[i]!;                 // Side/right
+        } else {
+          const mid = a[i]! * 2 + (b[i]! & 1);  // Mid/side
+          a[i] = (mid + b[i]!) >> 1;
+          b[i] = (mid - b[i]!) >> 1;
+        }
+      }
+    } else {
+      expect(assignment).toBe(channels - 1);
+    }
+    subframes.forEach((samples, ch) => decoded[ch]!.push(samples));
+    assignments.push(assignment);
+    offset += reader.bytes;
+  }
+
+  const planes = decoded.map((blocks) => Int32Array.from(blocks.flatMap((block) => [...block])));
+  const pcm = Buffer.alloc(planes[0]!.length * channels * 2);
+  for (let i = 0; i < planes[0]!.length; i++) {
+    for (let ch = 0; ch < channels; ch++) pcm.writeInt16LE(planes[ch]![i]!, (i * channels + ch) * 2);
+  }
+  return { sampleRate, channels, totalSamples, md5, assignments, subframeTypes, pcm };
+}
+
+function encodeAll(pcm: Buffer, format: PcmFormat): Buffer {
+  const encoder = new FlacEncoder(format);
+  const frames: Buffer[] = [];
+  for (let offset = 0; offset < pcm.length; offset += 1001) frames.push(...encoder.encode(pcm.subarray(offset, offset + 1001)));
+  const last = encoder.flush();
+  if (last) frames.push(last);
+  return Buffer.concat([encoder.header(), ...frames]);
+}
+
+// Interleaved S16_LE from per-channel generators
+function signal(frames: number, channels: ((i: number) => number)[]): Buffer {
+  const pcm = Buffer.alloc(frames * channels.length * 2);
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((generate, ch) => {
+      pcm.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(generate(i)))), (i * channels.length + ch) * 2);
+    });
+  }
+  return pcm;
+}
+
+// Deterministic noise in -1..1
+function noise(seed: number): () => number {
+  return () => ((seed = (seed * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff) * 2 - 1;
+}
+
+function expectRoundTrip(pcm: Buffer, format: PcmFormat): DecodedFlac {
+  const decoded = decodeFlac(encodeAll(pcm, format));
+  expect(decoded.sampleRate).toBe(format.sampleRate);
+  expect(decoded.channels).toBe(format.channels);
+  expect(decoded.totalSamples).toBe(pcm.length / (format.channels * 2));
+  expect(decoded.md5).toBe(createHash("md5").update(pcm).digest("hex"));
+  expect(decoded.pcm.equals(pcm)).toBe(true);
+  return decoded;
+}
+
+describe("FLAC round trip", () => {
+  it("should decode mono to the input samples", () => {
+    const random = noise(1);
+    expectRoundTrip(signal(10000, [(i) => Math.sin(i / 9) * 20000 + random() * 500]), MONO);
+  });
+
+  it("should decode every fixed predictor order", () => {
+    const random = noise(3);
+    let walk = 0;
+    const types = new Set<number>();
+    const generators = [
+      () => random() * 1000,                     // White noise: order 0
+      () => (walk += random() * 300),            // Random walk: order 1
+      (i: number) => i * 7 - 14000,              // Ramp: order 2
+      (i: number) => Math.sin(i / 40) * 20000,   // Slow sine: order 3
+      (i: number) => Math.sin(i / 15) * 20000,   // Faster sine: order 4
+    ];
+    for (const generate of generators) {
+      for (const type of expectRoundTrip(signal(4096, [generate]), MONO).subframeTypes) types.add(type);
+    }
+    for (let order = 0; order <= 4; order++) expect(types.has(8 + order)).toBe(true);
+  });
+
+  it("should decode every stereo decorrelation to the input samples", () => {
+    const random = noise(2);
+    const assignments = new Set<number>();
+    const cases = [
+      [(i: number) => Math.sin(i / 7) * 12000, (i: number) => Math.sin(i / 7) * 12000 + 3],   // Near-identical
+      [(i: number) => Math.sin(i / 5) * 16000, () => random() * 100],                         // Quiet right
+      [() => random() * 100, (i: number) => Math.sin(i / 5) * 16000],                         // Quiet left
+      [() => random() * 32767, () => random() * 32767],                                       // Full-scale noise
+      [(i: number) => (i % 2 ? 32767 : -32768), (i: number) => (i % 2 ? -32768 : 32767)],     // Largest side values
+    ];
+    for (const [left, right] of cases) {
+      for (const assignment of expectRoundTrip(signal(5000, [left!, right!]), STEREO).assignments) assignments.add(assignment);
+    }
+    expect(assignments.size).toBeGreaterThan(1);
+  });
+
+  it("should decode silence and a partial last block", () => {
+    expectRoundTrip(Buffer.alloc(4096 * 4 + 100 * 4), STEREO);
+    expectRoundTrip(Buffer.alloc(7 * 2), MONO);
+  });
+});
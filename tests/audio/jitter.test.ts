@@ -0,0 +1,30 @@
+/**
+ * Jitter Controller Tests
+ * Underruns add headroom above the chosen latency, quiet periods take it back
+ */
+
+import { describe, it, expect } from "bun:test";
+import { JitterController, MAX_BUFFER_MS, MIN_BUFFER_MS } from "../../src/audio/jitter";
+
+describe("JitterController", () => {
+  it("should follow the client's chosen latency within bounds", () => {
+    const jitter = new JitterController(100);
+    expect(jitter.report({ latencyMs: 200 })).toBe(200);
+    expect(jitter.report({ latencyMs: 200 })).toBeNull();
+    expect(jitter.report({ latencyMs: 5 })).toBe(MIN_BUFFER_MS);
+    expect(jitter.report({ latencyMs: 99999 })).toBe(MAX_BUFFER_MS);
+  });
+
+  it("should add headroom per underrun and relax it after a quiet stretch", () => {
+    const jitter = new JitterController(100);
+    expect(jitter.report({ underruns: 1 }, 0)).toBe(140);
+    expect(jitter.report({ underruns: 3 }, 1000)).toBe(220);
+    expect(jitter.report({ underruns: 3 }, 5000)).toBeNull(); // Too soon to relax
+    expect(jitter.report({ underruns: 3 }, 11000)).toBe(210);
+    expect(jitter.report({ underruns: 3 }, 12000)).toBe(200);
+
+    // Counter restarted with the client's playback
+    expect(jitter.report({ underruns: 1 }, 13000)).toBe(240);
+    expect(jitter.getStats()).toMatchObject({ latencyMs: 100, targetMs: 240, underruns: 4, reports: 6 });
+  });
+});
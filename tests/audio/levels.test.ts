@@ -0,0 +1,78 @@
+/**
+ * Level Meter Tests
+ * Peak/RMS per channel, short-term loudness (BS.1770) and clipping from S16 PCM
+ */
+
+import { describe, it, expect } from "bun:test";
+import { LevelMeter, MIN_DB } from "../../src/audio/levels";
+
+const RATE = 44100;
+
+// Interleaved stereo S16_LE sine, same amplitude (0..1 of full scale) on both channels
+function sine(seconds: number, amplitude: number, freq = 1000): Buffer {
+  const frames = Math.round(seconds * RATE);
+  const pcm = Buffer.alloc(frames * 4);
+  for (let i = 0; i < frames; i++) {
+    const sample = Math.round(Math.sin((2 * Math.PI * freq * i) / RATE) * amplitude * 32767);
+    pcm.writeInt16LE(sample, i * 4);
+    pcm.writeInt16LE(sample, i * 4 + 2);
+  }
+  return pcm;
+}
+
+describe("LevelMeter", () => {
+  it("should report peak and RMS per channel since the previous read", () => {
+    const meter = new LevelMeter(RATE, 2);
+    meter.process(sine(0.1, 0.5));
+
+    const levels = meter.read();
+    expect(levels.channels).toHaveLength(2);
+    expect(levels.channels[0]!.peak).toBeCloseTo(-6.0, 0);
+    expect(levels.channels[0]!.rms).toBeCloseTo(-9.0, 0);
+    expect(levels.clipping).toBe(false);
+
+    expect(meter.read().channels[1]).toEqual({ peak: MIN_DB, rms: MIN_DB, clips: 0 });
+  });
+
+  it("should measure short-term loudness per EBU R128 (1 kHz stereo at -23 dBFS = -23 LUFS)", () => {
+    const meter = new LevelMeter(RATE, 2);
+    meter.process(sine(3, Math.pow(10, -23 / 20)));
+    expect(Math.abs(meter.read().loudness - -23)).toBeLessThanOrEqual(0.1);
+  });
+
+  it("should count clipped samples and flag the interval", () => {
+    const meter = new LevelMeter(RATE, 2);
+    const pcm = Buffer.alloc(16);
+    pcm.writeInt16LE(32767, 0);   // L
+    pcm.writeInt16LE(-32768, 6);  // R
+    pcm.writeInt16LE(-32768, 10); // R
+
+    meter.process(pcm);
+    const levels = meter.read();
+    expect(levels.clipping).toBe(true);
+    expect(levels.channels.map((c) => c.clips)).toEqual([1, 2]);
+    expect(levels.channels[0]!.peak).toBeCloseTo(0, 1);
+    expect(meter.read().clipping).toBe(false);
+  });
+
+  it("should carry frames split across chunks", () => {
+    const meter = new LevelMeter(RATE, 2);
+    const pcm = Buffer.alloc(4);
+    pcm.writeInt16LE(0, 0);
+    pcm.writeInt16LE(-32768, 2);
+
+    meter.process(pcm.subarray(0, 3));
+    meter.process(pcm.subarray(3));
+    expect(meter.read().channels.map((c) => c.clips)).toEqual([0, 1]);
+  });
+
+  it("should report the floor while silent", () => {
+    const meter = new LevelMeter(RATE, 2);
+    meter.process(Buffer.alloc(RATE * 4));
+    expect(meter.read()).toEqual({
+      channels: [{ peak: MIN_DB, rms: MIN_DB, clips: 0 }, { peak: MIN_DB, rms: MIN_DB, clips: 0 }],
+      loudness: MIN_DB,
+      clipping: false,
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Opus Encoding Tests
+ * Settings resolution, packetizing and shared encoders
+ */
+
+import { describe, it, expect } from "bun:test";
+import OpusScript from "opusscript";
+import {
+  OpusStreamEncoder,
+  OpusEncoderPool,
+  resolveOpusSettings,
+  DEFAULT_OPUS_SETTINGS,
+  type OpusPacket,
+} from "../../src/audio/opus";
+
+// Stereo S16_LE sine at 44.1 kHz
+function sine(frames: number, freq = 440, amplitude = 12000): Buffer {
+  const pcm = Buffer.alloc(frames * 4);
+  for (let i = 0; i < frames; i++) {
+    const value = Math.round(Math.sin((2 * Math.PI * freq * i) / 44100) * amplitude);
+    pcm.writeInt16LE(value, i * 4);
+    pcm.writeInt16LE(value, i * 4 + 2);
+  }
+  return pcm;
+}
+
+describe("resolveOpusSettings", () => {
+  it("should fill in defaults and clamp the bitrate", () => {
+    expect(resolveOpusSettings({})).toEqual(DEFAULT_OPUS_SETTINGS);
+    expect(resolveOpusSettings({ bitrate: 1000, frameMs: 10 })).toEqual({ bitrate: 510, frameMs: 10 });
+    expect(resolveOpusSettings({ bitrate: 32, frameMs: 25 }, { bitrate: 96, frameMs: 40 })).toEqual({ bitrate: 32, frameMs: 40 });
+  });
+});
+
+describe("OpusStreamEncoder", () => {
+  it("should emit one packet per frame that decodes back to audio", () => {
+    const encoder = new OpusStreamEncoder({ bitrate: 64, frameMs: 20 });
+    const packets: OpusPacket[] = [];
+    const pcm = sine(44100); // 1 second
+    for (let offset = 0; offset < pcm.length; offset += 1001) { // Odd sizes: split samples
+      packets.push(...encoder.encode(pcm.subarray(offset, offset + 1001), 1e6 + (offset / 4 / 44100) * 1e6));
+    }
+    encoder.close();
+
+    expect(packets.length).toBeGreaterThanOrEqual(49);
+    expect(packets.length).toBeLessThanOrEqual(50);
+    const bytes = packets.reduce((sum, p) => sum + p.data.length, 0);
+    expect(bytes).toBeLessThan(64000 / 8 * 1.2);
+    // Capture time of each packet's first sample, 20ms apart from the start of the stream
+    packets.forEach((p, i) => expect(Math.abs(p.timestamp - (1e6 + i * 20000))).toBeLessThan(100));
+
+    const decoder = new OpusScript(48000, 2);
+    const decoded = packets.map((p) => decoder.decode(p.data)).at(-1)!;
+    decoder.delete();
+    expect(decoded.length).toBe(960 * 4);
+    const peak = Math.max(...Array.from(new Int16Array(decoded.buffer, decoded.byteOffset, decoded.length / 2), Math.abs));
+    expect(peak).toBeGreaterThan(6000);
+  });
+});
+
+describe("OpusEncoderPool", () => {
+  it("should share encoders between clients with the same settings", () => {
+    const pool = new OpusEncoderPool();
+    const a = pool.acquire({ bitrate: 64, frameMs: 20 });
+    const b = pool.acquire({ bitrate: 64, frameMs: 20 });
+    const c = pool.acquire({ bitrate: 32, frameMs: 10 });
+
+    expect(a).toBe(b);
+    expect(pool.size).toBe(2);
+    const packets = pool.encode(sine(4500)); // ~102ms
+    expect(packets.get(a)!.length).toBe(5);
+    expect(packets.get(c)!.length).toBe(10);
+
+    pool.release(a);
+    expect(pool.size).toBe(2);
+    pool.release(b);
+    pool.release(c);
+    expect(pool.size).toBe(0);
+  });
+});
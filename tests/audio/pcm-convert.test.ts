@@ -0,0 +1,101 @@
+/**
+ * PCM Conversion Tests
+ * Format resolution, µ-law, mono downmix, resampling and shared converters
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  PcmConverter,
+  PcmConverterPool,
+  resolveAudioFormat,
+  isNativeAudioFormat,
+  linearToUlaw,
+  ulawToLinear,
+  NATIVE_AUDIO_FORMAT,
+} from "../../src/audio/pcm-convert";
+
+// Stereo S16_LE sine at 44.1 kHz (right channel inverted if asked)
+function sine(frames: number, freq = 440, amplitude = 12000, invertRight = false): Buffer {
+  const pcm = Buffer.alloc(frames * 4);
+  for (let i = 0; i < frames; i++) {
+    const value = Math.round(Math.sin((2 * Math.PI * freq * i) / 44100) * amplitude);
+    pcm.writeInt16LE(value, i * 4);
+    pcm.writeInt16LE(invertRight ? -value : value, i * 4 + 2);
+  }
+  return pcm;
+}
+
+describe("resolveAudioFormat", () => {
+  it("should fill in the capture format and correct out-of-range requests", () => {
+    expect(resolveAudioFormat({})).toEqual(NATIVE_AUDIO_FORMAT);
+    expect(resolveAudioFormat({ sampleRate: 192000, channels: 6, sampleFormat: "s24" as never }))
+      .toEqual({ sampleRate: 96000, channels: 2, sampleFormat: "s16" });
+    expect(resolveAudioFormat({ sampleRate: 48000, channels: 1, sampleFormat: "ulaw" }))
+      .toEqual({ sampleRate: 48000, channels: 1, sampleFormat: "ulaw" });
+    expect(isNativeAudioFormat(resolveAudioFormat({ sampleRate: 44100 }))).toBe(true);
+  });
+});
+
+describe("µ-law", () => {
+  it("should encode G.711 reference values and decode within the quantization step", () => {
+    expect(linearToUlaw(0)).toBe(0xff);
+    expect(linearToUlaw(-1)).toBe(0x7f);
+    expect(linearToUlaw(32767)).toBe(0x80);
+    expect(linearToUlaw(-32768)).toBe(0x00);
+
+    for (const sample of [-30000, -1000, -10, 10, 1000, 30000]) {
+      const decoded = ulawToLinear(linearToUlaw(sample));
+      expect(Math.abs(decoded - sample)).toBeLessThanOrEqual(Math.abs(sample) / 16 + 8);
+    }
+  });
+});
+
+describe("PcmConverter", () => {
+  it("should downmix to mono", () => {
+    const converter = new PcmConverter({ sampleRate: 44100, channels: 1, sampleFormat: "s16" });
+    const { data } = converter.convert(sine(441, 440, 12000, true));
+    expect(data.length).toBe(441 * 2);
+    expect(new Int16Array(data.buffer, data.byteOffset, 441).every((sample) => Math.abs(sample) <= 1)).toBe(true);
+  });
+
+  it("should resample to 48 kHz without drift across odd chunk sizes", () => {
+    const converter = new PcmConverter({ sampleRate: 48000, channels: 2, sampleFormat: "f32" });
+    const input = sine(44100);
+    let bytes = 0;
+    for (let offset = 0; offset < input.length; offset += 1234) {
+      bytes += converter.convert(input.subarray(offset, offset + 1234)).data.length;
+    }
+    expect(Math.abs(bytes / 8 - 48000)).toBeLessThanOrEqual(1);
+  });
+
+  it("should carry partial frames and date chunks from their first converted sample", () => {
+    const converter = new PcmConverter({ sampleRate: 44100, channels: 2, sampleFormat: "ulaw" });
+    expect(converter.convert(Buffer.alloc(6), 1_000_000).data.length).toBe(2);
+
+    const next = converter.convert(Buffer.alloc(2), 1_000_000 + 68);
+    expect(next.data.length).toBe(2);
+    expect(next.timestamp).toBe(1_000_000 + 68 - 11); // The carried half frame, ~11.3 µs earlier
+  });
+});
+
+describe("PcmConverterPool", () => {
+  it("should share converters by format and drop them with their last client", () => {
+    const pool = new PcmConverterPool();
+    const mono = { sampleRate: 22050, channels: 1, sampleFormat: "ulaw" as const };
+    const a = pool.acquire(mono);
+    const b = pool.acquire({ ...mono });
+    const c = pool.acquire({ ...mono, sampleFormat: "f32" });
+    expect(a).toBe(b);
+    expect(pool.size).toBe(2);
+
+    const chunks = pool.convert(sine(4410));
+    expect(Math.abs(chunks.get(a)!.data.length - 2205)).toBeLessThanOrEqual(1);
+    expect(Math.abs(chunks.get(c)!.data.length - 2205 * 4)).toBeLessThanOrEqual(4);
+
+    pool.release(a);
+    expect(pool.size).toBe(2);
+    pool.release(b);
+    pool.release(c);
+    expect(pool.size).toBe(0);
+  });
+});
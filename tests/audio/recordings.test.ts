@@ -0,0 +1,135 @@
+/**
+ * Recording Tests
+ * WAV and FLAC writers (headers finalized on close) and the recordings directory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { createHash } from "crypto";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { WavWriter } from "../../src/audio/wav";
+import { FlacEncoder, FlacWriter, FLAC_HEADER_SIZE } from "../../src/audio/flac";
+import { RecordingStore, type Recording } from "../../src/audio/recordings";
+
+const FORMAT = { sampleRate: 44100, channels: 2, bitsPerSample: 16 };
+
+// Stereo S16_LE sine at 44.1 kHz
+function sine(frames: number, freq = 440, amplitude = 12000): Buffer {
+  const pcm = Buffer.alloc(frames * 4);
+  for (let i = 0; i < frames; i++) {
+    const value = Math.round(Math.sin((2 * Math.PI * freq * i) / 44100) * amplitude);
+    pcm.writeInt16LE(value, i * 4);
+    pcm.writeInt16LE(-value >> 1, i * 4 + 2);
+  }
+  return pcm;
+}
+
+// Split a stream into chunks that cut through sample frames
+function feed(pcm: Buffer, write: (chunk: Buffer) => void): void {
+  for (let offset = 0; offset < pcm.length; offset += 1001) write(pcm.subarray(offset, offset + 1001));
+}
+
+describe("Recording writers", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "m8-recording-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should write a WAV with sizes filled in on close", async () => {
+    const pcm = sine(4410);
+    const writer = new WavWriter(join(dir, "a.wav"), FORMAT);
+    feed(pcm, (chunk) => writer.write(chunk));
+    expect(await writer.close()).toEqual({ frames: 4410, size: 44 + pcm.length });
+
+    const file = await readFile(join(dir, "a.wav"));
+    expect(file.toString("ascii", 0, 4)).toBe("RIFF");
+    expect(file.readUInt32LE(4)).toBe(36 + pcm.length);
+    expect(file.readUInt16LE(22)).toBe(2);
+    expect(file.readUInt32LE(24)).toBe(44100);
+    expect(file.readUInt32LE(40)).toBe(pcm.length);
+    expect(file.subarray(44).equals(pcm)).toBe(true);
+  });
+
+  it("should write a FLAC with final STREAMINFO and MD5", async () => {
+    const pcm = sine(10000);
+    const writer = new FlacWriter(join(dir, "a.flac"), FORMAT);
+    feed(pcm, (chunk) => writer.write(chunk));
+    const summary = await writer.close();
+
+    const file = await readFile(join(dir, "a.flac"));
+    expect(summary).toEqual({ frames: 10000, size: file.length });
+    expect(file.toString("ascii", 0, 4)).toBe("fLaC");
+    expect(file.readUInt16BE(8)).toBe(4096);                     // Block size
+    expect(file.readUIntBE(18, 3) >> 4).toBe(44100);              // Sample rate (20 bits)
+    expect(file.readUIntBE(21, 5) % 2 ** 36).toBe(10000);         // Total samples (36 bits)
+    expect(file.subarray(26, 42).toString("hex")).toBe(createHash("md5").update(pcm).digest("hex"));
+    expect(file.readUInt16BE(FLAC_HEADER_SIZE)).toBe(0xfff8);     // First frame sync
+    expect(file.length).toBeLessThan(pcm.length / 2);
+  });
+
+  it("should code silence as constant subframes", () => {
+    const encoder = new FlacEncoder(FORMAT);
+    const frames = encoder.encode(Buffer.alloc(4096 * 4));
+    expect(frames.length).toBe(1);
+    expect(frames[0]!.length).toBeLessThan(20);
+    expect(encoder.flush()).toBeNull();
+    expect(encoder.totalSamples).toBe(4096);
+  });
+});
+
+describe("RecordingStore", () => {
+  let dir: string;
+  let store: RecordingStore;
+
+  const record = async (name: string, startedAt: string): Promise<Recording> => {
+    await writeFile(await store.prepare(name, "wav"), "RIFF");
+    const recording: Recording = {
+      name, format: "wav", file: `${name}.wav`, ...FORMAT,
+      duration: 1, size: 4, startedAt, stoppedAt: startedAt,
+    };
+    await store.save(recording);
+    return recording;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "m8-recordings-"));
+    store = new RecordingStore(join(dir, "recordings"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should list newest first, rename and delete", async () => {
+    expect(await store.list()).toEqual([]);
+    await record("older", "2026-01-01T10:00:00.000Z");
+    await record("newer", "2026-01-02T10:00:00.000Z");
+
+    expect((await store.list()).map((r) => r.name)).toEqual(["newer", "older"]);
+
+    const renamed = await store.rename("older", "take-2");
+    expect(renamed).toMatchObject({ name: "take-2", file: "take-2.wav", size: 4 });
+    expect(await store.get("older")).toBeNull();
+    expect(await store.exists("take-2")).toBe(true);
+
+    expect(await store.delete("take-2")).toBe(true);
+    expect(await store.delete("take-2")).toBe(false);
+    expect((await store.list()).map((r) => r.name)).toEqual(["newer"]);
+  });
+
+  it("should reject bad or taken names", async () => {
+    await record("a", "2026-01-01T10:00:00.000Z");
+    await record("b", "2026-01-01T10:00:00.000Z");
+
+    await expect(store.prepare("../evil", "wav")).rejects.toThrow("Invalid recording name");
+    await expect(store.rename("a", "b")).rejects.toThrow("already exists");
+    await expect(store.rename("a", "no/slash")).rejects.toThrow("Invalid recording name");
+    expect(await store.rename("missing", "c")).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Resampler Tests
+ * Chunking-independent output and anti-aliasing when downsampling
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Resampler } from "../../src/audio/resampler";
+
+// Stereo S16 sine at 44.1 kHz
+function sine(frames: number, freq = 440, amplitude = 12000): Int16Array {
+  const samples = new Int16Array(frames * 2);
+  for (let i = 0; i < frames; i++) {
+    samples[i * 2] = samples[i * 2 + 1] = Math.round(Math.sin((2 * Math.PI * freq * i) / 44100) * amplitude);
+  }
+  return samples;
+}
+
+describe("Resampler", () => {
+  it("should produce 48 kHz worth of frames regardless of chunking", () => {
+    const whole = new Resampler(44100, 48000, 2).process(sine(4410));
+
+    const chunked = new Resampler(44100, 48000, 2);
+    const input = sine(4410);
+    const parts: number[] = [];
+    for (let offset = 0; offset < input.length; offset += 2 * 147) {
+      parts.push(...chunked.process(input.subarray(offset, offset + 2 * 147)));
+    }
+
+    expect(Math.abs(whole.length / 2 - 4800)).toBeLessThanOrEqual(2);
+    expect(parts).toEqual([...whole]);
+  });
+
+  it("should carry the filter across chunks when downsampling", () => {
+    const input = sine(4410, 9000);
+    const whole = new Resampler(44100, 16000, 2).process(input);
+
+    const chunked = new Resampler(44100, 16000, 2);
+    const parts: number[] = [];
+    for (let offset = 0; offset < input.length; offset += 2 * 97) {
+      parts.push(...chunked.process(input.subarray(offset, offset + 2 * 97)));
+    }
+
+    expect(parts).toEqual([...whole]);
+  });
+
+  it("should filter out tones above the target Nyquist frequency when downsampling", () => {
+    const rms = (freq: number) => {
+      const resampler = new Resampler(44100, 22050, 2);
+      const input = sine(4410, freq);
+      const output: number[] = [];
+      for (let offset = 0; offset < input.length; offset += 2 * 147) {
+        output.push(...resampler.process(input.subarray(offset, offset + 2 * 147)));
+      }
+      const settled = output.slice(200); // Past the filter's warm-up
+      return Math.sqrt(settled.reduce((sum, sample) => sum + sample * sample, 0) / settled.length);
+    };
+
+    const passed = rms(1000);
+    expect(passed).toBeGreaterThan((12000 / Math.SQRT2) * 0.95);
+    expect(rms(15000)).toBeLessThan(passed * 0.01); // Would alias to 7050 Hz
+  });
+});
@@ -203,4 +203,50 @@ describe("TextBuffer", () => {
       expect(typeof json.lastUpdate).toBe("number");
     });
   });
+
+  describe("Model:02 geometry", () => {
+    const model02System = {
+      type: "system" as const,
+      hardwareType: 3,
+      firmwareMajor: 4,
+      firmwareMinor: 0,
+      firmwarePatch: 0,
+      fontMode: 0,
+    };
+
+    it("should map Model:02 pixel positions to the same text grid", () => {
+      buffer.applySystem(model02System);
+      buffer.applyText({
+        type: "text",
+        char: "Q",
+        charCode: 81,
+        x: 24, // col 2 (24/12)
+        y: 39, // row 3 (39/13)
+        fg: { r: 255, g: 255, b: 255 },
+        bg: { r: 0, g: 0, b: 0 },
+      });
+
+      expect(buffer.getCell(3, 2)!.char).toBe("Q");
+      expect(buffer.getDimensions()).toEqual({ rows: 24, cols: 40 });
+    });
+
+    it("should only clear on a full 480x320 rect", () => {
+      buffer.applySystem(model02System);
+      buffer.applyText({
+        type: "text",
+        char: "Q",
+        charCode: 81,
+        x: 400,
+        y: 300,
+        fg: { r: 255, g: 255, b: 255 },
+        bg: { r: 0, g: 0, b: 0 },
+      });
+
+      buffer.applyRect({ type: "rect", x: 0, y: 0, width: 320, height: 240, color: { r: 0, g: 0, b: 0 } });
+      expect(buffer.getCell(23, 33)!.char).toBe("Q");
+
+      buffer.applyRect({ type: "rect", x: 0, y: 0, width: 480, height: 320, color: { r: 0, g: 0, b: 0 } });
+      expect(buffer.getCell(23, 33)!.char).toBe(" ");
+    });
+  });
 });
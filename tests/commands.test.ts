@@ -4,7 +4,7 @@
  */
 
 import { describe, it, expect } from "bun:test";
-import { parseCommand } from "../src/serial/commands";
+import { parseCommand, encodeCommand } from "../src/serial/commands";
 import { M8Command } from "../src/state/types";
 
 describe("M8 Command Parser", () => {
@@ -178,4 +178,49 @@ describe("M8 Command Parser", () => {
       expect(cmd).toBeNull();
     });
   });
+
+  describe("encodeCommand (inverse of parseCommand)", () => {
+    it("should round-trip TEXT", () => {
+      const text = {
+        type: "text" as const,
+        char: "Z",
+        charCode: 90,
+        x: 312,
+        y: 230,
+        fg: { r: 248, g: 248, b: 248 },
+        bg: { r: 96, g: 96, b: 136 },
+      };
+      expect(parseCommand(encodeCommand(text))).toEqual(text);
+    });
+
+    it("should round-trip RECT as full 12-byte form", () => {
+      const rect = {
+        type: "rect" as const,
+        x: 300,
+        y: 5,
+        width: 20,
+        height: 10,
+        color: { r: 1, g: 2, b: 3 },
+      };
+      const frame = encodeCommand(rect);
+      expect(frame.length).toBe(12);
+      expect(parseCommand(frame)).toEqual(rect);
+    });
+
+    it("should round-trip WAVE, JPAD and SYSTEM", () => {
+      const wave = { type: "wave" as const, color: { r: 50, g: 236, b: 255 }, data: new Uint8Array([1, 12, 24]) };
+      const jpad = { type: "jpad" as const, state: 0x14 };
+      const system = {
+        type: "system" as const,
+        hardwareType: 2,
+        firmwareMajor: 4,
+        firmwareMinor: 1,
+        firmwarePatch: 2,
+        fontMode: 1,
+      };
+      expect(parseCommand(encodeCommand(wave))).toEqual(wave);
+      expect(parseCommand(encodeCommand(jpad))).toEqual(jpad);
+      expect(parseCommand(encodeCommand(system))).toEqual(system);
+    });
+  });
 });
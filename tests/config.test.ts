@@ -0,0 +1,14 @@
+/**
+ * Config Tests
+ * Defaults that change what runs at startup
+ */
+
+import { describe, it, expect } from "bun:test";
+
+describe("config", () => {
+  it("should leave the instant-replay window (and boot-time audio capture) off by default", async () => {
+    delete process.env.M8_REPLAY_SECONDS;
+    const { config } = await import("../src/config");
+    expect(config.REPLAY_SECONDS).toBe(0);
+  });
+});
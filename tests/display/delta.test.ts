@@ -4,7 +4,8 @@
  */
 
 import { describe, it, expect, beforeEach } from "bun:test";
-import { DisplayDelta } from "../../src/display/delta";
+import { DisplayDelta, summarizeDisplayClients } from "../../src/display/delta";
+import { MODEL_02_GEOMETRY } from "../../src/display/geometry";
 import type { TextCommand, RectCommand, WaveCommand } from "../../src/state/types";
 
 describe("DisplayDelta", () => {
@@ -216,6 +217,38 @@ describe("DisplayDelta", () => {
     });
   });
 
+  describe("overdraw", () => {
+    const text = (charCode: number, x = 0): TextCommand => ({
+      type: "text",
+      char: String.fromCharCode(charCode),
+      charCode,
+      x,
+      y: 0,
+      fg: { r: 255, g: 255, b: 255 },
+      bg: { r: 0, g: 0, b: 0 },
+    });
+    const erase: RectCommand = { type: "rect", x: 0, y: 0, width: 8, height: 10, color: { r: 0, g: 0, b: 0 } };
+
+    it("should resend draws after a rect or text painted over them", () => {
+      expect(delta.shouldSend(text(65))).toBe(true);
+      expect(delta.shouldSend(erase)).toBe(true);
+      expect(delta.shouldSend(text(65))).toBe(true);  // Erased, so drawn again
+      expect(delta.shouldSend(text(66))).toBe(true);
+      expect(delta.shouldSend(erase)).toBe(true);     // Text drawn over the erased cell
+      expect(delta.shouldSend(erase)).toBe(false);
+    });
+
+    it("should resend a partly covered draw and keep it in the snapshot", () => {
+      const wide: RectCommand = { type: "rect", x: 0, y: 0, width: 16, height: 10, color: { r: 255, g: 0, b: 0 } };
+      delta.shouldSend(wide);
+      delta.shouldSend(text(65, 8));
+
+      expect(delta.snapshot()).toEqual([wide, text(65, 8)]);
+      expect(delta.shouldSend(text(65, 8))).toBe(false);
+      expect(delta.shouldSend(wide)).toBe(true);
+    });
+  });
+
   describe("WAVE command (always send)", () => {
     it("should always send WAVE commands", () => {
       const cmd: WaveCommand = {
@@ -275,6 +308,52 @@ describe("DisplayDelta", () => {
     });
   });
 
+  describe("Model:02 geometry", () => {
+    const text: TextCommand = {
+      type: "text",
+      char: "A",
+      charCode: 65,
+      x: 0,
+      y: 0,
+      fg: { r: 255, g: 255, b: 255 },
+      bg: { r: 0, g: 0, b: 0 },
+    };
+    const rect = (width: number, height: number): RectCommand => ({
+      type: "rect",
+      x: 0,
+      y: 0,
+      width,
+      height,
+      color: { r: 0, g: 0, b: 0 },
+    });
+
+    it("should scale screen clear threshold after Model:02 SYSTEM", () => {
+      delta.shouldSend({
+        type: "system",
+        hardwareType: 3,
+        firmwareMajor: 4,
+        firmwareMinor: 0,
+        firmwarePatch: 0,
+        fontMode: 0,
+      });
+
+      delta.shouldSend(text);
+      // 320x240 is only half of a 480x320 screen - not a clear (drawn away from the text)
+      delta.shouldSend({ ...rect(320, 240), x: 160, y: 80 });
+      expect(delta.shouldSend(text)).toBe(false);
+
+      delta.shouldSend(rect(480, 320));
+      expect(delta.shouldSend(text)).toBe(true);
+    });
+
+    it("should reset caches when geometry changes", () => {
+      delta.shouldSend(text);
+      delta.setGeometry(MODEL_02_GEOMETRY);
+
+      expect(delta.shouldSend(text)).toBe(true);
+    });
+  });
+
   describe("statistics", () => {
     it("should track sent and skipped counts", () => {
       const cmd: TextCommand = {
@@ -318,3 +397,16 @@ describe("DisplayDelta", () => {
     });
   });
 });
+
+describe("summarizeDisplayClients", () => {
+  it("should total bytes and compute savings over delta clients only", () => {
+    const summary = summarizeDisplayClients([
+      { mode: "raw", bytes: 1000, rawBytes: 1000 },
+      { mode: "delta", bytes: 300, rawBytes: 1000 },
+      { mode: "delta", bytes: 100, rawBytes: 1000 },
+    ]);
+
+    expect(summary).toEqual({ clients: 3, deltaClients: 2, bytes: 1400, rawBytes: 3000, savings: "80%" });
+    expect(summarizeDisplayClients([]).savings).toBe("0%");
+  });
+});
@@ -218,4 +218,89 @@ describe("Framebuffer", () => {
       expect(fb.getPixel(319, 12)).toEqual({ r: 50, g: 236, b: 255 });
     });
   });
+
+  describe("font modes (SYSTEM command)", () => {
+    const system = (hardwareType: number, fontMode: number) => ({
+      type: "system" as const,
+      hardwareType,
+      firmwareMajor: 4,
+      firmwareMinor: 0,
+      firmwarePatch: 0,
+      fontMode,
+    });
+
+    // Bounding box of pixels with the given color
+    const bounds = (fb: Framebuffer, color: { r: number; g: number; b: number }) => {
+      const { width, height } = fb.getSize();
+      let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const p = fb.getPixel(x, y);
+          if (p.r === color.r && p.g === color.g && p.b === color.b) {
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+          }
+        }
+      }
+      return { minX, minY, maxX, maxY };
+    };
+
+    const bg = { r: 10, g: 20, b: 30 };
+
+    it("should use font_v1 small by default", () => {
+      const fb = new Framebuffer();
+      expect(fb.getFont()).toMatchObject({ index: 0, glyphX: 5, glyphY: 7 });
+    });
+
+    it("should switch to v1 large on Model:01 fontMode 1", () => {
+      const fb = new Framebuffer();
+      fb.applySystem(system(2, 1));
+
+      expect(fb.getFont()).toMatchObject({ index: 1, glyphX: 8, glyphY: 9 });
+      expect(fb.getSize()).toEqual({ width: 320, height: 240 });
+    });
+
+    it("should draw glyph background with the active font metrics", () => {
+      const fb = new Framebuffer();
+      fb.applySystem(system(2, 1));
+      fb.applyText({ type: "text", charCode: 32, x: 16, y: 100, char: " ", fg: { r: 255, g: 255, b: 255 }, bg });
+
+      // v1 large: 8x9 glyph, text_offset_y 4, screen_offset_y -40
+      expect(bounds(fb, bg)).toEqual({ minX: 16, minY: 64, maxX: 23, maxY: 72 });
+    });
+
+    it("should select v2 fonts and 480x320 on Model:02", () => {
+      const fb = new Framebuffer();
+
+      fb.applySystem(system(3, 0));
+      expect(fb.getSize()).toEqual({ width: 480, height: 320 });
+      expect(fb.getFont()).toMatchObject({ index: 2, glyphX: 9, glyphY: 9 });
+
+      fb.applySystem(system(3, 2));
+      expect(fb.getFont()).toMatchObject({ index: 4, glyphX: 12, glyphY: 12 });
+    });
+
+    it("should render the same glyph shapes as the v1 table", () => {
+      const fb = new Framebuffer();
+      const fg = { r: 50, g: 236, b: 255 };
+      fb.applyText({ type: "text", charCode: 65, x: 0, y: 0, char: "A", fg, bg: { r: 0, g: 0, b: 0 } });
+
+      // 'A' top row is .###. , second row #...#
+      expect(fb.getPixel(0, 3)).toEqual({ r: 0, g: 0, b: 0 });
+      expect(fb.getPixel(1, 3)).toEqual(fg);
+      expect(fb.getPixel(0, 4)).toEqual(fg);
+      expect(fb.getPixel(4, 4)).toEqual(fg);
+    });
+
+    it("should export BMP with Model:02 dimensions", () => {
+      const fb = new Framebuffer();
+      fb.applySystem(system(3, 0));
+      const bmp = fb.toBMP();
+
+      expect(bmp.readInt32LE(18)).toBe(480);
+      expect(bmp.readInt32LE(22)).toBe(320);
+    });
+  });
 });
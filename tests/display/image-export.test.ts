@@ -0,0 +1,241 @@
+/**
+ * Image export tests - indexed PNG, APNG and GIF encoders
+ */
+
+import { describe, it, expect } from "bun:test";
+import { PNG } from "pngjs";
+import { Framebuffer } from "../../src/display/framebuffer";
+import { buildPalette, toIndexed, type IndexedImage, type RgbaFrame } from "../../src/display/indexed";
+import { encodeApng, diffRegion, type AnimationFrame } from "../../src/display/png";
+import { encodeGif } from "../../src/display/gif";
+
+const RED = { r: 255, g: 0, b: 0 };
+const BLUE = { r: 0, g: 0, b: 255 };
+
+function chunkTypes(png: Buffer): string[] {
+  const types: string[] = [];
+  let offset = 8;
+  while (offset < png.length) {
+    const length = png.readUInt32BE(offset);
+    types.push(png.toString("ascii", offset + 4, offset + 8));
+    offset += 12 + length;
+  }
+  return types;
+}
+
+/**
+ * Minimal GIF decoder (global palette, no interlace) - returns composited frames
+ */
+function decodeGif(gif: Buffer): { width: number; height: number; frames: Uint8Array[]; delays: number[] } {
+  const width = gif.readUInt16LE(6);
+  const height = gif.readUInt16LE(8);
+  const tableSize = 1 << ((gif[10]! & 0x07) + 1);
+  let offset = 13 + tableSize * 3;
+
+  const canvas = new Uint8Array(width * height);
+  const frames: Uint8Array[] = [];
+  const delays: number[] = [];
+
+  const readBlocks = (): number[] => {
+    const data: number[] = [];
+    while (gif[offset] !== 0) {
+      const size = gif[offset]!;
+      data.push(...gif.subarray(offset + 1, offset + 1 + size));
+      offset += size + 1;
+    }
+    offset++;
+    return data;
+  };
+
+  while (gif[offset] !== 0x3b) {
+    const introducer = gif[offset]!;
+    if (introducer === 0x21) {
+      const label = gif[offset + 1]!;
+      offset += 2;
+      const block = readBlocks();
+      if (label === 0xf9) delays.push(block[1]! | (block[2]! << 8));
+      continue;
+    }
+
+    const x = gif.readUInt16LE(offset + 1);
+    const y = gif.readUInt16LE(offset + 3);
+    const w = gif.readUInt16LE(offset + 5);
+    const h = gif.readUInt16LE(offset + 7);
+    const minCodeSize = gif[offset + 10]!;
+    offset += 11;
+    const data = readBlocks();
+
+    // LZW decode
+    const clear = 1 << minCodeSize;
+    let codeSize = minCodeSize + 1;
+    let dict: number[][] = [];
+    const reset = () => {
+      dict = Array.from({ length: clear + 2 }, (_, i) => [i]);
+      codeSize = minCodeSize + 1;
+    };
+    reset();
+    const out: number[] = [];
+    let bitPos = 0;
+    let prev: number[] | null = null;
+    while (true) {
+      let code = 0;
+      for (let i = 0; i < codeSize; i++) {
+        const bit = (data[(bitPos + i) >> 3]! >> ((bitPos + i) & 7)) & 1;
+        code |= bit << i;
+      }
+      bitPos += codeSize;
+      if (code === clear) { reset(); prev = null; continue; }
+      if (code === clear + 1) break;
+      const entry: number[] = dict[code] ?? [...prev!, prev![0]!];
+      out.push(...entry);
+      if (prev) dict.push([...prev, entry[0]!]);
+      if (dict.length === 1 << codeSize && codeSize < 12) codeSize++;
+      prev = entry;
+    }
+
+    for (let row = 0; row < h; row++) {
+      canvas.set(out.slice(row * w, row * w + w), (y + row) * width + x);
+    }
+    frames.push(canvas.slice());
+  }
+
+  return { width, height, frames, delays };
+}
+
+function solidFrame(width: number, height: number, rgb: [number, number, number]): RgbaFrame {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set([...rgb, 255], i);
+  }
+  return { width, height, pixels };
+}
+
+describe("indexed images", () => {
+  it("should build an exact palette for few colors", () => {
+    const fb = new Framebuffer();
+    fb.applyRect({ type: "rect", x: 0, y: 0, width: 10, height: 10, color: RED });
+
+    const { palette, reduced } = buildPalette([fb.snapshot()]);
+    expect(reduced).toBe(false);
+    expect(palette.length).toBe(2 * 3);
+  });
+
+  it("should reduce colors when more than 256 are used", () => {
+    const frame = solidFrame(32, 32, [0, 0, 0]);
+    for (let i = 0; i < 32 * 32; i++) {
+      frame.pixels.set([i & 0xff, i >> 2, 7], i * 4);
+    }
+    const { palette, reduced } = buildPalette([frame]);
+    expect(reduced).toBe(true);
+    expect(palette.length).toBeLessThanOrEqual(256 * 3);
+  });
+
+  it("should upscale by an integer factor", () => {
+    const frame = solidFrame(2, 1, [0, 0, 0]);
+    frame.pixels.set([255, 255, 255, 255], 4);
+    const image = toIndexed(frame, buildPalette([frame]), 3);
+
+    expect(image.width).toBe(6);
+    expect(image.height).toBe(3);
+    expect([...image.indices.subarray(0, 6)]).toEqual([0, 0, 0, 1, 1, 1]);
+  });
+});
+
+describe("encodePng", () => {
+  it("should produce a palette PNG that decodes to the framebuffer pixels", () => {
+    const fb = new Framebuffer();
+    fb.applyRect({ type: "rect", x: 10, y: 20, width: 5, height: 3, color: RED });
+    fb.applyText({ type: "text", char: "A", charCode: 65, x: 40, y: 40, fg: BLUE, bg: { r: 0, g: 0, b: 0 } });
+
+    const png = fb.toPNG();
+    expect(png[25]).toBe(3); // IHDR color type: indexed
+    expect(chunkTypes(png)).toEqual(["IHDR", "PLTE", "IDAT", "IEND"]);
+
+    const decoded = PNG.sync.read(png);
+    expect(decoded.width).toBe(320);
+    expect(decoded.height).toBe(240);
+    expect(Buffer.from(decoded.data).equals(Buffer.from(fb.getPixels()))).toBe(true);
+  });
+
+  it("should scale with nearest neighbour", () => {
+    const fb = new Framebuffer();
+    fb.applyRect({ type: "rect", x: 1, y: 1, width: 1, height: 1, color: RED });
+
+    const decoded = PNG.sync.read(fb.toPNG(2));
+    expect(decoded.width).toBe(640);
+    expect(decoded.height).toBe(480);
+
+    const pixel = (x: number, y: number) => [...decoded.data.subarray((y * 640 + x) * 4, (y * 640 + x) * 4 + 3)];
+    expect(pixel(2, 2)).toEqual([255, 0, 0]);
+    expect(pixel(3, 3)).toEqual([255, 0, 0]);
+    expect(pixel(4, 4)).toEqual([0, 0, 0]);
+  });
+
+  it("should stay small for a mostly empty screen", () => {
+    expect(new Framebuffer().toPNG().length).toBeLessThan(1000);
+  });
+});
+
+describe("animations", () => {
+  const makeFrames = (): AnimationFrame[] => {
+    const a = solidFrame(8, 8, [0, 0, 0]);
+    const b = solidFrame(8, 8, [0, 0, 0]);
+    b.pixels.set([255, 0, 0, 255], (2 * 8 + 3) * 4);
+    const palette = buildPalette([a, b]);
+    return [
+      { image: toIndexed(a, palette), delayMs: 100 },
+      { image: toIndexed(a, palette), delayMs: 100 },
+      { image: toIndexed(b, palette), delayMs: 100 },
+    ];
+  };
+
+  it("should find the changed region", () => {
+    const [first, , last] = makeFrames();
+    expect(diffRegion(first!.image, last!.image)).toEqual({ x: 3, y: 2, width: 1, height: 1 });
+    expect(diffRegion(first!.image, first!.image)).toBeNull();
+  });
+
+  it("should encode APNG with merged identical frames", () => {
+    const apng = encodeApng(makeFrames());
+    const types = chunkTypes(apng);
+
+    expect(types).toEqual(["IHDR", "acTL", "PLTE", "fcTL", "IDAT", "fcTL", "fdAT", "IEND"]);
+
+    const actl = apng.indexOf("acTL");
+    expect(apng.readUInt32BE(actl + 4)).toBe(2); // num_frames
+
+    const fctl = apng.indexOf("fcTL");
+    expect(apng.readUInt16BE(fctl + 4 + 20)).toBe(200); // First frame holds 2 × 100ms
+  });
+
+  it("should still decode APNG as a static PNG (first frame)", () => {
+    const decoded = PNG.sync.read(encodeApng(makeFrames()));
+    expect(decoded.width).toBe(8);
+    expect(decoded.data[(2 * 8 + 3) * 4]).toBe(0);
+  });
+
+  it("should encode GIF frames that decode to the source images", () => {
+    const frames = makeFrames();
+    const gif = encodeGif(frames);
+
+    expect(gif.toString("ascii", 0, 6)).toBe("GIF89a");
+    expect(gif.includes(Buffer.from("NETSCAPE2.0"))).toBe(true);
+
+    const decoded = decodeGif(gif);
+    expect(decoded.frames.length).toBe(2);
+    expect(decoded.delays).toEqual([20, 10]);
+    expect(Buffer.from(decoded.frames[1]!).equals(Buffer.from(frames[2]!.image.indices))).toBe(true);
+  });
+
+  it("should encode a full screen GIF losslessly", () => {
+    const fb = new Framebuffer();
+    for (let i = 0; i < 30; i++) {
+      fb.applyText({ type: "text", char: String.fromCharCode(65 + (i % 26)), charCode: 65 + (i % 26), x: i * 8, y: 30, fg: RED, bg: BLUE });
+    }
+    const snapshot = fb.snapshot();
+    const image: IndexedImage = toIndexed(snapshot, buildPalette([snapshot]));
+
+    const decoded = decodeGif(encodeGif([{ image, delayMs: 100 }]));
+    expect(Buffer.from(decoded.frames[0]!).equals(Buffer.from(image.indices))).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Display Resync Tests
+ * A snapshot replayed on a fresh screen must match the live screen pixel for pixel
+ */
+
+import { describe, it, expect } from "bun:test";
+import { DisplayDelta } from "../../src/display/delta";
+import { Framebuffer } from "../../src/display/framebuffer";
+import { encodeResyncStream } from "../../src/display/resync";
+import { SlipDecoder } from "../../src/serial/slip";
+import { parseCommand } from "../../src/serial/commands";
+import type { ParsedCommand, Color } from "../../src/state/types";
+
+const BLACK: Color = { r: 0, g: 0, b: 0 };
+const WHITE: Color = { r: 248, g: 248, b: 248 };
+const GRAY: Color = { r: 96, g: 96, b: 96 };
+
+const text = (char: string, x: number, y: number, fg = WHITE, bg = BLACK): ParsedCommand =>
+  ({ type: "text", char, charCode: char.charCodeAt(0), x, y, fg, bg });
+const rect = (x: number, y: number, width: number, height: number, color: Color): ParsedCommand =>
+  ({ type: "rect", x, y, width, height, color });
+
+function apply(fb: Framebuffer, cmd: ParsedCommand): void {
+  if (cmd.type === "text") fb.applyText(cmd);
+  else if (cmd.type === "rect") fb.applyRect(cmd);
+  else if (cmd.type === "wave") fb.applyWave(cmd);
+  else if (cmd.type === "system") fb.applySystem(cmd);
+}
+
+function decodeStream(stream: Uint8Array): ParsedCommand[] {
+  const commands: ParsedCommand[] = [];
+  const decoder = new SlipDecoder((frame) => {
+    const cmd = parseCommand(frame);
+    if (cmd) commands.push(cmd);
+  });
+  decoder.feed(stream);
+  return commands;
+}
+
+describe("Display resync", () => {
+  it("should be empty before anything was drawn", () => {
+    expect(encodeResyncStream(new DisplayDelta().snapshot()).length).toBe(0);
+  });
+
+  it("should redraw the live screen exactly", () => {
+    const live = new Framebuffer();
+    const delta = new DisplayDelta();
+    const session: ParsedCommand[] = [
+      rect(0, 0, 320, 240, BLACK),           // Screen clear
+      rect(0, 30, 320, 10, GRAY),            // Selection bar
+      text("A", 10, 30),
+      text("B", 20, 30),
+      rect(0, 30, 320, 10, BLACK),           // Cursor moved: bar cleared, covers A/B
+      text("B", 20, 30),                     // Only B redrawn
+      rect(0, 50, 320, 10, GRAY),            // New bar
+      text("C", 10, 50, BLACK, GRAY),
+      rect(0, 30, 320, 10, BLACK),           // Repeat draw over B (sent, B's cell changes)
+      { type: "wave", color: WHITE, data: new Uint8Array([1, 5, 9, 5, 1]) },
+    ];
+    for (const cmd of session) {
+      apply(live, cmd);
+      delta.shouldSend(cmd);
+    }
+
+    const replayed = new Framebuffer();
+    const commands = decodeStream(encodeResyncStream(delta.snapshot()));
+    commands.forEach((cmd) => apply(replayed, cmd));
+
+    expect(commands.some((c) => c.type === "text" && c.char === "A")).toBe(false); // Covered by the cleared bar
+    expect(Buffer.from(replayed.getPixels()).equals(Buffer.from(live.getPixels()))).toBe(true);
+  });
+
+  it("should start fresh after a screen clear and keep the model", () => {
+    const delta = new DisplayDelta();
+    delta.shouldSend({ type: "system", hardwareType: 3, firmwareMajor: 6, firmwareMinor: 0, firmwarePatch: 0, fontMode: 0 });
+    delta.shouldSend(text("A", 10, 30));
+    delta.shouldSend(rect(0, 0, 480, 320, BLACK));
+    delta.shouldSend(text("B", 10, 30));
+
+    expect(delta.snapshot().map((c) => c.type)).toEqual(["system", "rect", "text"]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Screen Parser tests
+ * Golden files: tests/fixtures/screens/<name>.txt → <name>.parsed.json
+ * Regenerate after intended parser changes with: UPDATE_GOLDEN=1 bun test tests/display/screen-parser.test.ts
+ */
+
+import { describe, it, expect } from "bun:test";
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { parseScreen, parseTextBuffer, locateCursor } from "../../src/display/screen-parser";
+import { TextBuffer } from "../../src/display/buffer";
+
+const SCREENS_PATH = resolve(__dirname, "../fixtures/screens");
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === "1";
+
+const fixtures = readdirSync(SCREENS_PATH)
+  .filter((file) => file.endsWith(".txt"))
+  .map((file) => file.replace(/\.txt$/, ""));
+
+const readScreen = (name: string) => readFileSync(resolve(SCREENS_PATH, `${name}.txt`), "utf8").split("\n");
+
+describe("parseScreen golden files", () => {
+  for (const name of fixtures) {
+    it(`should parse ${name}`, () => {
+      const parsed = parseScreen(readScreen(name));
+      const goldenPath = resolve(SCREENS_PATH, `${name}.parsed.json`);
+
+      if (UPDATE_GOLDEN) {
+        writeFileSync(goldenPath, JSON.stringify(parsed, null, 2) + "\n");
+      }
+      expect(parsed).toEqual(JSON.parse(readFileSync(goldenPath, "utf8")));
+    });
+  }
+});
+
+describe("parseScreen", () => {
+  it("should recognize the real FMSYNTH instrument screen", () => {
+    const parsed = parseScreen(readScreen("fmsynth-inst03"));
+
+    expect(parsed.view).toBe("INST");
+    expect(parsed.number).toBe(3);
+    if (parsed.view !== "INST") return;
+    expect(parsed.params).toContainEqual({ name: "TYPE", value: "FMSYNTH", line: 5, col: 1 });
+    expect(parsed.params).toContainEqual({ name: "TBL.TIC", value: "01", line: 7, col: 14 });
+    expect(parsed.params).toContainEqual({ name: "CUTOFF", value: "FF", line: 20, col: 1 });
+    expect(parsed.trackNotes[3]).toBe("C#6");
+  });
+
+  it("should extract phrase steps", () => {
+    const parsed = parseScreen(readScreen("emulator-phrase00"));
+
+    expect(parsed.view).toBe("PHRASE");
+    if (parsed.view !== "PHRASE") return;
+    expect(parsed.rows.length).toBe(16);
+    expect(parsed.rows[4]).toEqual({
+      line: 10,
+      step: 4,
+      note: "D#4",
+      vel: 0x60,
+      inst: 0,
+      fx: [
+        { cmd: null, value: 0 },
+        { cmd: null, value: 0 },
+        { cmd: null, value: 0 },
+      ],
+    });
+  });
+
+  it("should extract chain steps and song cells", () => {
+    const chain = parseScreen(readScreen("emulator-chain00"));
+    const song = parseScreen(readScreen("emulator-song"));
+
+    if (chain.view !== "CHAIN" || song.view !== "SONG") throw new Error("wrong view");
+    expect(chain.rows[1]).toEqual({ line: 7, step: 1, phrase: 1, transpose: 0 });
+    expect(chain.rows[2]!.phrase).toBeNull();
+    expect(song.rows[1]!.tracks).toEqual([0, 2, null, null, null, null, null, null]);
+  });
+
+  it("should locate the cursor in view coordinates", () => {
+    const phrase = parseScreen(readScreen("emulator-phrase00"));
+    expect(locateCursor(phrase, { row: 10, col: 7 })).toEqual({ row: 4, col: 1 });
+    expect(locateCursor(phrase, { row: 21, col: 27 })).toEqual({ row: 15, col: 5 });
+    expect(locateCursor(phrase, { row: 3, col: 1 })).toBeNull();
+
+    const song = parseScreen(readScreen("emulator-song"));
+    expect(locateCursor(song, { row: 7, col: 7 })).toEqual({ row: 1, col: 1 });
+
+    const inst = parseScreen(readScreen("fmsynth-inst03"));
+    expect(locateCursor(inst, { row: 7, col: 22 })).toEqual({ row: 2, col: 1 });
+  });
+
+  it("should report UNKNOWN for an empty screen", () => {
+    const parsed = parseScreen([]);
+    expect(parsed.view).toBe("UNKNOWN");
+    expect(parsed.titleRow).toBe(-1);
+  });
+
+  it("should parse the live text buffer with cursor", () => {
+    const buffer = new TextBuffer();
+    const white = { r: 255, g: 255, b: 255 };
+    const black = { r: 0, g: 0, b: 0 };
+    [..."MIXER"].forEach((char, i) => {
+      buffer.applyText({ type: "text", char, charCode: char.charCodeAt(0), x: (1 + i) * 8, y: 30, fg: { r: 100, g: 100, b: 100 }, bg: black });
+    });
+    buffer.applyText({ type: "text", char: "8", charCode: 56, x: 80, y: 60, fg: white, bg: black });
+
+    const parsed = parseTextBuffer(buffer);
+    expect(parsed.view).toBe("MIXER");
+    expect(parsed.cursor).toEqual({ row: 6, col: 10 });
+  });
+});
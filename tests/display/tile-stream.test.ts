@@ -0,0 +1,142 @@
+/**
+ * Tile Stream tests - dirty tracking and compressed tile messages
+ */
+
+import { describe, it, expect } from "bun:test";
+import { Framebuffer, TILE_SIZE } from "../../src/display/framebuffer";
+import { TileStreamEncoder, decodeTileMessage, TILE_KEYFRAME, TILE_DELTA } from "../../src/display/tile-stream";
+import { HardwareType } from "../../src/state/types";
+
+const RED = { r: 255, g: 0, b: 0 };
+const BLACK = { r: 0, g: 0, b: 0 };
+
+/**
+ * Client-side screen rebuilt from tile messages
+ */
+function applyMessage(screen: Uint8Array, width: number, data: Buffer): void {
+  const msg = decodeTileMessage(data);
+  const cols = Math.ceil(msg.width / msg.tileSize);
+  for (const tile of msg.tiles) {
+    const tx = (tile.index % cols) * msg.tileSize;
+    const ty = Math.floor(tile.index / cols) * msg.tileSize;
+    for (let i = 0; i < tile.pixels.length; i++) {
+      const x = tx + (i % msg.tileSize);
+      const y = ty + Math.floor(i / msg.tileSize);
+      if (x >= msg.width || y >= msg.height) continue;
+      const color = tile.pixels[i]! * 3;
+      screen.set([msg.palette[color]!, msg.palette[color + 1]!, msg.palette[color + 2]!, 255], (y * width + x) * 4);
+    }
+  }
+}
+
+describe("Framebuffer dirty tracking", () => {
+  it("should mark everything dirty after clear", () => {
+    const fb = new Framebuffer();
+    expect(fb.takeDirtyTiles().length).toBe(fb.getTileGrid().count);
+    expect(fb.takeDirtyTiles()).toEqual([]);
+  });
+
+  it("should mark only tiles touched by a rect", () => {
+    const fb = new Framebuffer();
+    fb.takeDirtyTiles();
+
+    fb.applyRect({ type: "rect", x: TILE_SIZE - 1, y: 0, width: 2, height: 1, color: RED });
+    expect(fb.takeDirtyTiles()).toEqual([0, 1]);
+  });
+
+  it("should mark text and waveform areas", () => {
+    const fb = new Framebuffer();
+    fb.takeDirtyTiles();
+
+    fb.applyText({ type: "text", char: "A", charCode: 65, x: 0, y: 30, fg: RED, bg: BLACK });
+    expect(fb.takeDirtyTiles()).toEqual([40]); // Row 2, col 0 (320/16 = 20 cols)
+
+    fb.applyWave({ type: "wave", color: RED, data: new Uint8Array(10) });
+    expect(fb.takeDirtyTiles()).toEqual([19, 39]);
+  });
+
+  it("should resize the tile grid with the screen", () => {
+    const fb = new Framebuffer();
+    fb.applySystem({ type: "system", hardwareType: HardwareType.MODEL_02, firmwareMajor: 6, firmwareMinor: 0, firmwarePatch: 0, fontMode: 0 });
+    expect(fb.getTileGrid()).toMatchObject({ cols: 30, rows: 20 });
+  });
+});
+
+describe("TileStreamEncoder", () => {
+  it("should send every tile in a keyframe", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+
+    const msg = decodeTileMessage(encoder.keyframe());
+    expect(msg.type).toBe(TILE_KEYFRAME);
+    expect(msg.width).toBe(320);
+    expect(msg.tiles.length).toBe(300);
+  });
+
+  it("should send nothing while the screen is static", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+    encoder.keyframe();
+
+    expect(encoder.delta()).toBeNull();
+  });
+
+  it("should skip tiles redrawn with identical content", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+    fb.applyText({ type: "text", char: "A", charCode: 65, x: 0, y: 0, fg: RED, bg: BLACK });
+    encoder.keyframe();
+
+    fb.applyText({ type: "text", char: "A", charCode: 65, x: 0, y: 0, fg: RED, bg: BLACK });
+    expect(encoder.delta()).toBeNull();
+  });
+
+  it("should send only changed tiles", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+    encoder.keyframe();
+
+    fb.applyRect({ type: "rect", x: 100, y: 100, width: 4, height: 4, color: RED });
+    const data = encoder.delta()!;
+    const msg = decodeTileMessage(data);
+
+    expect(msg.type).toBe(TILE_DELTA);
+    expect(msg.tiles.map((t) => t.index)).toEqual([6 * 20 + 6]);
+    expect(data.length).toBeLessThan(100);
+  });
+
+  it("should let a client rebuild the exact screen", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+    const client = new Uint8Array(320 * 240 * 4);
+
+    applyMessage(client, 320, encoder.keyframe());
+    for (let i = 0; i < 20; i++) {
+      fb.applyText({ type: "text", char: String.fromCharCode(65 + i), charCode: 65 + i, x: i * 8, y: 50, fg: RED, bg: BLACK });
+      fb.applyRect({ type: "rect", x: i * 13, y: 150, width: 7, height: 30, color: { r: i * 10, g: 128, b: 0 } });
+      const delta = encoder.delta();
+      if (delta) applyMessage(client, 320, delta);
+    }
+
+    expect(Buffer.from(client).equals(Buffer.from(fb.getPixels()))).toBe(true);
+  });
+
+  it("should resend the whole screen after a resize", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+    encoder.keyframe();
+
+    fb.resize(480, 320);
+    const msg = decodeTileMessage(encoder.delta()!);
+    expect(msg.width).toBe(480);
+    expect(msg.tiles.length).toBe(600);
+  });
+
+  it("should count bytes and messages", () => {
+    const fb = new Framebuffer();
+    const encoder = new TileStreamEncoder(fb);
+    const keyframe = encoder.keyframe();
+
+    expect(encoder.getStats()).toEqual({ keyframes: 1, deltas: 0, tilesSent: 300, bytesSent: keyframe.length });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Virtual M8 Tests
+ * Emulator driven through M8Connection, display decoded by TextBuffer
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { VirtualM8, VIRTUAL_M8_PORT } from "../../src/emulator/virtual-m8";
+import { M8Connection } from "../../src/serial/connection";
+import { TextBuffer } from "../../src/display/buffer";
+import { SlipDecoder } from "../../src/serial/slip";
+import { parseCommand } from "../../src/serial/commands";
+import { M8Key, HardwareType, type ParsedCommand } from "../../src/state/types";
+
+describe("VirtualM8", () => {
+  let emulator: VirtualM8;
+  let connection: M8Connection;
+  let buffer: TextBuffer;
+  let commands: ParsedCommand[];
+
+  beforeEach(async () => {
+    emulator = new VirtualM8({ waveIntervalMs: 0 });
+    buffer = new TextBuffer();
+    commands = [];
+    connection = new M8Connection({
+      port: VIRTUAL_M8_PORT,
+      autoReconnect: false,
+      transportFactory: emulator.openTransport,
+      onCommand: (cmd) => {
+        commands.push(cmd);
+        if (cmd.type === "text") buffer.applyText(cmd);
+        if (cmd.type === "rect") buffer.applyRect(cmd);
+      },
+    });
+    await connection.connect();
+    await connection.sendRaw(new Uint8Array([0x45])); // 'E'
+  });
+
+  afterEach(async () => {
+    await connection.disconnect();
+  });
+
+  const press = async (bitmask: number) => {
+    await connection.sendKeys(bitmask);
+    await connection.sendKeys(0);
+  };
+
+  const title = () => buffer.getRow(3).trim();
+
+  it("should answer enable with SYSTEM and draw the song view", () => {
+    const system = commands.find((c) => c.type === "system");
+    expect(system).toBeDefined();
+    expect(title().startsWith("SONG")).toBe(true);
+    expect(buffer.getCursor()).toEqual({ row: 6, col: 4 });
+  });
+
+  it("should not draw before enable", async () => {
+    const idle = new VirtualM8({ waveIntervalMs: 0 });
+    const received: Uint8Array[] = [];
+    const transport = idle.attach({ onData: (data) => received.push(data) });
+
+    await transport.write(new Uint8Array([0x43, M8Key.DOWN]));
+    expect(received.length).toBe(0);
+  });
+
+  it("should move the cursor with direction keys", async () => {
+    await press(M8Key.DOWN);
+    await press(M8Key.RIGHT);
+
+    expect(emulator.getView()).toMatchObject({ screen: "SONG", row: 1, col: 1 });
+    expect(buffer.getCursor()).toEqual({ row: 7, col: 7 });
+  });
+
+  it("should navigate SONG → CHAIN → PHRASE → INST with SHIFT+RIGHT", async () => {
+    await press(M8Key.SELECT | M8Key.RIGHT);
+    expect(title()).toContain("CHAIN 00");
+
+    await press(M8Key.SELECT | M8Key.RIGHT);
+    expect(title()).toContain("PHRASE 00");
+    expect(buffer.getRow(6)).toContain("C-4");
+
+    await press(M8Key.SELECT | M8Key.RIGHT);
+    expect(title()).toContain("INST. 00");
+    expect(buffer.getRow(5)).toContain("WAVSYNTH");
+  });
+
+  it("should follow the chain under the cursor", async () => {
+    await press(M8Key.RIGHT); // track 2 → chain 01
+    await press(M8Key.SELECT | M8Key.RIGHT);
+
+    expect(emulator.getView()).toMatchObject({ screen: "CHAIN", number: 1 });
+    expect(title()).toContain("CHAIN 01");
+  });
+
+  it("should edit values with EDIT+direction", async () => {
+    await connection.sendKeys(M8Key.EDIT);
+    await connection.sendKeys(M8Key.EDIT | M8Key.RIGHT);
+    await connection.sendKeys(0);
+
+    expect(emulator.getProject().song[0]![0]).toBe(0x01);
+    expect(buffer.getRow(6).slice(4, 6)).toBe("01");
+  });
+
+  it("should emit a waveform while a note is held", async () => {
+    await connection.sendNoteOn(60, 100);
+
+    const wave = commands.find((c) => c.type === "wave");
+    expect(wave).toBeDefined();
+    if (wave?.type === "wave") {
+      expect(wave.data.length).toBe(320);
+    }
+    expect(buffer.getRow(7)).toContain("1 C-5");
+
+    await connection.sendNoteOff();
+    expect(buffer.getRow(7)).toContain("1 ---");
+  });
+
+  it("should redraw everything on reset", async () => {
+    buffer.clear();
+    await connection.reset();
+
+    expect(title().startsWith("SONG")).toBe(true);
+  });
+
+  it("should draw with Model:02 geometry when configured", async () => {
+    const model02 = new VirtualM8({ waveIntervalMs: 0, hardwareType: HardwareType.MODEL_02 });
+    const grid = new TextBuffer();
+    const decoder = new SlipDecoder((frame) => {
+      const cmd = parseCommand(frame);
+      if (cmd?.type === "system") grid.applySystem(cmd);
+      if (cmd?.type === "text") grid.applyText(cmd);
+      if (cmd?.type === "rect") grid.applyRect(cmd);
+    });
+    const transport = model02.attach({ onData: (data) => decoder.feed(data) });
+
+    await transport.write(new Uint8Array([0x45]));
+
+    expect(grid.getGeometry().width).toBe(480);
+    expect(grid.getRow(3).trim().startsWith("SONG")).toBe(true);
+    await transport.close();
+  });
+});
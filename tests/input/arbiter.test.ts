@@ -0,0 +1,147 @@
+/**
+ * Input Arbiter Tests
+ * Per-client held buttons, OR-merge, driver lock and observers
+ */
+
+import { describe, it, expect, beforeEach } from "bun:test";
+import { InputArbiter, InputRejectedError, type SessionInfo } from "../../src/input/arbiter";
+import { M8Key } from "../../src/state/types";
+
+describe("InputArbiter", () => {
+  let sent: number[][];
+  let arbiter: InputArbiter;
+
+  beforeEach(() => {
+    sent = [];
+    arbiter = new InputArbiter({ send: async (data) => void sent.push([...data]) });
+    arbiter.register("a", "tcp", { label: "m8c a" });
+    arbiter.register("b", "control");
+  });
+
+  it("should OR-merge held buttons and only send changes", async () => {
+    await arbiter.setButtons("a", M8Key.SELECT);
+    await arbiter.setButtons("b", M8Key.DOWN);
+    await arbiter.setButtons("b", M8Key.DOWN);
+    await arbiter.setButtons("a", 0);
+    await arbiter.setButtons("b", 0);
+
+    expect(sent).toEqual([
+      [0x43, M8Key.SELECT],
+      [0x43, M8Key.SELECT | M8Key.DOWN],
+      [0x43, M8Key.DOWN],
+      [0x43, 0],
+    ]);
+  });
+
+  it("should release a client's buttons when it leaves", async () => {
+    await arbiter.setButtons("a", M8Key.UP);
+    await arbiter.unregister("a");
+
+    expect(sent).toEqual([[0x43, M8Key.UP], [0x43, 0]]);
+    expect(arbiter.getSession().clients.map((c) => c.id)).toEqual(["b"]);
+  });
+
+  it("should give the driver exclusive input", async () => {
+    await arbiter.setButtons("b", M8Key.EDIT);
+    expect(await arbiter.requestLock("a")).toBe("granted");
+
+    // Other clients' held buttons are released, their input refused
+    expect(sent.at(-1)).toEqual([0x43, 0]);
+    await expect(arbiter.setButtons("b", M8Key.UP)).rejects.toBeInstanceOf(InputRejectedError);
+    await expect(arbiter.sendNote("b", 60)).rejects.toThrow("Input locked by m8c a");
+
+    await arbiter.setButtons("a", M8Key.LEFT);
+    expect(sent.at(-1)).toEqual([0x43, M8Key.LEFT]);
+    expect(arbiter.getSession().driver).toMatchObject({ id: "a", kind: "tcp" });
+  });
+
+  it("should queue lock requests and pass the lock on release", async () => {
+    arbiter.register("c", "ws");
+    await arbiter.requestLock("a");
+    expect(await arbiter.requestLock("b")).toBe("queued");
+    expect(await arbiter.requestLock("c")).toBe("queued");
+    expect(arbiter.getSession().requests).toEqual(["b", "c"]);
+
+    expect(await arbiter.releaseLock("a")).toBe(true);
+    expect(arbiter.getSession().driver?.id).toBe("b");
+
+    await arbiter.unregister("b");
+    expect(arbiter.getSession().driver?.id).toBe("c");
+    await arbiter.releaseLock("c");
+    expect(arbiter.getSession().driver).toBeNull();
+  });
+
+  it("should let only the driver grant the lock", async () => {
+    await arbiter.requestLock("a");
+    await expect(arbiter.grantLock("b", "b")).rejects.toThrow("Only the driver");
+
+    await arbiter.grantLock("a", "b");
+    expect(arbiter.getSession().driver?.id).toBe("b");
+  });
+
+  it("should keep observers read-only", async () => {
+    arbiter.register("viewer", "control", { observer: true });
+
+    await expect(arbiter.setButtons("viewer", M8Key.UP)).rejects.toThrow("read-only");
+    await expect(arbiter.requestLock("viewer")).rejects.toBeInstanceOf(InputRejectedError);
+    expect(sent).toEqual([]);
+  });
+
+  it("should notify listeners of lock and client changes", async () => {
+    const sessions: SessionInfo[] = [];
+    arbiter.onChange((session) => sessions.push(session));
+
+    await arbiter.requestLock("a");
+    await arbiter.setButtons("a", M8Key.UP);
+    await arbiter.unregister("a");
+
+    expect(sessions.map((s) => s.driver?.id ?? null)).toEqual(["a", null]);
+  });
+
+  describe("feed", () => {
+    it("should parse split and concatenated commands", async () => {
+      await arbiter.feed("a", new Uint8Array([0x45, 0x52, 0x43]));
+      await arbiter.feed("a", new Uint8Array([M8Key.UP, 0x4b, 60]));
+      await arbiter.feed("a", new Uint8Array([100, 0x4b, 0xff]));
+
+      expect(sent).toEqual([[0x45], [0x52], [0x43, M8Key.UP], [0x4b, 60, 100], [0x4b, 0xff]]);
+    });
+
+    it("should merge raw input with other clients", async () => {
+      await arbiter.setButtons("b", M8Key.SELECT);
+      await arbiter.feed("a", new Uint8Array([0x43, M8Key.RIGHT, 0x43, 0]));
+
+      expect(sent).toEqual([[0x43, M8Key.SELECT], [0x43, M8Key.SELECT | M8Key.RIGHT], [0x43, M8Key.SELECT]]);
+    });
+
+    it("should drop refused input and disconnect commands", async () => {
+      await arbiter.requestLock("b");
+      await arbiter.feed("a", new Uint8Array([0x43, M8Key.UP, 0x4b, 0xff, 0x44, 0x52]));
+
+      expect(sent).toEqual([]);
+    });
+
+    it("should not let observers or non-drivers send enable, reset or raw bytes", async () => {
+      arbiter.register("viewer", "tcp", { observer: true });
+      await arbiter.feed("viewer", new Uint8Array([0x45, 0x52, 0x99]));
+      expect(sent).toEqual([]);
+
+      await arbiter.requestLock("b");
+      await arbiter.feed("a", new Uint8Array([0x45, 0x52, 0x99]));
+      expect(sent).toEqual([]);
+
+      await arbiter.feed("b", new Uint8Array([0x45, 0x52]));
+      expect(sent).toEqual([[0x45], [0x52]]);
+    });
+  });
+
+  it("should expose a connection-like port per client", async () => {
+    const port = arbiter.port("b");
+    await port.sendKeys(M8Key.OPT);
+    await port.sendNoteOn(48, 90);
+    await port.sendNoteOff();
+    await port.reset();
+
+    expect(sent).toEqual([[0x43, M8Key.OPT], [0x4b, 48, 90], [0x4b, 0xff], [0x52]]);
+  });
+});
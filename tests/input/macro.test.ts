@@ -0,0 +1,178 @@
+/**
+ * Key Macro Tests
+ * Parser, compiled steps, runner timing/cancel and the on-disk store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  parseMacro,
+  compileMacro,
+  compilePress,
+  macroDuration,
+  MacroRunner,
+  MacroSyntaxError,
+  RELEASE_GAP_MS,
+} from "../../src/input/macro";
+import { MacroStore } from "../../src/input/macro-store";
+import { M8Key } from "../../src/state/types";
+
+describe("parseMacro", () => {
+  it("should parse keys, combos, repeats, holds and waits", () => {
+    expect(parseMacro("shift+right, down*4, edit:hold300, opt+up, wait:200")).toEqual([
+      { type: "press", keys: ["shift", "right"], holdMs: 50, repeat: 1 },
+      { type: "press", keys: ["down"], holdMs: 50, repeat: 4 },
+      { type: "press", keys: ["edit"], holdMs: 300, repeat: 1 },
+      { type: "press", keys: ["opt", "up"], holdMs: 50, repeat: 1 },
+      { type: "wait", ms: 200 },
+    ]);
+  });
+
+  it("should accept newlines, spacing, case and combined modifiers", () => {
+    expect(parseMacro("  SHIFT + Down\n opt+up * 2 : hold 100 ,")).toEqual([
+      { type: "press", keys: ["shift", "down"], holdMs: 50, repeat: 1 },
+      { type: "press", keys: ["opt", "up"], holdMs: 100, repeat: 2 },
+    ]);
+  });
+
+  it("should report the position of a bad step", () => {
+    try {
+      parseMacro("down, jump*2");
+      throw new Error("expected error");
+    } catch (err) {
+      expect(err).toBeInstanceOf(MacroSyntaxError);
+      expect((err as MacroSyntaxError).position).toBe(6);
+      expect((err as Error).message).toContain('Unknown key "jump"');
+    }
+  });
+
+  it("should reject invalid macros", () => {
+    for (const source of ["", " , ", "down*0", "down*1000", "edit:hold0", "wait:60000", "down+down", "down:fast"]) {
+      expect(() => parseMacro(source)).toThrow(MacroSyntaxError);
+    }
+  });
+});
+
+describe("compileMacro", () => {
+  it("should release between repeated presses", () => {
+    expect(compileMacro(parseMacro("down*2"))).toEqual([
+      { bitmask: M8Key.DOWN, duration: 50 },
+      { bitmask: 0, duration: RELEASE_GAP_MS },
+      { bitmask: M8Key.DOWN, duration: 50 },
+      { bitmask: 0, duration: RELEASE_GAP_MS },
+    ]);
+  });
+
+  it("should hold every modifier of a three-key combo", () => {
+    const hold = M8Key.SELECT | M8Key.OPT;
+    expect(compilePress(["shift", "opt", "up"], 80)).toEqual([
+      { bitmask: hold, duration: 20 },
+      { bitmask: hold | M8Key.UP, duration: 80 },
+      { bitmask: hold, duration: 20 },
+      { bitmask: 0, duration: RELEASE_GAP_MS },
+    ]);
+  });
+
+  it("should compute the total duration", () => {
+    expect(macroDuration(parseMacro("down, wait:100"))).toBe(50 + RELEASE_GAP_MS + 100);
+  });
+});
+
+describe("MacroRunner", () => {
+  it("should send every step and report presses", async () => {
+    const sent: number[] = [];
+    const pressed: string[] = [];
+    const runner = new MacroRunner({
+      sendKeys: async (bitmask) => void sent.push(bitmask),
+      onPress: (keys) => pressed.push(keys.join("+")),
+    });
+
+    const result = await runner.run(parseMacro("shift+right:hold1, down*2:hold1"), "test");
+
+    expect(result).toMatchObject({ id: 1, status: "done", presses: 3 });
+    expect(sent).toEqual([M8Key.SELECT, M8Key.SELECT | M8Key.RIGHT, M8Key.SELECT, 0, M8Key.DOWN, 0, M8Key.DOWN, 0]);
+    expect(pressed).toEqual(["shift+right", "down", "down"]);
+    expect(runner.isBusy()).toBe(false);
+  });
+
+  it("should keep to the schedule", async () => {
+    const runner = new MacroRunner({ sendKeys: async () => {} });
+    const result = await runner.run(parseMacro("down:hold40, wait:40"), "timed");
+
+    const expected = 40 + RELEASE_GAP_MS + 40;
+    expect(result.durationMs).toBeGreaterThanOrEqual(expected - 2);
+    expect(result.durationMs).toBeLessThan(expected + 50);
+  });
+
+  it("should cancel mid-run and release all keys", async () => {
+    const sent: number[] = [];
+    const runner = new MacroRunner({ sendKeys: async (bitmask) => void sent.push(bitmask) });
+
+    const run = runner.run(parseMacro("edit:hold5000, down"), "long");
+    expect(runner.getStatus()).toMatchObject({ label: "long", presses: 0, totalPresses: 2 });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(runner.cancel()).toBe(true);
+
+    const result = await run;
+    expect(result).toMatchObject({ status: "cancelled", presses: 0 });
+    expect(result.durationMs).toBeLessThan(1000);
+    expect(sent).toEqual([M8Key.EDIT, 0]);
+    expect(runner.cancel()).toBe(false);
+  });
+
+  it("should refuse a second run and report send errors", async () => {
+    const runner = new MacroRunner({ sendKeys: async (bitmask) => {
+      if (bitmask === M8Key.UP) throw new Error("port closed");
+    } });
+
+    const first = runner.run(parseMacro("down:hold20"), "a");
+    await expect(runner.run(parseMacro("down"), "b")).rejects.toThrow("Macro already running");
+    expect((await first).status).toBe("done");
+
+    expect(await runner.run(parseMacro("up"), "c")).toMatchObject({ status: "error", error: "port closed" });
+  });
+});
+
+describe("MacroStore", () => {
+  let dir: string;
+  let store: MacroStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "m8-macros-"));
+    store = new MacroStore(join(dir, "macros"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should save, list, load and delete macros", async () => {
+    expect(await store.list()).toEqual([]);
+
+    await store.save("to-phrase", "shift+right*2", "Song → phrase");
+    await store.save("clone_row", "shift+opt");
+
+    const list = await store.list();
+    expect(list.map((m) => m.name)).toEqual(["clone_row", "to-phrase"]);
+    expect(await store.get("to-phrase")).toMatchObject({ macro: "shift+right*2", description: "Song → phrase" });
+
+    expect(await store.delete("to-phrase")).toBe(true);
+    expect(await store.delete("to-phrase")).toBe(false);
+    expect(await store.get("to-phrase")).toBeNull();
+  });
+
+  it("should reject bad names and invalid macros", async () => {
+    await expect(store.save("../evil", "down")).rejects.toThrow("Invalid macro name");
+    await expect(store.save("ok", "jump")).rejects.toThrow(MacroSyntaxError);
+    expect(await store.get("../evil")).toBeNull();
+  });
+
+  it("should skip unreadable files", async () => {
+    await store.save("good", "down");
+    await writeFile(join(dir, "macros", "broken.macro.json"), "{");
+
+    expect((await store.list()).map((m) => m.name)).toEqual(["good"]);
+  });
+});
@@ -131,6 +131,21 @@ describe("RingBuffer", () => {
       buffer.pop(out2);
       expect(out2).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
     });
+
+    it("should peek the newest data across wraparound", () => {
+      const buffer = new RingBuffer(8, { allowOverwrite: true });
+      buffer.push(new Uint8Array([1, 2, 3, 4, 5, 6]));
+      buffer.push(new Uint8Array([7, 8, 9, 10])); // Wraps, drops 1-2
+
+      const out = new Uint8Array(5);
+      expect(buffer.peekLatest(out)).toBe(5);
+      expect(out).toEqual(new Uint8Array([6, 7, 8, 9, 10]));
+
+      const all = new Uint8Array(16);
+      expect(buffer.peekLatest(all)).toBe(8);
+      expect(all.subarray(0, 8)).toEqual(new Uint8Array([3, 4, 5, 6, 7, 8, 9, 10]));
+      expect(buffer.length).toBe(8); // not consumed
+    });
   });
 
   describe("clear", () => {
@@ -0,0 +1,88 @@
+/**
+ * Capture Routes Unit Tests
+ */
+
+import { describe, it, expect, mock, afterAll } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { createCaptureRoutes } from "../../src/server/routes/capture";
+import { SerialCapture, decodeCapture } from "../../src/serial/capture";
+
+const createRes = () => ({
+  writeHead: mock(() => {}),
+  end: mock((_body?: string) => {}),
+});
+
+describe("Capture Routes", () => {
+  const dirs: string[] = [];
+  const tempDir = async () => {
+    const dir = await mkdtemp(join(tmpdir(), "m8cap-"));
+    dirs.push(dir);
+    return dir;
+  };
+
+  afterAll(async () => {
+    for (const dir of dirs) await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns 501 when capture is not available", () => {
+    const routes = createCaptureRoutes({ capture: null, dir: "unused" });
+    const res = createRes();
+
+    routes.postStart(res as any);
+
+    expect(res.writeHead).toHaveBeenCalledWith(501, { "Content-Type": "application/json" });
+  });
+
+  it("starts, stops and saves a .m8cap file", async () => {
+    const dir = await tempDir();
+    const capture = new SerialCapture();
+    const routes = createCaptureRoutes({ capture, dir });
+
+    routes.postStart(createRes() as any);
+    capture.recordIn(new Uint8Array([0xc0, 0xfb, 0x00, 0x00, 0xc0]));
+
+    const res = createRes();
+    await routes.postStop(res as any);
+
+    const body = JSON.parse(res.end.mock.calls[0]![0]!);
+    expect(body.ok).toBe(true);
+    expect(body.records).toBe(1);
+    expect(body.file).toEndWith(".m8cap");
+
+    const saved = decodeCapture(new Uint8Array(await readFile(join(dir, body.file))));
+    expect(saved.records.length).toBe(1);
+  });
+
+  it("rejects double start and stop without start", async () => {
+    const routes = createCaptureRoutes({ capture: new SerialCapture(), dir: "unused" });
+
+    const stopRes = createRes();
+    await routes.postStop(stopRes as any);
+    expect(stopRes.writeHead).toHaveBeenCalledWith(400, { "Content-Type": "application/json" });
+
+    routes.postStart(createRes() as any);
+    const startRes = createRes();
+    routes.postStart(startRes as any);
+    expect(startRes.writeHead).toHaveBeenCalledWith(400, { "Content-Type": "application/json" });
+  });
+
+  it("rejects non-capture file names", async () => {
+    const routes = createCaptureRoutes({ capture: new SerialCapture(), dir: "unused" });
+    const res = createRes();
+
+    await routes.getFile(res as any, "..%2F..%2Fetc%2Fpasswd");
+
+    expect(res.writeHead).toHaveBeenCalledWith(400, { "Content-Type": "application/json" });
+  });
+
+  it("rejects malformed percent-encoding", async () => {
+    const routes = createCaptureRoutes({ capture: new SerialCapture(), dir: "unused" });
+    const res = createRes();
+
+    await routes.getFile(res as any, "%E0%A4%A.m8cap");
+
+    expect(res.writeHead).toHaveBeenCalledWith(400, { "Content-Type": "application/json" });
+  });
+});
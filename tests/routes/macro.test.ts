@@ -0,0 +1,147 @@
+/**
+ * Macro Routes Unit Tests
+ */
+
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { createMacroRoutes } from "../../src/server/routes/macro";
+import { MacroRunner } from "../../src/input/macro";
+import { MacroStore } from "../../src/input/macro-store";
+import { InputRejectedError } from "../../src/input/arbiter";
+
+function createMockRequest(body: object): any {
+  const readable = new Readable();
+  readable.push(JSON.stringify(body));
+  readable.push(null);
+  return readable;
+}
+
+function createMockResponse() {
+  return {
+    writeHead: mock((_status: number, _headers?: object) => {}),
+    end: mock((_body?: string | Buffer) => {}),
+  };
+}
+
+const responseOf = (res: ReturnType<typeof createMockResponse>) => ({
+  status: res.writeHead.mock.calls[0]![0]!,
+  body: JSON.parse(res.end.mock.calls[0]![0] as string),
+});
+
+describe("Macro Routes", () => {
+  let dir: string;
+  let sent: number[];
+  let routes: ReturnType<typeof createMacroRoutes>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "m8-macro-routes-"));
+    sent = [];
+    routes = createMacroRoutes({
+      runner: new MacroRunner({ sendKeys: async (bitmask) => void sent.push(bitmask) }),
+      store: new MacroStore(dir),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("runs macro text", async () => {
+    const res = createMockResponse();
+    await routes.postMacro(createMockRequest({ macro: "down:hold1" }), res as any);
+
+    const { status, body } = responseOf(res);
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ ok: true, status: "done", presses: 1 });
+    expect(sent).toEqual([0x20, 0]);
+  });
+
+  it("returns 400 with the error position for bad macros", async () => {
+    const res = createMockResponse();
+    await routes.postMacro(createMockRequest({ macro: "down, fly" }), res as any);
+
+    const { status, body } = responseOf(res);
+    expect(status).toBe(400);
+    expect(body.position).toBe(6);
+    expect(sent).toEqual([]);
+  });
+
+  it("saves, runs and deletes named macros", async () => {
+    const save = createMockResponse();
+    await routes.postSaved(createMockRequest({ name: "nudge", macro: "up:hold1", description: "one up" }), save as any);
+    expect(responseOf(save).body).toMatchObject({ ok: true, macro: { name: "nudge", macro: "up:hold1" } });
+
+    const run = createMockResponse();
+    await routes.postMacro(createMockRequest({ name: "nudge" }), run as any);
+    expect(responseOf(run).body).toMatchObject({ status: "done", presses: 1 });
+
+    const list = createMockResponse();
+    await routes.getSaved(list as any);
+    expect(responseOf(list).body.macros.map((m: { name: string }) => m.name)).toEqual(["nudge"]);
+
+    const del = createMockResponse();
+    await routes.deleteSaved(del as any, "nudge");
+    expect(responseOf(del).status).toBe(200);
+
+    const missing = createMockResponse();
+    await routes.postMacro(createMockRequest({ name: "nudge" }), missing as any);
+    expect(responseOf(missing).status).toBe(404);
+  });
+
+  it("answers refused input with 423 and other run failures with 500", async () => {
+    const refused = createMockResponse();
+    await routes.postMacro(createMockRequest({ macro: "down" }), refused as any, async () => {
+      throw new InputRejectedError("Input locked by control 10.0.0.2", "http:ben");
+    });
+    expect(responseOf(refused)).toMatchObject({
+      status: 423,
+      body: { ok: false, status: "rejected", error: "Input locked by control 10.0.0.2" },
+    });
+
+    const failed = createMockResponse();
+    await routes.postMacro(createMockRequest({ macro: "down" }), failed as any, async () => {
+      throw new Error("Port closed");
+    });
+    expect(responseOf(failed)).toMatchObject({ status: 500, body: { ok: false, status: "error" } });
+  });
+
+  it("rejects invalid saves", async () => {
+    for (const body of [{ name: "a b", macro: "up" }, { name: "ok" }, { name: "ok", macro: "sideways" }]) {
+      const res = createMockResponse();
+      await routes.postSaved(createMockRequest(body), res as any);
+      expect(responseOf(res).status).toBe(400);
+    }
+  });
+
+  it("rejects malformed macro names", async () => {
+    for (const call of [(res: any) => routes.getSavedMacro(res, "%E0%A4%A"), (res: any) => routes.deleteSaved(res, "%E0%A4%A")]) {
+      const res = createMockResponse();
+      await call(res);
+      expect(responseOf(res)).toEqual({ status: 400, body: { error: "Malformed URL encoding" } });
+    }
+  });
+
+  it("returns 409 while running and cancels on request", async () => {
+    const first = createMockResponse();
+    const running = routes.postMacro(createMockRequest({ macro: "edit:hold5000" }), first as any);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const second = createMockResponse();
+    await routes.postMacro(createMockRequest({ macro: "down" }), second as any);
+    expect(responseOf(second).status).toBe(409);
+
+    const status = createMockResponse();
+    routes.getStatus(status as any);
+    expect(responseOf(status).body.running).toMatchObject({ label: "edit:hold5000" });
+
+    const cancel = createMockResponse();
+    routes.postCancel(cancel as any);
+    expect(responseOf(cancel).body).toEqual({ ok: true, cancelled: true });
+
+    await running;
+    expect(responseOf(first).body).toMatchObject({ ok: true, status: "cancelled" });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Navigate Routes Unit Tests
+ */
+
+import { describe, it, expect, mock } from "bun:test";
+import { createNavigateRoutes } from "../../src/server/routes/navigate";
+import { Readable } from "stream";
+
+function createMockRequest(body: object): any {
+  const readable = new Readable();
+  readable.push(JSON.stringify(body));
+  readable.push(null);
+  return readable;
+}
+
+function createMockResponse() {
+  return {
+    writeHead: mock((_status: number, _headers?: object) => {}),
+    end: mock((_body?: string | Buffer) => {}),
+  };
+}
+
+describe("Navigate Routes", () => {
+  const state = { screen: "PHRASE", number: 10, row: 3, col: 2 };
+
+  it("passes the target and client input to the navigator and returns the verified state", async () => {
+    const navigator = {
+      isBusy: () => false,
+      navigate: mock(async () => ({ ok: true, state, steps: 7 })),
+    };
+    const routes = createNavigateRoutes({ navigator: navigator as any });
+    const res = createMockResponse();
+    const input = { pressKey: async () => {}, pressCombo: async () => {} };
+
+    await routes.postNavigate(createMockRequest({ screen: "phrase", number: "0A", row: 3, col: 2 }), res as any, input);
+
+    expect(navigator.navigate).toHaveBeenCalledWith({ screen: "PHRASE", number: 10, row: 3, col: 2 }, input);
+    expect(res.writeHead.mock.calls[0]![0]!).toBe(200);
+    expect(JSON.parse(res.end.mock.calls[0]![0] as string)).toEqual({ ok: true, state, steps: 7 });
+  });
+
+  it("returns 409 with the screen navigation got stuck on", async () => {
+    const failure = { ok: false, error: "CHAIN 7F not found", stuckOn: { ...state, title: "PHRASE 0A" }, steps: 3 };
+    const navigator = { isBusy: () => false, navigate: mock(async () => failure) };
+    const routes = createNavigateRoutes({ navigator: navigator as any });
+    const res = createMockResponse();
+
+    await routes.postNavigate(createMockRequest({ screen: "CHAIN", number: 0x7f }), res as any);
+
+    expect(res.writeHead.mock.calls[0]![0]!).toBe(409);
+    expect(JSON.parse(res.end.mock.calls[0]![0] as string)).toEqual(failure);
+  });
+
+  it("rejects invalid targets", async () => {
+    const navigator = { isBusy: () => false, navigate: mock(async () => ({})) };
+    const routes = createNavigateRoutes({ navigator: navigator as any });
+
+    for (const body of [{}, { screen: "NOPE" }, { screen: "SONG", number: 1 }, { screen: "PHRASE", col: 16 }, { screen: "CHAIN", number: 256 }]) {
+      const res = createMockResponse();
+      await routes.postNavigate(createMockRequest(body), res as any);
+      expect(res.writeHead.mock.calls[0]![0]!).toBe(400);
+    }
+    expect(navigator.navigate).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 while another navigation runs", async () => {
+    const navigator = { isBusy: () => true, navigate: mock(async () => ({})) };
+    const routes = createNavigateRoutes({ navigator: navigator as any });
+    const res = createMockResponse();
+
+    await routes.postNavigate(createMockRequest({ screen: "SONG" }), res as any);
+
+    expect(res.writeHead.mock.calls[0]![0]!).toBe(409);
+    expect(navigator.navigate).not.toHaveBeenCalled();
+  });
+});
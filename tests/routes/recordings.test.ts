@@ -0,0 +1,168 @@
+/**
+ * Recording Routes Unit Tests
+ */
+
+import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { createRecordingRoutes } from "../../src/server/routes/recordings";
+import { AudioHub, CAPTURE_FORMAT } from "../../src/audio/audio-hub";
+import { RecordingStore } from "../../src/audio/recordings";
+
+function createMockRequest(body: object): any {
+  const readable = new Readable();
+  readable.push(JSON.stringify(body));
+  readable.push(null);
+  return readable;
+}
+
+function createMockResponse() {
+  return {
+    writeHead: mock((_status: number, _headers?: object) => {}),
+    end: mock((_body?: string | Buffer) => {}),
+  };
+}
+
+const responseOf = (res: ReturnType<typeof createMockResponse>) => ({
+  status: res.writeHead.mock.calls[0]![0]!,
+  body: JSON.parse(res.end.mock.calls[0]![0] as string),
+});
+
+describe("Recording Routes", () => {
+  let dir: string;
+  let hub: AudioHub;
+  let routes: ReturnType<typeof createRecordingRoutes>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "m8-recording-routes-"));
+    hub = new AudioHub();
+    routes = createRecordingRoutes({
+      source: {
+        startRecording: (path, format) => hub.startRecording(path, format),
+        stopRecording: () => hub.stopRecording(),
+      },
+      store: new RecordingStore(dir),
+      format: CAPTURE_FORMAT,
+      replaySeconds: 2,
+      getReplay: (seconds) => hub.getReplay(seconds),
+      getDisplayHistory: (from, to) => ({ startedAt: from, records: [{ time: to - from, direction: "in", data: new Uint8Array([0xc0]) }] }),
+    });
+  });
+
+  afterEach(async () => {
+    await routes.finish();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("records the feed, lists and downloads it", async () => {
+    const start = createMockResponse();
+    await routes.postStart(createMockRequest({ name: "jam", format: "flac" }), start as any);
+    expect(responseOf(start).body).toMatchObject({ ok: true, recording: { name: "jam", format: "flac" } });
+
+    const again = createMockResponse();
+    await routes.postStart(createMockRequest({}), again as any);
+    expect(responseOf(again).status).toBe(400);
+
+    hub.onAudioData(Buffer.alloc(44100 * 4)); // 1 second
+
+    const stop = createMockResponse();
+    await routes.postStop(stop as any);
+    expect(responseOf(stop).body.recording).toMatchObject({ name: "jam", file: "jam.flac", duration: 1, sampleRate: 44100 });
+
+    const list = createMockResponse();
+    await routes.getList(list as any);
+    expect(responseOf(list).body).toMatchObject({ recording: null, recordings: [{ name: "jam" }] });
+
+    const download = createMockResponse();
+    await routes.getFile(download as any, "jam");
+    expect(download.writeHead.mock.calls[0]).toEqual([200, expect.objectContaining({ "Content-Type": "audio/flac" })]);
+    expect((download.end.mock.calls[0]![0] as Buffer).toString("ascii", 0, 4)).toBe("fLaC");
+  });
+
+  it("renames and deletes recordings", async () => {
+    await routes.postStart(createMockRequest({ name: "take-1" }), createMockResponse() as any);
+    await routes.postStop(createMockResponse() as any);
+
+    const rename = createMockResponse();
+    await routes.postRename(createMockRequest({ name: "keeper" }), rename as any, "take-1");
+    expect(responseOf(rename).body).toMatchObject({ ok: true, recording: { name: "keeper", file: "keeper.wav" } });
+
+    const del = createMockResponse();
+    await routes.deleteRecording(del as any, "keeper");
+    expect(responseOf(del).body).toEqual({ ok: true });
+
+    const missing = createMockResponse();
+    await routes.getFile(missing as any, "keeper");
+    expect(responseOf(missing).status).toBe(404);
+  });
+
+  it("rejects bad requests", async () => {
+    const format = createMockResponse();
+    await routes.postStart(createMockRequest({ format: "mp3" }), format as any);
+    expect(responseOf(format).status).toBe(400);
+
+    const name = createMockResponse();
+    await routes.postStart(createMockRequest({ name: "../x" }), name as any);
+    expect(responseOf(name).status).toBe(400);
+
+    const stop = createMockResponse();
+    await routes.postStop(stop as any);
+    expect(responseOf(stop)).toEqual({ status: 400, body: { error: "Not recording" } });
+
+    // Malformed percent-encoding in the :name segment
+    for (const call of [
+      (res: any) => routes.getFile(res, "%E0%A4%A"),
+      (res: any) => routes.getDisplay(res, "%E0%A4%A"),
+      (res: any) => routes.deleteRecording(res, "%E0%A4%A"),
+      (res: any) => routes.postRename(createMockRequest({ name: "x" }), res, "%E0%A4%A"),
+    ]) {
+      const res = createMockResponse();
+      await call(res);
+      expect(responseOf(res)).toEqual({ status: 400, body: { error: "Malformed URL encoding" } });
+    }
+  });
+
+  it("saves the instant-replay window with its screen", async () => {
+    const empty = createMockResponse();
+    await routes.postReplay(createMockRequest({}), empty as any);
+    expect(responseOf(empty)).toEqual({ status: 409, body: { error: "No audio captured yet" } });
+
+    hub.onAudioData(Buffer.alloc(44100 * 4 + 2)); // 1 second and half a frame
+
+    const replay = createMockResponse();
+    await routes.postReplay(createMockRequest({ seconds: 1, display: true, name: "moment" }), replay as any);
+    const { recording } = responseOf(replay).body;
+    expect(recording).toMatchObject({ name: "moment", file: "moment.wav", duration: 1, size: 44 + 44100 * 4, display: "moment.m8cap" });
+    expect(Date.parse(recording.stoppedAt) - Date.parse(recording.startedAt)).toBe(1000);
+
+    const display = createMockResponse();
+    await routes.getDisplay(display as any, "moment");
+    expect((display.end.mock.calls[0]![0] as Buffer).subarray(0, 5).toString("ascii")).toBe("M8CAP");
+
+    await routes.postRename(createMockRequest({ name: "kept" }), createMockResponse() as any, "moment");
+    const renamed = createMockResponse();
+    await routes.getDisplay(renamed as any, "kept");
+    expect(renamed.writeHead.mock.calls[0]![0]).toBe(200);
+
+    const whole = createMockResponse();
+    await routes.postReplay(createMockRequest({}), whole as any);
+    expect(responseOf(whole).body.recording).toMatchObject({ duration: 1 });
+    expect(responseOf(whole).body.recording.display).toBeUndefined();
+
+    const tooLong = createMockResponse();
+    await routes.postReplay(createMockRequest({ seconds: 3 }), tooLong as any);
+    expect(responseOf(tooLong).status).toBe(400);
+  });
+
+  it("rejects replay lengths under a second", async () => {
+    hub.onAudioData(Buffer.alloc(44100 * 4));
+
+    for (const seconds of [0, 0.001, 0.5, 0.999, -1]) {
+      const res = createMockResponse();
+      await routes.postReplay(createMockRequest({ seconds }), res as any);
+      expect(responseOf(res)).toEqual({ status: 400, body: { error: "seconds must be 1-2" } });
+    }
+  });
+});
@@ -4,6 +4,8 @@
 
 import { describe, it, expect, mock } from "bun:test";
 import { createScreenRoutes } from "../../src/server/routes/screen";
+import { Framebuffer } from "../../src/display/framebuffer";
+import { TextBuffer } from "../../src/display/buffer";
 
 describe("Screen Routes", () => {
   // Mock dependencies
@@ -109,3 +111,81 @@ describe("Screen Routes", () => {
     });
   });
 });
+
+describe("Screen Routes - PNG and clips", () => {
+  const makeRes = () => ({
+    writeHead: mock((_status: number, _headers?: object) => {}),
+    end: mock((_body?: string | Buffer) => {}),
+  });
+
+  const routes = () => createScreenRoutes({ buffer: {} as any, framebuffer: new Framebuffer() });
+
+  it("returns PNG at requested scale", () => {
+    const res = makeRes();
+    routes().getImagePng(res as any, new URLSearchParams("scale=2"));
+
+    expect(res.writeHead.mock.calls[0]![0]).toBe(200);
+    expect(res.writeHead.mock.calls[0]![1]).toMatchObject({ "Content-Type": "image/png" });
+    const png = res.end.mock.calls[0]![0] as Buffer;
+    expect(png.readUInt32BE(16)).toBe(640); // IHDR width
+  });
+
+  it("rejects invalid scale", () => {
+    for (const scale of ["0", "9", "1.5", "abc"]) {
+      const res = makeRes();
+      routes().getImagePng(res as any, new URLSearchParams({ scale }));
+      expect(res.writeHead.mock.calls[0]![0]).toBe(400);
+    }
+  });
+
+  it("rejects invalid clip parameters", async () => {
+    for (const query of ["seconds=0", "seconds=31", "format=webp", "fps=0"]) {
+      const res = makeRes();
+      await routes().getClip(res as any, new URLSearchParams(query));
+      expect(res.writeHead.mock.calls[0]![0]).toBe(400);
+    }
+  });
+
+  it("records an animated GIF clip", async () => {
+    const res = makeRes();
+    await routes().getClip(res as any, new URLSearchParams("seconds=1&fps=2"));
+
+    expect(res.writeHead.mock.calls[0]![1]).toMatchObject({ "Content-Type": "image/gif" });
+    const gif = res.end.mock.calls[0]![0] as Buffer;
+    expect(gif.toString("ascii", 0, 6)).toBe("GIF89a");
+  });
+
+  it("records an APNG clip", async () => {
+    const res = makeRes();
+    await routes().getClip(res as any, new URLSearchParams("seconds=1&fps=2&format=apng"));
+
+    expect(res.writeHead.mock.calls[0]![1]).toMatchObject({ "Content-Type": "image/apng" });
+    const apng = res.end.mock.calls[0]![0] as Buffer;
+    expect(apng.includes(Buffer.from("acTL"))).toBe(true);
+  });
+
+  it("returns error when framebuffer not available", async () => {
+    const res = makeRes();
+    await createScreenRoutes({ buffer: {} as any, framebuffer: null }).getClip(res as any, new URLSearchParams());
+    expect(res.writeHead.mock.calls[0]![0]).toBe(500);
+  });
+});
+
+describe("Screen Routes - parsed", () => {
+  it("returns the recognized view", () => {
+    const buffer = new TextBuffer();
+    [..."PHRASE 0A"].forEach((char, i) => {
+      buffer.applyText({ type: "text", char, charCode: char.charCodeAt(0), x: (1 + i) * 8, y: 30, fg: { r: 100, g: 100, b: 100 }, bg: { r: 0, g: 0, b: 0 } });
+    });
+    const res = {
+      writeHead: mock((_status: number, _headers?: object) => {}),
+      end: mock((_body?: string) => {}),
+    };
+
+    createScreenRoutes({ buffer, framebuffer: null }).getParsed(res as any);
+
+    const response = JSON.parse(res.end.mock.calls[0]![0]!);
+    expect(response).toMatchObject({ view: "PHRASE", number: 10, rows: [] });
+    expect(response.cursor).toEqual({ row: 0, col: 0 });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Session Routes Unit Tests
+ */
+
+import { describe, it, expect, mock, beforeEach } from "bun:test";
+import { Readable } from "stream";
+import { createSessionRoutes } from "../../src/server/routes/session";
+import { InputArbiter } from "../../src/input/arbiter";
+
+function createMockRequest(body: object): any {
+  const readable = new Readable();
+  readable.push(JSON.stringify(body));
+  readable.push(null);
+  return readable;
+}
+
+function createMockResponse() {
+  return {
+    writeHead: mock((_status: number, _headers?: object) => {}),
+    end: mock((_body?: string | Buffer) => {}),
+  };
+}
+
+const responseOf = (res: ReturnType<typeof createMockResponse>) => ({
+  status: res.writeHead.mock.calls[0]![0]!,
+  body: JSON.parse(res.end.mock.calls[0]![0] as string),
+});
+
+describe("Session Routes", () => {
+  let arbiter: InputArbiter;
+  let routes: ReturnType<typeof createSessionRoutes>;
+
+  beforeEach(() => {
+    arbiter = new InputArbiter({ send: async () => {} });
+    arbiter.register("http", "http", { label: "HTTP API" });
+    arbiter.register("tcp-1", "tcp", { label: "m8c 10.0.0.2" });
+    routes = createSessionRoutes({ arbiter, clientId: "http" });
+  });
+
+  it("reports who holds the lock", async () => {
+    await arbiter.requestLock("tcp-1");
+    const res = createMockResponse();
+    routes.getSession(res as any);
+
+    const { body } = responseOf(res);
+    expect(body.clientId).toBe("http");
+    expect(body.driver).toMatchObject({ id: "tcp-1", label: "m8c 10.0.0.2" });
+    expect(body.clients.length).toBe(2);
+  });
+
+  it("requests, grants and releases the lock as the HTTP client", async () => {
+    const request = createMockResponse();
+    await routes.postLock(createMockRequest({ action: "request" }), request as any);
+    expect(responseOf(request).body).toMatchObject({ ok: true, lock: "granted" });
+
+    const grant = createMockResponse();
+    await routes.postLock(createMockRequest({ action: "grant", to: "tcp-1" }), grant as any);
+    expect(responseOf(grant).body.session.driver.id).toBe("tcp-1");
+
+    const denied = createMockResponse();
+    await routes.postLock(createMockRequest({ action: "grant", to: "http" }), denied as any);
+    expect(responseOf(denied).status).toBe(423);
+
+    const release = createMockResponse();
+    await routes.postLock(createMockRequest({ action: "release" }), release as any);
+    expect(responseOf(release).body.ok).toBe(false);
+  });
+
+  it("rejects unknown actions", async () => {
+    const res = createMockResponse();
+    await routes.postLock(createMockRequest({ action: "steal" }), res as any);
+    expect(responseOf(res).status).toBe(400);
+  });
+});
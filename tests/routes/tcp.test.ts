@@ -0,0 +1,45 @@
+/**
+ * TCP Routes Unit Tests
+ */
+
+import { describe, it, expect, mock } from "bun:test";
+import { createTcpRoutes } from "../../src/server/routes/tcp";
+import type { TcpClientInfo } from "../../src/server/tcp-proxy";
+
+function createMockResponse() {
+  return {
+    writeHead: mock((_status: number, _headers?: object) => {}),
+    end: mock((_body?: string | Buffer) => {}),
+  };
+}
+
+describe("TCP Routes", () => {
+  it("reports the proxy as disabled without a client source", () => {
+    const res = createMockResponse();
+    createTcpRoutes({ getClients: null }).getClients(res as any);
+
+    expect(JSON.parse(res.end.mock.calls[0]![0] as string)).toEqual({ enabled: false, clients: [] });
+  });
+
+  it("lists clients with queue and drop stats", () => {
+    const client: TcpClientInfo = {
+      id: "c1",
+      address: "10.0.0.2:50000",
+      protocol: 2,
+      capabilities: 1,
+      codec: 0,
+      opus: null,
+      format: null,
+      displayMode: "delta",
+      rttMs: 12.5,
+      queuedBytes: 2048,
+      resyncPending: false,
+      stats: { sentBytes: 1000, displayBytes: 800, rawDisplayBytes: 2400, droppedDisplay: 3, droppedAudio: 7, resyncs: 1 },
+    };
+    const res = createMockResponse();
+    createTcpRoutes({ getClients: () => [client] }).getClients(res as any);
+
+    expect(res.writeHead.mock.calls[0]![0]).toBe(200);
+    expect(JSON.parse(res.end.mock.calls[0]![0] as string)).toEqual({ enabled: true, clients: [client] });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Serial Capture Tests
+ * .m8cap encode/decode, recorder, rolling history and replay transport
+ */
+
+import { describe, it, expect, mock } from "bun:test";
+import {
+  SerialCapture,
+  SerialHistory,
+  encodeCapture,
+  decodeCapture,
+  createReplayTransport,
+  type CaptureData,
+} from "../../src/serial/capture";
+import { delay } from "../../src/server/helpers";
+
+const handlers = (onData: (data: Uint8Array) => void) => ({
+  onData,
+  onError: mock(() => {}),
+  onClose: mock(() => {}),
+});
+
+describe("SerialCapture", () => {
+  describe("encode/decode", () => {
+    it("should round-trip records in both directions", () => {
+      const capture: CaptureData = {
+        startedAt: 1700000000123,
+        records: [
+          { time: 0, direction: "out", data: new Uint8Array([0x45]) },
+          { time: 12, direction: "in", data: new Uint8Array([0xc0, 0xfb, 0x01, 0x00, 0xc0]) },
+          { time: 500, direction: "out", data: new Uint8Array([0x43, 0x20]) },
+        ],
+      };
+
+      const decoded = decodeCapture(encodeCapture(capture));
+
+      expect(decoded).toEqual(capture);
+    });
+
+    it("should reject data without the magic header", () => {
+      expect(() => decodeCapture(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14])))
+        .toThrow("Not an .m8cap file");
+    });
+
+    it("should reject truncated records", () => {
+      const bytes = encodeCapture({
+        startedAt: 0,
+        records: [{ time: 0, direction: "in", data: new Uint8Array([1, 2, 3]) }],
+      });
+
+      expect(() => decodeCapture(bytes.slice(0, bytes.length - 1))).toThrow("Truncated");
+    });
+  });
+
+  describe("recorder", () => {
+    it("should ignore traffic while not recording", () => {
+      const capture = new SerialCapture();
+      capture.recordIn(new Uint8Array([1]));
+
+      capture.start();
+      capture.recordIn(new Uint8Array([1, 2]));
+      capture.recordOut(new Uint8Array([0x43, 0x00]));
+      const session = capture.stop();
+
+      expect(session.records.map((r) => r.direction)).toEqual(["in", "out"]);
+      expect(capture.isRecording()).toBe(false);
+    });
+
+    it("should copy recorded bytes", () => {
+      const capture = new SerialCapture();
+      const chunk = new Uint8Array([1, 2, 3]);
+
+      capture.start();
+      capture.recordIn(chunk);
+      chunk[0] = 99;
+
+      expect(capture.stop().records[0]!.data[0]).toBe(1);
+    });
+
+    it("should count bytes per direction", () => {
+      const capture = new SerialCapture();
+      capture.start();
+      capture.recordIn(new Uint8Array(10));
+      capture.recordOut(new Uint8Array(2));
+
+      const stats = capture.getStats();
+      expect(stats).toMatchObject({ recording: true, records: 2, bytesIn: 10, bytesOut: 2 });
+    });
+
+    it("should stop taking traffic at the size limit and keep the session", () => {
+      const capture = new SerialCapture({ maxBytes: 10 });
+      capture.start();
+      capture.recordIn(new Uint8Array(6));
+      capture.recordOut(new Uint8Array(4));
+      capture.recordIn(new Uint8Array(1));
+      capture.recordOut(new Uint8Array(1));
+
+      expect(capture.getStats()).toMatchObject({
+        recording: true, records: 2, bytesIn: 6, bytesOut: 4, maxBytes: 10, limitReached: true,
+      });
+      expect(capture.stop().records).toHaveLength(2);
+
+      capture.start();
+      capture.recordIn(new Uint8Array(1));
+      expect(capture.getStats()).toMatchObject({ records: 1, limitReached: false });
+    });
+
+    it("should stop taking traffic at the duration limit", async () => {
+      const capture = new SerialCapture({ maxDuration: 5 });
+      capture.start();
+      capture.recordIn(new Uint8Array(1));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      capture.recordIn(new Uint8Array(1));
+
+      expect(capture.getStats()).toMatchObject({ records: 1, duration: 5, maxDuration: 5, limitReached: true });
+    });
+
+    it("should throw when stopping without start", () => {
+      expect(() => new SerialCapture().stop()).toThrow("Not capturing");
+    });
+  });
+
+  describe("history", () => {
+    const END = 0xc0;
+    const keyframe = mock(() => new Uint8Array([0xfb, END]));
+
+    it("should start a window from the keyframe before it", () => {
+      const history = new SerialHistory(10000, keyframe, 1000);
+      history.recordIn(new Uint8Array([1, END]), 0);
+      history.recordIn(new Uint8Array([2, END]), 500);
+      history.recordIn(new Uint8Array([3, END]), 1200); // keyframe at 1200
+      history.recordIn(new Uint8Array([4, END]), 1500);
+
+      const window = history.capture(1300, 2000)!;
+      expect(window.startedAt).toBe(1300);
+      expect(window.records.map((r) => [r.time, r.data[0]])).toEqual([[0, 0xfb], [0, 3], [200, 4]]);
+    });
+
+    it("should only take keyframes on SLIP frame boundaries", () => {
+      const history = new SerialHistory(10000, keyframe, 1000);
+      history.recordIn(new Uint8Array([1, END]), 0);
+      history.recordIn(new Uint8Array([2]), 1100);       // keyframe, then a frame left open
+      history.recordIn(new Uint8Array([3, END]), 2200);  // no keyframe mid-frame
+      history.recordIn(new Uint8Array([4, END]), 2300);
+
+      const window = history.capture(2250, 3000)!;
+      expect(window.startedAt).toBe(2250);
+      expect(window.records.map((r) => r.data[0])).toEqual([0xfb, 2, 3, 4]);
+    });
+
+    it("should drop traffic older than the window", () => {
+      const history = new SerialHistory(1000, keyframe, 500);
+      for (let t = 0; t <= 5000; t += 100) history.recordIn(new Uint8Array([t / 100, END]), t);
+
+      const window = history.capture(0, 5000)!;
+      expect(window.startedAt).toBeGreaterThanOrEqual(3500);
+      expect(window.records[0]!.data[0]).toBe(0xfb);
+    });
+
+    it("should return null before any traffic", () => {
+      expect(new SerialHistory(1000, keyframe).capture(0)).toBeNull();
+    });
+  });
+
+  describe("replay transport", () => {
+    const session: CaptureData = {
+      startedAt: 0,
+      records: [
+        { time: 0, direction: "in", data: new Uint8Array([1]) },
+        { time: 5, direction: "out", data: new Uint8Array([0x43, 0x00]) },
+        { time: 40, direction: "in", data: new Uint8Array([2]) },
+      ],
+    };
+
+    it("should deliver only inbound records, in order", async () => {
+      const received: number[] = [];
+      const onEnd = mock(() => {});
+      const factory = createReplayTransport(session, { speed: 4, onEnd });
+
+      const transport = await factory("replay", 115200, handlers((d) => received.push(...d)));
+      await delay(40);
+      await transport.close();
+
+      expect(received).toEqual([1, 2]);
+      expect(onEnd).toHaveBeenCalled();
+    });
+
+    it("should respect playback speed", async () => {
+      const received: number[] = [];
+      const factory = createReplayTransport(session, { speed: 1 });
+
+      const transport = await factory("replay", 115200, handlers((d) => received.push(...d)));
+      await delay(15);
+      await transport.close();
+
+      expect(received).toEqual([1]);
+    });
+
+    it("should stop delivering after close", async () => {
+      const received: number[] = [];
+      const factory = createReplayTransport(session, { speed: 1 });
+
+      const transport = await factory("replay", 115200, handlers((d) => received.push(...d)));
+      await transport.close();
+      await delay(60);
+
+      expect(received).toEqual([]);
+    });
+  });
+});
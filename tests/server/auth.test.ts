@@ -0,0 +1,273 @@
+/**
+ * Auth Tests
+ * Token parsing, route roles, WebSocket upgrades, per-token input clients and the TCP proxy handshake
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import * as net from "net";
+import {
+  Authenticator,
+  parseAuthTokens,
+  requiredRole,
+  requiredWsRole,
+  hasRole,
+  tokenFromRequest,
+  type Principal,
+} from "../../src/server/auth";
+import { TcpProxy } from "../../src/server/tcp-proxy";
+import { M8Server } from "../../src/server/http";
+import { M8Connection } from "../../src/serial/connection";
+import { TextBuffer } from "../../src/display/buffer";
+import { WebSocket } from "ws";
+
+const TEST_PORT = 13391;
+const TEST_HTTP_PORT = 18391;
+
+describe("parseAuthTokens", () => {
+  it("should parse named and unnamed entries", () => {
+    const tokens = parseAuthTokens("alice:s3cret:admin, v13w:viewer,");
+
+    expect(tokens.get("s3cret")).toEqual({ name: "alice", role: "admin" });
+    expect(tokens.get("v13w")).toEqual({ name: "token2", role: "viewer" });
+    expect(parseAuthTokens("").size).toBe(0);
+  });
+
+  it("should reject malformed entries", () => {
+    expect(() => parseAuthTokens("abc:owner")).toThrow("entry #1");
+    expect(() => parseAuthTokens("justatoken")).toThrow();
+  });
+});
+
+describe("Authenticator", () => {
+  it("should treat everyone as admin when no tokens are configured", () => {
+    const auth = new Authenticator();
+    expect(auth.isEnabled()).toBe(false);
+    expect(auth.authenticate(null)?.role).toBe("admin");
+  });
+
+  it("should resolve known tokens only", () => {
+    const auth = new Authenticator(parseAuthTokens("bob:pl4y:player"));
+    expect(auth.authenticate("pl4y")).toEqual({ name: "bob", role: "player" });
+    expect(auth.authenticate("pl4")).toBeNull();
+    expect(auth.authenticate(undefined)).toBeNull();
+  });
+
+  it("should read tokens from header, bearer or query", () => {
+    const req = (url: string, headers: Record<string, string> = {}) => ({ url, headers }) as any;
+    expect(tokenFromRequest(req("/api/state", { authorization: "Bearer abc" }))).toBe("abc");
+    expect(tokenFromRequest(req("/api/state", { "x-m8-token": "def" }))).toBe("def");
+    expect(tokenFromRequest(req("/control?observe=1&token=ghi"))).toBe("ghi");
+    expect(tokenFromRequest(req("/api/state"))).toBeNull();
+  });
+});
+
+describe("requiredRole", () => {
+  it("should map routes to roles", () => {
+    expect(requiredRole("GET", "health")).toBeNull();
+    expect(requiredRole("GET", "health/detailed")).toBeNull();
+    expect(requiredRole("GET", "screen/text")).toBe("viewer");
+    expect(requiredRole("POST", "key/up")).toBe("player");
+    expect(requiredRole("POST", "macro")).toBe("player");
+    expect(requiredRole("POST", "usb/reset/nuclear")).toBe("admin");
+    expect(requiredRole("POST", "port")).toBe("admin");
+    expect(requiredRole("GET", "port")).toBe("viewer");
+    expect(requiredRole("POST", "capture/start")).toBe("admin");
+  });
+
+  it("should let viewers open stream sockets but not legacy input", () => {
+    expect(requiredWsRole("/screen")).toBe("viewer");
+    expect(requiredWsRole("/control")).toBe("viewer");
+    expect(requiredWsRole("/ws")).toBe("player");
+    expect(requiredWsRole("/anything")).toBe("player");
+  });
+
+  it("should order roles", () => {
+    const player: Principal = { name: "p", role: "player" };
+    expect(hasRole(player, "viewer")).toBe(true);
+    expect(hasRole(player, "admin")).toBe(false);
+  });
+});
+
+describe("TcpProxy handshake", () => {
+  let proxy: TcpProxy;
+
+  afterEach(async () => {
+    await proxy.stop();
+  });
+
+  const start = async () => {
+    const received: { data: number[]; id: string }[] = [];
+    const connected: Principal[] = [];
+    proxy = new TcpProxy({
+      port: TEST_PORT,
+      auth: new Authenticator(parseAuthTokens("carol:t0k:player")),
+      onClientData: (data, id) => received.push({ data: [...data], id }),
+      onConnect: (_id, _address, principal) => connected.push(principal),
+    });
+    await proxy.start();
+    return { received, connected };
+  };
+
+  const connect = async (payload: Buffer) => {
+    const socket = net.connect(TEST_PORT, "127.0.0.1");
+    await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+    const chunks: Buffer[] = [];
+    const closed = new Promise<void>((resolve) => socket.once("close", () => resolve()));
+    socket.on("data", (chunk: Buffer) => chunks.push(chunk));
+    socket.write(payload);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return { socket, reply: () => Buffer.concat(chunks), closed };
+  };
+
+  it("should accept a valid token and forward the bytes after it", async () => {
+    const { received, connected } = await start();
+    const { socket, reply } = await connect(Buffer.from([0x54, 3, ...Buffer.from("t0k"), 0x45, 0x52]));
+
+    expect([...reply()]).toEqual([0x54, 0, 1, 2]);
+    expect(connected).toEqual([{ name: "carol", role: "player" }]);
+    expect(received.map((r) => r.data)).toEqual([[0x45, 0x52]]);
+
+    proxy.broadcast(new Uint8Array([0xc0]));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect([...reply().subarray(4)]).toEqual([0x44, 0, 1, 0xc0]);
+    socket.destroy();
+  });
+
+  it("should deny a wrong token and send nothing else", async () => {
+    const { received, connected } = await start();
+    const { reply, closed } = await connect(Buffer.from([0x54, 3, ...Buffer.from("bad")]));
+    await closed;
+
+    expect([...reply()]).toEqual([0x54, 0, 1, 0]);
+    expect(connected).toEqual([]);
+    expect(received).toEqual([]);
+  });
+
+  it("should deny clients that skip the handshake", async () => {
+    const { received } = await start();
+    const { reply, closed } = await connect(Buffer.from([0x43, 0x40]));
+    await closed;
+
+    expect([...reply()]).toEqual([0x54, 0, 1, 0]);
+    expect(received).toEqual([]);
+  });
+});
+
+describe("WebSocket upgrade", () => {
+  let server: M8Server;
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  // HTTP status of the upgrade (101 = accepted)
+  const upgrade = (path: string, token: string) =>
+    new Promise<number>((resolve) => {
+      const ws = new WebSocket(`ws://127.0.0.1:${TEST_HTTP_PORT}${path}?token=${token}`);
+      ws.once("open", () => {
+        ws.close();
+        resolve(101);
+      });
+      ws.once("unexpected-response", (_req, res) => resolve(res.statusCode ?? 0));
+      ws.once("error", () => resolve(0));
+    });
+
+  it("should keep viewers off input paths, including unknown ones that fall back to legacy /ws", async () => {
+    server = new M8Server({
+      port: TEST_HTTP_PORT,
+      connection: new M8Connection({ autoReconnect: false }),
+      buffer: new TextBuffer(),
+      auth: new Authenticator(parseAuthTokens("vera:v13w:viewer")),
+    });
+    server.start();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await upgrade("/control", "v13w")).toBe(101);
+    expect(await upgrade("/ws", "v13w")).toBe(403);
+    expect(await upgrade("/anything", "v13w")).toBe(403);
+  });
+});
+
+describe("HTTP input clients", () => {
+  let server: M8Server;
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  const post = async (path: string, token: string, body?: object) => {
+    const res = await fetch(`http://127.0.0.1:${TEST_HTTP_PORT}/api/${path}`, {
+      method: "POST",
+      headers: { "X-M8-Token": token, "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return { status: res.status, body: await res.json() as Record<string, unknown> };
+  };
+
+  it("should give each token its own arbiter client, so a driver lock refuses other tokens", async () => {
+    server = new M8Server({
+      port: TEST_HTTP_PORT,
+      connection: new M8Connection({ autoReconnect: false }),
+      buffer: new TextBuffer(),
+      auth: new Authenticator(parseAuthTokens("ann:4nn:player,ben:b3n:player")),
+    });
+    server.start();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const lock = await post("session/lock", "4nn", { action: "request" });
+    expect(lock.status).toBe(200);
+    expect(lock.body.session).toMatchObject({ driver: { id: "http:ann" } });
+
+    expect((await post("raw", "b3n", { bitmask: 0 })).status).toBe(423);
+    expect((await post("session/lock", "b3n", { action: "grant", to: "http:ben" })).status).toBe(423);
+    expect((await post("raw", "4nn", { bitmask: 0 })).status).toBe(200);
+  });
+});
+
+describe("Macro cancel", () => {
+  let server: M8Server;
+
+  afterEach(() => {
+    server.stop();
+  });
+
+  const request = (method: string, path: string, token: string, body?: object) =>
+    fetch(`http://127.0.0.1:${TEST_HTTP_PORT}/api/${path}`, {
+      method,
+      headers: { "X-M8-Token": token, "Content-Type": "application/json" },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  it("should refuse viewers on /control and other tokens while the driver holds the lock", async () => {
+    server = new M8Server({
+      port: TEST_HTTP_PORT,
+      connection: new M8Connection({ autoReconnect: false }),
+      buffer: new TextBuffer(),
+      auth: new Authenticator(parseAuthTokens("ann:4nn:player,ben:b3n:player,vera:v13w:viewer")),
+    });
+    server.start();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await request("POST", "session/lock", "4nn", { action: "request" });
+    const macro = request("POST", "macro", "4nn", { macro: "wait:2000" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const ws = new WebSocket(`ws://127.0.0.1:${TEST_HTTP_PORT}/control?token=v13w`);
+    const rejected = new Promise<Record<string, unknown>>((resolve) => {
+      ws.on("message", (data) => {
+        const msg = JSON.parse(data.toString());
+        if (msg.type === "rejected") resolve(msg);
+      });
+    });
+    await new Promise((resolve) => ws.once("open", resolve));
+    ws.send(JSON.stringify({ type: "macroCancel" }));
+    expect(await rejected).toMatchObject({ error: "Observers are read-only" });
+    ws.close();
+
+    expect((await request("POST", "macro/cancel", "b3n")).status).toBe(423);
+    expect(((await (await request("GET", "macro", "4nn")).json()) as { running: unknown }).running).not.toBeNull();
+
+    expect(await (await request("POST", "macro/cancel", "4nn")).json()).toEqual({ ok: true, cancelled: true });
+    expect(((await (await macro).json()) as { status: string }).status).toBe("cancelled");
+  });
+});
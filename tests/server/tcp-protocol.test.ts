@@ -0,0 +1,307 @@
+/**
+ * TCP Protocol v2 Tests
+ * Packet codec, hello negotiation, framed input, ping/pong, status and v1 compatibility
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import * as net from "net";
+import { inflateRawSync } from "zlib";
+import {
+  PacketParser,
+  encodePacket,
+  encodeHello,
+  decodeHello,
+  decodeServerHello,
+  encodeServerHello,
+  encodeStatus,
+  decodeStatus,
+  encodeTimestamp,
+  decodeTimestamp,
+  encodeClockReply,
+  decodeClockReply,
+  CAP_AUDIO,
+  CAP_COMPRESSION,
+  CAP_DELTA,
+  CAP_TIMESTAMPS,
+  CODEC_OPUS,
+  CODEC_PCM,
+  FLAG_AUTH_REQUIRED,
+  SAMPLE_ULAW,
+  type Packet,
+} from "../../src/server/tcp-protocol";
+import { TcpProxy } from "../../src/server/tcp-proxy";
+import { Authenticator, parseAuthTokens } from "../../src/server/auth";
+
+const TEST_PORT = 13393;
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("tcp-protocol codec", () => {
+  it("should parse split and concatenated packets", () => {
+    const parser = new PacketParser();
+    const stream = Buffer.concat([encodePacket(0x44, Buffer.from([1, 2, 3])), encodePacket(0x50), encodePacket(0x41, Buffer.from([9]))]);
+
+    const first = parser.push(stream.subarray(0, 5));
+    const rest = parser.push(stream.subarray(5));
+
+    expect(first).toEqual([]);
+    expect(rest.map((p) => [p.header, [...p.payload]])).toEqual([[0x44, [1, 2, 3]], [0x50, []], [0x41, [9]]]);
+  });
+
+  it("should reject payloads over 64 KiB", () => {
+    expect(() => encodePacket(0x44, new Uint8Array(0x10000))).toThrow(RangeError);
+  });
+
+  it("should round-trip hello and default missing fields to v1 behaviour", () => {
+    const hello = { version: 2, capabilities: CAP_AUDIO | CAP_DELTA, codec: CODEC_PCM };
+    expect(decodeHello(encodeHello(hello).subarray(3))).toEqual(hello);
+    expect(decodeHello(Buffer.from([2]))).toEqual({ version: 2, capabilities: CAP_AUDIO, codec: CODEC_PCM });
+
+    const opus = { version: 2, capabilities: CAP_AUDIO, codec: CODEC_OPUS, opus: { bitrate: 96, frameMs: 10 } };
+    expect(decodeHello(encodeHello(opus).subarray(3))).toEqual(opus);
+
+    const pcm = { version: 2, capabilities: CAP_AUDIO, codec: CODEC_PCM, pcm: { sampleRate: 48000, channels: 1, sampleFormat: SAMPLE_ULAW } };
+    expect(decodeHello(encodeHello(pcm).subarray(3))).toEqual(pcm);
+    const server = { ...pcm, flags: 0 };
+    expect(decodeServerHello(encodeServerHello(server).subarray(3))).toEqual(server);
+  });
+
+  it("should round-trip status", () => {
+    const status = { connected: true, hardwareType: 3, firmware: { major: 6, minor: 0, patch: 1 } };
+    expect(decodeStatus(encodeStatus(status).subarray(3))).toEqual(status);
+    expect(decodeStatus(encodeStatus({ connected: false, hardwareType: null, firmware: null }).subarray(3)))
+      .toEqual({ connected: false, hardwareType: null, firmware: null });
+  });
+
+  it("should round-trip timestamps and clock replies", () => {
+    expect(decodeTimestamp(encodeTimestamp(0x41, 5_000_000_123).subarray(3))).toEqual({ stream: 0x41, timestamp: 5_000_000_123 });
+    const reply = decodeClockReply(encodeClockReply({ serverTime: 42_000, playoutDelayMs: 150, echo: Buffer.from([7, 8]) }).subarray(3));
+    expect(reply).toEqual({ serverTime: 42_000, playoutDelayMs: 150, echo: Buffer.from([7, 8]) });
+  });
+});
+
+describe("TcpProxy protocol v2", () => {
+  let proxy: TcpProxy;
+
+  afterEach(async () => {
+    await proxy.stop();
+  });
+
+  const start = async (auth?: Authenticator) => {
+    const received: number[][] = [];
+    proxy = new TcpProxy({
+      port: TEST_PORT,
+      auth,
+      batchIntervalMs: 1,
+      pingIntervalMs: 0,
+      onClientData: (data) => received.push([...data]),
+    });
+    await proxy.start();
+    return received;
+  };
+
+  const connect = async () => {
+    const socket = net.connect(TEST_PORT, "127.0.0.1");
+    await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+    const parser = new PacketParser();
+    const packets: Packet[] = [];
+    socket.on("data", (chunk: Buffer) => packets.push(...parser.push(chunk)));
+    return { socket, packets };
+  };
+
+  it("should negotiate capabilities and send status after hello", async () => {
+    await start();
+    proxy.setStatus({ connected: true, hardwareType: 3, firmware: { major: 6, minor: 2, patch: 0 } });
+    const { socket, packets } = await connect();
+
+    socket.write(encodeHello({ version: 2, capabilities: CAP_AUDIO | CAP_DELTA | CAP_COMPRESSION, codec: 7 }));
+    await wait();
+
+    expect(packets.map((p) => p.header)).toEqual([0x48, 0x53]);
+    expect(decodeServerHello(packets[0]!.payload)).toEqual({
+      version: 2,
+      capabilities: CAP_AUDIO | CAP_DELTA | CAP_COMPRESSION,
+      codec: CODEC_PCM, // Unknown codec falls back to PCM
+      flags: 0,
+    });
+    expect(decodeStatus(packets[1]!.payload).firmware).toEqual({ major: 6, minor: 2, patch: 0 });
+    expect(proxy.getClients()[0]).toMatchObject({ protocol: 2, displayMode: "delta" });
+    socket.destroy();
+  });
+
+  it("should forward framed input and answer pings", async () => {
+    const received = await start();
+    const { socket, packets } = await connect();
+
+    socket.write(Buffer.concat([
+      encodeHello({ version: 2, capabilities: 0, codec: CODEC_PCM }),
+      encodePacket(0x49, Buffer.from([0x43, 0x40])),
+      encodePacket(0x50, Buffer.from([0xde, 0xad])),
+      encodePacket(0x7e, Buffer.from([1])), // Unknown: ignored
+    ]));
+    await wait();
+
+    expect(received).toEqual([[0x43, 0x40]]);
+    expect(packets.find((p) => p.header === 0x4f)?.payload).toEqual(Buffer.from([0xde, 0xad]));
+    socket.destroy();
+  });
+
+  it("should leave audio out and compress display for clients that asked", async () => {
+    await start();
+    const plain = await connect();
+    const packed = await connect();
+    plain.socket.write(encodeHello({ version: 2, capabilities: 0, codec: CODEC_PCM }));
+    packed.socket.write(encodeHello({ version: 2, capabilities: CAP_COMPRESSION, codec: CODEC_PCM }));
+    await wait();
+
+    proxy.broadcastAudio(Buffer.alloc(16));
+    proxy.broadcast(new Uint8Array(200).fill(0xfe));
+    await wait();
+
+    const display = plain.packets.filter((p) => p.header !== 0x48 && p.header !== 0x53);
+    expect(display.map((p) => p.header)).toEqual([0x44]);
+
+    const compressed = packed.packets.find((p) => p.header === 0x5a)!;
+    const inner = new PacketParser().push(inflateRawSync(compressed.payload));
+    expect(inner.map((p) => [p.header, p.payload.length])).toEqual([[0x44, 200]]);
+    plain.socket.destroy();
+    packed.socket.destroy();
+  });
+
+  it("should send Opus packets to clients that negotiated Opus", async () => {
+    await start();
+    const pcm = await connect();
+    const opus = await connect();
+    pcm.socket.write(encodeHello({ version: 2, capabilities: CAP_AUDIO, codec: CODEC_PCM }));
+    opus.socket.write(encodeHello({ version: 2, capabilities: CAP_AUDIO, codec: CODEC_OPUS, opus: { bitrate: 1000, frameMs: 0 } }));
+    await wait();
+
+    expect(decodeServerHello(opus.packets[0]!.payload)).toMatchObject({ codec: CODEC_OPUS, opus: { bitrate: 510, frameMs: 20 } });
+    expect(proxy.getClients().find((c) => c.codec === CODEC_OPUS)?.opus).toEqual({ bitrate: 510, frameMs: 20 });
+
+    proxy.broadcastAudio(Buffer.alloc(2205 * 4)); // 50ms: two 20ms Opus packets
+    await wait();
+
+    const audio = (packets: Packet[]) => packets.filter((p) => p.header === 0x41).map((p) => p.payload.length);
+    expect(audio(pcm.packets)).toEqual([2205 * 4]);
+    expect(audio(opus.packets).length).toBe(2);
+    pcm.socket.destroy();
+    opus.socket.destroy();
+  });
+
+  it("should convert PCM for clients that asked for another format, once per format", async () => {
+    await start();
+    const native = await connect();
+    const mono = [await connect(), await connect()];
+    native.socket.write(encodeHello({ version: 2, capabilities: CAP_AUDIO, codec: CODEC_PCM }));
+    for (const client of mono) {
+      client.socket.write(encodeHello({
+        version: 2, capabilities: CAP_AUDIO, codec: CODEC_PCM, pcm: { sampleRate: 22050, channels: 1, sampleFormat: SAMPLE_ULAW },
+      }));
+    }
+    await wait();
+
+    expect(decodeServerHello(mono[0]!.packets[0]!.payload).pcm).toEqual({ sampleRate: 22050, channels: 1, sampleFormat: SAMPLE_ULAW });
+    expect(proxy.getClients().filter((c) => c.format).map((c) => c.format))
+      .toEqual([{ sampleRate: 22050, channels: 1, sampleFormat: "ulaw" }, { sampleRate: 22050, channels: 1, sampleFormat: "ulaw" }]);
+
+    proxy.broadcastAudio(Buffer.alloc(4410 * 4)); // 100ms
+    await wait();
+
+    const audio = (packets: Packet[]) => packets.filter((p) => p.header === 0x41);
+    expect(audio(native.packets).map((p) => p.payload.length)).toEqual([4410 * 4]);
+    for (const client of mono) {
+      const [packet] = audio(client.packets);
+      // ~2205 one-byte frames, µ-law silence is 0xFF
+      expect(Math.abs(packet!.payload.length - 2205)).toBeLessThanOrEqual(1);
+      expect(packet!.payload.every((byte) => byte === 0xff)).toBe(true);
+    }
+    native.socket.destroy();
+    for (const client of mono) client.socket.destroy();
+  });
+
+  it("should timestamp display batches and audio for clients that asked, and answer clock sync", async () => {
+    await start();
+    const plain = await connect();
+    const timed = await connect();
+    plain.socket.write(encodeHello({ version: 2, capabilities: CAP_AUDIO, codec: CODEC_PCM }));
+    timed.socket.write(Buffer.concat([
+      encodeHello({ version: 2, capabilities: CAP_AUDIO | CAP_TIMESTAMPS, codec: CODEC_PCM }),
+      encodePacket(0x43, Buffer.from([1, 2, 3])),
+    ]));
+    await wait();
+
+    proxy.broadcast(new Uint8Array([0xfe, 1, 0xc0]), 1_000_000);
+    proxy.broadcast(new Uint8Array([0xfe, 2, 0xc0]), 1_004_000); // Same batch: first chunk's time
+    proxy.broadcastAudio(Buffer.alloc(8), 2_000_000);
+    await wait();
+
+    // Audio goes out at once, display with the next batch (one mark per batch)
+    const data = (packets: Packet[]) => packets.filter((p) => [0x44, 0x41, 0x4d].includes(p.header));
+    expect(data(plain.packets).map((p) => p.header)).toEqual([0x41, 0x44, 0x44]);
+    const stamped = data(timed.packets);
+    expect(stamped.map((p) => p.header)).toEqual([0x4d, 0x41, 0x4d, 0x44, 0x44]);
+    expect(decodeTimestamp(stamped[0]!.payload)).toEqual({ stream: 0x41, timestamp: 2_000_000 });
+    expect(decodeTimestamp(stamped[2]!.payload)).toEqual({ stream: 0x44, timestamp: 1_000_000 });
+
+    const clock = decodeClockReply(timed.packets.find((p) => p.header === 0x43)!.payload);
+    expect(clock.echo).toEqual(Buffer.from([1, 2, 3]));
+    expect(clock.playoutDelayMs).toBe(150);
+    expect(clock.serverTime).toBeGreaterThan(0);
+    plain.socket.destroy();
+    timed.socket.destroy();
+  });
+
+  it("should stream raw or delta display per client", async () => {
+    await start();
+    const raw = await connect();
+    const delta = await connect();
+    raw.socket.write(encodeHello({ version: 2, capabilities: 0, codec: CODEC_PCM }));
+    delta.socket.write(encodeHello({ version: 2, capabilities: CAP_DELTA, codec: CODEC_PCM }));
+    await wait();
+
+    proxy.broadcast(new Uint8Array([0xfe, 1, 0xc0, 0xfe, 1, 0xc0]));
+    proxy.broadcastDelta(new Uint8Array([0xfe, 1, 0xc0]));
+    await wait();
+
+    const display = (packets: Packet[]) => packets.filter((p) => p.header === 0x44).map((p) => [...p.payload]);
+    expect(display(raw.packets)).toEqual([[0xfe, 1, 0xc0, 0xfe, 1, 0xc0]]);
+    expect(display(delta.packets)).toEqual([[0xfe, 1, 0xc0]]);
+    expect(proxy.getDisplayStats().find((s) => s.mode === "delta")).toEqual({ mode: "delta", bytes: 6, rawBytes: 9 });
+    raw.socket.destroy();
+    delta.socket.destroy();
+  });
+
+  it("should require a framed token when auth is enabled", async () => {
+    const received = await start(new Authenticator(parseAuthTokens("dan:k3y:player")));
+    const { socket, packets } = await connect();
+
+    socket.write(encodeHello({ version: 2, capabilities: 0, codec: CODEC_PCM }));
+    await wait();
+    expect(decodeServerHello(packets[0]!.payload).flags).toBe(FLAG_AUTH_REQUIRED);
+    expect(packets.length).toBe(1);
+
+    socket.write(Buffer.concat([encodePacket(0x54, Buffer.from("k3y")), encodePacket(0x49, Buffer.from([0x45]))]));
+    await wait();
+
+    expect(packets.slice(1).map((p) => [p.header, [...p.payload]])).toEqual([[0x54, [2]], [0x53, [0, 0xff, 0, 0, 0]]]);
+    expect(received).toEqual([[0x45]]);
+    socket.destroy();
+  });
+
+  it("should keep v1 clients on raw input", async () => {
+    const received = await start();
+    const { socket, packets } = await connect();
+
+    socket.write(Buffer.from([0x45, 0x43, 0x01]));
+    await wait();
+    proxy.setStatus({ connected: true });
+    proxy.broadcastAudio(Buffer.alloc(4));
+    await wait();
+
+    expect(received).toEqual([[0x45, 0x43, 0x01]]);
+    expect(packets.map((p) => p.header)).toEqual([0x41]); // No hello or status for v1
+    expect(proxy.getClients()[0]!.protocol).toBe(1);
+    socket.destroy();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * TcpProxy Tests
+ * Slow clients: bounded queues, dropped audio, display drop + resync; screen snapshot on join
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import * as net from "net";
+import { TcpProxy } from "../../src/server/tcp-proxy";
+
+const TEST_PORT = 13394;
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("TcpProxy backpressure", () => {
+  let proxy: TcpProxy;
+  let socket: net.Socket;
+
+  afterEach(async () => {
+    socket.destroy();
+    await proxy.stop();
+  });
+
+  const start = async (snapshots: number[] = []) => {
+    proxy = new TcpProxy({
+      port: TEST_PORT,
+      pingIntervalMs: 0,
+      batchIntervalMs: 1,
+      audioHighWater: 64 * 1024,
+      displayHighWater: 128 * 1024,
+      getSnapshot: () => {
+        snapshots.push(Date.now());
+        return new Uint8Array([0xc0, 0xfe, 0xc0]);
+      },
+    });
+    await proxy.start();
+
+    // A client that stops reading: the kernel buffers fill, then the socket queue grows
+    socket = net.connect(TEST_PORT, "127.0.0.1");
+    await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+    socket.pause();
+    await wait();
+  };
+
+  it("should drop audio instead of queueing it without bound", async () => {
+    await start();
+
+    for (let i = 0; i < 400; i++) {
+      proxy.broadcastAudio(Buffer.alloc(16000));
+      if (i % 20 === 0) await wait(5);
+    }
+
+    const client = proxy.getClients()[0]!;
+    expect(client.stats.droppedAudio).toBeGreaterThan(0);
+    expect(client.queuedBytes).toBeLessThanOrEqual(64 * 1024);
+  });
+
+  it("should drop display while lagging and resync once drained", async () => {
+    const snapshots: number[] = [];
+    await start(snapshots);
+    expect(snapshots.length).toBe(1); // On join
+
+    for (let i = 0; i < 200 && !proxy.getClients()[0]!.resyncPending; i++) {
+      proxy.broadcast(new Uint8Array(60000));
+      await wait(2);
+    }
+    proxy.broadcast(new Uint8Array(100));
+    await wait(10);
+
+    const lagging = proxy.getClients()[0]!;
+    expect(lagging.resyncPending).toBe(true);
+    expect(lagging.stats.droppedDisplay).toBeGreaterThanOrEqual(2);
+    expect(snapshots.length).toBe(1);
+
+    // Client catches up: one resync, display flows again
+    socket.on("data", () => {});
+    socket.resume();
+    for (let i = 0; i < 100 && snapshots.length === 1; i++) await wait(10);
+    expect(snapshots.length).toBe(2);
+
+    const sent = proxy.getClients()[0]!.stats.sentBytes;
+    proxy.broadcast(new Uint8Array(10));
+    await wait(10);
+    expect(proxy.getClients()[0]!.stats).toMatchObject({ resyncs: 1, sentBytes: sent + 13 });
+  });
+
+  it("should send the current screen as display packets on join", async () => {
+    await start();
+    const chunks: Buffer[] = [];
+    socket.on("data", (chunk: Buffer) => chunks.push(chunk));
+    socket.resume();
+    await wait();
+
+    expect([...Buffer.concat(chunks)]).toEqual([0x44, 0, 3, 0xc0, 0xfe, 0xc0]);
+  });
+});
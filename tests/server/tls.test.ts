@@ -0,0 +1,71 @@
+/**
+ * TLS Tests
+ * Certificate loading, self-signed generation and the TLS TCP proxy port
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import * as tls from "tls";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadTlsOptions, type TlsOptions } from "../../src/server/tls";
+import { TcpProxy } from "../../src/server/tcp-proxy";
+
+const TEST_TLS_PORT = 13392;
+
+describe("loadTlsOptions", () => {
+  let dir: string;
+  let generated: TlsOptions | null;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "m8-tls-"));
+    generated = await loadTlsOptions(join(dir, "certs/test.crt"), join(dir, "certs/test.key"), true);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should be disabled without paths or self-signed generation", async () => {
+    expect(await loadTlsOptions("", "")).toBeNull();
+  });
+
+  it("should fail on missing files unless self-signed is allowed", async () => {
+    await expect(loadTlsOptions(join(dir, "nope.crt"), join(dir, "nope.key"))).rejects.toThrow("not found");
+  });
+
+  it("should generate a self-signed pair and reuse it", async () => {
+    expect(generated!.cert.toString()).toContain("BEGIN CERTIFICATE");
+    expect(generated!.key.toString()).toContain("PRIVATE KEY");
+
+    const again = await loadTlsOptions(join(dir, "certs/test.crt"), join(dir, "certs/test.key"), true);
+    expect(again!.cert.equals(generated!.cert)).toBe(true);
+  });
+
+  it("should serve the TCP proxy protocol over TLS", async () => {
+    const received: number[][] = [];
+    const proxy = new TcpProxy({
+      port: 0,
+      tls: generated!,
+      tlsPort: TEST_TLS_PORT,
+      onClientData: (data) => received.push([...data]),
+    });
+    await proxy.start();
+
+    const socket = tls.connect({ port: TEST_TLS_PORT, host: "127.0.0.1", rejectUnauthorized: false });
+    await new Promise<void>((resolve) => socket.once("secureConnect", () => resolve()));
+    const chunks: Buffer[] = [];
+    socket.on("data", (chunk: Buffer) => chunks.push(chunk));
+
+    socket.write(Buffer.from([0x45]));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    proxy.broadcast(new Uint8Array([0xc0]));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(received).toEqual([[0x45]]);
+    expect([...Buffer.concat(chunks)]).toEqual([0x44, 0, 1, 0xc0]);
+
+    socket.destroy();
+    await proxy.stop();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Navigator Tests
+ * Path planning + navigation against the emulator's rendered screen
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Navigator, planScreenPath } from "../../src/state/navigator";
+import { VirtualM8 } from "../../src/emulator/virtual-m8";
+import { TextBuffer } from "../../src/display/buffer";
+import { SlipDecoder } from "../../src/serial/slip";
+import { parseCommand } from "../../src/serial/commands";
+import { parseTextBuffer } from "../../src/display/screen-parser";
+import { keyToBitmask } from "../../src/input/keys";
+import type { M8KeyName } from "../../src/state/types";
+import type { M8Transport } from "../../src/serial/transport";
+
+describe("planScreenPath", () => {
+  it("should find the shortest path between views", () => {
+    expect(planScreenPath("SONG", "PHRASE")).toEqual(["right", "right"]);
+    expect(planScreenPath("SONG", "MIXER")).toEqual(["down"]);
+    expect(planScreenPath("SONG", "SONG")).toEqual([]);
+  });
+
+  it("should return from MIXER to the last horizontal view", () => {
+    expect(planScreenPath("MIXER", "PHRASE", "PHRASE")).toEqual(["up"]);
+    expect(planScreenPath("MIXER", "SONG", "SONG")).toEqual(["up"]);
+  });
+});
+
+describe("Navigator", () => {
+  let emulator: VirtualM8;
+  let buffer: TextBuffer;
+  let transport: M8Transport;
+  let navigator: Navigator;
+
+  beforeEach(async () => {
+    emulator = new VirtualM8({ waveIntervalMs: 0 });
+    buffer = new TextBuffer();
+    const decoder = new SlipDecoder((frame) => {
+      const cmd = parseCommand(frame);
+      if (cmd?.type === "text") buffer.applyText(cmd);
+      if (cmd?.type === "rect") buffer.applyRect(cmd);
+    });
+    transport = emulator.attach({ onData: (data) => decoder.feed(data) });
+    await transport.write(new Uint8Array([0x45]));
+
+    const send = (bitmask: number) => transport.write(new Uint8Array([0x43, bitmask]));
+    navigator = new Navigator({
+      pressKey: async (key: M8KeyName) => {
+        await send(keyToBitmask(key));
+        await send(0);
+      },
+      pressCombo: async (hold: M8KeyName, press: M8KeyName) => {
+        await send(keyToBitmask(hold) | keyToBitmask(press));
+        await send(0);
+      },
+      readScreen: () => parseTextBuffer(buffer),
+      settleMs: 0,
+    });
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  it("should open a phrase through its chain and place the cursor", async () => {
+    const result = await navigator.navigate({ screen: "PHRASE", number: 2, row: 1, col: 2 });
+
+    expect(result).toMatchObject({ ok: true, state: { screen: "PHRASE", number: 2, row: 1, col: 2 } });
+    expect(emulator.getView()).toMatchObject({ screen: "PHRASE", number: 2, row: 1, col: 2 });
+  });
+
+  it("should walk to an unnumbered view", async () => {
+    const result = await navigator.navigate({ screen: "MIXER" });
+
+    expect(result).toMatchObject({ ok: true, state: { screen: "MIXER" }, steps: 1 });
+  });
+
+  it("should open a table through its instrument", async () => {
+    const result = await navigator.navigate({ screen: "TABLE", number: 0 });
+
+    expect(result).toMatchObject({ ok: true, state: { screen: "TABLE", number: 0 } });
+  });
+
+  it("should report where it got stuck for a chain not in the song", async () => {
+    const result = await navigator.navigate({ screen: "CHAIN", number: 0x7f });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toContain("CHAIN 7F not found");
+    expect(result.stuckOn).toMatchObject({ screen: "SONG", title: "SONG" });
+  });
+
+  it("should reject a second navigation while one is running", async () => {
+    const first = navigator.navigate({ screen: "PHRASE", number: 0 });
+    expect(navigator.isBusy()).toBe(true);
+
+    const second = await navigator.navigate({ screen: "SONG" });
+    expect(second).toMatchObject({ ok: false, error: "Navigation already in progress" });
+    expect((await first).ok).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * M8StateTracker Tests
+ * Key-press prediction reconciled against the screen
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { M8StateTracker, observeScreen, type DriftEvent } from "../../src/state/tracker";
+import { VirtualM8 } from "../../src/emulator/virtual-m8";
+import { TextBuffer } from "../../src/display/buffer";
+import { SlipDecoder } from "../../src/serial/slip";
+import { parseCommand } from "../../src/serial/commands";
+import { M8Key } from "../../src/state/types";
+import type { M8Transport } from "../../src/serial/transport";
+
+describe("M8StateTracker.syncFromScreen", () => {
+  it("should keep state and report no drift when prediction matches", () => {
+    const tracker = new M8StateTracker();
+    tracker.onKey("down");
+
+    const events = tracker.syncFromScreen({ screen: "SONG", number: null, row: 1, col: 0 });
+
+    expect(events).toEqual([]);
+    expect(tracker.getState()).toMatchObject({ screen: "SONG", row: 1, confidence: 1 });
+  });
+
+  it("should correct drifted fields and report them", () => {
+    const tracker = new M8StateTracker();
+    const received: DriftEvent[][] = [];
+    tracker.onDrift((events) => received.push(events));
+
+    const events = tracker.syncFromScreen({ screen: "PHRASE", number: 0x0a, row: 3, col: null });
+
+    expect(events.map((e) => [e.field, e.predicted, e.observed])).toEqual([
+      ["screen", "SONG", "PHRASE"],
+      ["number", 0, 0x0a],
+      ["row", 0, 3],
+    ]);
+    expect(tracker.getState()).toMatchObject({ screen: "PHRASE", number: 0x0a, row: 3, col: 0 });
+    expect(received).toEqual([events]);
+    expect(tracker.getDriftEvents().length).toBe(3);
+  });
+
+  it("should restore confidence after verification", () => {
+    const tracker = new M8StateTracker();
+    for (let i = 0; i < 20; i++) tracker.onCombo("shift", "right");
+    expect(tracker.getState().confidence).toBeLessThan(1);
+
+    tracker.verify({ screen: "TABLE", number: 0, row: 0, col: 0 });
+    expect(tracker.getState().confidence).toBe(1);
+  });
+
+  it("should leave state alone when nothing is readable", () => {
+    const tracker = new M8StateTracker();
+    tracker.onKey("down");
+    tracker.verify(null);
+
+    expect(tracker.getState().row).toBe(1);
+    expect(tracker.getDriftEvents()).toEqual([]);
+  });
+
+  it("should stop notifying after unsubscribe", () => {
+    const tracker = new M8StateTracker();
+    let calls = 0;
+    const unsubscribe = tracker.onDrift(() => calls++);
+    unsubscribe();
+
+    tracker.syncFromScreen({ screen: "MIXER", number: null, row: null, col: null });
+    expect(calls).toBe(0);
+  });
+});
+
+describe("observeScreen", () => {
+  let emulator: VirtualM8;
+  let buffer: TextBuffer;
+  let transport: M8Transport;
+
+  beforeEach(async () => {
+    emulator = new VirtualM8({ waveIntervalMs: 0 });
+    buffer = new TextBuffer();
+    const decoder = new SlipDecoder((frame) => {
+      const cmd = parseCommand(frame);
+      if (cmd?.type === "text") buffer.applyText(cmd);
+      if (cmd?.type === "rect") buffer.applyRect(cmd);
+    });
+    transport = emulator.attach({ onData: (data) => decoder.feed(data) });
+    await transport.write(new Uint8Array([0x45]));
+  });
+
+  afterEach(async () => {
+    await transport.close();
+  });
+
+  const press = async (bitmask: number) => {
+    await transport.write(new Uint8Array([0x43, bitmask]));
+    await transport.write(new Uint8Array([0x43, 0]));
+  };
+
+  it("should read view and cursor from the song screen", async () => {
+    await press(M8Key.DOWN);
+    await press(M8Key.RIGHT);
+
+    expect(observeScreen(buffer)).toEqual({ screen: "SONG", number: null, row: 1, col: 1 });
+  });
+
+  it("should read the phrase number and cursor column", async () => {
+    await press(M8Key.RIGHT); // Track 2 → chain 01
+    await press(M8Key.SELECT | M8Key.RIGHT);
+    await press(M8Key.SELECT | M8Key.RIGHT);
+    await press(M8Key.DOWN);
+    await press(M8Key.RIGHT);
+    await press(M8Key.RIGHT);
+
+    expect(observeScreen(buffer)).toEqual({ screen: "PHRASE", number: 2, row: 1, col: 2 });
+    expect(emulator.getView()).toMatchObject({ screen: "PHRASE", number: 2, row: 1, col: 2 });
+  });
+
+  it("should correct a tracker that missed key presses", async () => {
+    const tracker = new M8StateTracker();
+    await press(M8Key.SELECT | M8Key.RIGHT); // Not reported to the tracker
+    await press(M8Key.DOWN);
+
+    const events = tracker.syncFromScreen(observeScreen(buffer)!);
+
+    expect(events.map((e) => e.field)).toEqual(["screen", "row"]);
+    expect(tracker.getState()).toMatchObject({ screen: "CHAIN", number: 0, row: 1, chainNum: 0 });
+  });
+
+  it("should return null for a blank screen", () => {
+    expect(observeScreen(new TextBuffer())).toBeNull();
+  });
+});